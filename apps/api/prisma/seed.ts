@@ -1,4 +1,6 @@
 import { PrismaClient } from '@prisma/client';
+import { hashPassword } from '../src/services/auth/passwords';
+import { gazetteer } from '../src/services/geo/gazetteer';
 
 const prisma = new PrismaClient();
 
@@ -492,10 +494,255 @@ const getImageUrl = (category: string, brand: string) => {
     return images[`${category}-${brand}`] || 'https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=600';
 };
 
+// Demo account for the shopping agent (sign in with these credentials)
+const DEMO_USER_ID = 'demo-user';
+const DEMO_EMAIL = 'demo@tadow.app';
+const DEMO_PASSWORD = 'demo1234';
+const DEMO_TRACKING_NUMBER = '1Z999AA10123456784';
+
+const demoHunts = [
+    { query: 'macbook', category: 'Laptops', brand: 'Apple', maxPrice: 1800, minDealScore: 80, targetDiscount: 10 },
+    { query: 'oled tv', category: 'TVs', maxPrice: 2000, minDealScore: 75 },
+    { query: 'headphones', category: 'Electronics', maxPrice: 350, minDealScore: 70, targetDiscount: 20 },
+];
+
+// Checked through a day ago, so the first saved-search run finds the seeded deals
+const demoSavedSearches = [
+    { query: 'MacBook Pro', filters: { category: 'Laptops', maxPrice: 2000 }, alertsEnabled: true },
+    { query: 'iPhone 15 Pro', filters: { category: 'Phones' }, alertsEnabled: true },
+    { query: 'Nintendo Switch', filters: { category: 'Gaming', maxPrice: 300 }, alertsEnabled: false },
+];
+
+// P2P marketplace demo sellers and listings (ids match the web app's demo profiles)
+const demoSellers = [
+    { id: 'user_sarah', email: 'sarah.chen@example.com', name: 'Sarah Chen' },
+    { id: 'user_mike', email: 'mike.johnson@example.com', name: 'Mike Johnson' },
+    { id: 'user_emma', email: 'emma.wilson@example.com', name: 'Emma Wilson' },
+    { id: 'user_james', email: 'james.tech@example.com', name: 'James Tech' },
+    { id: 'user_lisa', email: 'lisa.gamer@example.com', name: 'Lisa Gaming' },
+];
+
+const demoListings = [
+    {
+        id: 'listing_1',
+        sellerId: 'user_sarah',
+        title: 'MacBook Pro 14" M3 Pro - Like New',
+        description: 'Barely used MacBook Pro 14" with M3 Pro chip. Includes original box, charger, and AppleCare+ until 2026.',
+        category: 'Computers & Laptops',
+        condition: 'like_new',
+        price: 1899,
+        originalPrice: 2499,
+        pricingType: 'negotiable',
+        quantity: 1,
+        images: ['https://images.unsplash.com/photo-1517336714731-489689fd1ca4?w=600', 'https://images.unsplash.com/photo-1496181133206-80ce9b88a853?w=600'],
+        shipping: { type: 'both', cost: 0 },
+        location: { city: 'San Francisco', state: 'CA', zipCode: '94110' },
+        status: 'active',
+        views: 342,
+        saves: 28,
+        aiVerification: { approved: true, score: 95, flags: [], suggestions: [] },
+        createdAt: new Date('2026-01-18'),
+        updatedAt: new Date('2026-01-18'),
+    },
+    {
+        id: 'listing_2',
+        sellerId: 'user_mike',
+        title: 'Sony WH-1000XM5 Headphones',
+        description: 'Sony WH-1000XM5 wireless noise-canceling headphones. Black, excellent condition. Includes case and cable.',
+        category: 'Audio & Headphones',
+        condition: 'excellent',
+        price: 249,
+        originalPrice: 399,
+        pricingType: 'fixed',
+        quantity: 1,
+        images: ['https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=600'],
+        shipping: { type: 'ship', cost: 8 },
+        location: { city: 'Austin', state: 'TX', zipCode: '78704' },
+        status: 'active',
+        views: 156,
+        saves: 12,
+        aiVerification: { approved: true, score: 88, flags: [] },
+        createdAt: new Date('2026-01-17'),
+        updatedAt: new Date('2026-01-17'),
+    },
+    {
+        id: 'listing_3',
+        sellerId: 'user_emma',
+        title: 'iPhone 15 Pro Max 256GB - Titanium',
+        description: 'iPhone 15 Pro Max in Natural Titanium. Unlocked, works with all carriers. Battery health 98%.',
+        category: 'Electronics',
+        condition: 'like_new',
+        price: 899,
+        originalPrice: 1199,
+        pricingType: 'negotiable',
+        quantity: 1,
+        images: ['https://images.unsplash.com/photo-1510557880182-3d4d3cba35a5?w=600'],
+        shipping: { type: 'both', cost: 12 },
+        location: { city: 'New York', state: 'NY', zipCode: '10001' },
+        status: 'active',
+        views: 523,
+        saves: 45,
+        aiVerification: { approved: true, score: 92, flags: [] },
+        createdAt: new Date('2026-01-19'),
+        updatedAt: new Date('2026-01-19'),
+    },
+    {
+        id: 'listing_4',
+        sellerId: 'user_lisa',
+        title: 'PS5 Slim + 5 Games Bundle',
+        description: 'PlayStation 5 Slim disc edition with 5 top games: Spider-Man 2, God of War, Horizon, GT7, R&C.',
+        category: 'Gaming',
+        condition: 'excellent',
+        price: 449,
+        originalPrice: 650,
+        pricingType: 'negotiable',
+        quantity: 1,
+        images: ['https://images.unsplash.com/photo-1606144042614-b2417e99c4e3?w=600'],
+        shipping: { type: 'local_only' },
+        location: { city: 'Brooklyn', state: 'NY', zipCode: '11211' },
+        status: 'active',
+        views: 289,
+        saves: 34,
+        aiVerification: { approved: true, score: 90, flags: [] },
+        createdAt: new Date('2026-01-16'),
+        updatedAt: new Date('2026-01-16'),
+    },
+    {
+        id: 'listing_5',
+        sellerId: 'user_james',
+        title: 'Herman Miller Aeron Chair',
+        description: 'Size B Herman Miller Aeron chair. Fully loaded with PostureFit SL. Some wear on armrests.',
+        category: 'Other',
+        condition: 'good',
+        price: 650,
+        originalPrice: 1395,
+        pricingType: 'negotiable',
+        quantity: 1,
+        images: ['https://images.unsplash.com/photo-1580480055273-228ff5388ef8?w=600'],
+        shipping: { type: 'local_only' },
+        location: { city: 'Jersey City', state: 'NJ', zipCode: '07302' },
+        status: 'active',
+        views: 178,
+        saves: 22,
+        aiVerification: { approved: true, score: 85, flags: ['Condition matches description'] },
+        createdAt: new Date('2026-01-15'),
+        updatedAt: new Date('2026-01-15'),
+    },
+    {
+        id: 'listing_6',
+        sellerId: 'user_sarah',
+        title: 'Apple Watch Ultra 2 - Ti Band',
+        description: 'Apple Watch Ultra 2 with extra bands. Perfect for outdoor activities. Includes charger and box.',
+        category: 'Wearables',
+        condition: 'like_new',
+        price: 649,
+        originalPrice: 799,
+        pricingType: 'fixed',
+        quantity: 1,
+        images: ['https://images.unsplash.com/photo-1434493789847-2f02dc6ca35d?w=600'],
+        shipping: { type: 'ship', cost: 0 },
+        location: { city: 'Los Angeles', state: 'CA', zipCode: '90012' },
+        status: 'active',
+        views: 234,
+        saves: 19,
+        aiVerification: { approved: true, score: 94, flags: [] },
+        createdAt: new Date('2026-01-20'),
+        updatedAt: new Date('2026-01-20'),
+    },
+    {
+        id: 'listing_7',
+        sellerId: 'user_emma',
+        title: 'LG C3 65" OLED TV',
+        description: '65-inch LG C3 OLED TV, 2023 model. Perfect for gaming and movies. Wall mounted.',
+        category: 'Electronics',
+        condition: 'excellent',
+        price: 1199,
+        originalPrice: 1799,
+        pricingType: 'negotiable',
+        quantity: 1,
+        images: ['https://images.unsplash.com/photo-1593784991095-a205069470b6?w=600'],
+        shipping: { type: 'local_only' },
+        location: { city: 'New York', state: 'NY', zipCode: '10016' },
+        status: 'active',
+        views: 445,
+        saves: 38,
+        aiVerification: { approved: true, score: 89, flags: [] },
+        createdAt: new Date('2026-01-14'),
+        updatedAt: new Date('2026-01-14'),
+    },
+    {
+        id: 'listing_8',
+        sellerId: 'user_lisa',
+        title: 'Nintendo Switch OLED + Games',
+        description: 'White Nintendo Switch OLED with Zelda TotK, Mario Kart 8, and Animal Crossing. Pro Controller.',
+        category: 'Gaming',
+        condition: 'like_new',
+        price: 329,
+        originalPrice: 450,
+        pricingType: 'fixed',
+        quantity: 1,
+        images: ['https://images.unsplash.com/photo-1617096200347-cb04ae810b1d?w=600'],
+        shipping: { type: 'both', cost: 10 },
+        location: { city: 'Chicago', state: 'IL', zipCode: '60614' },
+        status: 'active',
+        views: 312,
+        saves: 41,
+        aiVerification: { approved: true, score: 93, flags: [] },
+        createdAt: new Date('2026-01-19'),
+        updatedAt: new Date('2026-01-19'),
+    },
+    {
+        id: 'listing_9',
+        sellerId: 'user_mike',
+        title: 'Fujifilm X100V - Silver',
+        description: 'Silver X100V, shutter count under 3k. Comes with lens hood, two batteries and the original box.',
+        category: 'Cameras',
+        condition: 'excellent',
+        price: 900,
+        pricingType: 'auction',
+        // Ends three days after seeding; the hidden reserve is $1,200
+        auctionEndsAt: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
+        reservePrice: 1200,
+        quantity: 1,
+        images: ['https://images.unsplash.com/photo-1516035069371-29a1b244cc32?w=600'],
+        shipping: { type: 'ship', cost: 15 },
+        location: { city: 'Seattle', state: 'WA', zipCode: '98103' },
+        status: 'active',
+        views: 204,
+        saves: 37,
+        aiVerification: { approved: true, score: 91, flags: [] },
+        createdAt: new Date('2026-01-20'),
+        updatedAt: new Date('2026-01-20'),
+    },
+];
+
 async function main() {
     console.log('🌱 Seeding Verity Deal Aggregator...\n');
 
     // Clear existing data
+    await prisma.message.deleteMany();
+    await prisma.offer.deleteMany();
+    await prisma.conversationParticipant.deleteMany();
+    await prisma.conversation.deleteMany();
+    await prisma.transactionReview.deleteMany();
+    await prisma.dispute.deleteMany();
+    await prisma.shipmentEvent.deleteMany();
+    await prisma.order.deleteMany();
+    await prisma.offerRule.deleteMany();
+    await prisma.bid.deleteMany();
+    await prisma.listing.deleteMany();
+    await prisma.session.deleteMany();
+    await prisma.magicLinkToken.deleteMany();
+    await prisma.notification.deleteMany();
+    await prisma.alertChannel.deleteMany();
+    await prisma.savedSearchMatch.deleteMany();
+    await prisma.savedSearch.deleteMany();
+    await prisma.userActivity.deleteMany();
+    await prisma.userPreference.deleteMany();
+    await prisma.agentActivity.deleteMany();
+    await prisma.foundDeal.deleteMany();
+    await prisma.dealHunt.deleteMany();
+    await prisma.agentConfig.deleteMany();
     await prisma.wishlistItem.deleteMany();
     await prisma.dealPriceHistory.deleteMany();
     await prisma.deal.deleteMany();
@@ -544,6 +791,7 @@ async function main() {
                 externalUrl: `https://example.com/deal/${Date.now()}`,
                 city: deal.city || null,
                 state: deal.state || null,
+                ...gazetteer.coordinatesFor(deal),
                 condition: deal.condition,
                 category: deal.category,
                 brand: deal.brand,
@@ -585,10 +833,111 @@ async function main() {
         console.log(`  ✓ ${deal.title.substring(0, 50)}...`);
     }
 
+    // Create demo shopping agent
+    console.log('\n🤖 Creating demo shopping agent...');
+    await prisma.user.create({
+        data: {
+            id: DEMO_USER_ID,
+            email: DEMO_EMAIL,
+            name: 'Demo Shopper',
+            passwordHash: await hashPassword(DEMO_PASSWORD),
+            emailVerifiedAt: new Date(),
+        },
+    });
+    await prisma.agentConfig.create({ data: { userId: DEMO_USER_ID } });
+    for (const hunt of demoHunts) {
+        const createdHunt = await prisma.dealHunt.create({
+            data: {
+                ...hunt,
+                userId: DEMO_USER_ID,
+                expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+            },
+        });
+        await prisma.agentActivity.create({
+            data: {
+                userId: DEMO_USER_ID,
+                type: 'hunt_started',
+                huntId: createdHunt.id,
+                message: `Started hunting for: ${hunt.query}`,
+                metadata: JSON.stringify({ maxPrice: hunt.maxPrice, minDealScore: hunt.minDealScore }),
+            },
+        });
+        console.log(`  ✓ Hunt: ${hunt.query}`);
+    }
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    for (const { filters, ...search } of demoSavedSearches) {
+        await prisma.savedSearch.create({
+            data: {
+                ...search,
+                userId: DEMO_USER_ID,
+                filters: JSON.stringify(filters),
+                checkedThrough: dayAgo,
+                lastViewedAt: dayAgo,
+            },
+        });
+        console.log(`  ✓ Saved search: ${search.query}`);
+    }
+
+    // Create P2P marketplace sellers and listings
+    console.log('\n🏷️  Creating P2P listings...');
+    for (const seller of demoSellers) {
+        await prisma.user.create({ data: { ...seller, emailVerifiedAt: new Date() } });
+    }
+    for (const { images, shipping, aiVerification, location, ...listing } of demoListings) {
+        await prisma.listing.create({
+            data: {
+                ...listing,
+                images: JSON.stringify(images),
+                shipping: JSON.stringify(shipping),
+                aiVerification: JSON.stringify(aiVerification),
+                ...location,
+                ...gazetteer.coordinatesFor(location),
+            },
+        });
+        console.log(`  ✓ ${listing.title}`);
+    }
+    await prisma.offerRule.create({
+        data: { listingId: 'listing_1', sellerId: 'user_sarah', declineBelow: 1400, counterAt: 1750, acceptAtOrAbove: 1850 },
+    });
+    console.log('  ✓ Offer rule: MacBook Pro 14" (decline < $1400, counter $1750, accept ≥ $1850)');
+
+    // A shipped order for the demo account, for trying the carrier stub (npm run carrier:stub)
+    const day = 24 * 60 * 60 * 1000;
+    await prisma.order.create({
+        data: {
+            listingId: 'listing_2',
+            sellerId: 'user_mike',
+            buyerId: DEMO_USER_ID,
+            status: 'shipped',
+            price: 249,
+            shippingCost: 8,
+            platformFee: 12.45,
+            totalAmount: 269.45,
+            paymentMethod: 'card',
+            carrier: 'ups',
+            trackingNumber: DEMO_TRACKING_NUMBER,
+            shipmentStatus: 'in_transit',
+            estimatedDelivery: new Date(Date.now() + 2 * day),
+            shippedAt: new Date(Date.now() - 2 * day - 60 * 60 * 1000),
+            createdAt: new Date(Date.now() - 3 * day),
+            shipmentEvents: {
+                create: [
+                    { carrier: 'ups', trackingNumber: DEMO_TRACKING_NUMBER, status: 'label_created', description: 'Shipping label created', location: 'Austin, TX', occurredAt: new Date(Date.now() - 2 * day) },
+                    { carrier: 'ups', trackingNumber: DEMO_TRACKING_NUMBER, status: 'in_transit', description: 'Departed facility', location: 'Dallas, TX', occurredAt: new Date(Date.now() - day) },
+                ],
+            },
+        },
+    });
+    await prisma.listing.update({ where: { id: 'listing_2' }, data: { quantity: 0, status: 'sold' } });
+    console.log(`  ✓ Shipped order: Sony WH-1000XM5 (UPS ${DEMO_TRACKING_NUMBER})`);
+
     console.log('\n✅ Database seeded successfully!');
     console.log(`   - ${marketplaces.length} marketplaces`);
     console.log(`   - ${categories.length} categories`);
     console.log(`   - ${dealTemplates.length} deals`);
+    console.log(`   - ${demoHunts.length} agent hunts`);
+    console.log(`   - ${demoSavedSearches.length} saved searches`);
+    console.log(`   - ${demoListings.length} P2P listings`);
 }
 
 main()
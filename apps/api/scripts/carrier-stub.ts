@@ -0,0 +1,75 @@
+/**
+ * Carrier Stub
+ *
+ * Stands in for a carrier's tracking webhook during development. Walks a
+ * tracking number through its scans (label created, in transit, out for
+ * delivery, delivered) and posts each one, signed the way the API
+ * expects, to a running API:
+ *
+ *   npm run carrier:stub -- ups 1Z999AA10123456784
+ *   npm run carrier:stub -- ups 1Z999AA10123456784 --until out_for_delivery
+ *
+ * The seed ships a demo order with that UPS number. Signs with
+ * CARRIER_WEBHOOK_SECRET, which must match the API's.
+ */
+
+import { CARRIERS, isCarrier, type ShipmentStatus } from '../src/services/shipping/carriers';
+import { signWebhookBody, webhookSecretConfigured } from '../src/services/shipping/signatures';
+import type { CarrierScan } from '../src/services/shipping/ShippingService';
+
+const API_URL = process.env.API_URL || 'http://localhost:3456';
+
+const SCANS: { status: ShipmentStatus; description: string; location: string }[] = [
+    { status: 'label_created', description: 'Shipping label created', location: 'Austin, TX' },
+    { status: 'in_transit', description: 'Departed facility', location: 'Dallas, TX' },
+    { status: 'out_for_delivery', description: 'Out for delivery', location: 'Destination city' },
+    { status: 'delivered', description: 'Delivered, left at front door', location: 'Destination city' },
+];
+
+function usage(): never {
+    console.error(`Usage: npm run carrier:stub -- <${CARRIERS.join('|')}> <trackingNumber> [--until <status>]`);
+    process.exit(1);
+}
+
+async function post(carrier: string, scan: CarrierScan): Promise<void> {
+    const body = JSON.stringify({ events: [scan] });
+    const response = await fetch(`${API_URL}/api/shipping/webhooks/${carrier}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Carrier-Signature': signWebhookBody(body),
+        },
+        body,
+    });
+    console.log(`${scan.status.padEnd(16)} ${response.status} ${await response.text()}`);
+    if (!response.ok) process.exit(1);
+}
+
+async function main() {
+    const [carrier, trackingNumber, flag, until = 'delivered'] = process.argv.slice(2);
+    if (!carrier || !trackingNumber || !isCarrier(carrier)) usage();
+    if (flag !== undefined && flag !== '--until') usage();
+    if (!webhookSecretConfigured()) {
+        console.error('Set CARRIER_WEBHOOK_SECRET to the secret the API verifies webhooks with');
+        process.exit(1);
+    }
+    if (!SCANS.some(scan => scan.status === until)) {
+        console.error(`--until must be one of: ${SCANS.map(scan => scan.status).join(', ')}`);
+        process.exit(1);
+    }
+
+    const last = SCANS.findIndex(scan => scan.status === until);
+    const start = Date.now() - last * 60 * 60 * 1000;
+
+    console.log(`Posting ${carrier.toUpperCase()} ${trackingNumber} scans to ${API_URL}\n`);
+    // An hour apart, the last one now
+    for (const [i, scan] of SCANS.slice(0, last + 1).entries()) {
+        const occurredAt = new Date(start + i * 60 * 60 * 1000).toISOString();
+        await post(carrier, { trackingNumber, occurredAt, ...scan });
+    }
+}
+
+main().catch(error => {
+    console.error('Carrier stub failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,278 @@
+/**
+ * Contract Test
+ *
+ * Calls a running API and checks every response against the route's
+ * response schema in @tadow/contract, failing on drift: fields with the
+ * wrong type or value, required fields that are missing, and fields the
+ * spec doesn't list. Also checks that /api/openapi.json covers every route.
+ *
+ * Run against a seeded database (npm run db:seed), ideally with
+ * SOURCE_MODE=replay so live-source routes are served from fixtures:
+ *
+ *   API_URL=http://localhost:3456 npm run test:contract
+ */
+
+import {
+    contract,
+    buildPath,
+    errorResponse,
+    responseDrift,
+    type RouteDefinition,
+    type RouteResponse,
+} from '@tadow/contract';
+
+const API_URL = process.env.API_URL || 'http://localhost:3456';
+
+// Seeded by prisma/seed.ts
+const DEMO_EMAIL = 'demo@tadow.app';
+const DEMO_PASSWORD = 'demo1234';
+
+interface CallOptions {
+    params?: Record<string, string | number>;
+    query?: Record<string, string | number | string[] | undefined>;
+    body?: unknown;
+}
+
+interface Failure {
+    route: string;
+    problems: string[];
+}
+
+const failures: Failure[] = [];
+const checked = new Set<RouteDefinition>();
+let token: string | null = null;
+
+function routeName(route: RouteDefinition): string {
+    return `${route.method} ${route.path}`;
+}
+
+function queryString(query: CallOptions['query'] = {}): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value === undefined) continue;
+        params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    }
+    const search = params.toString();
+    return search ? `?${search}` : '';
+}
+
+/**
+ * Call a route and check its response against the contract. Returns the
+ * body on success, typed by the route's response schema it was just
+ * checked against, so later checks can pick ids out of it.
+ */
+async function check<R extends RouteDefinition>(route: R, options: CallOptions = {}): Promise<RouteResponse<R> | null> {
+    checked.add(route);
+    const url = `${API_URL}${buildPath(route.path, options.params)}${queryString(options.query)}`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (token && (route.auth ?? 'public') !== 'public') headers.Authorization = `Bearer ${token}`;
+
+    let status: number;
+    let body: unknown;
+    try {
+        const response = await fetch(url, {
+            method: route.method,
+            headers,
+            body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        });
+        status = response.status;
+        body = await response.json();
+    } catch (error) {
+        failures.push({ route: routeName(route), problems: [`Request failed: ${(error as Error).message}`] });
+        return null;
+    }
+
+    const ok = status === (route.status ?? 200);
+    const problems = status >= 500
+        ? [`Server error ${status}: ${JSON.stringify(body)}`]
+        : responseDrift(ok ? route : { ...route, response: errorResponse }, body);
+
+    if (problems.length > 0) {
+        failures.push({ route: routeName(route), problems });
+        console.log(`  ✗ ${routeName(route)} (${status})`);
+    } else {
+        console.log(`  ✓ ${routeName(route)} (${status})`);
+    }
+    return ok && problems.length === 0 ? body as RouteResponse<R> : null;
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CHECKS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const priceHistory = [
+    { price: 1299, date: '2026-01-01T00:00:00.000Z' },
+    { price: 1199, date: '2026-02-01T00:00:00.000Z' },
+    { price: 1099, date: '2026-03-01T00:00:00.000Z' },
+];
+
+// The drift check itself: a response with a field the route doesn't declare must fail
+function checkDriftDetection() {
+    const route = contract.system.health;
+    const problems = responseDrift(route, { status: 'ok', timestamp: new Date().toISOString(), undeclared: true });
+    if (!problems.some(problem => problem.startsWith('undeclared:'))) {
+        failures.push({ route: routeName(route), problems: ['An undeclared response field was not reported as drift'] });
+    }
+}
+
+async function checkSystem() {
+    await check(contract.system.health);
+
+    // Every contract route must be in the published spec
+    const spec = await check(contract.system.openapi);
+    if (!spec) return;
+    // The contract only types the document as an object; paths are keyed by path, then method
+    const paths = (spec.paths ?? {}) as Record<string, Record<string, unknown> | undefined>;
+    const missing = Object.values(contract)
+        .flatMap(group => Object.values(group) as RouteDefinition[])
+        .filter(route => !paths[route.path.replace(/:(\w+)/g, '{$1}')]?.[route.method.toLowerCase()])
+        .map(route => `${routeName(route)}: Not in /api/openapi.json`);
+    if (missing.length > 0) failures.push({ route: routeName(contract.system.openapi), problems: missing });
+}
+
+async function checkAuth() {
+    const session = await check(contract.auth.login, { body: { email: DEMO_EMAIL, password: DEMO_PASSWORD } });
+    token = session?.token ?? null;
+    if (!token) {
+        console.log('  (demo login failed; signed-in routes are only checked for their 401)');
+    }
+    await check(contract.auth.me);
+}
+
+async function checkCatalog() {
+    const products = await check(contract.products.list);
+    const productId = products?.[0]?.id;
+    if (productId) {
+        await check(contract.products.get, { params: { id: productId } });
+        await check(contract.products.offers, { params: { id: productId } });
+        await check(contract.prices.list, { params: { productId } });
+    }
+    await check(contract.recommendations.create, {
+        body: { primaryUse: 'work', budget: '800-1200', priority: 'battery', importance: 'weight' },
+    });
+
+    const marketplaces = await check(contract.marketplaces.list);
+    const marketplaceId = marketplaces?.[0]?.id;
+    if (marketplaceId) await check(contract.marketplaces.get, { params: { id: marketplaceId } });
+    await check(contract.categories.list);
+}
+
+async function checkDeals() {
+    const list = await check(contract.deals.list, { query: { limit: 5 } });
+    const dealId = list?.deals?.[0]?.id;
+    if (dealId) {
+        await check(contract.deals.get, { params: { id: dealId } });
+        await check(contract.agent.recommend, { params: { dealId } });
+    }
+    await check(contract.deals.hot, { query: { limit: 5 } });
+    await check(contract.deals.search, { query: { q: 'laptop', limit: 5 } });
+    await check(contract.deals.sources);
+    await check(contract.deals.categories);
+    await check(contract.deals.featured);
+}
+
+async function checkAggregation() {
+    await check(contract.aggregation.score, {
+        body: { title: 'Apple MacBook Air M3', currentPrice: 1099, originalPrice: 1299, category: 'Laptops' },
+    });
+    await check(contract.aggregation.predict, { body: { priceHistory, category: 'Laptops' } });
+    await check(contract.aggregation.analyze, { body: { priceHistory, currentPrice: 1099 } });
+    await check(contract.aggregation.top, { query: { limit: 5 } });
+    await check(contract.aggregation.search, { query: { q: 'laptop' } });
+    await check(contract.aggregation.feeds);
+    await check(contract.aggregation.jobs, { query: { limit: 5 } });
+
+    const leaders = await check(contract.aggregation.leaderboard, { query: { limit: 5 } });
+    const userId = leaders?.[0]?.userId;
+    if (userId) await check(contract.aggregation.userStats, { params: { userId } });
+}
+
+async function checkAgent() {
+    const deal = {
+        id: 'contract-test-deal',
+        title: 'Apple MacBook Air M3',
+        category: 'Laptops',
+        currentPrice: 1099,
+        originalPrice: 1299,
+        priceHistory,
+    };
+    await check(contract.agent.predict, { body: deal });
+    await check(contract.agent.predictBatch, { body: { deals: [deal] } });
+
+    await check(contract.agent.preferences);
+    await check(contract.agent.status);
+    await check(contract.agent.activityLog, { query: { limit: 5 } });
+    await check(contract.agent.hunts);
+}
+
+async function checkMarketplace() {
+    const listings = await check(contract.listings.list, { query: { limit: 5 } });
+    const listing = listings?.listings?.[0];
+    if (listing) {
+        await check(contract.listings.get, { params: { id: listing.id } });
+        await check(contract.reviews.forUser, { params: { userId: listing.sellerId } });
+    }
+    const auction = listings?.listings?.find((l: { pricingType: string }) => l.pricingType === 'auction');
+    if (auction) await check(contract.listings.bids, { params: { id: auction.id } });
+
+    await check(contract.alerts.inbox);
+    await check(contract.alerts.channels);
+    await check(contract.alerts.deliveries);
+
+    const saved = await check(contract.savedSearches.list);
+    const savedSearchId = saved?.searches?.[0]?.id;
+    if (savedSearchId) await check(contract.savedSearches.newMatches, { params: { id: savedSearchId } });
+
+    const orders = await check(contract.orders.list);
+    const orderId = orders?.orders?.[0]?.id;
+    if (orderId) {
+        await check(contract.orders.get, { params: { id: orderId } });
+        await check(contract.orders.tracking, { params: { id: orderId } });
+    }
+    await check(contract.shipping.rates, { query: { weightLbs: 2, fromZip: '78704', toZip: '10001' } });
+
+    await check(contract.messages.conversations);
+    await check(contract.messages.unread);
+    await check(contract.offers.list);
+    await check(contract.offers.rules);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// RUN
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+async function main() {
+    console.log(`Contract test against ${API_URL}\n`);
+
+    checkDriftDetection();
+    await checkSystem();
+    await checkAuth();
+    await checkCatalog();
+    await checkDeals();
+    await checkAggregation();
+    await checkAgent();
+    await checkMarketplace();
+
+    // Streams and routes that change data aren't called
+    const routes = Object.values(contract).flatMap(group => Object.values(group) as RouteDefinition[]);
+    const skipped = routes.filter(route => !checked.has(route));
+    console.log(`\nChecked ${checked.size} of ${routes.length} routes (${skipped.length} skipped: streams, writes, or no data to call them with)`);
+
+    if (failures.length === 0) {
+        console.log('✓ No drift from the contract');
+        return;
+    }
+
+    console.error(`\n✗ ${failures.length} route(s) drifted from the contract:\n`);
+    for (const failure of failures) {
+        console.error(`  ${failure.route}`);
+        failure.problems.slice(0, 20).forEach(problem => console.error(`    - ${problem}`));
+        if (failure.problems.length > 20) console.error(`    ... and ${failure.problems.length - 20} more`);
+    }
+    process.exit(1);
+}
+
+main().catch(error => {
+    console.error('Contract test failed to run:', error);
+    process.exit(1);
+});
@@ -10,23 +10,61 @@ import { marketplacesRouter } from './routes/marketplaces';
 import { categoriesRouter } from './routes/categories';
 import { aggregationRouter } from './routes/aggregation';
 import { agentRouter } from './routes/agent';
+import { alertsRouter } from './routes/alerts';
+import { authRouter } from './routes/auth';
+import { listingsRouter } from './routes/listings';
+import { ordersRouter } from './routes/orders';
+import { reviewsRouter } from './routes/reviews';
+import { messagesRouter } from './routes/messages';
+import { offersRouter } from './routes/offers';
+import { docsRouter } from './routes/docs';
+import { localRouter } from './routes/local';
+import { savedSearchesRouter } from './routes/savedSearches';
+import { shippingRouter } from './routes/shipping';
+import { authenticate } from './middleware/auth';
+import { assertTokenSecret } from './services/auth';
+import { sourceRegistry, sourceMode } from './services/marketplace';
+import { jobScheduler } from './services/aggregation';
+import { dealSearch } from './services/search';
+import { gazetteer, localSearch } from './services/geo';
 
 
 dotenv.config();
 
+// Sessions are signed with JWT_SECRET; there is no built-in fallback
+assertTokenSecret();
+
+// Declarative deal sources (config/sources/*.json)
+sourceRegistry.loadConfigDirectory();
+
+// Optional ZIP centroids on top of the built-in gazetteer (GEO_ZIP_FILE)
+gazetteer.loadZipFile();
+if (sourceMode() !== 'live') {
+    console.log(`[Fixtures] SOURCE_MODE=${sourceMode()}: source requests are ${sourceMode() === 'replay' ? 'served from' : 'saved to'} fixtures`);
+}
+
 const app = express();
 const prisma = new PrismaClient();
 const PORT = process.env.PORT || 3456;
 
 // Middleware
 app.use(cors());
+// Carrier webhooks are signed over the raw body; express.json skips bodies already read
+app.use('/api/shipping/webhooks', express.raw({ type: '*/*', limit: '1mb' }));
 app.use(express.json());
+app.use(authenticate);
 
 // Health check
 app.get('/api/health', (req, res) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// API reference (OpenAPI document & docs UI)
+app.use('/api', docsRouter);
+
+// Accounts & Sessions
+app.use('/api/auth', authRouter);
+
 // Original Verity Routes
 app.use('/api/products', productsRouter);
 app.use('/api/recommendations', recommendationsRouter);
@@ -37,12 +75,33 @@ app.use('/api/deals', dealsRouter);
 app.use('/api/marketplaces', marketplacesRouter);
 app.use('/api/categories', categoriesRouter);
 
+// Local Deals (radius search over deals & listings)
+app.use('/api/local', localRouter);
+
 // AI Aggregation Routes (Phase 3)
 app.use('/api/aggregation', aggregationRouter);
 
 // Agentic Deal Intelligence (Phase 1 Next-Level)
 app.use('/api/agent', agentRouter);
 
+// Price Alerts & Notifications
+app.use('/api/alerts', alertsRouter);
+
+// Saved Searches (re-run against newly ingested deals)
+app.use('/api/saved-searches', savedSearchesRouter);
+
+// P2P Marketplace (listings, orders & escrow, reviews)
+app.use('/api/listings', listingsRouter);
+app.use('/api/orders', ordersRouter);
+app.use('/api/reviews', reviewsRouter);
+
+// Shipping (rate quotes, carrier tracking webhooks)
+app.use('/api/shipping', shippingRouter);
+
+// Messaging & Offers (conversations, live stream, offers)
+app.use('/api/messages', messagesRouter);
+app.use('/api/offers', offersRouter);
+
 // Error handler
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
     console.error('Error:', err.message);
@@ -52,6 +111,7 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
 // Graceful shutdown
 process.on('SIGTERM', async () => {
     console.log('SIGTERM received, shutting down...');
+    await jobScheduler.stop();
     await prisma.$disconnect();
     process.exit(0);
 });
@@ -63,13 +123,37 @@ app.listen(PORT, () => {
    
    Local:   http://localhost:${PORT}
    Health:  http://localhost:${PORT}/api/health
+   Docs:    http://localhost:${PORT}/api/docs
    
    Routes:
+   - /api/auth         (Accounts & Sessions)
    - /api/products     (Product Research)
    - /api/deals        (Deal Aggregator)
    - /api/marketplaces (Marketplace Directory)
    - /api/categories   (Category Browser)
+   - /api/local        (Local Radius Search)
+   - /api/alerts       (Price Alerts & Inbox)
+   - /api/saved-searches (Saved Searches)
+   - /api/listings     (P2P Listings)
+   - /api/orders       (P2P Orders & Escrow)
+   - /api/messages     (Messaging & Live Stream)
+   - /api/offers       (Listing Offers)
   `);
+
+    // Full-text index over stored deals, filled from existing deals on first run
+    dealSearch.ensureIndex().catch(error =>
+        console.error('[DealSearch] Failed to create search index:', error)
+    );
+
+    // Coordinates for deals and listings stored without them
+    localSearch.geocodeMissing().catch(error =>
+        console.error('[LocalSearch] Failed to geocode stored locations:', error)
+    );
+
+    // Collection jobs; turn off on instances that only serve requests
+    if (process.env.SCHEDULER_ENABLED !== 'false') {
+        jobScheduler.start();
+    }
 });
 
 export { prisma };
@@ -0,0 +1,57 @@
+/**
+ * Auth Middleware
+ *
+ * `authenticate` runs on every request and populates `req.user` from a
+ * Bearer token (or `?access_token=` for EventSource streams, which cannot
+ * set headers); `requireAuth` / `requireRole` guard individual routes.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { authService, type AuthUser } from '../services/auth';
+
+declare global {
+    namespace Express {
+        interface Request {
+            user?: AuthUser;
+        }
+    }
+}
+
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+    const header = req.headers.authorization;
+    const token = header?.startsWith('Bearer ')
+        ? header.slice('Bearer '.length).trim()
+        : typeof req.query.access_token === 'string' ? req.query.access_token : undefined;
+    if (!token) return next();
+
+    try {
+        const user = await authService.authenticate(token);
+        if (user) req.user = user;
+        next();
+    } catch (error) {
+        next(error);
+    }
+}
+
+// Guards only read req.user, so they take any request shape and leave the
+// params/query/body types to validate() later in the same route
+type AnyRequest = Request<any, any, any, any>;
+
+export function requireAuth(req: AnyRequest, res: Response, next: NextFunction) {
+    if (!req.user) {
+        return res.status(401).json({ error: 'Authentication required' });
+    }
+    next();
+}
+
+export function requireRole(...roles: string[]) {
+    return (req: AnyRequest, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return res.status(401).json({ error: 'Authentication required' });
+        }
+        if (!roles.includes(req.user.role)) {
+            return res.status(403).json({ error: 'Insufficient permissions' });
+        }
+        next();
+    };
+}
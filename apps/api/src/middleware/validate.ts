@@ -0,0 +1,59 @@
+/**
+ * Validation Middleware
+ *
+ * `validate(route)` checks a request's path parameters, query string and
+ * body against the route's schemas from @tadow/contract. Valid requests
+ * continue with the parsed values (query numbers coerced, defaults filled
+ * in, unknown fields dropped), typed for the handlers after it; anything
+ * else gets a 400 listing every problem.
+ */
+
+import type { RequestHandler } from 'express';
+import type {
+    RouteDefinition,
+    RouteBody,
+    RouteParams,
+    RouteQuery,
+    ErrorResponse,
+    ValidationIssue,
+} from '@tadow/contract';
+
+const LOCATIONS = ['params', 'query', 'body'] as const;
+
+export function validate<R extends RouteDefinition>(
+    route: R
+): RequestHandler<RouteParams<R>, any, RouteBody<R>, RouteQuery<R>> {
+    return (req, res, next) => {
+        const issues: ValidationIssue[] = [];
+        const parsed: Partial<Record<typeof LOCATIONS[number], unknown>> = {};
+
+        for (const location of LOCATIONS) {
+            const schema = route[location];
+            if (!schema) continue;
+
+            const result = schema.safeParse(req[location] ?? {});
+            if (result.success) {
+                parsed[location] = result.data;
+            } else {
+                issues.push(...result.error.issues.map(issue => ({
+                    location,
+                    path: issue.path.join('.'),
+                    message: issue.message,
+                })));
+            }
+        }
+
+        if (issues.length > 0) {
+            const body: ErrorResponse = {
+                error: issues.map(issue => `${issue.path || issue.location}: ${issue.message}`).join('; '),
+                issues,
+            };
+            return res.status(400).json(body);
+        }
+
+        if (parsed.params) req.params = parsed.params as RouteParams<R>;
+        if (parsed.query) req.query = parsed.query as RouteQuery<R>;
+        if (parsed.body) req.body = parsed.body as RouteBody<R>;
+        next();
+    };
+}
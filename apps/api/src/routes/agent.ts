@@ -2,14 +2,42 @@
  * Agent API Routes
  * 
  * Endpoints for the autonomous shopping agent, preferences,
- * and deal predictions.
+ * and deal predictions. Agent and preference endpoints act on
+ * the authenticated user.
  */
 
 import { Router, Request, Response } from 'express';
+import { contract, type RouteBody } from '@tadow/contract';
 import { preferenceModel, shoppingAgent, dealPredictor } from '../services/agent';
+import { priceHistoryService } from '../services/aggregation';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
 
 const router = Router();
 
+type PredictionRequest = RouteBody<typeof contract.agent.predict>;
+
+// Fill in what the caller left out, preferring recorded history for stored deals
+async function toPredictionInput(deal: PredictionRequest) {
+    const storedHistory = await priceHistoryService.loadHistory(deal.id);
+    const priceHistory = storedHistory.length > 0
+        ? storedHistory.map(h => ({ price: h.price, date: h.recordedAt }))
+        : deal.priceHistory?.map(p => ({ price: p.price, date: new Date(p.date) }));
+
+    return {
+        id: deal.id,
+        title: deal.title || 'Unknown Product',
+        category: deal.category || 'Electronics',
+        brand: deal.brand || 'Unknown',
+        currentPrice: deal.currentPrice,
+        originalPrice: deal.originalPrice || deal.currentPrice,
+        dealScore: deal.dealScore || 75,
+        isAllTimeLow: deal.isAllTimeLow || false,
+        views: deal.views,
+        priceHistory,
+    };
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // PREFERENCES
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -18,13 +46,12 @@ const router = Router();
  * GET /api/agent/preferences
  * Get user's learned preferences
  */
-router.get('/preferences', async (req: Request, res: Response) => {
+router.get('/preferences', requireAuth, async (req: Request, res: Response) => {
     try {
-        const userId = req.query.userId as string || 'demo-user';
-        const prefs = await preferenceModel.getPreferences(userId);
+        const userId = req.user!.id;
         res.json({
             success: true,
-            preferences: preferenceModel.exportPreferences(userId),
+            preferences: await preferenceModel.exportPreferences(userId),
             suggestedSearches: await preferenceModel.getSuggestedSearches(userId),
             topCategories: await preferenceModel.getTopCategories(userId),
         });
@@ -37,10 +64,11 @@ router.get('/preferences', async (req: Request, res: Response) => {
  * POST /api/agent/preferences
  * Update user preferences
  */
-router.post('/preferences', async (req: Request, res: Response) => {
+router.post('/preferences', requireAuth, validate(contract.agent.updatePreferences), async (req, res) => {
     try {
-        const { userId = 'demo-user', preferences } = req.body;
-        preferenceModel.importPreferences(userId, preferences);
+        const userId = req.user!.id;
+        const { preferences } = req.body;
+        await preferenceModel.importPreferences(userId, preferences);
         res.json({ success: true, message: 'Preferences updated' });
     } catch (error) {
         res.status(500).json({ error: 'Failed to update preferences' });
@@ -51,9 +79,10 @@ router.post('/preferences', async (req: Request, res: Response) => {
  * POST /api/agent/activity
  * Record user activity for learning
  */
-router.post('/activity', async (req: Request, res: Response) => {
+router.post('/activity', requireAuth, validate(contract.agent.recordActivity), async (req, res) => {
     try {
-        const { userId = 'demo-user', activity } = req.body;
+        const userId = req.user!.id;
+        const { activity } = req.body;
         await preferenceModel.recordActivity(userId, activity);
         res.json({ success: true });
     } catch (error) {
@@ -69,34 +98,21 @@ router.post('/activity', async (req: Request, res: Response) => {
  * GET /api/agent/status
  * Get agent status and stats
  */
-router.get('/status', async (req: Request, res: Response) => {
+router.get('/status', requireAuth, async (req: Request, res: Response) => {
     try {
-        const userId = req.query.userId as string || 'demo-user';
-        const agent = shoppingAgent.getAgent(userId);
-
-        if (!agent) {
-            // Initialize agent for new users
-            const newAgent = await shoppingAgent.initializeAgent(userId);
-            res.json({
-                success: true,
-                agent: {
-                    status: newAgent.status,
-                    aggressiveness: newAgent.aggressiveness,
-                    activeHunts: newAgent.activeHunts.length,
-                    stats: newAgent.stats,
-                },
-            });
-        } else {
-            res.json({
-                success: true,
-                agent: {
-                    status: agent.status,
-                    aggressiveness: agent.aggressiveness,
-                    activeHunts: agent.activeHunts.length,
-                    stats: agent.stats,
-                },
-            });
-        }
+        const userId = req.user!.id;
+        // Initializes the agent for new users
+        const agent = await shoppingAgent.initializeAgent(userId);
+
+        res.json({
+            success: true,
+            agent: {
+                status: agent.status,
+                aggressiveness: agent.aggressiveness,
+                activeHunts: agent.activeHunts.filter(h => h.status === 'hunting').length,
+                stats: agent.stats,
+            },
+        });
     } catch (error) {
         res.status(500).json({ error: 'Failed to get agent status' });
     }
@@ -106,9 +122,10 @@ router.get('/status', async (req: Request, res: Response) => {
  * POST /api/agent/settings
  * Update agent settings
  */
-router.post('/settings', async (req: Request, res: Response) => {
+router.post('/settings', requireAuth, validate(contract.agent.updateSettings), async (req, res) => {
     try {
-        const { userId = 'demo-user', settings } = req.body;
+        const userId = req.user!.id;
+        const { settings } = req.body;
         const agent = await shoppingAgent.updateAgentSettings(userId, settings);
         res.json({
             success: true,
@@ -126,11 +143,10 @@ router.post('/settings', async (req: Request, res: Response) => {
  * GET /api/agent/activity-log
  * Get agent activity history
  */
-router.get('/activity-log', async (req: Request, res: Response) => {
+router.get('/activity-log', requireAuth, validate(contract.agent.activityLog), async (req, res) => {
     try {
-        const userId = req.query.userId as string || 'demo-user';
-        const limit = parseInt(req.query.limit as string) || 20;
-        const log = shoppingAgent.getActivityLog(userId, limit);
+        const userId = req.user!.id;
+        const log = await shoppingAgent.getActivityLog(userId, req.query.limit);
         res.json({ success: true, activities: log });
     } catch (error) {
         res.status(500).json({ error: 'Failed to get activity log' });
@@ -145,22 +161,10 @@ router.get('/activity-log', async (req: Request, res: Response) => {
  * POST /api/agent/hunt
  * Create a new deal hunt
  */
-router.post('/hunt', async (req: Request, res: Response) => {
+router.post('/hunt', requireAuth, validate(contract.agent.createHunt), async (req, res) => {
     try {
-        const {
-            userId = 'demo-user',
-            query,
-            category,
-            brand,
-            maxPrice,
-            minDealScore = 70,
-            targetDiscount,
-            expiresInDays = 30,
-        } = req.body;
-
-        if (!query || !maxPrice) {
-            return res.status(400).json({ error: 'query and maxPrice are required' });
-        }
+        const userId = req.user!.id;
+        const { query, category, brand, maxPrice, minDealScore, targetDiscount, expiresInDays } = req.body;
 
         const expiresAt = new Date();
         expiresAt.setDate(expiresAt.getDate() + expiresInDays);
@@ -185,10 +189,10 @@ router.post('/hunt', async (req: Request, res: Response) => {
  * GET /api/agent/hunts
  * Get user's active hunts
  */
-router.get('/hunts', async (req: Request, res: Response) => {
+router.get('/hunts', requireAuth, async (req: Request, res: Response) => {
     try {
-        const userId = req.query.userId as string || 'demo-user';
-        const agent = shoppingAgent.getAgent(userId);
+        const userId = req.user!.id;
+        const agent = await shoppingAgent.getAgent(userId);
 
         res.json({
             success: true,
@@ -203,12 +207,12 @@ router.get('/hunts', async (req: Request, res: Response) => {
  * DELETE /api/agent/hunt/:huntId
  * Cancel a hunt
  */
-router.delete('/hunt/:huntId', async (req: Request, res: Response) => {
+router.delete('/hunt/:huntId', requireAuth, async (req: Request, res: Response) => {
     try {
-        const userId = req.query.userId as string || 'demo-user';
+        const userId = req.user!.id;
         const { huntId } = req.params;
 
-        const success = shoppingAgent.pauseHunt(userId, huntId);
+        const success = await shoppingAgent.pauseHunt(userId, huntId);
         res.json({ success });
     } catch (error) {
         res.status(500).json({ error: 'Failed to cancel hunt' });
@@ -219,9 +223,10 @@ router.delete('/hunt/:huntId', async (req: Request, res: Response) => {
  * POST /api/agent/trigger
  * Manually trigger agent run
  */
-router.post('/trigger', async (req: Request, res: Response) => {
+router.post('/trigger', requireAuth, validate(contract.agent.trigger), async (req, res) => {
     try {
-        const { userId = 'demo-user', deals } = req.body;
+        const userId = req.user!.id;
+        const { deals } = req.body;
 
         // Demo deals for testing
         const testDeals = deals || [
@@ -257,26 +262,9 @@ router.post('/trigger', async (req: Request, res: Response) => {
  * POST /api/agent/predict
  * Get price prediction for a deal
  */
-router.post('/predict', async (req: Request, res: Response) => {
+router.post('/predict', validate(contract.agent.predict), async (req, res) => {
     try {
-        const deal = req.body;
-
-        if (!deal.id || !deal.currentPrice) {
-            return res.status(400).json({ error: 'id and currentPrice are required' });
-        }
-
-        const prediction = await dealPredictor.predictPrice({
-            id: deal.id,
-            title: deal.title || 'Unknown Product',
-            category: deal.category || 'Electronics',
-            brand: deal.brand || 'Unknown',
-            currentPrice: deal.currentPrice,
-            originalPrice: deal.originalPrice || deal.currentPrice,
-            dealScore: deal.dealScore || 75,
-            isAllTimeLow: deal.isAllTimeLow || false,
-            views: deal.views,
-            priceHistory: deal.priceHistory,
-        });
+        const prediction = await dealPredictor.predictPrice(await toPredictionInput(req.body));
 
         res.json({
             success: true,
@@ -292,14 +280,9 @@ router.post('/predict', async (req: Request, res: Response) => {
  * POST /api/agent/predict/batch
  * Get predictions for multiple deals
  */
-router.post('/predict/batch', async (req: Request, res: Response) => {
+router.post('/predict/batch', validate(contract.agent.predictBatch), async (req, res) => {
     try {
-        const { deals } = req.body;
-
-        if (!Array.isArray(deals)) {
-            return res.status(400).json({ error: 'deals array is required' });
-        }
-
+        const deals = await Promise.all(req.body.deals.map(toPredictionInput));
         const predictions = await dealPredictor.predictBatch(deals);
         res.json({
             success: true,
@@ -317,12 +300,11 @@ router.post('/predict/batch', async (req: Request, res: Response) => {
  * GET /api/agent/recommend/:dealId
  * Get quick buy/wait recommendation
  */
-router.get('/recommend/:dealId', async (req: Request, res: Response) => {
+router.get('/recommend/:dealId', validate(contract.agent.recommend), async (req, res) => {
     try {
         const { dealId } = req.params;
-        const category = req.query.category as string || 'Electronics';
-        const currentPrice = parseFloat(req.query.price as string) || 100;
-        const dealScore = parseInt(req.query.score as string) || 80;
+        const { category, price: currentPrice, score: dealScore } = req.query;
+        const storedHistory = await priceHistoryService.loadHistory(dealId);
 
         const prediction = await dealPredictor.predictPrice({
             id: dealId,
@@ -331,6 +313,7 @@ router.get('/recommend/:dealId', async (req: Request, res: Response) => {
             brand: 'Brand',
             currentPrice,
             originalPrice: currentPrice * 1.2,
+            priceHistory: storedHistory.map(h => ({ price: h.price, date: h.recordedAt })),
             dealScore,
             isAllTimeLow: false,
         });
@@ -6,31 +6,32 @@
  * - /api/aggregation/predict - Price prediction
  * - /api/aggregation/chat - AI assistant
  * - /api/aggregation/submit - User submissions
- * - /api/aggregation/jobs - Scheduler status
+ * - /api/aggregation/jobs - Scheduler status and run history
  */
 
 import { Router } from 'express';
+import { contract } from '@tadow/contract';
 import {
-    dealScorer,
     priceTracker,
     aiAssistant,
     dealSubmissionService,
     jobScheduler,
     rssAggregator,
     aggregationPipeline,
+    priceHistoryService,
+    type PriceRecord,
 } from '../services/aggregation';
+import { dealScorer } from '../services/marketplace';
+import { requireAuth, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validate';
 
 const router = Router();
 
 // POST /api/aggregation/score - Score a deal
-router.post('/score', async (req, res) => {
+router.post('/score', validate(contract.aggregation.score), async (req, res) => {
     try {
         const { title, currentPrice, originalPrice, category, brand, marketplace } = req.body;
 
-        if (!title || !currentPrice) {
-            return res.status(400).json({ error: 'title and currentPrice are required' });
-        }
-
         const score = dealScorer.scoreDeal({
             id: `temp_${Date.now()}`,
             title,
@@ -56,15 +57,24 @@ router.post('/score', async (req, res) => {
 });
 
 // POST /api/aggregation/predict - Price prediction
-router.post('/predict', async (req, res) => {
+// Pass a stored dealId to use its recorded history, or a raw priceHistory array
+router.post('/predict', validate(contract.aggregation.predict), async (req, res) => {
     try {
-        const { priceHistory, category } = req.body;
+        const { dealId, priceHistory, category } = req.body;
+
+        if (dealId) {
+            const insights = await priceHistoryService.analyzeDeal(dealId);
+            if (!insights) {
+                return res.status(404).json({ error: 'Deal not found' });
+            }
+            return res.json(insights.prediction);
+        }
 
-        if (!priceHistory || !Array.isArray(priceHistory)) {
-            return res.status(400).json({ error: 'priceHistory array is required' });
+        if (!priceHistory) {
+            return res.status(400).json({ error: 'dealId or priceHistory array is required' });
         }
 
-        const history = priceHistory.map((p: { price: number; date: string }) => ({
+        const history = priceHistory.map(p => ({
             price: p.price,
             recordedAt: new Date(p.date),
         }));
@@ -79,15 +89,28 @@ router.post('/predict', async (req, res) => {
 });
 
 // POST /api/aggregation/analyze - Analyze price history
-router.post('/analyze', async (req, res) => {
+// Pass a stored dealId to use its recorded history, or currentPrice + priceHistory
+router.post('/analyze', validate(contract.aggregation.analyze), async (req, res) => {
     try {
-        const { currentPrice, priceHistory } = req.body;
+        const { dealId, currentPrice, priceHistory } = req.body;
+
+        if (dealId) {
+            const insights = await priceHistoryService.analyzeDeal(dealId);
+            if (!insights) {
+                return res.status(404).json({ error: 'Deal not found' });
+            }
+            const history = await priceHistoryService.loadHistory(dealId);
+            return res.json({
+                stats: insights.stats,
+                chartData: priceTracker.generateChartData(history, 90),
+            });
+        }
 
         if (!currentPrice || !priceHistory) {
-            return res.status(400).json({ error: 'currentPrice and priceHistory are required' });
+            return res.status(400).json({ error: 'dealId or currentPrice and priceHistory are required' });
         }
 
-        const history = priceHistory.map((p: { price: number; date: string }) => ({
+        const history: PriceRecord[] = priceHistory.map(p => ({
             price: p.price,
             recordedAt: new Date(p.date),
         }));
@@ -106,14 +129,10 @@ router.post('/analyze', async (req, res) => {
 });
 
 // POST /api/aggregation/chat - AI chat assistant
-router.post('/chat', async (req, res) => {
+router.post('/chat', validate(contract.aggregation.chat), async (req, res) => {
     try {
         const { message, sessionId } = req.body;
 
-        if (!message) {
-            return res.status(400).json({ error: 'message is required' });
-        }
-
         const response = await aiAssistant.chat(message, {
             sessionId: sessionId || `session_${Date.now()}`,
             messages: [],
@@ -128,25 +147,11 @@ router.post('/chat', async (req, res) => {
 });
 
 // POST /api/aggregation/submit - Submit a deal
-router.post('/submit', async (req, res) => {
+router.post('/submit', requireAuth, validate(contract.aggregation.submit), async (req, res) => {
     try {
-        const { userId, title, url, price, originalPrice, category, description, imageUrl } = req.body;
-
-        if (!userId || !title || !url || !price || !category) {
-            return res.status(400).json({
-                error: 'userId, title, url, price, and category are required'
-            });
-        }
-
         const result = await dealSubmissionService.submitDeal({
-            userId,
-            title,
-            url,
-            price,
-            originalPrice,
-            category,
-            description,
-            imageUrl,
+            userId: req.user!.id,
+            ...req.body,
         });
 
         res.json(result);
@@ -157,7 +162,7 @@ router.post('/submit', async (req, res) => {
 });
 
 // GET /api/aggregation/submissions - Get pending submissions
-router.get('/submissions', async (req, res) => {
+router.get('/submissions', requireRole('moderator', 'admin'), async (req, res) => {
     try {
         const submissions = dealSubmissionService.getPendingSubmissions();
         res.json(submissions);
@@ -168,18 +173,14 @@ router.get('/submissions', async (req, res) => {
 });
 
 // POST /api/aggregation/moderate - Moderate a submission
-router.post('/moderate', async (req, res) => {
+router.post('/moderate', requireRole('moderator', 'admin'), validate(contract.aggregation.moderate), async (req, res) => {
     try {
-        const { submissionId, status, notes, moderatorId } = req.body;
-
-        if (!submissionId || !status) {
-            return res.status(400).json({ error: 'submissionId and status are required' });
-        }
+        const { submissionId, status, notes } = req.body;
 
         const success = await dealSubmissionService.moderate(submissionId, {
             status,
             notes,
-            moderatorId,
+            moderatorId: req.user!.id,
         });
 
         res.json({ success });
@@ -190,10 +191,9 @@ router.post('/moderate', async (req, res) => {
 });
 
 // GET /api/aggregation/leaderboard - User leaderboard
-router.get('/leaderboard', async (req, res) => {
+router.get('/leaderboard', validate(contract.aggregation.leaderboard), async (req, res) => {
     try {
-        const { limit = '10' } = req.query;
-        const leaderboard = dealSubmissionService.getLeaderboard(parseInt(limit as string));
+        const leaderboard = dealSubmissionService.getLeaderboard(req.query.limit);
         res.json(leaderboard);
     } catch (error) {
         console.error('Error fetching leaderboard:', error);
@@ -218,10 +218,23 @@ router.get('/user/:userId/stats', async (req, res) => {
     }
 });
 
-// GET /api/aggregation/jobs - Job scheduler status
-router.get('/jobs', async (req, res) => {
+// GET /api/aggregation/jobs - Job scheduler status with recent runs
+router.get('/jobs', validate(contract.aggregation.jobs), async (req, res) => {
     try {
-        const jobs = jobScheduler.getAllJobsStatus();
+        const { job, limit } = req.query;
+
+        const statuses = job
+            ? [await jobScheduler.getJobStatus(job)].filter(status => status !== null)
+            : await jobScheduler.getAllJobsStatus();
+
+        if (job && statuses.length === 0) {
+            return res.status(404).json({ error: 'Job not found' });
+        }
+
+        const jobs = await Promise.all(statuses.map(async status => ({
+            ...status,
+            runs: await jobScheduler.getRuns({ job: status.job.name, limit }),
+        })));
         res.json(jobs);
     } catch (error) {
         console.error('Error fetching jobs:', error);
@@ -229,17 +242,17 @@ router.get('/jobs', async (req, res) => {
     }
 });
 
-// POST /api/aggregation/jobs/:name/trigger - Trigger a job
-router.post('/jobs/:name/trigger', async (req, res) => {
+// POST /api/aggregation/jobs/:name/trigger - Start a job in the background (admins only)
+router.post('/jobs/:name/trigger', requireAuth, requireRole('admin'), async (req, res) => {
     try {
         const { name } = req.params;
-        const success = await jobScheduler.triggerJob(name);
+        const runId = await jobScheduler.triggerJob(name);
 
-        if (!success) {
+        if (!runId) {
             return res.status(404).json({ error: 'Job not found or already running' });
         }
 
-        res.json({ success, message: `Job ${name} triggered` });
+        res.status(202).json({ runId, message: `Job ${name} started; follow it in GET /api/aggregation/jobs` });
     } catch (error) {
         console.error('Error triggering job:', error);
         res.status(500).json({ error: 'Failed to trigger job' });
@@ -263,10 +276,9 @@ router.get('/feeds', async (req, res) => {
 });
 
 // GET /api/aggregation/top - Get top AI-scored deals
-router.get('/top', async (req, res) => {
+router.get('/top', validate(contract.aggregation.top), async (req, res) => {
     try {
-        const { limit = '20' } = req.query;
-        const deals = await aggregationPipeline.getTopDeals(parseInt(limit as string));
+        const deals = await aggregationPipeline.getTopDeals(req.query.limit);
 
         res.json({
             deals,
@@ -279,15 +291,10 @@ router.get('/top', async (req, res) => {
 });
 
 // GET /api/aggregation/search - AI-powered search
-router.get('/search', async (req, res) => {
+router.get('/search', validate(contract.aggregation.search), async (req, res) => {
     try {
         const { q, category } = req.query;
-
-        if (!q) {
-            return res.status(400).json({ error: 'Query parameter q is required' });
-        }
-
-        const deals = await aggregationPipeline.searchDeals(q as string, category as string);
+        const deals = await aggregationPipeline.searchDeals(q, category);
 
         res.json({
             query: q,
@@ -0,0 +1,216 @@
+/**
+ * Alert API Routes
+ *
+ * Wishlist price alerts, the in-app notification inbox,
+ * delivery channels and the delivery log.
+ */
+
+import { Router, Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { contract } from '@tadow/contract';
+import { alertEngine, channelService, ChannelTargetError } from '../services/alerts';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+/**
+ * POST /api/alerts/channels/email/confirm
+ * Confirm an email channel; the token in the link identifies it
+ */
+router.post('/channels/email/confirm', validate(contract.alerts.confirmChannelEmail), async (req, res) => {
+    try {
+        const channel = await channelService.confirmEmail(req.body.token);
+        res.json({ success: true, channel });
+    } catch (error) {
+        if (error instanceof ChannelTargetError) {
+            return res.status(400).json({ error: error.message });
+        }
+        res.status(500).json({ error: 'Failed to confirm channel' });
+    }
+});
+
+// Every other alert endpoint acts on the authenticated user
+router.use(requireAuth);
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// WISHLIST ALERTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * PUT /api/alerts/wishlist/:dealId
+ * Save a deal to the wishlist with an optional price alert
+ */
+router.put('/wishlist/:dealId', validate(contract.alerts.saveWishlistItem), async (req, res) => {
+    try {
+        const { dealId } = req.params;
+        const userId = req.user!.id;
+        const { priceAlert } = req.body;
+
+        const deal = await prisma.deal.findUnique({ where: { id: dealId } });
+        if (!deal) {
+            return res.status(404).json({ error: 'Deal not found' });
+        }
+
+        const item = await prisma.wishlistItem.upsert({
+            where: { userId_dealId: { userId, dealId } },
+            update: { priceAlert },
+            create: { userId, dealId, priceAlert },
+        });
+
+        // The threshold may already be met
+        if (priceAlert !== null) {
+            await alertEngine.evaluateDeal(dealId);
+        }
+
+        res.json({ success: true, item });
+    } catch (error) {
+        console.error('Error saving price alert:', error);
+        res.status(500).json({ error: 'Failed to save price alert' });
+    }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// INBOX
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * GET /api/alerts/inbox
+ * List in-app notifications, newest first
+ */
+router.get('/inbox', validate(contract.alerts.inbox), async (req, res) => {
+    try {
+        const userId = req.user!.id;
+        const { unread: unreadOnly, limit } = req.query;
+
+        const [notifications, unreadCount] = await Promise.all([
+            prisma.notification.findMany({
+                where: { userId, ...(unreadOnly ? { readAt: null } : {}) },
+                orderBy: { createdAt: 'desc' },
+                take: limit,
+            }),
+            prisma.notification.count({ where: { userId, readAt: null } }),
+        ]);
+
+        res.json({
+            success: true,
+            unreadCount,
+            notifications: notifications.map(n => ({
+                ...n,
+                data: n.data ? JSON.parse(n.data) : null,
+            })),
+        });
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to get inbox' });
+    }
+});
+
+/**
+ * POST /api/alerts/inbox/:id/read
+ * Mark one notification as read
+ */
+router.post('/inbox/:id/read', async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.id;
+        const result = await prisma.notification.updateMany({
+            where: { id: req.params.id, userId, readAt: null },
+            data: { readAt: new Date() },
+        });
+        res.json({ success: result.count > 0 });
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to mark notification read' });
+    }
+});
+
+/**
+ * POST /api/alerts/inbox/read-all
+ * Mark every notification as read
+ */
+router.post('/inbox/read-all', async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.id;
+        const result = await prisma.notification.updateMany({
+            where: { userId, readAt: null },
+            data: { readAt: new Date() },
+        });
+        res.json({ success: true, updated: result.count });
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to mark notifications read' });
+    }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CHANNELS & DELIVERY LOG
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * GET /api/alerts/channels
+ * List the user's configured delivery channels
+ */
+router.get('/channels', async (req: Request, res: Response) => {
+    try {
+        const channels = await channelService.list(req.user!.id);
+        res.json({ success: true, channels, available: alertEngine.getChannelNames() });
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to get channels' });
+    }
+});
+
+/**
+ * PUT /api/alerts/channels/:type
+ * Configure a webhook or email channel. Webhooks must reach a public
+ * address; email addresses are sent a confirmation link first.
+ */
+router.put('/channels/:type', validate(contract.alerts.saveChannel), async (req, res) => {
+    try {
+        const { target, enabled } = req.body;
+        const channel = await channelService.save(req.user!.id, req.params.type, target, enabled);
+        res.json({ success: true, channel });
+    } catch (error) {
+        if (error instanceof ChannelTargetError) {
+            return res.status(400).json({ error: error.message });
+        }
+        res.status(500).json({ error: 'Failed to save channel' });
+    }
+});
+
+/**
+ * DELETE /api/alerts/channels/:type
+ * Remove a delivery channel
+ */
+router.delete('/channels/:type', async (req: Request, res: Response) => {
+    try {
+        const userId = req.user!.id;
+        const result = await prisma.alertChannel.deleteMany({
+            where: { userId, type: req.params.type },
+        });
+        res.json({ success: result.count > 0 });
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to remove channel' });
+    }
+});
+
+/**
+ * GET /api/alerts/deliveries
+ * Delivery log for the user's notifications
+ */
+router.get('/deliveries', validate(contract.alerts.deliveries), async (req, res) => {
+    try {
+        const userId = req.user!.id;
+        const { limit } = req.query;
+
+        const deliveries = await prisma.notificationDelivery.findMany({
+            where: { notification: { userId } },
+            include: { notification: { select: { type: true, title: true, dealId: true } } },
+            orderBy: { attemptedAt: 'desc' },
+            take: limit,
+        });
+
+        res.json({ success: true, deliveries });
+    } catch (error) {
+        res.status(500).json({ error: 'Failed to get delivery log' });
+    }
+});
+
+export { router as alertsRouter };
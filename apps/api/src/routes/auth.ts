@@ -0,0 +1,115 @@
+/**
+ * Auth API Routes
+ *
+ * Email + password registration and login, magic-link sign in,
+ * and session management.
+ */
+
+import { Router, Request, Response } from 'express';
+import { contract } from '@tadow/contract';
+import { authService, AuthError } from '../services/auth';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+function handleAuthError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof AuthError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+}
+
+/**
+ * POST /api/auth/register
+ * Create an account with email and password
+ */
+router.post('/register', validate(contract.auth.register), async (req, res) => {
+    try {
+        const result = await authService.register(req.body, req.get('user-agent'));
+        res.status(201).json({ success: true, ...result });
+    } catch (error) {
+        handleAuthError(res, error, 'Failed to register');
+    }
+});
+
+/**
+ * POST /api/auth/login
+ * Sign in with email and password
+ */
+router.post('/login', validate(contract.auth.login), async (req, res) => {
+    try {
+        const result = await authService.login(req.body, req.get('user-agent'));
+        res.json({ success: true, ...result });
+    } catch (error) {
+        handleAuthError(res, error, 'Failed to log in');
+    }
+});
+
+/**
+ * POST /api/auth/magic-link
+ * Email a one-time sign-in link
+ */
+router.post('/magic-link', validate(contract.auth.magicLink), async (req, res) => {
+    try {
+        const devLink = await authService.requestMagicLink(req.body.email);
+        res.json({
+            success: true,
+            message: 'If that address is valid, a sign-in link is on its way',
+            ...(devLink ? { devLink } : {}),
+        });
+    } catch (error) {
+        handleAuthError(res, error, 'Failed to send sign-in link');
+    }
+});
+
+/**
+ * POST /api/auth/magic-link/verify
+ * Exchange a magic-link token for a session
+ */
+router.post('/magic-link/verify', validate(contract.auth.verifyMagicLink), async (req, res) => {
+    try {
+        const result = await authService.verifyMagicLink(req.body.token, req.get('user-agent'));
+        res.json({ success: true, ...result });
+    } catch (error) {
+        handleAuthError(res, error, 'Failed to verify sign-in link');
+    }
+});
+
+/**
+ * GET /api/auth/me
+ * Current user
+ */
+router.get('/me', requireAuth, (req: Request, res: Response) => {
+    const { sessionId, ...user } = req.user!;
+    res.json({ success: true, user });
+});
+
+/**
+ * POST /api/auth/password
+ * Set a password (magic-link accounts) or change it (with currentPassword)
+ */
+router.post('/password', requireAuth, validate(contract.auth.setPassword), async (req, res) => {
+    try {
+        await authService.setPassword(req.user!.id, req.body);
+        res.json({ success: true });
+    } catch (error) {
+        handleAuthError(res, error, 'Failed to set password');
+    }
+});
+
+/**
+ * POST /api/auth/logout
+ * Revoke the current session
+ */
+router.post('/logout', requireAuth, async (req: Request, res: Response) => {
+    try {
+        await authService.logout(req.user!.sessionId);
+        res.json({ success: true });
+    } catch (error) {
+        handleAuthError(res, error, 'Failed to log out');
+    }
+});
+
+export { router as authRouter };
@@ -1,36 +1,45 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { marketplaceAggregator, CraigslistFetcher } from '../services/marketplace';
+import { contract } from '@tadow/contract';
+import {
+    marketplaceAggregator,
+    dealIngestion,
+    dealPipeline,
+    dealEvents,
+    sourceForMarketplace,
+    sourceRegistry,
+    CraigslistFetcher,
+    type DealStreamEvent,
+} from '../services/marketplace';
+import { dealSearch, SearchError } from '../services/search';
+import { requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validate';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-// GET /api/deals - List deals with filters (LIVE from marketplaces)
-router.get('/', async (req, res) => {
-    try {
-        const {
-            category,
-            sources,
-            city,
-            limit = '30',
-        } = req.query;
+const STREAM_HEARTBEAT_MS = 25_000;
 
-        // Use the marketplace aggregator for live data
-        const result = await marketplaceAggregator.fetchDeals({
-            category: category as any,
-            sources: sources ? (sources as string).split(',') as any[] : undefined,
-            city: city as string,
-            limit: parseInt(limit as string),
-            useCache: true
-        });
+// Per-connection filters for /stream; sources match a source key, marketplace name or ID
+function matchesStreamFilter(
+    event: DealStreamEvent,
+    filter: { categories?: string[]; minScore?: number; sources?: string[] }
+): boolean {
+    if (filter.categories && !filter.categories.includes(event.category.toLowerCase())) return false;
+    if (filter.minScore !== undefined && (event.dealScore ?? 0) < filter.minScore) return false;
+    if (filter.sources) {
+        const keys = [event.marketplaceId, event.source.toLowerCase(), sourceForMarketplace(event.source)];
+        if (!keys.some(key => key && filter.sources!.includes(key))) return false;
+    }
+    return true;
+}
 
-        res.json({
-            deals: result.deals,
-            sources: result.sources,
-            total: result.totalAfterDedup,
-            fetchTime: result.fetchTime,
-            cached: result.cached
-        });
+// GET /api/deals - List deals with filters and pagination (from the stored catalog)
+router.get('/', validate(contract.deals.list), async (req, res) => {
+    try {
+        const result = await dealIngestion.queryCatalog(req.query);
+
+        res.json(result);
     } catch (error) {
         console.error('Error fetching deals:', error);
         res.status(500).json({ error: 'Failed to fetch deals' });
@@ -38,13 +47,9 @@ router.get('/', async (req, res) => {
 });
 
 // GET /api/deals/hot - Get hot deals from Slickdeals/DealNews
-router.get('/hot', async (req, res) => {
+router.get('/hot', validate(contract.deals.hot), async (req, res) => {
     try {
-        const { limit = '15' } = req.query;
-
-        const result = await marketplaceAggregator.getHotDeals(
-            parseInt(limit as string)
-        );
+        const result = await marketplaceAggregator.getHotDeals(req.query.limit);
 
         res.json({
             deals: result.deals,
@@ -57,24 +62,38 @@ router.get('/hot', async (req, res) => {
     }
 });
 
-// GET /api/deals/search - Search across marketplaces (LIVE)
-router.get('/search', async (req, res) => {
+// GET /api/deals/search - Full-text search over stored deals, with facets and cursor pagination
+router.get('/search', validate(contract.deals.search), async (req, res) => {
     try {
-        const {
-            q,
-            sources,
-            city,
-            limit = '30',
-        } = req.query;
+        const { category, brand, condition, ...query } = req.query;
 
-        if (!q) {
-            return res.status(400).json({ error: 'Query parameter "q" is required' });
+        const result = await dealSearch.search({
+            ...query,
+            categories: category,
+            brands: brand,
+            conditions: condition,
+        });
+
+        res.json(result);
+    } catch (error) {
+        if (error instanceof SearchError) {
+            return res.status(error.status).json({ error: error.message });
         }
+        console.error('Error searching deals:', error);
+        res.status(500).json({ error: 'Failed to search deals' });
+    }
+});
+
+// GET /api/deals/search/live - Search across marketplaces (LIVE)
+router.get('/search/live', validate(contract.deals.searchLive), async (req, res) => {
+    try {
+        const { q, sources, city, lat, lng, limit } = req.query;
 
-        const result = await marketplaceAggregator.search(q as string, {
-            sources: sources ? (sources as string).split(',') as any[] : undefined,
-            city: city as string,
-            limit: parseInt(limit as string),
+        const result = await marketplaceAggregator.search(q, {
+            sources,
+            city,
+            near: lat !== undefined && lng !== undefined ? { lat, lng } : undefined,
+            limit,
             useCache: true
         });
 
@@ -92,16 +111,14 @@ router.get('/search', async (req, res) => {
     }
 });
 
-// GET /api/deals/sources - List available sources and their status
+// GET /api/deals/sources - List registered sources with their health
 router.get('/sources', async (req, res) => {
     try {
-        const stats = marketplaceAggregator.getSourceStats();
         const cities = CraigslistFetcher.getCities();
 
         res.json({
-            sources: stats,
-            cities,
-            ebayConfigured: marketplaceAggregator.isEbayConfigured()
+            sources: sourceRegistry.health(),
+            cities
         });
     } catch (error) {
         console.error('Error fetching sources:', error);
@@ -109,21 +126,40 @@ router.get('/sources', async (req, res) => {
     }
 });
 
-// POST /api/deals/refresh - Force refresh cache
+// PATCH /api/deals/sources/:name - Enable or disable a source at runtime (admin)
+router.patch('/sources/:name', requireRole('admin'), validate(contract.deals.updateSource), async (req, res) => {
+    try {
+        const health = sourceRegistry.setEnabled(req.params.name, req.body.enabled);
+        if (!health) {
+            return res.status(404).json({ error: 'Source not found' });
+        }
+
+        // Cached results may include the source that was just switched
+        await marketplaceAggregator.clearCache();
+        res.json(health);
+    } catch (error) {
+        console.error('Error updating source:', error);
+        res.status(500).json({ error: 'Failed to update source' });
+    }
+});
+
+// POST /api/deals/refresh - Force refresh cache and ingest fresh deals
 router.post('/refresh', async (req, res) => {
     try {
-        marketplaceAggregator.clearCache();
+        await marketplaceAggregator.clearCache();
 
-        // Trigger a fresh fetch
+        // Trigger a fresh fetch and store it in the catalog
         const result = await marketplaceAggregator.fetchDeals({
             useCache: false
         });
+        const ingestion = await dealPipeline.persist(result.deals);
 
         res.json({
             message: 'Cache cleared and deals refreshed',
             dealsCount: result.deals.length,
             sources: result.sources,
-            fetchTime: result.fetchTime
+            fetchTime: result.fetchTime,
+            ingestion
         });
     } catch (error) {
         console.error('Error refreshing deals:', error);
@@ -177,6 +213,49 @@ router.get('/featured', async (req, res) => {
     }
 });
 
+// GET /api/deals/stream - SSE feed of deal.created / deal.price_changed / deal.expired
+// Filters: ?category=a,b&minScore=70&sources=amazon,ebay. Resumes from the
+// Last-Event-ID header (sent by EventSource on reconnect) or ?lastEventId=.
+router.get('/stream', validate(contract.deals.stream), async (req, res) => {
+    const lower = (values?: string[]) => values?.map(value => value.toLowerCase());
+    const filter = {
+        categories: lower(req.query.category),
+        minScore: req.query.minScore,
+        sources: lower(req.query.sources),
+    };
+    const resumeFrom = parseInt(req.get('Last-Event-ID') || String(req.query.lastEventId ?? ''));
+
+    try {
+        res.set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+            'X-Accel-Buffering': 'no',
+        });
+        res.flushHeaders();
+        res.write('retry: 5000\n\n');
+
+        const unsubscribe = dealEvents.subscribe(event => {
+            if (!matchesStreamFilter(event, filter)) return;
+            res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        }, Number.isFinite(resumeFrom) ? resumeFrom : undefined);
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), STREAM_HEARTBEAT_MS);
+
+        req.on('close', () => {
+            clearInterval(heartbeat);
+            unsubscribe();
+        });
+    } catch (error) {
+        console.error('Error opening deal stream:', error);
+        if (!res.headersSent) {
+            return res.status(500).json({ error: 'Failed to open deal stream' });
+        }
+        // Already streaming: tell the client and close; EventSource reconnects after `retry`
+        res.write(`event: error\ndata: ${JSON.stringify({ error: 'Failed to open deal stream' })}\n\n`);
+        res.end();
+    }
+});
+
 // GET /api/deals/:id - Get deal details (from database for saved deals)
 router.get('/:id', async (req, res) => {
     try {
@@ -0,0 +1,53 @@
+/**
+ * API Docs Routes
+ *
+ * The OpenAPI document generated from the shared contract, and a
+ * Swagger UI page to browse and try it.
+ */
+
+import { Router, Request, Response } from 'express';
+import { contract, generateOpenApi } from '@tadow/contract';
+
+const router = Router();
+
+// The contract is fixed at build time, so the document is built once
+let document: ReturnType<typeof generateOpenApi> | null = null;
+
+function openApiDocument() {
+    document ??= generateOpenApi(contract, {
+        title: 'Tadow API',
+        version: process.env.npm_package_version || '1.0.0',
+        description: 'Deal aggregation, shopping agent and P2P marketplace API. Generated from @tadow/contract.',
+    });
+    return document;
+}
+
+// Swagger UI from a CDN, pointed at the document above
+const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Tadow API</title>
+    <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css" />
+</head>
+<body>
+    <div id="swagger-ui"></div>
+    <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js" crossorigin></script>
+    <script>
+        window.ui = SwaggerUIBundle({ url: 'openapi.json', dom_id: '#swagger-ui' });
+    </script>
+</body>
+</html>`;
+
+// GET /api/openapi.json - OpenAPI 3.1 document
+router.get('/openapi.json', (req: Request, res: Response) => {
+    res.json(openApiDocument());
+});
+
+// GET /api/docs - Interactive API reference
+router.get('/docs', (req: Request, res: Response) => {
+    res.type('html').send(DOCS_PAGE);
+});
+
+export { router as docsRouter };
@@ -0,0 +1,115 @@
+/**
+ * Listing API Routes
+ *
+ * Browse and manage P2P marketplace listings. Creating and editing
+ * listings requires a signed-in seller; so does bidding on an auction.
+ */
+
+import { Router, Request, Response } from 'express';
+import { contract } from '@tadow/contract';
+import { listingService, auctionService, handleMarketplaceError } from '../services/p2p';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+/**
+ * GET /api/listings
+ * Browse listings (filters: category, sellerId, status, q, minPrice, maxPrice; sort, page, limit)
+ */
+router.get('/', validate(contract.listings.list), async (req, res) => {
+    try {
+        const { sellerId, status } = req.query;
+
+        // Sellers may browse their own drafts and removed listings
+        const ownListings = sellerId && sellerId === req.user?.id;
+        const result = await listingService.list({
+            ...req.query,
+            status: ownListings ? status : 'active',
+        });
+
+        res.json(result);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to fetch listings');
+    }
+});
+
+/**
+ * GET /api/listings/:id
+ * Listing detail
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+    try {
+        const listing = await listingService.get(req.params.id, req.user?.id);
+        res.json(listing);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to fetch listing');
+    }
+});
+
+/**
+ * GET /api/listings/:id/bids
+ * Auction bid history, with the signed-in viewer's own maximum
+ */
+router.get('/:id/bids', async (req: Request, res: Response) => {
+    try {
+        const result = await auctionService.listBids(req.params.id, req.user?.id);
+        res.json(result);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to fetch bids');
+    }
+});
+
+/**
+ * POST /api/listings/:id/bids
+ * Bid on an auction up to maxAmount
+ */
+router.post('/:id/bids', requireAuth, validate(contract.listings.placeBid), async (req, res) => {
+    try {
+        const result = await auctionService.placeBid(req.params.id, req.user!.id, req.body);
+        res.status(201).json(result);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to place bid');
+    }
+});
+
+/**
+ * POST /api/listings
+ * Create a listing as the signed-in seller
+ */
+router.post('/', requireAuth, validate(contract.listings.create), async (req, res) => {
+    try {
+        const listing = await listingService.create(req.user!.id, req.body);
+        res.status(201).json(listing);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to create listing');
+    }
+});
+
+/**
+ * PUT /api/listings/:id
+ * Update one of the seller's listings
+ */
+router.put('/:id', requireAuth, validate(contract.listings.update), async (req, res) => {
+    try {
+        const listing = await listingService.update(req.params.id, req.user!.id, req.body);
+        res.json(listing);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to update listing');
+    }
+});
+
+/**
+ * DELETE /api/listings/:id
+ * Take a listing down
+ */
+router.delete('/:id', requireAuth, async (req: Request, res: Response) => {
+    try {
+        await listingService.remove(req.params.id, req.user!.id);
+        res.json({ success: true });
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to remove listing');
+    }
+});
+
+export { router as listingsRouter };
@@ -0,0 +1,49 @@
+/**
+ * Local API Routes
+ *
+ * Radius search over stored deals and P2P listings, and geocoding
+ * against the offline gazetteer.
+ */
+
+import { Router } from 'express';
+import { contract } from '@tadow/contract';
+import { gazetteer, localSearch } from '../services/geo';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+// GET /api/local - Deals and listings within radiusMiles of lat/lng
+router.get('/', validate(contract.local.search), async (req, res) => {
+    try {
+        const { lat, lng, ...query } = req.query;
+        res.json(await localSearch.search({ ...query, center: { lat, lng } }));
+    } catch (error) {
+        console.error('Error searching local deals:', error);
+        res.status(500).json({ error: 'Failed to search local deals' });
+    }
+});
+
+// GET /api/local/geocode - Coordinates for ?zip= or ?city=&state=, or the city nearest ?lat=&lng=
+router.get('/geocode', validate(contract.local.geocode), (req, res) => {
+    const { zip, city, state, lat, lng } = req.query;
+
+    if (lat !== undefined && lng !== undefined) {
+        const place = gazetteer.nearest({ lat, lng });
+        if (!place) {
+            return res.status(404).json({ error: 'No known city near that point' });
+        }
+        return res.json({ lat, lng, city: place.name, state: place.state, precision: 'nearest' });
+    }
+
+    if (!zip && !city) {
+        return res.status(400).json({ error: 'Provide zip, city (and state), or lat and lng' });
+    }
+
+    const result = gazetteer.geocode({ zipCode: zip, city, state });
+    if (!result) {
+        return res.status(404).json({ error: 'Location not found' });
+    }
+    res.json(result);
+});
+
+export { router as localRouter };
@@ -0,0 +1,136 @@
+/**
+ * Messaging API Routes
+ *
+ * Buyer/seller conversations plus a Server-Sent Events stream that
+ * pushes new messages, read receipts and offer updates to the signed-in
+ * user. EventSource cannot send headers, so the stream also accepts the
+ * session token as `?access_token=`.
+ */
+
+import { Router, Request, Response } from 'express';
+import { contract } from '@tadow/contract';
+import { messagingService, messagingEvents } from '../services/messaging';
+import { handleMarketplaceError } from '../services/p2p';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+router.use(requireAuth);
+
+const HEARTBEAT_MS = 25_000;
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// CONVERSATIONS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * GET /api/messages/conversations
+ * The user's conversations, most recent first
+ */
+router.get('/conversations', async (req: Request, res: Response) => {
+    try {
+        const conversations = await messagingService.listConversations(req.user!.id);
+        res.json({ conversations });
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to fetch conversations');
+    }
+});
+
+/**
+ * POST /api/messages/conversations
+ * Open (or reuse) a conversation with another user, optionally about a listing
+ */
+router.post('/conversations', validate(contract.messages.startConversation), async (req, res) => {
+    try {
+        const { participantId, listingId } = req.body;
+        const conversation = await messagingService.getOrCreateConversation(req.user!.id, participantId, listingId);
+        res.status(201).json(conversation);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to start conversation');
+    }
+});
+
+/**
+ * GET /api/messages/conversations/:id/messages
+ * Messages oldest-first (?before=ISO date&limit=50 to page back)
+ */
+router.get('/conversations/:id/messages', validate(contract.messages.list), async (req, res) => {
+    try {
+        const messages = await messagingService.getMessages(req.params.id, req.user!.id, req.query);
+        res.json({ messages });
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to fetch messages');
+    }
+});
+
+/**
+ * POST /api/messages/conversations/:id/messages
+ * Send a text or image message
+ */
+router.post('/conversations/:id/messages', validate(contract.messages.send), async (req, res) => {
+    try {
+        const { content, type } = req.body;
+        const message = await messagingService.sendMessage(req.params.id, req.user!.id, content, type);
+        res.status(201).json(message);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to send message');
+    }
+});
+
+/**
+ * POST /api/messages/conversations/:id/read
+ * Mark the conversation read and notify the other side
+ */
+router.post('/conversations/:id/read', async (req: Request, res: Response) => {
+    try {
+        const marked = await messagingService.markRead(req.params.id, req.user!.id);
+        res.json({ marked });
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to mark conversation read');
+    }
+});
+
+/**
+ * GET /api/messages/unread
+ * Total unread messages across conversations
+ */
+router.get('/unread', async (req: Request, res: Response) => {
+    try {
+        const unread = await messagingService.getUnreadCount(req.user!.id);
+        res.json({ unread });
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to fetch unread count');
+    }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// LIVE UPDATES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * GET /api/messages/stream
+ * SSE stream of `message`, `read` and `offer` events for the user
+ */
+router.get('/stream', (req: Request, res: Response) => {
+    res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write(': connected\n\n');
+
+    const unsubscribe = messagingEvents.subscribe(req.user!.id, event => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    });
+});
+
+export { router as messagesRouter };
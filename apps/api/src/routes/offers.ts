@@ -0,0 +1,112 @@
+/**
+ * Offer API Routes
+ *
+ * Offer threads on negotiable listings and bundles, and sellers' offer
+ * rules. Moves land in the listing's conversation and a thread expires
+ * server-side after 24 hours without an answer.
+ */
+
+import { Router, Request, Response } from 'express';
+import { contract } from '@tadow/contract';
+import { offerService, offerRuleService } from '../services/messaging';
+import { handleMarketplaceError } from '../services/p2p';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+router.use(requireAuth);
+
+/**
+ * GET /api/offers
+ * Offers the user made or received (?type=sent|received&listingId=&status=)
+ */
+router.get('/', validate(contract.offers.list), async (req, res) => {
+    try {
+        const offers = await offerService.list(req.user!.id, req.query);
+        res.json({ offers });
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to fetch offers');
+    }
+});
+
+/**
+ * POST /api/offers
+ * Make an offer on a listing, or a bundle with bundleListingIds
+ */
+router.post('/', validate(contract.offers.create), async (req, res) => {
+    try {
+        const offer = await offerService.create(req.user!.id, req.body);
+        res.status(201).json(offer);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to create offer');
+    }
+});
+
+/**
+ * POST /api/offers/:id/respond
+ * Whoever's turn it is accepts, declines or counters ({ response, counterAmount, message })
+ */
+router.post('/:id/respond', validate(contract.offers.respond), async (req, res) => {
+    try {
+        const { response, counterAmount, message } = req.body;
+        const offer = await offerService.respond(req.params.id, req.user!.id, response, counterAmount, message);
+        res.json(offer);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to respond to offer');
+    }
+});
+
+/**
+ * GET /api/offers/rules
+ * The seller's offer rules
+ */
+router.get('/rules', async (req: Request, res: Response) => {
+    try {
+        const rules = await offerRuleService.list(req.user!.id);
+        res.json({ rules });
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to fetch offer rules');
+    }
+});
+
+/**
+ * PUT /api/offers/rules/:listingId
+ * Set the automatic answers to offers on one of the seller's listings
+ */
+router.put('/rules/:listingId', validate(contract.offers.setRule), async (req, res) => {
+    try {
+        const rule = await offerRuleService.set(req.user!.id, req.params.listingId, req.body);
+        res.json(rule);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to save offer rule');
+    }
+});
+
+/**
+ * DELETE /api/offers/rules/:listingId
+ * Go back to answering every offer on the listing by hand
+ */
+router.delete('/rules/:listingId', async (req: Request, res: Response) => {
+    try {
+        await offerRuleService.remove(req.user!.id, req.params.listingId);
+        res.json({ success: true });
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to remove offer rule');
+    }
+});
+
+/**
+ * POST /api/offers/:id/withdraw
+ * Buyer withdraws an open offer
+ */
+router.post('/:id/withdraw', async (req: Request, res: Response) => {
+    try {
+        const offer = await offerService.withdraw(req.params.id, req.user!.id);
+        res.json(offer);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to withdraw offer');
+    }
+});
+
+export { router as offersRouter };
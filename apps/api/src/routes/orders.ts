@@ -0,0 +1,155 @@
+/**
+ * Order API Routes
+ *
+ * P2P checkout, the order state machine, carrier tracking, disputes
+ * and post-order reviews. Every endpoint acts on the signed-in buyer
+ * or seller; dispute resolution is limited to moderators.
+ */
+
+import { Router, Request, Response } from 'express';
+import { contract } from '@tadow/contract';
+import { orderService, reviewService, handleMarketplaceError } from '../services/p2p';
+import { shippingService } from '../services/shipping';
+import { requireAuth, requireRole } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+router.use(requireAuth);
+
+const STAFF_ROLES = ['moderator', 'admin'];
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ORDERS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * GET /api/orders
+ * The user's orders (?role=buyer|seller to narrow)
+ */
+router.get('/', validate(contract.orders.list), async (req, res) => {
+    try {
+        const orders = await orderService.listForUser(req.user!.id, req.query.role);
+        res.json({ orders });
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to fetch orders');
+    }
+});
+
+/**
+ * POST /api/orders
+ * Check out a listing; payment is held in escrow
+ */
+router.post('/', validate(contract.orders.create), async (req, res) => {
+    try {
+        const order = await orderService.create(req.user!.id, req.body);
+        res.status(201).json(order);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to create order');
+    }
+});
+
+/**
+ * GET /api/orders/:id
+ * Order detail with disputes and reviews
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+    try {
+        const order = await orderService.get(
+            req.params.id,
+            req.user!.id,
+            STAFF_ROLES.includes(req.user!.role)
+        );
+        res.json(order);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to fetch order');
+    }
+});
+
+/**
+ * GET /api/orders/:id/tracking
+ * Shipping details and carrier scans, newest first
+ */
+router.get('/:id/tracking', async (req: Request, res: Response) => {
+    try {
+        const tracking = await shippingService.tracking(
+            req.params.id,
+            req.user!.id,
+            STAFF_ROLES.includes(req.user!.role)
+        );
+        res.json(tracking);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to fetch tracking');
+    }
+});
+
+/**
+ * POST /api/orders/:id/status
+ * Move the order through the state machine, e.g.
+ * { status: 'shipped', trackingNumber, carrier } or { status: 'completed' }
+ */
+router.post('/:id/status', validate(contract.orders.updateStatus), async (req, res) => {
+    try {
+        const { status, trackingNumber, carrier, estimatedDelivery } = req.body;
+
+        const order = await orderService.updateStatus(req.params.id, req.user!.id, status, {
+            trackingNumber,
+            carrier,
+            estimatedDelivery,
+        });
+        res.json(order);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to update order');
+    }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// DISPUTES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * POST /api/orders/:id/disputes
+ * Open a dispute, freezing escrow until support resolves it
+ */
+router.post('/:id/disputes', validate(contract.orders.openDispute), async (req, res) => {
+    try {
+        const dispute = await orderService.openDispute(req.params.id, req.user!.id, req.body);
+        res.status(201).json(dispute);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to open dispute');
+    }
+});
+
+/**
+ * POST /api/orders/disputes/:disputeId/resolve
+ * Support decision: { outcome, amount? }
+ */
+router.post('/disputes/:disputeId/resolve', requireRole(...STAFF_ROLES), validate(contract.orders.resolveDispute), async (req, res) => {
+    try {
+        const { outcome, amount } = req.body;
+
+        const dispute = await orderService.resolveDispute(req.params.disputeId, outcome, amount);
+        res.json(dispute);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to resolve dispute');
+    }
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// REVIEWS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * POST /api/orders/:id/reviews
+ * Review the other party once the order is completed
+ */
+router.post('/:id/reviews', validate(contract.orders.review), async (req, res) => {
+    try {
+        const review = await reviewService.create(req.params.id, req.user!.id, req.body);
+        res.status(201).json(review);
+    } catch (error) {
+        handleMarketplaceError(res, error, 'Failed to save review');
+    }
+});
+
+export { router as ordersRouter };
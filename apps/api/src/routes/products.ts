@@ -1,13 +1,17 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { contract } from '@tadow/contract';
+import { productMatcher } from '../services/matching';
+import { validate } from '../middleware/validate';
 
 const router = Router();
 const prisma = new PrismaClient();
 
-// GET /api/products - List all products
+// GET /api/products - List researched products (matched products are reached through their offers)
 router.get('/', async (req, res) => {
     try {
         const products = await prisma.product.findMany({
+            where: { origin: 'research' },
             include: {
                 prices: true,
             },
@@ -63,4 +67,28 @@ router.get('/:id', async (req, res) => {
     }
 });
 
+// GET /api/products/:id/offers - Every live deal matched to this product, cheapest first
+router.get('/:id/offers', validate(contract.products.offers), async (req, res) => {
+    try {
+        const result = await productMatcher.offersFor(req.params.id, req.query);
+
+        if (!result) {
+            return res.status(404).json({ error: 'Product not found' });
+        }
+
+        res.json({
+            ...result,
+            product: {
+                ...result.product,
+                scoreBreakdown: JSON.parse(result.product.scoreBreakdown),
+                specs: JSON.parse(result.product.specs),
+                idealPersonas: JSON.parse(result.product.idealPersonas),
+            },
+        });
+    } catch (error) {
+        console.error('Error fetching product offers:', error);
+        res.status(500).json({ error: 'Failed to fetch product offers' });
+    }
+});
+
 export { router as productsRouter };
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
+import { contract, type RouteBody } from '@tadow/contract';
+import { validate } from '../middleware/validate';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -13,12 +15,7 @@ type Persona =
     | 'Power User'
     | 'Tinkerer';
 
-interface QuestionnaireAnswers {
-    primaryUse: 'work' | 'gaming' | 'school' | 'travel' | 'creative';
-    budget: 'under-800' | '800-1200' | '1200-2000' | 'over-2000';
-    priority: 'portability' | 'performance' | 'battery' | 'display';
-    importance: 'weight' | 'build-quality' | 'upgradeability' | 'screen-size';
-}
+type QuestionnaireAnswers = RouteBody<typeof contract.recommendations.create>;
 
 const personaDescriptions: Record<Persona, { name: string; description: string; emoji: string }> = {
     'Digital Nomad': {
@@ -102,17 +99,10 @@ function determinePersona(answers: QuestionnaireAnswers): Persona {
 }
 
 // POST /api/recommendations - Get personalized recommendations
-router.post('/', async (req, res) => {
+router.post('/', validate(contract.recommendations.create), async (req, res) => {
     try {
-        const answers = req.body as QuestionnaireAnswers;
-
-        // Validate answers
-        if (!answers.primaryUse || !answers.budget || !answers.priority || !answers.importance) {
-            return res.status(400).json({ error: 'Missing required questionnaire answers' });
-        }
-
         // Determine persona
-        const persona = determinePersona(answers);
+        const persona = determinePersona(req.body);
         const personaInfo = personaDescriptions[persona];
 
         // Fetch products that match the persona
@@ -0,0 +1,47 @@
+/**
+ * Review API Routes
+ *
+ * Public buyer/seller feedback from P2P orders. Reviews are written
+ * through POST /api/orders/:id/reviews.
+ */
+
+import { Router, Request, Response } from 'express';
+import { contract } from '@tadow/contract';
+import { reviewService, MarketplaceError } from '../services/p2p';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+/**
+ * GET /api/reviews/users/:userId
+ * Reviews a user has received
+ */
+router.get('/users/:userId', async (req: Request, res: Response) => {
+    try {
+        const reviews = await reviewService.listForUser(req.params.userId);
+        res.json({ reviews });
+    } catch (error) {
+        console.error('Error fetching reviews:', error);
+        res.status(500).json({ error: 'Failed to fetch reviews' });
+    }
+});
+
+/**
+ * POST /api/reviews/:id/response
+ * Reply to a review you received
+ */
+router.post('/:id/response', requireAuth, validate(contract.reviews.respond), async (req, res) => {
+    try {
+        const review = await reviewService.respond(req.params.id, req.user!.id, req.body.comment);
+        res.json(review);
+    } catch (error) {
+        if (error instanceof MarketplaceError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        console.error('Error responding to review:', error);
+        res.status(500).json({ error: 'Failed to respond to review' });
+    }
+});
+
+export { router as reviewsRouter };
@@ -0,0 +1,102 @@
+/**
+ * Saved Search API Routes
+ *
+ * The signed-in user's saved searches. The saved-search job re-runs them
+ * against newly ingested deals; these endpoints list what is new.
+ */
+
+import { Router, Request, Response } from 'express';
+import { contract } from '@tadow/contract';
+import { savedSearchService, SearchError } from '../services/search';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+router.use(requireAuth);
+
+function handleSearchError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof SearchError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+}
+
+/**
+ * GET /api/saved-searches
+ * The user's saved searches with their new-match counts
+ */
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        const searches = await savedSearchService.list(req.user!.id);
+        res.json({ searches });
+    } catch (error) {
+        handleSearchError(res, error, 'Failed to fetch saved searches');
+    }
+});
+
+/**
+ * POST /api/saved-searches
+ * Save a search ({ query, filters, alertsEnabled })
+ */
+router.post('/', validate(contract.savedSearches.create), async (req, res) => {
+    try {
+        const search = await savedSearchService.create(req.user!.id, req.body);
+        res.status(201).json(search);
+    } catch (error) {
+        handleSearchError(res, error, 'Failed to save search');
+    }
+});
+
+/**
+ * PATCH /api/saved-searches/:id
+ * Change the query, filters or alert setting
+ */
+router.patch('/:id', validate(contract.savedSearches.update), async (req, res) => {
+    try {
+        const search = await savedSearchService.update(req.user!.id, req.params.id, req.body);
+        res.json(search);
+    } catch (error) {
+        handleSearchError(res, error, 'Failed to update saved search');
+    }
+});
+
+/**
+ * DELETE /api/saved-searches/:id
+ * Delete a saved search and its matches
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+    try {
+        await savedSearchService.remove(req.user!.id, req.params.id);
+        res.json({ success: true });
+    } catch (error) {
+        handleSearchError(res, error, 'Failed to delete saved search');
+    }
+});
+
+/**
+ * GET /api/saved-searches/:id/new
+ * Deals matched since the user last looked (?limit=)
+ */
+router.get('/:id/new', validate(contract.savedSearches.newMatches), async (req, res) => {
+    try {
+        res.json(await savedSearchService.newMatches(req.user!.id, req.params.id, req.query.limit));
+    } catch (error) {
+        handleSearchError(res, error, 'Failed to fetch new matches');
+    }
+});
+
+/**
+ * POST /api/saved-searches/:id/viewed
+ * Mark the current matches as seen
+ */
+router.post('/:id/viewed', async (req: Request, res: Response) => {
+    try {
+        res.json(await savedSearchService.markViewed(req.user!.id, req.params.id));
+    } catch (error) {
+        handleSearchError(res, error, 'Failed to mark saved search viewed');
+    }
+});
+
+export { router as savedSearchesRouter };
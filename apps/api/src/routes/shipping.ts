@@ -0,0 +1,69 @@
+/**
+ * Shipping API Routes
+ *
+ * Rate quotes for pricing a listing's shipping, and the webhook carriers
+ * post scan events to. Webhook bodies arrive raw (see index.ts) so the
+ * signature can be checked over the exact bytes the carrier signed.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { contract } from '@tadow/contract';
+import {
+    rateProvider,
+    shippingService,
+    verifyWebhookSignature,
+    webhookSecretConfigured,
+    SIGNATURE_HEADER,
+} from '../services/shipping';
+import { validate } from '../middleware/validate';
+
+const router = Router();
+
+// Check the signature, then hand the parsed body to validation
+function verifyCarrierSignature(req: Request, res: Response, next: NextFunction) {
+    if (!webhookSecretConfigured()) {
+        return res.status(503).json({ error: 'Carrier webhooks are not configured' });
+    }
+
+    const raw = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (!verifyWebhookSignature(raw, req.get(SIGNATURE_HEADER))) {
+        return res.status(401).json({ error: 'Invalid webhook signature' });
+    }
+
+    try {
+        req.body = JSON.parse(raw.toString('utf8'));
+    } catch {
+        return res.status(400).json({ error: 'Webhook body must be JSON' });
+    }
+    next();
+}
+
+/**
+ * GET /api/shipping/rates
+ * Quotes by weight (?weightLbs=) and optional ?fromZip= / ?toZip=
+ */
+router.get('/rates', validate(contract.shipping.rates), async (req, res) => {
+    try {
+        const result = await rateProvider.quote(req.query);
+        res.json(result);
+    } catch (error) {
+        console.error('Failed to quote shipping:', error);
+        res.status(500).json({ error: 'Failed to quote shipping' });
+    }
+});
+
+/**
+ * POST /api/shipping/webhooks/:carrier
+ * Carrier scan events: { events: [{ trackingNumber, status, occurredAt, ... }] }
+ */
+router.post('/webhooks/:carrier', verifyCarrierSignature, validate(contract.shipping.carrierWebhook), async (req, res) => {
+    try {
+        const result = await shippingService.ingest(req.params.carrier, req.body.events);
+        res.json(result);
+    } catch (error) {
+        console.error('Failed to ingest carrier events:', error);
+        res.status(500).json({ error: 'Failed to ingest carrier events' });
+    }
+});
+
+export { router as shippingRouter };
@@ -0,0 +1,305 @@
+/**
+ * Agent Repository
+ *
+ * Prisma-backed storage for shopping agent configs, deal hunts,
+ * found deals and the agent activity log.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type {
+    AgentConfig as AgentConfigRow,
+    DealHunt as DealHuntRow,
+    FoundDeal as FoundDealRow,
+    AgentActivity as AgentActivityRow,
+} from '@prisma/client';
+import type {
+    AgentConfig,
+    AgentStats,
+    DealHunt,
+    FoundDeal,
+    AgentActivity,
+} from './ShoppingAgent';
+
+const prisma = new PrismaClient();
+
+type HuntWithDeals = DealHuntRow & { foundDeals: FoundDealRow[] };
+
+export class AgentRepository {
+    /**
+     * Load an agent config (with hunts), creating it on first use
+     */
+    async getOrCreateAgent(userId: string): Promise<AgentConfig> {
+        await this.ensureUser(userId);
+
+        const config = await prisma.agentConfig.upsert({
+            where: { userId },
+            update: {},
+            create: { userId },
+        });
+
+        return this.toAgentConfig(config, await this.getHunts(userId));
+    }
+
+    /**
+     * Load an agent config without creating one
+     */
+    async findAgent(userId: string): Promise<AgentConfig | null> {
+        const config = await prisma.agentConfig.findUnique({ where: { userId } });
+        if (!config) return null;
+
+        return this.toAgentConfig(config, await this.getHunts(userId));
+    }
+
+    async updateSettings(
+        userId: string,
+        settings: Partial<Pick<AgentConfig, 'aggressiveness' | 'canAutoPurchase' | 'maxAutoPurchaseAmount' | 'status'>>
+    ): Promise<void> {
+        await prisma.agentConfig.update({
+            where: { userId },
+            data: {
+                aggressiveness: settings.aggressiveness,
+                canAutoPurchase: settings.canAutoPurchase,
+                maxAutoPurchaseAmount: settings.maxAutoPurchaseAmount,
+                status: settings.status,
+            },
+        });
+    }
+
+    async updateStats(userId: string, stats: AgentStats): Promise<void> {
+        await prisma.agentConfig.update({
+            where: { userId },
+            data: { ...stats },
+        });
+    }
+
+    /**
+     * User IDs of every agent that should be run by the global runner
+     */
+    async listActiveUserIds(): Promise<string[]> {
+        const configs = await prisma.agentConfig.findMany({
+            where: { status: 'active' },
+            select: { userId: true },
+        });
+        return configs.map(c => c.userId);
+    }
+
+    // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+    // HUNTS
+    // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+    async createHunt(
+        userId: string,
+        hunt: Omit<DealHunt, 'id' | 'status' | 'createdAt' | 'foundDeals'>
+    ): Promise<DealHunt> {
+        const created = await prisma.dealHunt.create({
+            data: {
+                userId,
+                query: hunt.query,
+                category: hunt.category,
+                brand: hunt.brand,
+                maxPrice: hunt.maxPrice,
+                minDealScore: hunt.minDealScore,
+                targetDiscount: hunt.targetDiscount,
+                expiresAt: hunt.expiresAt,
+            },
+            include: { foundDeals: true },
+        });
+
+        return this.toDealHunt(created);
+    }
+
+    async getHunts(userId: string): Promise<DealHunt[]> {
+        const hunts = await prisma.dealHunt.findMany({
+            where: { userId },
+            include: { foundDeals: { orderBy: { foundAt: 'desc' } } },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return hunts.map(h => this.toDealHunt(h));
+    }
+
+    async getHunt(userId: string, huntId: string): Promise<DealHunt | null> {
+        const hunt = await prisma.dealHunt.findFirst({
+            where: { id: huntId, userId },
+            include: { foundDeals: { orderBy: { foundAt: 'desc' } } },
+        });
+
+        return hunt ? this.toDealHunt(hunt) : null;
+    }
+
+    async setHuntStatus(huntId: string, status: DealHunt['status']): Promise<void> {
+        await prisma.dealHunt.update({
+            where: { id: huntId },
+            data: { status },
+        });
+    }
+
+    /**
+     * Mark hunts past their expiry date as expired
+     */
+    async expireHunts(userId: string, now: Date = new Date()): Promise<number> {
+        const result = await prisma.dealHunt.updateMany({
+            where: { userId, status: 'hunting', expiresAt: { lt: now } },
+            data: { status: 'expired' },
+        });
+        return result.count;
+    }
+
+    async addFoundDeals(huntId: string, deals: FoundDeal[]): Promise<void> {
+        for (const deal of deals) {
+            await prisma.foundDeal.upsert({
+                where: { huntId_dealId: { huntId, dealId: deal.dealId } },
+                update: {},
+                create: {
+                    huntId,
+                    dealId: deal.dealId,
+                    title: deal.title,
+                    price: deal.price,
+                    originalPrice: deal.originalPrice,
+                    discountPercent: deal.discountPercent,
+                    dealScore: deal.dealScore,
+                    matchScore: deal.matchScore,
+                    reasons: JSON.stringify(deal.reasons),
+                    foundAt: deal.foundAt,
+                    notifiedAt: deal.notifiedAt,
+                },
+            });
+        }
+    }
+
+    async setFoundDealAction(
+        huntId: string,
+        dealId: string,
+        action: NonNullable<FoundDeal['userAction']>
+    ): Promise<void> {
+        await prisma.foundDeal.update({
+            where: { huntId_dealId: { huntId, dealId } },
+            data: { userAction: action },
+        });
+    }
+
+    // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+    // ACTIVITY LOG
+    // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+    /**
+     * Append an activity and trim the user's log to `maxEntries`
+     */
+    async logActivity(userId: string, activity: AgentActivity, maxEntries: number): Promise<void> {
+        await prisma.agentActivity.create({
+            data: {
+                userId,
+                type: activity.type,
+                huntId: activity.huntId,
+                dealCount: activity.dealCount,
+                message: activity.message,
+                metadata: activity.metadata ? JSON.stringify(activity.metadata) : null,
+                timestamp: activity.timestamp,
+            },
+        });
+
+        const stale = await prisma.agentActivity.findMany({
+            where: { userId },
+            orderBy: { timestamp: 'desc' },
+            skip: maxEntries,
+            select: { id: true },
+        });
+
+        if (stale.length > 0) {
+            await prisma.agentActivity.deleteMany({
+                where: { id: { in: stale.map(a => a.id) } },
+            });
+        }
+    }
+
+    async getActivityLog(userId: string, limit: number): Promise<AgentActivity[]> {
+        const rows = await prisma.agentActivity.findMany({
+            where: { userId },
+            orderBy: { timestamp: 'desc' },
+            take: limit,
+        });
+
+        return rows.map(r => this.toAgentActivity(r));
+    }
+
+    // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+    // MAPPING
+    // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+    /**
+     * Agents are keyed by user, so make sure the user row exists
+     */
+    private async ensureUser(userId: string): Promise<void> {
+        await prisma.user.upsert({
+            where: { id: userId },
+            update: {},
+            create: { id: userId },
+        });
+    }
+
+    private toAgentConfig(row: AgentConfigRow, hunts: DealHunt[]): AgentConfig {
+        return {
+            userId: row.userId,
+            aggressiveness: row.aggressiveness,
+            canAutoPurchase: row.canAutoPurchase,
+            maxAutoPurchaseAmount: row.maxAutoPurchaseAmount,
+            activeHunts: hunts,
+            status: row.status as AgentConfig['status'],
+            stats: {
+                totalDealsFound: row.totalDealsFound,
+                totalSavings: row.totalSavings,
+                totalPurchases: row.totalPurchases,
+                averageMatchScore: row.averageMatchScore,
+                lastRunAt: row.lastRunAt,
+                runsLast24h: row.runsLast24h,
+                dealsFoundLast24h: row.dealsFoundLast24h,
+            },
+        };
+    }
+
+    private toDealHunt(row: HuntWithDeals): DealHunt {
+        return {
+            id: row.id,
+            query: row.query,
+            category: row.category ?? undefined,
+            brand: row.brand ?? undefined,
+            maxPrice: row.maxPrice,
+            minDealScore: row.minDealScore,
+            targetDiscount: row.targetDiscount ?? undefined,
+            status: row.status as DealHunt['status'],
+            createdAt: row.createdAt,
+            expiresAt: row.expiresAt ?? undefined,
+            foundDeals: row.foundDeals.map(d => this.toFoundDeal(d)),
+        };
+    }
+
+    private toFoundDeal(row: FoundDealRow): FoundDeal {
+        return {
+            dealId: row.dealId,
+            title: row.title,
+            price: row.price,
+            originalPrice: row.originalPrice,
+            discountPercent: row.discountPercent,
+            dealScore: row.dealScore,
+            matchScore: row.matchScore,
+            reasons: JSON.parse(row.reasons),
+            foundAt: row.foundAt,
+            notifiedAt: row.notifiedAt ?? undefined,
+            userAction: (row.userAction ?? undefined) as FoundDeal['userAction'],
+        };
+    }
+
+    private toAgentActivity(row: AgentActivityRow): AgentActivity {
+        return {
+            type: row.type as AgentActivity['type'],
+            timestamp: row.timestamp,
+            huntId: row.huntId ?? undefined,
+            dealCount: row.dealCount ?? undefined,
+            message: row.message,
+            metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+        };
+    }
+}
+
+// Singleton instance
+export const agentRepository = new AgentRepository();
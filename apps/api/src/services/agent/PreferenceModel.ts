@@ -5,12 +5,17 @@
  * autonomous deal hunting and personalized recommendations.
  */
 
-interface UserPreference {
+import { preferenceRepository } from './PreferenceRepository';
+
+export interface UserPreference {
     userId: string;
     // Category preferences with affinity scores (0-1)
     categoryAffinities: Map<string, number>;
     // Brand preferences with affinity scores
     brandAffinities: Map<string, number>;
+    // Raw time-decayed scores the affinities are normalized from
+    categoryScores: Map<string, number>;
+    brandScores: Map<string, number>;
     // Price sensitivity (0=price insensitive, 1=very price sensitive)
     priceSensitivity: number;
     // Preferred price ranges by category
@@ -21,6 +26,8 @@ interface UserPreference {
     notificationPreferences: NotificationPreferences;
     // Shopping patterns
     shoppingPatterns: ShoppingPatterns;
+    // Timestamp of the newest activity already learned from
+    learnedThrough: Date | null;
     // Last updated
     updatedAt: Date;
 }
@@ -42,7 +49,7 @@ interface ShoppingPatterns {
     impulseBuyerScore: number;     // 0-1
 }
 
-interface UserActivity {
+export interface UserActivity {
     type: 'view' | 'save' | 'click' | 'purchase' | 'dismiss' | 'search';
     dealId?: string;
     category?: string;
@@ -60,8 +67,8 @@ interface LearnedPreference {
 }
 
 export class PreferenceModel {
+    // Loaded preferences, backed by the UserPreference table
     private preferences: Map<string, UserPreference> = new Map();
-    private activityBuffer: Map<string, UserActivity[]> = new Map();
 
     // Decay factor for older activities (older = less weight)
     private static DECAY_RATE = 0.95;
@@ -69,6 +76,8 @@ export class PreferenceModel {
     private static MIN_ACTIVITIES = 5;
     // Maximum activities to consider
     private static MAX_HISTORY = 1000;
+    // Unlearned activities that trigger a re-learn
+    private static RELEARN_EVERY = 10;
 
     /**
      * Initialize or get user preferences
@@ -76,7 +85,12 @@ export class PreferenceModel {
     async getPreferences(userId: string): Promise<UserPreference> {
         if (!this.preferences.has(userId)) {
             // Load from database or create default
-            this.preferences.set(userId, this.createDefaultPreferences(userId));
+            let prefs = await preferenceRepository.findPreferences(userId);
+            if (!prefs) {
+                prefs = this.createDefaultPreferences(userId);
+                await preferenceRepository.savePreferences(prefs);
+            }
+            this.preferences.set(userId, prefs);
         }
         return this.preferences.get(userId)!;
     }
@@ -89,6 +103,8 @@ export class PreferenceModel {
             userId,
             categoryAffinities: new Map(),
             brandAffinities: new Map(),
+            categoryScores: new Map(),
+            brandScores: new Map(),
             priceSensitivity: 0.5,
             priceRanges: new Map(),
             dealScoreThreshold: 75,
@@ -105,6 +121,7 @@ export class PreferenceModel {
                 averageSpendPerPurchase: 100,
                 impulseBuyerScore: 0.5,
             },
+            learnedThrough: null,
             updatedAt: new Date(),
         };
     }
@@ -112,44 +129,57 @@ export class PreferenceModel {
     /**
      * Record user activity for learning
      */
-    async recordActivity(userId: string, activity: UserActivity): Promise<void> {
-        if (!this.activityBuffer.has(userId)) {
-            this.activityBuffer.set(userId, []);
-        }
-
-        const buffer = this.activityBuffer.get(userId)!;
-        buffer.push({ ...activity, timestamp: new Date() });
-
-        // Trim old activities
-        if (buffer.length > PreferenceModel.MAX_HISTORY) {
-            buffer.shift();
-        }
+    async recordActivity(userId: string, activity: Omit<UserActivity, 'timestamp'>): Promise<void> {
+        await preferenceRepository.addActivity(userId, { ...activity, timestamp: new Date() });
 
         // Re-learn preferences after significant activity
-        if (buffer.length % 10 === 0) {
+        const prefs = await this.getPreferences(userId);
+        const unlearned = await preferenceRepository.countActivities(userId, prefs.learnedThrough);
+        if (unlearned >= PreferenceModel.RELEARN_EVERY) {
             await this.learnPreferences(userId);
         }
     }
 
     /**
-     * Learn preferences from activity history
+     * Learn preferences from stored activity history
+     *
+     * Affinities are learned incrementally: the stored scores are decayed
+     * by the time since the last run, then only newer activities are added.
+     * Price and pattern signals are recomputed over the recent history window.
      */
     async learnPreferences(userId: string): Promise<void> {
-        const activities = this.activityBuffer.get(userId) || [];
-        if (activities.length < PreferenceModel.MIN_ACTIVITIES) return;
+        const total = await preferenceRepository.countActivities(userId);
+        if (total < PreferenceModel.MIN_ACTIVITIES) return;
 
         const prefs = await this.getPreferences(userId);
-
-        // Learn category affinities
-        prefs.categoryAffinities = this.learnAffinities(
-            activities.filter(a => a.category),
-            'category'
+        const newActivities = await preferenceRepository.getActivitiesSince(userId, prefs.learnedThrough);
+        if (newActivities.length === 0) return;
+
+        const now = new Date();
+        // The stored scores are as of the last save; before the first learn there are none
+        const scoredAt = prefs.learnedThrough ? prefs.updatedAt : null;
+
+        // Learn category and brand affinities
+        prefs.categoryScores = this.learnAffinityScores(
+            prefs.categoryScores,
+            scoredAt,
+            newActivities.filter(a => a.category),
+            'category',
+            now
+        );
+        prefs.brandScores = this.learnAffinityScores(
+            prefs.brandScores,
+            scoredAt,
+            newActivities.filter(a => a.brand),
+            'brand',
+            now
         );
+        prefs.categoryAffinities = this.normalizeAffinities(prefs.categoryScores);
+        prefs.brandAffinities = this.normalizeAffinities(prefs.brandScores);
 
-        // Learn brand affinities
-        prefs.brandAffinities = this.learnAffinities(
-            activities.filter(a => a.brand),
-            'brand'
+        const activities = await preferenceRepository.getRecentActivities(
+            userId,
+            PreferenceModel.MAX_HISTORY
         );
 
         // Learn price sensitivity
@@ -161,18 +191,32 @@ export class PreferenceModel {
         // Learn shopping patterns
         prefs.shoppingPatterns = this.learnShoppingPatterns(activities);
 
-        prefs.updatedAt = new Date();
+        prefs.learnedThrough = newActivities[newActivities.length - 1].timestamp;
+        prefs.updatedAt = now;
+
+        await preferenceRepository.savePreferences(prefs);
     }
 
     /**
-     * Learn affinities from activities with time decay
+     * Fold new activities into decayed affinity scores
      */
-    private learnAffinities(
+    private learnAffinityScores(
+        previous: Map<string, number>,
+        scoredAt: Date | null,
         activities: UserActivity[],
-        key: 'category' | 'brand'
+        key: 'category' | 'brand',
+        now: Date
     ): Map<string, number> {
-        const scores = new Map<string, { weighted: number; count: number }>();
-        const now = Date.now();
+        const scores = new Map<string, number>();
+
+        // Decay what we already learned by the time since it was scored.
+        // Counting from its newest activity instead would decay the gap
+        // between that activity and the last run twice.
+        const daysSinceScored = scoredAt
+            ? (now.getTime() - scoredAt.getTime()) / (1000 * 60 * 60 * 24)
+            : 0;
+        const carriedDecay = Math.pow(PreferenceModel.DECAY_RATE, daysSinceScored);
+        previous.forEach((score, value) => scores.set(value, score * carriedDecay));
 
         // Weight by recency and action type
         const actionWeights = {
@@ -189,27 +233,27 @@ export class PreferenceModel {
             if (!value) return;
 
             // Calculate time decay
-            const ageInDays = (now - activity.timestamp.getTime()) / (1000 * 60 * 60 * 24);
+            const ageInDays = (now.getTime() - activity.timestamp.getTime()) / (1000 * 60 * 60 * 24);
             const decay = Math.pow(PreferenceModel.DECAY_RATE, ageInDays);
 
             // Get action weight
             const weight = actionWeights[activity.type] * decay;
 
-            if (!scores.has(value)) {
-                scores.set(value, { weighted: 0, count: 0 });
-            }
-
-            const current = scores.get(value)!;
-            current.weighted += weight;
-            current.count += 1;
+            scores.set(value, (scores.get(value) || 0) + weight);
         });
 
-        // Normalize to 0-1 scale
+        return scores;
+    }
+
+    /**
+     * Normalize affinity scores to 0-1 scale
+     */
+    private normalizeAffinities(scores: Map<string, number>): Map<string, number> {
         const affinities = new Map<string, number>();
-        const maxScore = Math.max(...Array.from(scores.values()).map(s => s.weighted));
+        const maxScore = Math.max(...Array.from(scores.values()));
 
         scores.forEach((score, key) => {
-            affinities.set(key, Math.max(0, Math.min(1, score.weighted / (maxScore || 1))));
+            affinities.set(key, Math.max(0, Math.min(1, score / (maxScore || 1))));
         });
 
         return affinities;
@@ -432,14 +476,15 @@ export class PreferenceModel {
     /**
      * Export preferences for storage
      */
-    exportPreferences(userId: string): object | null {
-        const prefs = this.preferences.get(userId);
-        if (!prefs) return null;
+    async exportPreferences(userId: string): Promise<object> {
+        const prefs = await this.getPreferences(userId);
 
         return {
             ...prefs,
             categoryAffinities: Object.fromEntries(prefs.categoryAffinities),
             brandAffinities: Object.fromEntries(prefs.brandAffinities),
+            categoryScores: Object.fromEntries(prefs.categoryScores),
+            brandScores: Object.fromEntries(prefs.brandScores),
             priceRanges: Object.fromEntries(prefs.priceRanges),
         };
     }
@@ -447,14 +492,22 @@ export class PreferenceModel {
     /**
      * Import preferences from storage
      */
-    importPreferences(userId: string, data: any): void {
+    async importPreferences(userId: string, data: any): Promise<void> {
+        const current = await this.getPreferences(userId);
         const prefs: UserPreference = {
+            ...current,
             ...data,
+            userId,
             categoryAffinities: new Map(Object.entries(data.categoryAffinities || {})),
             brandAffinities: new Map(Object.entries(data.brandAffinities || {})),
+            categoryScores: new Map(Object.entries(data.categoryScores || data.categoryAffinities || {})),
+            brandScores: new Map(Object.entries(data.brandScores || data.brandAffinities || {})),
             priceRanges: new Map(Object.entries(data.priceRanges || {})),
-            updatedAt: new Date(data.updatedAt),
+            learnedThrough: data.learnedThrough ? new Date(data.learnedThrough) : current.learnedThrough,
+            updatedAt: new Date(),
         };
+
+        await preferenceRepository.savePreferences(prefs);
         this.preferences.set(userId, prefs);
     }
 }
@@ -0,0 +1,134 @@
+/**
+ * Preference Repository
+ *
+ * Prisma-backed storage for recorded user activity and the
+ * preferences the PreferenceModel learns from it.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type {
+    UserPreference as UserPreferenceRow,
+    UserActivity as UserActivityRow,
+} from '@prisma/client';
+import type { UserPreference, UserActivity } from './PreferenceModel';
+
+const prisma = new PrismaClient();
+
+export class PreferenceRepository {
+    async findPreferences(userId: string): Promise<UserPreference | null> {
+        const row = await prisma.userPreference.findUnique({ where: { userId } });
+        return row ? this.toUserPreference(row) : null;
+    }
+
+    async savePreferences(prefs: UserPreference): Promise<void> {
+        await this.ensureUser(prefs.userId);
+
+        const data = {
+            categoryAffinities: JSON.stringify(Object.fromEntries(prefs.categoryAffinities)),
+            brandAffinities: JSON.stringify(Object.fromEntries(prefs.brandAffinities)),
+            categoryScores: JSON.stringify(Object.fromEntries(prefs.categoryScores)),
+            brandScores: JSON.stringify(Object.fromEntries(prefs.brandScores)),
+            priceSensitivity: prefs.priceSensitivity,
+            priceRanges: JSON.stringify(Object.fromEntries(prefs.priceRanges)),
+            dealScoreThreshold: prefs.dealScoreThreshold,
+            notificationPreferences: JSON.stringify(prefs.notificationPreferences),
+            shoppingPatterns: JSON.stringify(prefs.shoppingPatterns),
+            learnedThrough: prefs.learnedThrough,
+        };
+
+        await prisma.userPreference.upsert({
+            where: { userId: prefs.userId },
+            update: data,
+            create: { userId: prefs.userId, ...data },
+        });
+    }
+
+    async addActivity(userId: string, activity: UserActivity): Promise<void> {
+        await this.ensureUser(userId);
+
+        await prisma.userActivity.create({
+            data: {
+                userId,
+                type: activity.type,
+                dealId: activity.dealId,
+                category: activity.category,
+                brand: activity.brand,
+                price: activity.price,
+                query: activity.query,
+                timestamp: activity.timestamp,
+            },
+        });
+    }
+
+    /**
+     * Activities recorded after `since` (all of them when null), oldest first
+     */
+    async getActivitiesSince(userId: string, since: Date | null): Promise<UserActivity[]> {
+        const rows = await prisma.userActivity.findMany({
+            where: { userId, ...(since ? { timestamp: { gt: since } } : {}) },
+            orderBy: { timestamp: 'asc' },
+        });
+        return rows.map(r => this.toUserActivity(r));
+    }
+
+    /**
+     * Most recent `limit` activities, oldest first
+     */
+    async getRecentActivities(userId: string, limit: number): Promise<UserActivity[]> {
+        const rows = await prisma.userActivity.findMany({
+            where: { userId },
+            orderBy: { timestamp: 'desc' },
+            take: limit,
+        });
+        return rows.reverse().map(r => this.toUserActivity(r));
+    }
+
+    async countActivities(userId: string, since: Date | null = null): Promise<number> {
+        return prisma.userActivity.count({
+            where: { userId, ...(since ? { timestamp: { gt: since } } : {}) },
+        });
+    }
+
+    /**
+     * Preferences are keyed by user, so make sure the user row exists
+     */
+    private async ensureUser(userId: string): Promise<void> {
+        await prisma.user.upsert({
+            where: { id: userId },
+            update: {},
+            create: { id: userId },
+        });
+    }
+
+    private toUserPreference(row: UserPreferenceRow): UserPreference {
+        return {
+            userId: row.userId,
+            categoryAffinities: new Map(Object.entries(JSON.parse(row.categoryAffinities))),
+            brandAffinities: new Map(Object.entries(JSON.parse(row.brandAffinities))),
+            categoryScores: new Map(Object.entries(JSON.parse(row.categoryScores))),
+            brandScores: new Map(Object.entries(JSON.parse(row.brandScores))),
+            priceSensitivity: row.priceSensitivity,
+            priceRanges: new Map(Object.entries(JSON.parse(row.priceRanges))),
+            dealScoreThreshold: row.dealScoreThreshold,
+            notificationPreferences: JSON.parse(row.notificationPreferences),
+            shoppingPatterns: JSON.parse(row.shoppingPatterns),
+            learnedThrough: row.learnedThrough,
+            updatedAt: row.updatedAt,
+        };
+    }
+
+    private toUserActivity(row: UserActivityRow): UserActivity {
+        return {
+            type: row.type as UserActivity['type'],
+            dealId: row.dealId ?? undefined,
+            category: row.category ?? undefined,
+            brand: row.brand ?? undefined,
+            price: row.price ?? undefined,
+            query: row.query ?? undefined,
+            timestamp: row.timestamp,
+        };
+    }
+}
+
+// Singleton instance
+export const preferenceRepository = new PreferenceRepository();
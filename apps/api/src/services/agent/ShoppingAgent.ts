@@ -6,8 +6,9 @@
  */
 
 import { preferenceModel } from './PreferenceModel';
+import { agentRepository } from './AgentRepository';
 
-interface AgentConfig {
+export interface AgentConfig {
     userId: string;
     // Agent aggressiveness (0=passive, 1=aggressive)
     aggressiveness: number;
@@ -23,7 +24,7 @@ interface AgentConfig {
     stats: AgentStats;
 }
 
-interface DealHunt {
+export interface DealHunt {
     id: string;
     query: string;
     category?: string;
@@ -37,7 +38,7 @@ interface DealHunt {
     foundDeals: FoundDeal[];
 }
 
-interface FoundDeal {
+export interface FoundDeal {
     dealId: string;
     title: string;
     price: number;
@@ -51,7 +52,7 @@ interface FoundDeal {
     userAction?: 'viewed' | 'saved' | 'purchased' | 'dismissed';
 }
 
-interface AgentStats {
+export interface AgentStats {
     totalDealsFound: number;
     totalSavings: number;
     totalPurchases: number;
@@ -61,7 +62,7 @@ interface AgentStats {
     dealsFoundLast24h: number;
 }
 
-interface AgentActivity {
+export interface AgentActivity {
     type: 'hunt_started' | 'deals_found' | 'alert_sent' | 'user_action' | 'run_completed';
     timestamp: Date;
     huntId?: string;
@@ -85,8 +86,6 @@ interface Deal {
 }
 
 export class ShoppingAgent {
-    private agents: Map<string, AgentConfig> = new Map();
-    private activityLog: Map<string, AgentActivity[]> = new Map();
     private isRunning = false;
     private runInterval: NodeJS.Timeout | null = null;
 
@@ -101,27 +100,7 @@ export class ShoppingAgent {
      * Initialize agent for a user
      */
     async initializeAgent(userId: string): Promise<AgentConfig> {
-        if (!this.agents.has(userId)) {
-            this.agents.set(userId, {
-                userId,
-                aggressiveness: 0.5,
-                canAutoPurchase: false,
-                maxAutoPurchaseAmount: 0,
-                activeHunts: [],
-                status: 'active',
-                stats: {
-                    totalDealsFound: 0,
-                    totalSavings: 0,
-                    totalPurchases: 0,
-                    averageMatchScore: 0,
-                    lastRunAt: new Date(),
-                    runsLast24h: 0,
-                    dealsFoundLast24h: 0,
-                },
-            });
-            this.activityLog.set(userId, []);
-        }
-        return this.agents.get(userId)!;
+        return agentRepository.getOrCreateAgent(userId);
     }
 
     /**
@@ -131,19 +110,11 @@ export class ShoppingAgent {
         userId: string,
         hunt: Omit<DealHunt, 'id' | 'status' | 'createdAt' | 'foundDeals'>
     ): Promise<DealHunt> {
-        const agent = await this.initializeAgent(userId);
-
-        const newHunt: DealHunt = {
-            ...hunt,
-            id: `hunt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            status: 'hunting',
-            createdAt: new Date(),
-            foundDeals: [],
-        };
+        await this.initializeAgent(userId);
 
-        agent.activeHunts.push(newHunt);
+        const newHunt = await agentRepository.createHunt(userId, hunt);
 
-        this.logActivity(userId, {
+        await this.logActivity(userId, {
             type: 'hunt_started',
             timestamp: new Date(),
             huntId: newHunt.id,
@@ -158,6 +129,8 @@ export class ShoppingAgent {
      * Run agent for a specific user
      */
     async runForUser(userId: string, allDeals: Deal[]): Promise<FoundDeal[]> {
+        await agentRepository.expireHunts(userId);
+
         const agent = await this.initializeAgent(userId);
         if (agent.status !== 'active') return [];
 
@@ -166,11 +139,12 @@ export class ShoppingAgent {
         // 1. Run active hunts
         for (const hunt of agent.activeHunts.filter(h => h.status === 'hunting')) {
             const matches = await this.matchDealsToHunt(userId, hunt, allDeals);
+            await agentRepository.addFoundDeals(hunt.id, matches);
             hunt.foundDeals.push(...matches);
             foundDeals.push(...matches);
 
             if (matches.length > 0) {
-                this.logActivity(userId, {
+                await this.logActivity(userId, {
                     type: 'deals_found',
                     timestamp: new Date(),
                     huntId: hunt.id,
@@ -181,22 +155,25 @@ export class ShoppingAgent {
         }
 
         // 2. Preference-based proactive matching
-        const proactiveMatches = await this.findProactiveMatches(userId, allDeals);
+        const proactiveMatches = await this.findProactiveMatches(agent, allDeals);
         foundDeals.push(...proactiveMatches);
 
         // 3. Update stats
-        agent.stats.totalDealsFound += foundDeals.length;
-        agent.stats.dealsFoundLast24h += foundDeals.length;
-        agent.stats.lastRunAt = new Date();
-        agent.stats.runsLast24h += 1;
+        const stats = agent.stats;
+        stats.totalDealsFound += foundDeals.length;
+        stats.dealsFoundLast24h += foundDeals.length;
+        stats.lastRunAt = new Date();
+        stats.runsLast24h += 1;
 
         if (foundDeals.length > 0) {
             const avgMatch = foundDeals.reduce((acc, d) => acc + d.matchScore, 0) / foundDeals.length;
-            agent.stats.averageMatchScore =
-                (agent.stats.averageMatchScore + avgMatch) / 2;
+            stats.averageMatchScore =
+                (stats.averageMatchScore + avgMatch) / 2;
         }
 
-        this.logActivity(userId, {
+        await agentRepository.updateStats(userId, stats);
+
+        await this.logActivity(userId, {
             type: 'run_completed',
             timestamp: new Date(),
             dealCount: foundDeals.length,
@@ -275,12 +252,11 @@ export class ShoppingAgent {
      * Find proactive matches based on user preferences
      */
     private async findProactiveMatches(
-        userId: string,
+        agent: AgentConfig,
         allDeals: Deal[]
     ): Promise<FoundDeal[]> {
         const matches: FoundDeal[] = [];
-        const agent = this.agents.get(userId);
-        if (!agent) return matches;
+        const { userId } = agent;
 
         // Get top categories user is interested in
         const topCategories = await preferenceModel.getTopCategories(userId);
@@ -354,32 +330,22 @@ export class ShoppingAgent {
     /**
      * Log agent activity
      */
-    private logActivity(userId: string, activity: AgentActivity): void {
-        if (!this.activityLog.has(userId)) {
-            this.activityLog.set(userId, []);
-        }
-
-        const log = this.activityLog.get(userId)!;
-        log.unshift(activity);
-
-        // Trim log
-        if (log.length > ShoppingAgent.MAX_ACTIVITY_LOG) {
-            log.pop();
-        }
+    private async logActivity(userId: string, activity: AgentActivity): Promise<void> {
+        await agentRepository.logActivity(userId, activity, ShoppingAgent.MAX_ACTIVITY_LOG);
     }
 
     /**
      * Get agent activity log
      */
-    getActivityLog(userId: string, limit = 20): AgentActivity[] {
-        return (this.activityLog.get(userId) || []).slice(0, limit);
+    async getActivityLog(userId: string, limit = 20): Promise<AgentActivity[]> {
+        return agentRepository.getActivityLog(userId, limit);
     }
 
     /**
      * Get agent configuration
      */
-    getAgent(userId: string): AgentConfig | undefined {
-        return this.agents.get(userId);
+    async getAgent(userId: string): Promise<AgentConfig | null> {
+        return agentRepository.findAgent(userId);
     }
 
     /**
@@ -389,21 +355,18 @@ export class ShoppingAgent {
         userId: string,
         settings: Partial<Pick<AgentConfig, 'aggressiveness' | 'canAutoPurchase' | 'maxAutoPurchaseAmount' | 'status'>>
     ): Promise<AgentConfig> {
-        const agent = await this.initializeAgent(userId);
-        Object.assign(agent, settings);
-        return agent;
+        await this.initializeAgent(userId);
+        await agentRepository.updateSettings(userId, settings);
+        return this.initializeAgent(userId);
     }
 
     /**
      * Pause a hunt
      */
-    pauseHunt(userId: string, huntId: string): boolean {
-        const agent = this.agents.get(userId);
-        if (!agent) return false;
-
-        const hunt = agent.activeHunts.find(h => h.id === huntId);
+    async pauseHunt(userId: string, huntId: string): Promise<boolean> {
+        const hunt = await agentRepository.getHunt(userId, huntId);
         if (hunt && hunt.status === 'hunting') {
-            hunt.status = 'expired';
+            await agentRepository.setHuntStatus(huntId, 'expired');
             return true;
         }
         return false;
@@ -412,13 +375,13 @@ export class ShoppingAgent {
     /**
      * Record user action on a found deal
      */
-    recordDealAction(
+    async recordDealAction(
         userId: string,
         huntId: string,
         dealId: string,
         action: 'viewed' | 'saved' | 'purchased' | 'dismissed'
-    ): void {
-        const agent = this.agents.get(userId);
+    ): Promise<void> {
+        const agent = await this.getAgent(userId);
         if (!agent) return;
 
         const hunt = agent.activeHunts.find(h => h.id === huntId);
@@ -426,9 +389,9 @@ export class ShoppingAgent {
 
         const deal = hunt.foundDeals.find(d => d.dealId === dealId);
         if (deal) {
-            deal.userAction = action;
+            await agentRepository.setFoundDealAction(huntId, dealId, action);
 
-            this.logActivity(userId, {
+            await this.logActivity(userId, {
                 type: 'user_action',
                 timestamp: new Date(),
                 huntId,
@@ -440,6 +403,8 @@ export class ShoppingAgent {
             if (action === 'purchased') {
                 agent.stats.totalPurchases += 1;
                 agent.stats.totalSavings += deal.originalPrice - deal.price;
+                await agentRepository.updateStats(userId, agent.stats);
+                await agentRepository.setHuntStatus(huntId, 'purchased');
             }
         }
     }
@@ -447,8 +412,8 @@ export class ShoppingAgent {
     /**
      * Get summary stats for a user
      */
-    getStats(userId: string): AgentStats | null {
-        return this.agents.get(userId)?.stats || null;
+    async getStats(userId: string): Promise<AgentStats | null> {
+        return (await this.getAgent(userId))?.stats || null;
     }
 
     /**
@@ -462,8 +427,9 @@ export class ShoppingAgent {
 
         this.runInterval = setInterval(async () => {
             const deals = await getAllDeals();
+            const userIds = await agentRepository.listActiveUserIds();
 
-            for (const [userId] of this.agents) {
+            for (const userId of userIds) {
                 try {
                     await this.runForUser(userId, deals);
                 } catch (error) {
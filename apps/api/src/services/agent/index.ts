@@ -7,3 +7,5 @@
 export { PreferenceModel, preferenceModel } from './PreferenceModel';
 export { ShoppingAgent, shoppingAgent } from './ShoppingAgent';
 export { DealPredictor, dealPredictor } from './DealPredictor';
+export { AgentRepository, agentRepository } from './AgentRepository';
+export { PreferenceRepository, preferenceRepository } from './PreferenceRepository';
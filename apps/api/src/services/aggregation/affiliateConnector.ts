@@ -11,6 +11,8 @@
  * - Best Buy Affiliate
  */
 
+import type { PriceCheck, RawDeal, DealSource } from '../marketplace/types';
+
 export interface AffiliateConfig {
     network: string;
     apiKey?: string;
@@ -64,6 +66,19 @@ abstract class BaseAffiliateConnector {
     abstract fetchDeals(params: Record<string, string>): Promise<AffiliateApiResponse>;
     abstract searchProducts(query: string, category?: string): Promise<AffiliateApiResponse>;
 
+    /**
+     * Re-check a single deal by searching for it and matching the external ID
+     */
+    async checkDeal(externalId: string, title: string): Promise<PriceCheck | null> {
+        const response = await this.searchProducts(title);
+        if (!response.success) return null;
+
+        const match = response.deals.find(d => d.externalId === externalId);
+        if (!match) return null;
+
+        return { currentPrice: match.currentPrice, inStock: match.inStock };
+    }
+
     protected async rateLimitedRequest<T>(
         requestFn: () => Promise<T>
     ): Promise<T> {
@@ -385,6 +400,16 @@ export class AffiliateManager {
         return allDeals;
     }
 
+    /**
+     * Re-check a stored deal through the connector for its merchant
+     */
+    async checkDeal(merchant: string, externalId: string, title: string): Promise<PriceCheck | null> {
+        const connector = this.getConnector(merchant.replace(/[^a-z0-9]/gi, ''));
+        if (!connector) return null;
+
+        return connector.checkDeal(externalId, title);
+    }
+
     getConnector(network: string): BaseAffiliateConnector | undefined {
         return this.connectors.get(network.toLowerCase());
     }
@@ -394,6 +419,48 @@ export class AffiliateManager {
     }
 }
 
+// Merchant spellings mapped to source keys; stores without one keep a display name
+const MERCHANT_SOURCES: [string, DealSource][] = [
+    ['amazon', 'amazon'],
+    ['walmart', 'walmart'],
+    ['bestbuy', 'bestbuy'],
+    ['best buy', 'bestbuy'],
+    ['target', 'target'],
+    ['ebay', 'ebay'],
+    ['newegg', 'newegg'],
+    ['b&h', 'B&H Photo'],
+    ['bhphoto', 'B&H Photo'],
+    ['costco', 'Costco'],
+];
+
+/**
+ * Hand an affiliate deal to the shared deal pipeline
+ */
+export function toRawDeal(deal: AffiliateDeal): RawDeal {
+    const merchant = deal.merchant.toLowerCase();
+    const source = MERCHANT_SOURCES.find(([key]) => merchant.includes(key))?.[1] || deal.merchant;
+
+    return {
+        sourceId: deal.externalId,
+        source,
+        sourceUrl: deal.affiliateUrl,
+        title: deal.title,
+        description: deal.description,
+        imageUrl: deal.imageUrl,
+        brand: deal.brand,
+        category: deal.category,
+        rating: deal.rating,
+        reviewCount: deal.reviewCount,
+        currentPrice: deal.currentPrice,
+        originalPrice: deal.originalPrice,
+        currency: deal.currency || 'USD',
+        condition: deal.condition,
+        inStock: deal.inStock,
+        sellerName: deal.merchant,
+        postedAt: deal.fetchedAt,
+    };
+}
+
 // Default configuration (keys would come from env in production)
 export const defaultAffiliateConfigs: AffiliateConfig[] = [
     { network: 'amazon', enabled: true },
@@ -5,13 +5,14 @@
  * Integrates with OpenAI/Claude for natural language understanding.
  */
 
-import { aggregationPipeline, ProcessedDeal } from './index';
+import type { NormalizedDeal } from '../marketplace';
+import { aggregationPipeline } from './index';
 
 export interface ChatMessage {
     role: 'user' | 'assistant' | 'system';
     content: string;
     timestamp: Date;
-    deals?: ProcessedDeal[];
+    deals?: NormalizedDeal[];
 }
 
 export interface ChatContext {
@@ -30,7 +31,7 @@ export interface UserPreferences {
 
 export interface AssistantResponse {
     message: string;
-    deals: ProcessedDeal[];
+    deals: NormalizedDeal[];
     suggestedQuestions: string[];
     action?: 'search' | 'compare' | 'alert' | 'info';
 }
@@ -201,25 +202,25 @@ You have access to real-time deal data, price history, and AI-powered deal scori
     /**
      * Generate natural language search response
      */
-    private generateSearchResponse(query: string, deals: ProcessedDeal[]): string {
+    private generateSearchResponse(query: string, deals: NormalizedDeal[]): string {
         if (deals.length === 0) {
             return `I couldn't find any deals matching "${query}" right now. Would you like me to set up an alert when deals become available?`;
         }
 
         const topDeal = deals[0];
-        const savings = topDeal.discountPercent ? `${topDeal.discountPercent}% off` : 'great price';
+        const savings = topDeal.discount ? `${topDeal.discount}% off` : 'great price';
 
         let response = `I found ${deals.length} deals for "${query}". `;
-        response += `\n\n**Top Pick:** ${topDeal.normalizedTitle} at **$${topDeal.currentPrice}** (${savings})`;
-        response += `\n\n🎯 **AI Score:** ${topDeal.aiScore}/100 - ${topDeal.aiVerdict}`;
+        response += `\n\n**Top Pick:** ${topDeal.title} at **$${topDeal.currentPrice}** (${savings})`;
+        response += `\n\n🎯 **AI Score:** ${topDeal.aiScore?.overall}/100 - ${topDeal.aiScore?.verdict}`;
 
-        if (topDeal.insights.length > 0) {
-            response += `\n\n${topDeal.insights[0]}`;
+        if (topDeal.aiScore?.reasons.length) {
+            response += `\n\n${topDeal.aiScore.reasons[0]}`;
         }
 
-        if (topDeal.recommendation === 'buy_now') {
+        if (topDeal.aiScore?.recommendation === 'buy_now') {
             response += `\n\n💡 **My recommendation:** Buy now! This is an excellent deal.`;
-        } else if (topDeal.recommendation === 'wait') {
+        } else if (topDeal.aiScore?.recommendation === 'wait') {
             response += `\n\n💡 **My recommendation:** Consider waiting - I expect better prices soon.`;
         }
 
@@ -253,16 +254,16 @@ You have access to real-time deal data, price history, and AI-powered deal scori
         let message = `## Comparison: ${products.join(' vs ')}\n\n`;
 
         for (const deal of topDeals) {
-            message += `### ${deal.normalizedTitle}\n`;
+            message += `### ${deal.title}\n`;
             message += `- **Price:** $${deal.currentPrice}`;
-            if (deal.discountPercent) message += ` (${deal.discountPercent}% off)`;
-            message += `\n- **AI Score:** ${deal.aiScore}/100\n`;
-            message += `- **Verdict:** ${deal.aiVerdict}\n\n`;
+            if (deal.discount) message += ` (${deal.discount}% off)`;
+            message += `\n- **AI Score:** ${deal.aiScore?.overall}/100\n`;
+            message += `- **Verdict:** ${deal.aiScore?.verdict}\n\n`;
         }
 
         if (topDeals.length >= 2) {
-            const winner = topDeals.reduce((a, b) => a.aiScore > b.aiScore ? a : b);
-            message += `\n🏆 **Best Value:** ${winner.brand} ${winner.model || ''} with a score of ${winner.aiScore}/100`;
+            const winner = topDeals.reduce((a, b) => (a.aiScore?.overall || 0) > (b.aiScore?.overall || 0) ? a : b);
+            message += `\n🏆 **Best Value:** ${winner.brand} ${winner.model || ''} with a score of ${winner.aiScore?.overall}/100`;
         }
 
         return {
@@ -306,10 +307,10 @@ You have access to real-time deal data, price history, and AI-powered deal scori
             };
         }
 
-        const message = `## Price Analysis: ${topDeal.normalizedTitle}\n\n` +
+        const message = `## Price Analysis: ${topDeal.title}\n\n` +
             `**Current Price:** $${topDeal.currentPrice}\n` +
-            `**AI Score:** ${topDeal.aiScore}/100 - ${topDeal.aiVerdict}\n\n` +
-            (topDeal.insights.length > 0 ? topDeal.insights.join('\n') : '');
+            `**AI Score:** ${topDeal.aiScore?.overall}/100 - ${topDeal.aiScore?.verdict}\n\n` +
+            (topDeal.aiScore?.reasons.length ? topDeal.aiScore.reasons.join('\n') : '');
 
         return {
             message,
@@ -351,8 +352,8 @@ You have access to real-time deal data, price history, and AI-powered deal scori
         let message = `Based on your requirements, here are my top recommendations:\n\n`;
 
         recommendations.forEach((deal, i) => {
-            message += `**${i + 1}. ${deal.normalizedTitle}**\n`;
-            message += `   $${deal.currentPrice} | ${deal.aiVerdict}\n\n`;
+            message += `**${i + 1}. ${deal.title}**\n`;
+            message += `   $${deal.currentPrice} | ${deal.aiScore?.verdict}\n\n`;
         });
 
         if (recommendations.length === 0) {
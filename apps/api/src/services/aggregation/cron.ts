@@ -0,0 +1,148 @@
+/**
+ * Cron Expressions
+ *
+ * Five-field cron (minute hour day-of-month month day-of-week) with `*`,
+ * lists, ranges, steps and month/weekday names, plus the @hourly, @daily,
+ * @weekly and @monthly shorthands. Evaluated in UTC so every instance
+ * agrees on when a job is due.
+ */
+
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;        // 1-12
+    daysOfWeek: Set<number>;    // 0-6, Sunday = 0
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+function parseValue(value: string, names: string[] | undefined, offset: number): number {
+    const index = names?.indexOf(value.toLowerCase()) ?? -1;
+    if (index !== -1) return index + offset;
+    if (!/^\d+$/.test(value)) throw new Error(`"${value}" is not a number`);
+    return parseInt(value, 10);
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], nameOffset = 0): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+        if (!(step > 0)) throw new Error(`bad step in "${part}"`);
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = min;
+            end = max;
+        } else if (range.includes('-')) {
+            const [from, to] = range.split('-');
+            start = parseValue(from, names, nameOffset);
+            end = parseValue(to, names, nameOffset);
+        } else {
+            start = parseValue(range, names, nameOffset);
+            // "5/15" means every 15 starting at 5
+            end = stepText === undefined ? start : max;
+        }
+
+        if (start < min || end > max || start > end) {
+            throw new Error(`"${part}" is outside ${min}-${max}`);
+        }
+        for (let value = start; value <= end; value += step) values.add(value);
+    }
+
+    return values;
+}
+
+/**
+ * Parse a cron expression; throws with the offending field on bad input
+ */
+export function parseCron(expression: string): CronSchedule {
+    const fields = (MACROS[expression.trim()] || expression).trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Cron expression "${expression}" needs 5 fields`);
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+    try {
+        const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+        // 7 is Sunday too
+        if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+        return {
+            expression,
+            minutes: parseField(minute, 0, 59),
+            hours: parseField(hour, 0, 23),
+            daysOfMonth: parseField(dayOfMonth, 1, 31),
+            months: parseField(month, 1, 12, MONTH_NAMES, 1),
+            daysOfWeek,
+            anyDayOfMonth: dayOfMonth === '*',
+            anyDayOfWeek: dayOfWeek === '*',
+        };
+    } catch (error) {
+        throw new Error(`Cron expression "${expression}": ${(error as Error).message}`);
+    }
+}
+
+// Standard cron: when both day fields are restricted, either may match
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+    const dom = schedule.daysOfMonth.has(date.getUTCDate());
+    const dow = schedule.daysOfWeek.has(date.getUTCDay());
+
+    if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+    if (schedule.anyDayOfMonth) return dow;
+    if (schedule.anyDayOfWeek) return dom;
+    return dom || dow;
+}
+
+/**
+ * First time strictly after `after` that the schedule fires
+ */
+export function nextCronRun(schedule: CronSchedule | string, after: Date = new Date()): Date {
+    const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+
+    const date = new Date(after.getTime());
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    // Skip whole months, days and hours that can't match; give up after ~5 years
+    const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+    while (date.getTime() <= limit) {
+        if (!cron.months.has(date.getUTCMonth() + 1)) {
+            date.setUTCMonth(date.getUTCMonth() + 1, 1);
+            date.setUTCHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!dayMatches(cron, date)) {
+            date.setUTCDate(date.getUTCDate() + 1);
+            date.setUTCHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!cron.hours.has(date.getUTCHours())) {
+            date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!cron.minutes.has(date.getUTCMinutes())) {
+            date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+            continue;
+        }
+        return date;
+    }
+
+    throw new Error(`Cron expression "${cron.expression}" never fires`);
+}
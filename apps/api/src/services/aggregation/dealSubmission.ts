@@ -8,8 +8,7 @@
  * - Automatic price verification
  */
 
-import { dealScorer } from './dealScorer';
-import { dealNormalizer, NormalizedDeal } from './dealNormalizer';
+import { dealScorer } from '../marketplace';
 
 export interface DealSubmission {
     id: string;
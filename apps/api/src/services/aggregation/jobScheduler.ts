@@ -3,26 +3,84 @@
  * 
  * Manages scheduled tasks for:
  * - Affiliate API polling
+ * - Marketplace catalog sync
  * - Web scraping
  * - RSS feed aggregation
  * - Price verification
+ * - Product matching
+ * - Saved search checks
  * - Data cleanup
+ *
+ * Jobs run on cron schedules. Schedule state and run history live in the
+ * database, so restarts pick up where they left off, and each job's row
+ * is a lease: with several API instances, only the one holding the lease
+ * runs the job. Every run has a timeout and an optional retry policy.
+ * A timed-out handler is aborted through its AbortSignal, and the lease
+ * is held until it has actually stopped, so runs never overlap.
  */
 
-import { affiliateManager } from './affiliateConnector';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { affiliateManager, toRawDeal } from './affiliateConnector';
 import { webScraper } from './webScraper';
 import { rssAggregator } from './rssAggregator';
-import { dealNormalizer, NormalizedDeal } from './dealNormalizer';
-import { dealScorer } from './dealScorer';
+import { priceVerifier } from './priceVerifier';
+import { parseCron, nextCronRun, type CronSchedule } from './cron';
+import { marketplaceAggregator, dealPipeline, dealEvents } from '../marketplace';
+import { orderService, auctionService } from '../p2p';
+import { offerService, messagingEvents } from '../messaging';
+import { productMatcher } from '../matching';
+import { savedSearchService } from '../search';
+
+const prisma = new PrismaClient();
+
+// How long deal stream events stay available for Last-Event-ID resume
+const DEAL_EVENT_RETENTION_HOURS = parseInt(process.env.DEAL_EVENT_RETENTION_HOURS || '72', 10);
+
+// Messaging events are only read by live pollers, so a day is plenty
+const MESSAGING_EVENT_RETENTION_HOURS = 24;
+
+// How long job run history is kept
+const JOB_RUN_RETENTION_DAYS = parseInt(process.env.JOB_RUN_RETENTION_DAYS || '30', 10);
+
+const DEFAULT_TIMEOUT_MS = 5 * 60_000;
+
+// Extra lease time past the worst-case run, so a slow finish isn't stolen
+const LEASE_GRACE_MS = 60_000;
+
+// While a run is in progress its lease is renewed this often
+const LEASE_RENEW_MS = 30_000;
+
+// Handlers may return per-run counts, surfaced as JobStats.lastRunCounts.
+// The signal aborts when the attempt times out; long handlers should stop
+// at the next safe point.
+export type JobHandler = (signal: AbortSignal) => Promise<void | Record<string, number>>;
+
+export interface RetryPolicy {
+    attempts: number;       // Total attempts, including the first
+    backoffMs: number;      // Wait before each retry, doubled every time
+}
+
+export interface JobDefinition {
+    name: string;
+    schedule: string;       // Cron expression, UTC
+    enabled: boolean;
+    timeoutMs?: number;     // Per attempt
+    retry?: RetryPolicy;
+    handler: JobHandler;
+}
 
 export interface ScheduledJob {
     name: string;
-    intervalMinutes: number;
-    lastRun: Date | null;
-    nextRun: Date;
+    schedule: string;
     enabled: boolean;
-    running: boolean;
-    handler: () => Promise<void>;
+    running: boolean;       // Some instance holds the lease
+    runningOn: string | null;
+    lastRun: Date | null;
+    nextRun: Date | null;
+    timeoutMs: number;
+    retry: RetryPolicy;
 }
 
 export interface JobStats {
@@ -31,13 +89,52 @@ export interface JobStats {
     failedRuns: number;
     lastError?: string;
     averageRunTimeMs: number;
+    lastRunCounts?: Record<string, number>;
+}
+
+export interface JobRunRecord {
+    id: string;
+    jobName: string;
+    instanceId: string;
+    trigger: string;
+    attempt: number;
+    status: string;
+    error: string | null;
+    counts: Record<string, number> | null;
+    startedAt: Date;
+    finishedAt: Date | null;
+    durationMs: number | null;
+}
+
+interface RegisteredJob {
+    definition: JobDefinition;
+    cron: CronSchedule;
+    timeoutMs: number;
+    retry: RetryPolicy;
+}
+
+class JobTimeoutError extends Error {
+    constructor(name: string, timeoutMs: number) {
+        super(`Job ${name} timed out after ${Math.round(timeoutMs / 1000)}s`);
+        this.name = 'JobTimeoutError';
+    }
+}
+
+function toRunRecord(run: {
+    id: string; jobName: string; instanceId: string; trigger: string; attempt: number; status: string;
+    error: string | null; counts: string | null; startedAt: Date; finishedAt: Date | null; durationMs: number | null;
+}): JobRunRecord {
+    return { ...run, counts: run.counts ? JSON.parse(run.counts) : null };
 }
 
 export class JobScheduler {
-    private jobs: Map<string, ScheduledJob> = new Map();
-    private jobStats: Map<string, JobStats> = new Map();
+    private jobs: Map<string, RegisteredJob> = new Map();
     private isRunning: boolean = false;
     private checkInterval: NodeJS.Timeout | null = null;
+    private synced: Promise<void> | null = null;
+
+    // Identifies this process in leases and run history
+    readonly instanceId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
 
     constructor() {
         this.registerDefaultJobs();
@@ -50,20 +147,38 @@ export class JobScheduler {
         // Affiliate API polling (every 15 minutes)
         this.registerJob({
             name: 'affiliate-api-poll',
-            intervalMinutes: 15,
+            schedule: '*/15 * * * *',
+            retry: { attempts: 3, backoffMs: 30_000 },
             enabled: true,
             handler: async () => {
                 console.log('[Scheduler] Running affiliate API poll...');
-                const deals = await affiliateManager.getAllHotDeals();
-                console.log(`[Scheduler] Fetched ${deals.length} deals from affiliates`);
-                await this.processDeals(deals.map(d => dealNormalizer.normalize(d)));
+                const { fetched } = await dealPipeline.run(
+                    async () => (await affiliateManager.getAllHotDeals()).map(toRawDeal),
+                    { persist: true }
+                );
+                console.log(`[Scheduler] Fetched ${fetched} deals from affiliates`);
+            },
+        });
+
+        // Marketplace catalog sync (every 15 minutes, offset from the affiliate poll)
+        this.registerJob({
+            name: 'marketplace-sync',
+            schedule: '5-59/15 * * * *',
+            timeoutMs: 10 * 60_000,
+            retry: { attempts: 2, backoffMs: 60_000 },
+            enabled: true,
+            handler: async () => {
+                console.log('[Scheduler] Running marketplace sync...');
+                const result = await marketplaceAggregator.fetchDeals({ limit: 500, useCache: false });
+                await dealPipeline.persist(result.deals);
             },
         });
 
         // RSS feed aggregation (every 10 minutes)
         this.registerJob({
             name: 'rss-aggregation',
-            intervalMinutes: 10,
+            schedule: '*/10 * * * *',
+            retry: { attempts: 2, backoffMs: 30_000 },
             enabled: true,
             handler: async () => {
                 console.log('[Scheduler] Running RSS aggregation...');
@@ -74,18 +189,20 @@ export class JobScheduler {
                         totalItems += result.items.length;
                     }
                 }
-                console.log(`[Scheduler] Fetched ${totalItems} RSS items from ${results.length} feeds`);
+                const unchanged = results.filter(result => result.notModified).length;
+                console.log(`[Scheduler] Fetched ${totalItems} RSS items from ${results.length} feeds (${unchanged} unchanged)`);
             },
         });
 
         // Web scraping (every 30 minutes)
         this.registerJob({
             name: 'web-scraping',
-            intervalMinutes: 30,
+            schedule: '*/30 * * * *',
+            timeoutMs: 10 * 60_000,
             enabled: true,
-            handler: async () => {
+            handler: async signal => {
                 console.log('[Scheduler] Running web scraping...');
-                const results = await webScraper.scrapeAll();
+                const results = await webScraper.scrapeAll(signal);
                 let totalDeals = 0;
                 for (const [, result] of results) {
                     if (result.success) {
@@ -96,114 +213,326 @@ export class JobScheduler {
             },
         });
 
-        // Price verification (every 60 minutes)
+        // Price verification (hourly at :20)
         this.registerJob({
             name: 'price-verification',
-            intervalMinutes: 60,
+            schedule: '20 * * * *',
+            timeoutMs: 15 * 60_000,
             enabled: true,
-            handler: async () => {
+            handler: async signal => {
                 console.log('[Scheduler] Running price verification...');
-                // In production: verify prices for top deals are still accurate
-                // Update stock status, mark expired deals
+                const counts = await priceVerifier.verifyTopDeals(signal);
+                console.log(
+                    `[Scheduler] Verified ${counts.checked} deals: ${counts.priceChanges} price changes, ` +
+                    `${counts.stockChanges} stock changes, ${counts.expired} expired`
+                );
+                return { ...counts };
+            },
+        });
+
+        // P2P escrow release (hourly)
+        this.registerJob({
+            name: 'escrow-release',
+            schedule: '0 * * * *',
+            retry: { attempts: 3, backoffMs: 60_000 },
+            enabled: true,
+            handler: async () => {
+                console.log('[Scheduler] Releasing escrow for delivered orders...');
+                const counts = await orderService.releaseEscrow();
+                console.log(`[Scheduler] Released escrow on ${counts.released} orders`);
+                return counts;
+            },
+        });
+
+        // Offer expiry (every 15 minutes)
+        this.registerJob({
+            name: 'offer-expiry',
+            schedule: '*/15 * * * *',
+            enabled: true,
+            handler: async () => {
+                const counts = await offerService.expireOffers();
+                console.log(`[Scheduler] Expired ${counts.expired} stale offers`);
+                return counts;
+            },
+        });
+
+        // Auction close (every minute, so winners hear promptly)
+        this.registerJob({
+            name: 'auction-close',
+            schedule: '* * * * *',
+            enabled: true,
+            handler: async () => {
+                const counts = await auctionService.closeEnded();
+                if (counts.sold + counts.unsold + counts.failed > 0) {
+                    console.log(`[Scheduler] Closed auctions: ${counts.sold} sold, ${counts.unsold} unsold, ${counts.failed} failed`);
+                }
+                return counts;
+            },
+        });
+
+        // Cross-source product matching (every 30 minutes, at :10 and :40)
+        this.registerJob({
+            name: 'product-matching',
+            schedule: '10-59/30 * * * *',
+            timeoutMs: 10 * 60_000,
+            enabled: true,
+            handler: async signal => {
+                console.log('[Scheduler] Matching unlinked deals to products...');
+                const counts = await productMatcher.matchUnlinked(500, signal);
+                return { ...counts };
             },
         });
 
-        // Data cleanup (every 24 hours)
+        // Saved searches against newly ingested deals (every 15 minutes, after each sync)
+        this.registerJob({
+            name: 'saved-search-check',
+            schedule: '12-59/15 * * * *',
+            timeoutMs: 10 * 60_000,
+            enabled: true,
+            handler: async signal => {
+                const counts = await savedSearchService.checkAll(signal);
+                console.log(`[Scheduler] Checked ${counts.checked} saved searches: ${counts.matched} new matches`);
+                return counts;
+            },
+        });
+
+        // Data cleanup (daily at 04:00 UTC)
         this.registerJob({
             name: 'data-cleanup',
-            intervalMinutes: 1440, // 24 hours
+            schedule: '0 4 * * *',
             enabled: true,
             handler: async () => {
                 console.log('[Scheduler] Running data cleanup...');
                 // Archive old deals
                 // Clear caches
                 rssAggregator.clearCache();
+                const prunedEvents = await dealEvents.prune(DEAL_EVENT_RETENTION_HOURS);
+                const prunedMessagingEvents = await messagingEvents.prune(MESSAGING_EVENT_RETENTION_HOURS);
+                const prunedRuns = await this.pruneRuns(JOB_RUN_RETENTION_DAYS);
+                return { prunedEvents, prunedMessagingEvents, prunedRuns };
             },
         });
     }
 
     /**
-     * Register a new job
+     * Register a new job. Throws on an invalid cron expression.
      */
-    registerJob(config: {
-        name: string;
-        intervalMinutes: number;
-        enabled: boolean;
-        handler: () => Promise<void>;
-    }): void {
-        const job: ScheduledJob = {
-            name: config.name,
-            intervalMinutes: config.intervalMinutes,
-            lastRun: null,
-            nextRun: new Date(),
-            enabled: config.enabled,
-            running: false,
-            handler: config.handler,
-        };
-
-        this.jobs.set(config.name, job);
-        this.jobStats.set(config.name, {
-            totalRuns: 0,
-            successfulRuns: 0,
-            failedRuns: 0,
-            averageRunTimeMs: 0,
+    registerJob(definition: JobDefinition): void {
+        this.jobs.set(definition.name, {
+            definition,
+            cron: parseCron(definition.schedule),
+            timeoutMs: definition.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+            retry: definition.retry ?? { attempts: 1, backoffMs: 0 },
         });
+        this.synced = null;
     }
 
     /**
-     * Process normalized deals through scoring
+     * Create state rows for new jobs and reschedule jobs whose cron
+     * expression changed. Existing rows keep their next run, so a restart
+     * doesn't re-run everything.
      */
-    private async processDeals(deals: NormalizedDeal[]): Promise<void> {
-        for (const deal of deals) {
-            const score = dealScorer.scoreDeal({
-                id: deal.id,
-                title: deal.normalizedTitle,
-                currentPrice: deal.currentPrice,
-                originalPrice: deal.originalPrice,
-                discountPercent: deal.discountPercent,
-                category: deal.category,
-                brand: deal.brand,
-                marketplace: deal.marketplace,
-                reviewScore: deal.rating,
-                reviewCount: deal.reviewCount,
+    private sync(): Promise<void> {
+        if (!this.synced) {
+            this.synced = (async () => {
+                const now = new Date();
+                for (const [name, job] of this.jobs) {
+                    const existing = await prisma.jobState.findUnique({ where: { name } });
+                    if (!existing) {
+                        await prisma.jobState.upsert({
+                            where: { name },
+                            update: {},
+                            create: {
+                                name,
+                                schedule: job.definition.schedule,
+                                enabled: job.definition.enabled,
+                                nextRunAt: nextCronRun(job.cron, now),
+                            },
+                        });
+                    } else if (existing.schedule !== job.definition.schedule) {
+                        await prisma.jobState.update({
+                            where: { name },
+                            data: { schedule: job.definition.schedule, nextRunAt: nextCronRun(job.cron, now) },
+                        });
+                    }
+                }
+            })().catch(error => {
+                this.synced = null;
+                throw error;
             });
+        }
+        return this.synced;
+    }
+
+    /**
+     * Take the job's lease. Scheduled runs also require the job to be due
+     * and enabled; manual triggers only need the lease to be free.
+     */
+    private async acquireLease(name: string, job: RegisteredJob, manual: boolean): Promise<boolean> {
+        const now = new Date();
+        const leaseMs = job.retry.attempts * job.timeoutMs
+            + job.retry.backoffMs * (2 ** Math.max(0, job.retry.attempts - 1))
+            + LEASE_GRACE_MS;
+
+        const { count } = await prisma.jobState.updateMany({
+            where: {
+                name,
+                OR: [{ leaseExpiresAt: null }, { leaseExpiresAt: { lt: now } }],
+                ...(manual ? {} : { enabled: true, nextRunAt: { lte: now } }),
+            },
+            data: { leaseOwner: this.instanceId, leaseExpiresAt: new Date(now.getTime() + leaseMs) },
+        });
+
+        return count === 1;
+    }
+
+    private async releaseLease(name: string, job: RegisteredJob): Promise<void> {
+        const now = new Date();
+        await prisma.jobState.updateMany({
+            where: { name, leaseOwner: this.instanceId },
+            data: {
+                leaseOwner: null,
+                leaseExpiresAt: null,
+                lastRunAt: now,
+                nextRunAt: nextCronRun(job.cron, now),
+            },
+        });
+    }
+
+    // Push the lease out while this instance is still running the job
+    private async renewLease(name: string): Promise<void> {
+        const leaseExpiresAt = new Date(Date.now() + LEASE_RENEW_MS + LEASE_GRACE_MS);
+        await prisma.jobState.updateMany({
+            where: { name, leaseOwner: this.instanceId, leaseExpiresAt: { lt: leaseExpiresAt } },
+            data: { leaseExpiresAt },
+        });
+    }
 
-            // In production: save to database with score
-            console.log(`[Scheduler] Scored deal: ${deal.normalizedTitle} = ${score.totalScore}/100`);
+    /**
+     * One attempt of a job. On timeout the handler is aborted, and the
+     * attempt only ends once the handler has settled, so a retry or the
+     * lease release can't overlap a handler that is still running.
+     */
+    private async runAttempt(name: string, job: RegisteredJob): Promise<void | Record<string, number>> {
+        const controller = new AbortController();
+        const handler = job.definition.handler(controller.signal);
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                const error = new JobTimeoutError(name, job.timeoutMs);
+                controller.abort(error);
+                reject(error);
+            }, job.timeoutMs);
+        });
+
+        try {
+            return await Promise.race([handler, timeout]);
+        } catch (error) {
+            if (error instanceof JobTimeoutError) {
+                console.warn(`[Scheduler] Job ${name} timed out; waiting for it to stop`);
+                await handler.catch(() => undefined);
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
         }
     }
 
     /**
-     * Run a specific job
+     * Run a job under its lease, retrying failed attempts per its policy.
+     * Returns false when the job is unknown, not due or leased elsewhere.
+     */
+    async runJob(name: string, trigger: 'schedule' | 'manual' = 'schedule'): Promise<boolean> {
+        const started = await this.startRun(name, trigger);
+        return started ? started.finished : false;
+    }
+
+    /**
+     * Take the job's lease and record its first attempt. The run itself
+     * goes on in the background; `finished` settles once every attempt
+     * is over and the lease is released.
      */
-    async runJob(name: string): Promise<boolean> {
+    private async startRun(
+        name: string,
+        trigger: 'schedule' | 'manual'
+    ): Promise<{ runId: string; finished: Promise<boolean> } | null> {
         const job = this.jobs.get(name);
-        if (!job || job.running) return false;
+        if (!job) return null;
+
+        await this.sync();
+        if (!(await this.acquireLease(name, job, trigger === 'manual'))) return null;
 
-        job.running = true;
-        const startTime = Date.now();
-        const stats = this.jobStats.get(name)!;
+        const renewal = setInterval(() => {
+            this.renewLease(name).catch(error =>
+                console.error(`[Scheduler] Failed to renew lease on ${name}:`, error)
+            );
+        }, LEASE_RENEW_MS);
 
+        let firstRunId: string;
         try {
-            await job.handler();
+            const run = await prisma.jobRun.create({
+                data: { jobName: name, instanceId: this.instanceId, trigger, attempt: 1 },
+            });
+            firstRunId = run.id;
+        } catch (error) {
+            clearInterval(renewal);
+            await this.releaseLease(name, job);
+            throw error;
+        }
 
-            stats.successfulRuns++;
-            job.lastRun = new Date();
-            job.nextRun = new Date(Date.now() + job.intervalMinutes * 60 * 1000);
+        return { runId: firstRunId, finished: this.runAttempts(name, job, trigger, firstRunId, renewal) };
+    }
 
-            return true;
-        } catch (error) {
-            stats.failedRuns++;
-            stats.lastError = error instanceof Error ? error.message : 'Unknown error';
-            console.error(`[Scheduler] Job ${name} failed:`, error);
+    private async runAttempts(
+        name: string,
+        job: RegisteredJob,
+        trigger: 'schedule' | 'manual',
+        firstRunId: string,
+        renewal: NodeJS.Timeout
+    ): Promise<boolean> {
+        try {
+            for (let attempt = 1; attempt <= job.retry.attempts; attempt++) {
+                const runId = attempt === 1 ? firstRunId : (await prisma.jobRun.create({
+                    data: { jobName: name, instanceId: this.instanceId, trigger, attempt },
+                })).id;
+                const startTime = Date.now();
+
+                try {
+                    const counts = await this.runAttempt(name, job);
+                    await prisma.jobRun.update({
+                        where: { id: runId },
+                        data: {
+                            status: 'succeeded',
+                            counts: counts ? JSON.stringify(counts) : null,
+                            finishedAt: new Date(),
+                            durationMs: Date.now() - startTime,
+                        },
+                    });
+                    return true;
+                } catch (error) {
+                    const message = error instanceof Error ? error.message : 'Unknown error';
+                    console.error(`[Scheduler] Job ${name} attempt ${attempt}/${job.retry.attempts} failed:`, message);
+
+                    await prisma.jobRun.update({
+                        where: { id: runId },
+                        data: {
+                            status: error instanceof JobTimeoutError ? 'timed_out' : 'failed',
+                            error: message,
+                            finishedAt: new Date(),
+                            durationMs: Date.now() - startTime,
+                        },
+                    });
+
+                    if (attempt < job.retry.attempts) {
+                        await new Promise(resolve => setTimeout(resolve, job.retry.backoffMs * 2 ** (attempt - 1)));
+                    }
+                }
+            }
             return false;
         } finally {
-            job.running = false;
-            stats.totalRuns++;
-
-            const runTime = Date.now() - startTime;
-            stats.averageRunTimeMs =
-                (stats.averageRunTimeMs * (stats.totalRuns - 1) + runTime) / stats.totalRuns;
+            clearInterval(renewal);
+            await this.releaseLease(name, job);
         }
     }
 
@@ -211,15 +540,22 @@ export class JobScheduler {
      * Check and run due jobs
      */
     private async checkJobs(): Promise<void> {
-        const now = new Date();
+        try {
+            await this.sync();
+            const due = await prisma.jobState.findMany({
+                where: { enabled: true, nextRunAt: { lte: new Date() } },
+                select: { name: true },
+            });
 
-        for (const [name, job] of this.jobs) {
-            if (job.enabled && !job.running && job.nextRun <= now) {
+            for (const { name } of due) {
+                if (!this.jobs.has(name)) continue;
                 // Run in background, don't await
                 this.runJob(name).catch(err =>
                     console.error(`[Scheduler] Error running job ${name}:`, err)
                 );
             }
+        } catch (error) {
+            console.error('[Scheduler] Failed to check jobs:', error);
         }
     }
 
@@ -229,20 +565,20 @@ export class JobScheduler {
     start(): void {
         if (this.isRunning) return;
 
-        console.log('[Scheduler] Starting job scheduler...');
+        console.log(`[Scheduler] Starting job scheduler (${this.instanceId})...`);
         this.isRunning = true;
 
-        // Check jobs every minute
-        this.checkInterval = setInterval(() => this.checkJobs(), 60000);
+        // Check jobs every 30 seconds
+        this.checkInterval = setInterval(() => this.checkJobs(), 30_000);
 
         // Run initial check
         this.checkJobs();
     }
 
     /**
-     * Stop the scheduler
+     * Stop the scheduler and give up any leases this instance holds
      */
-    stop(): void {
+    async stop(): Promise<void> {
         if (!this.isRunning) return;
 
         console.log('[Scheduler] Stopping job scheduler...');
@@ -252,52 +588,123 @@ export class JobScheduler {
             clearInterval(this.checkInterval);
             this.checkInterval = null;
         }
+
+        await prisma.jobState.updateMany({
+            where: { leaseOwner: this.instanceId },
+            data: { leaseOwner: null, leaseExpiresAt: null },
+        });
+    }
+
+    private async statsFor(name: string): Promise<JobStats> {
+        const [byStatus, average, lastFailure, lastSuccess] = await Promise.all([
+            prisma.jobRun.groupBy({ by: ['status'], where: { jobName: name }, _count: true }),
+            prisma.jobRun.aggregate({ where: { jobName: name, durationMs: { not: null } }, _avg: { durationMs: true } }),
+            prisma.jobRun.findFirst({ where: { jobName: name, error: { not: null } }, orderBy: { startedAt: 'desc' } }),
+            prisma.jobRun.findFirst({ where: { jobName: name, status: 'succeeded' }, orderBy: { startedAt: 'desc' } }),
+        ]);
+
+        const count = (status: string) => byStatus.find(group => group.status === status)?._count ?? 0;
+
+        return {
+            totalRuns: byStatus.reduce((total, group) => total + group._count, 0),
+            successfulRuns: count('succeeded'),
+            failedRuns: count('failed') + count('timed_out'),
+            lastError: lastFailure?.error ?? undefined,
+            averageRunTimeMs: Math.round(average._avg.durationMs ?? 0),
+            lastRunCounts: lastSuccess?.counts ? JSON.parse(lastSuccess.counts) : undefined,
+        };
     }
 
     /**
      * Get job status
      */
-    getJobStatus(name: string): { job: ScheduledJob; stats: JobStats } | null {
+    async getJobStatus(name: string): Promise<{ job: ScheduledJob; stats: JobStats } | null> {
         const job = this.jobs.get(name);
-        const stats = this.jobStats.get(name);
-
-        if (!job || !stats) return null;
-        return { job, stats };
+        if (!job) return null;
+
+        await this.sync();
+        const state = await prisma.jobState.findUnique({ where: { name } });
+        const leased = !!state?.leaseExpiresAt && state.leaseExpiresAt > new Date();
+
+        return {
+            job: {
+                name,
+                schedule: job.definition.schedule,
+                enabled: state?.enabled ?? job.definition.enabled,
+                running: leased,
+                runningOn: leased ? state!.leaseOwner : null,
+                lastRun: state?.lastRunAt ?? null,
+                nextRun: state?.nextRunAt ?? null,
+                timeoutMs: job.timeoutMs,
+                retry: job.retry,
+            },
+            stats: await this.statsFor(name),
+        };
     }
 
     /**
      * Get all jobs status
      */
-    getAllJobsStatus(): Array<{ job: ScheduledJob; stats: JobStats }> {
+    async getAllJobsStatus(): Promise<Array<{ job: ScheduledJob; stats: JobStats }>> {
         const statuses: Array<{ job: ScheduledJob; stats: JobStats }> = [];
 
-        for (const [name, job] of this.jobs) {
-            const stats = this.jobStats.get(name)!;
-            statuses.push({ job, stats });
+        for (const name of this.jobs.keys()) {
+            const status = await this.getJobStatus(name);
+            if (status) statuses.push(status);
         }
 
         return statuses;
     }
 
     /**
-     * Enable/disable a job
+     * Run history, newest first
      */
-    setJobEnabled(name: string, enabled: boolean): void {
-        const job = this.jobs.get(name);
-        if (job) {
-            job.enabled = enabled;
-        }
+    async getRuns(options: { job?: string; status?: string; limit?: number } = {}): Promise<JobRunRecord[]> {
+        const runs = await prisma.jobRun.findMany({
+            where: {
+                ...(options.job ? { jobName: options.job } : {}),
+                ...(options.status ? { status: options.status } : {}),
+            },
+            orderBy: { startedAt: 'desc' },
+            take: Math.min(500, Math.max(1, options.limit || 50)),
+        });
+        return runs.map(toRunRecord);
     }
 
     /**
-     * Trigger immediate run of a job
+     * Enable/disable a job on every instance
      */
-    async triggerJob(name: string): Promise<boolean> {
-        const job = this.jobs.get(name);
-        if (!job) return false;
+    async setJobEnabled(name: string, enabled: boolean): Promise<boolean> {
+        if (!this.jobs.has(name)) return false;
 
-        job.nextRun = new Date(); // Set to now
-        return this.runJob(name);
+        await this.sync();
+        await prisma.jobState.update({ where: { name }, data: { enabled } });
+        return true;
+    }
+
+    /**
+     * Start a job now without waiting for it. Returns the first attempt's
+     * run id, or null when the job is unknown or leased elsewhere; the
+     * run's progress shows up in the job's run history.
+     */
+    async triggerJob(name: string): Promise<string | null> {
+        const started = await this.startRun(name, 'manual');
+        if (!started) return null;
+
+        started.finished.catch(error =>
+            console.error(`[Scheduler] Error running job ${name}:`, error)
+        );
+        return started.runId;
+    }
+
+    /**
+     * Delete run history older than the retention window
+     */
+    async pruneRuns(retentionDays: number): Promise<number> {
+        const { count } = await prisma.jobRun.deleteMany({
+            where: { startedAt: { lt: new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000) } },
+        });
+        return count;
     }
 }
 
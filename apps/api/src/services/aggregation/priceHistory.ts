@@ -0,0 +1,109 @@
+/**
+ * PriceHistory Service - Stored Price Intelligence
+ *
+ * Loads DealPriceHistory for stored deals, runs it through the
+ * PriceTracker and writes the derived price fields back onto the Deal:
+ * - isAllTimeLow / allTimeLowPrice / historicHighPrice
+ * - priceDropPercent30d
+ * - pricePrediction ("buy_now", "wait", "neutral")
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { priceTracker, type PriceRecord, type PriceStats, type PricePrediction } from './priceTracker';
+
+const prisma = new PrismaClient();
+
+export interface DealPriceInsights {
+    isAllTimeLow: boolean;
+    allTimeLowPrice: number;
+    historicHighPrice: number;
+    priceDropPercent30d: number;
+    pricePrediction: 'buy_now' | 'wait' | 'neutral';
+    stats: PriceStats;
+    prediction: PricePrediction;
+}
+
+export class PriceHistoryService {
+    /**
+     * Load a deal's recorded prices, oldest first
+     */
+    async loadHistory(dealId: string): Promise<PriceRecord[]> {
+        const rows = await prisma.dealPriceHistory.findMany({
+            where: { dealId },
+            orderBy: { recordedAt: 'asc' },
+        });
+
+        return rows.map(r => ({ price: r.price, recordedAt: r.recordedAt }));
+    }
+
+    /**
+     * Analyze a stored deal against its recorded history
+     */
+    async analyzeDeal(dealId: string): Promise<DealPriceInsights | null> {
+        const deal = await prisma.deal.findUnique({
+            where: { id: dealId },
+            select: { currentPrice: true, category: true },
+        });
+        if (!deal) return null;
+
+        const history = await this.loadHistory(dealId);
+        return this.computeInsights(deal.currentPrice, history, deal.category);
+    }
+
+    /**
+     * Recompute a deal's price fields and store them on the Deal row.
+     * Never throws: the deal is already saved, and the alert and event
+     * steps after this must still run.
+     */
+    async refreshDeal(dealId: string): Promise<DealPriceInsights | null> {
+        try {
+            const insights = await this.analyzeDeal(dealId);
+            if (!insights) return null;
+
+            await prisma.deal.update({
+                where: { id: dealId },
+                data: {
+                    isAllTimeLow: insights.isAllTimeLow,
+                    allTimeLowPrice: insights.allTimeLowPrice,
+                    historicHighPrice: insights.historicHighPrice,
+                    priceDropPercent30d: insights.priceDropPercent30d,
+                    pricePrediction: insights.pricePrediction,
+                },
+            });
+
+            return insights;
+        } catch (error) {
+            console.error(`[PriceHistory] Failed to refresh deal ${dealId}:`, error);
+            return null;
+        }
+    }
+
+    private computeInsights(currentPrice: number, history: PriceRecord[], category: string): DealPriceInsights {
+        const stats = priceTracker.analyzeHistory(currentPrice, history);
+        const prediction = priceTracker.predictPrice(history, category);
+
+        // Stored history always includes the current price, but be safe for fresh rows
+        const allTimeLowPrice = Math.min(stats.lowest, currentPrice);
+        const historicHighPrice = Math.max(stats.highest, currentPrice);
+
+        let pricePrediction: DealPriceInsights['pricePrediction'] = 'neutral';
+        if (stats.buyRecommendation === 'buy_now' && prediction.predictedDirection !== 'down') {
+            pricePrediction = 'buy_now';
+        } else if (prediction.predictedDirection === 'down' || stats.buyRecommendation === 'avoid') {
+            pricePrediction = 'wait';
+        }
+
+        return {
+            isAllTimeLow: currentPrice <= allTimeLowPrice,
+            allTimeLowPrice,
+            historicHighPrice,
+            priceDropPercent30d: Math.max(0, Math.round(-stats.priceChangePercent30d * 10) / 10),
+            pricePrediction,
+            stats,
+            prediction,
+        };
+    }
+}
+
+// Singleton instance
+export const priceHistoryService = new PriceHistoryService();
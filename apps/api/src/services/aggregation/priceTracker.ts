@@ -5,13 +5,13 @@
  * Provides CamelCamelCamel/Keepa-like functionality.
  */
 
-interface PriceRecord {
+export interface PriceRecord {
     price: number;
     recordedAt: Date;
     source?: string;
 }
 
-interface PriceStats {
+export interface PriceStats {
     current: number;
     average30d: number;
     average90d: number;
@@ -26,7 +26,7 @@ interface PriceStats {
     confidence: number; // 0-100
 }
 
-interface PricePrediction {
+export interface PricePrediction {
     predictedDirection: 'up' | 'down' | 'stable';
     predictedChangePercent: number;
     confidence: number;
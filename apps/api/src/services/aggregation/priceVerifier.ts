@@ -0,0 +1,133 @@
+/**
+ * PriceVerifier Service - Keeps Stored Deals Honest
+ *
+ * Periodically re-checks the catalog's top deals at their source:
+ * - Records price changes to DealPriceHistory
+ * - Flips stock status
+ * - Marks deals expired once past expiresAt
+ * - Records price changes and expiries on the deal event stream
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { marketplaceAggregator, sourceForMarketplace, dealEvents, type PriceCheck } from '../marketplace';
+import { affiliateManager } from './affiliateConnector';
+import { priceHistoryService } from './priceHistory';
+import { alertEngine } from '../alerts';
+
+const prisma = new PrismaClient();
+
+export interface VerificationCounts {
+    checked: number;
+    priceChanges: number;
+    stockChanges: number;
+    expired: number;
+    unverifiable: number;
+    failed: number;
+}
+
+export class PriceVerifier {
+    // How many of the top-scored deals to re-check per run
+    private readonly batchSize: number;
+
+    constructor(batchSize: number = 50) {
+        this.batchSize = batchSize;
+    }
+
+    /**
+     * Run one verification pass over the catalog
+     */
+    async verifyTopDeals(signal?: AbortSignal): Promise<VerificationCounts> {
+        const now = new Date();
+        const counts: VerificationCounts = {
+            checked: 0,
+            priceChanges: 0,
+            stockChanges: 0,
+            expired: 0,
+            unverifiable: 0,
+            failed: 0,
+        };
+
+        // Expire anything past its end date before spending lookups on it
+        const expiring = await prisma.deal.findMany({
+            where: { isExpired: false, expiresAt: { lt: now } },
+            select: { id: true },
+        });
+        const expired = await prisma.deal.updateMany({
+            where: { id: { in: expiring.map(d => d.id) } },
+            data: { isExpired: true },
+        });
+        counts.expired = expired.count;
+        for (const { id } of expiring) {
+            await dealEvents.record('deal.expired', id);
+        }
+
+        const deals = await prisma.deal.findMany({
+            where: { isExpired: false, externalId: { not: null } },
+            include: { marketplace: true },
+            orderBy: [{ dealScore: 'desc' }, { lastVerifiedAt: 'asc' }],
+            take: this.batchSize,
+        });
+
+        for (const deal of deals) {
+            // Stop between deals once the scheduler gives up on the run
+            signal?.throwIfAborted();
+            try {
+                const check = await this.checkDeal(deal.marketplace.name, deal.externalId!, deal.title);
+                if (!check) {
+                    counts.unverifiable++;
+                    continue;
+                }
+
+                counts.checked++;
+
+                const priceChanged = check.currentPrice !== null && check.currentPrice !== deal.currentPrice;
+                const stockChanged = check.inStock !== deal.inStock;
+                if (priceChanged) counts.priceChanges++;
+                if (stockChanged) counts.stockChanges++;
+
+                await prisma.deal.update({
+                    where: { id: deal.id },
+                    data: {
+                        inStock: check.inStock,
+                        lastVerifiedAt: now,
+                        ...(priceChanged ? {
+                            currentPrice: check.currentPrice!,
+                            discountPercent: deal.originalPrice && deal.originalPrice > check.currentPrice!
+                                ? Math.round(((deal.originalPrice - check.currentPrice!) / deal.originalPrice) * 100)
+                                : null,
+                            priceHistory: { create: { price: check.currentPrice!, recordedAt: now } },
+                        } : {}),
+                    },
+                });
+
+                if (priceChanged) {
+                    await priceHistoryService.refreshDeal(deal.id);
+                    await alertEngine.evaluateDeal(deal.id);
+                    await dealEvents.record('deal.price_changed', deal.id, { previousPrice: deal.currentPrice });
+                }
+            } catch (error) {
+                console.error(`[PriceVerifier] Failed to verify deal ${deal.id}:`, error);
+                counts.failed++;
+            }
+        }
+
+        return counts;
+    }
+
+    /**
+     * Route a lookup to the fetcher or affiliate connector that owns the deal
+     */
+    private async checkDeal(marketplace: string, externalId: string, title: string): Promise<PriceCheck | null> {
+        const source = sourceForMarketplace(marketplace);
+        const fetcher = source ? marketplaceAggregator.getFetcher(source) : undefined;
+
+        if (fetcher) {
+            return fetcher.checkDeal(externalId, title);
+        }
+
+        return affiliateManager.checkDeal(marketplace, externalId, title);
+    }
+}
+
+// Singleton instance
+export const priceVerifier = new PriceVerifier();
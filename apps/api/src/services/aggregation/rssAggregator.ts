@@ -4,12 +4,15 @@
  * Aggregates deals from RSS feeds across major deal sites.
  * Features:
  * - Multi-feed subscription
- * - Automatic parsing and normalization
+ * - RSS 2.0, Atom and RDF parsing
+ * - Conditional GET (ETag / Last-Modified) to skip unchanged feeds
  * - Deduplication
  * - Scheduled polling
  */
 
 import { AffiliateDeal } from './affiliateConnector';
+import { fixtureFetch } from '../marketplace/fixtures';
+import { feedClient, htmlToText, extractPrice, extractOriginalPrice, type FeedEntry } from '../marketplace/feeds';
 
 export interface RSSFeedConfig {
     name: string;
@@ -26,6 +29,9 @@ export interface FeedItem {
     pubDate?: Date;
     category?: string;
     author?: string;
+    imageUrl?: string;
+    price?: number;
+    originalPrice?: number;
 }
 
 export interface FeedResult {
@@ -33,6 +39,7 @@ export interface FeedResult {
     success: boolean;
     items: FeedItem[];
     fetchedAt: Date;
+    notModified?: boolean;  // Server answered 304; nothing new since the last fetch
     error?: string;
 }
 
@@ -124,22 +131,11 @@ export class RSSAggregator {
         try {
             console.log(`[RSSAggregator] Fetching ${config.name}...`);
 
-            // In production, use a proper RSS parser like 'rss-parser' or 'feedparser'
-            // This is a simplified implementation
-
-            const response = await fetch(config.url, {
-                headers: {
-                    'User-Agent': 'Tadow Deal Aggregator/1.0',
-                    'Accept': 'application/rss+xml, application/xml, text/xml',
-                },
+            const { feed, notModified } = await feedClient.fetch('rss', config.url, {
+                request: (url, init) => fixtureFetch('rss', url, init),
+                headers: { 'User-Agent': 'Tadow Deal Aggregator/1.0' },
             });
-
-            if (!response.ok) {
-                throw new Error(`HTTP ${response.status}`);
-            }
-
-            const text = await response.text();
-            const items = this.parseRSSText(text, config);
+            const items = notModified ? [] : this.toFeedItems(feed.entries, config);
 
             this.lastFetchTimes.set(config.name, new Date());
 
@@ -148,6 +144,7 @@ export class RSSAggregator {
                 success: true,
                 items,
                 fetchedAt: new Date(),
+                notModified,
             };
         } catch (error) {
             console.error(`[RSSAggregator] Error fetching ${config.name}:`, error);
@@ -162,67 +159,36 @@ export class RSSAggregator {
     }
 
     /**
-     * Parse RSS XML text
-     * Note: In production, use a proper XML parser
+     * Map parsed entries to feed items, skipping ones already seen
      */
-    private parseRSSText(text: string, config: RSSFeedConfig): FeedItem[] {
+    private toFeedItems(entries: FeedEntry[], config: RSSFeedConfig): FeedItem[] {
         const items: FeedItem[] = [];
 
-        // Simple regex-based parsing (use proper parser in production)
-        const itemMatches = text.matchAll(/<item>([\s\S]*?)<\/item>/g);
-
-        for (const match of itemMatches) {
-            const itemXml = match[1];
-
-            const title = this.extractTag(itemXml, 'title');
-            const link = this.extractTag(itemXml, 'link');
-            const description = this.extractTag(itemXml, 'description');
-            const pubDate = this.extractTag(itemXml, 'pubDate');
-
-            if (title && link) {
-                // Deduplication check
-                const itemId = `${config.name}:${link}`;
-                if (!this.seenItems.has(itemId)) {
-                    this.seenItems.add(itemId);
-                    items.push({
-                        title: this.decodeHtmlEntities(title),
-                        link,
-                        description: description ? this.decodeHtmlEntities(description) : undefined,
-                        pubDate: pubDate ? new Date(pubDate) : undefined,
-                        category: config.category,
-                    });
-                }
-            }
+        for (const entry of entries) {
+            if (!entry.title || !entry.link) continue;
+
+            // Deduplication check
+            const itemId = `${config.name}:${entry.link}`;
+            if (this.seenItems.has(itemId)) continue;
+            this.seenItems.add(itemId);
+
+            const description = entry.description ? htmlToText(entry.description) : undefined;
+            items.push({
+                title: entry.title,
+                link: entry.link,
+                description,
+                pubDate: entry.publishedAt || undefined,
+                category: config.category,
+                author: entry.author || undefined,
+                imageUrl: entry.imageUrl || undefined,
+                price: extractPrice(`${entry.title} ${description || ''}`),
+                originalPrice: extractOriginalPrice(`${entry.title} ${description || ''}`),
+            });
         }
 
         return items;
     }
 
-    /**
-     * Extract content from XML tag
-     */
-    private extractTag(xml: string, tag: string): string | null {
-        const match = xml.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`, 'i'));
-        if (match) {
-            // Handle CDATA
-            return match[1].replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1').trim();
-        }
-        return null;
-    }
-
-    /**
-     * Decode HTML entities
-     */
-    private decodeHtmlEntities(text: string): string {
-        return text
-            .replace(/&amp;/g, '&')
-            .replace(/&lt;/g, '<')
-            .replace(/&gt;/g, '>')
-            .replace(/&quot;/g, '"')
-            .replace(/&#39;/g, "'")
-            .replace(/&nbsp;/g, ' ');
-    }
-
     /**
      * Check if feed needs refresh
      */
@@ -277,7 +243,9 @@ export class RSSAggregator {
             externalId: Buffer.from(item.link).toString('base64').slice(0, 20),
             title: item.title,
             description: item.description,
-            currentPrice: 0, // Would be extracted from description/title
+            imageUrl: item.imageUrl,
+            currentPrice: item.price || 0,
+            originalPrice: item.originalPrice,
             currency: 'USD',
             affiliateUrl: item.link,
             merchant: source,
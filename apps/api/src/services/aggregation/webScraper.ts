@@ -204,12 +204,13 @@ export class WebScraper {
     }
 
     /**
-     * Scrape all enabled sites
+     * Scrape all enabled sites, stopping between sites once signal aborts
      */
-    async scrapeAll(): Promise<Map<string, ScrapeResult>> {
+    async scrapeAll(signal?: AbortSignal): Promise<Map<string, ScrapeResult>> {
         const results = new Map<string, ScrapeResult>();
 
         for (const config of this.configs) {
+            signal?.throwIfAborted();
             const result = await this.scrapeSite(config);
             results.set(config.name, result);
         }
@@ -0,0 +1,145 @@
+/**
+ * Channel Service
+ *
+ * The webhook and email channels users add on top of the inbox. A
+ * channel only gets alerts once it is verified: a webhook when its URL
+ * passes the public-address check, an email address when its owner
+ * follows the confirmation link we send to it (or it is the account's
+ * own, already confirmed address). Changing the target starts over.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { AlertChannel } from '@prisma/client';
+import { mailer } from '../mail';
+import { generateOpaqueToken, hashOpaqueToken } from '../auth';
+import { ChannelTargetError, assertPublicWebhookUrl, normalizeEmailTarget } from './targets';
+
+const prisma = new PrismaClient();
+
+const CONFIRM_TTL_HOURS = 24;
+
+export type ChannelType = 'webhook' | 'email';
+
+export interface AlertChannelDTO {
+    id: string;
+    userId: string;
+    type: string;
+    target: string;
+    enabled: boolean;
+    verifiedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+// Leaves out the pending confirmation token
+export function serializeAlertChannel(channel: AlertChannel): AlertChannelDTO {
+    return {
+        id: channel.id,
+        userId: channel.userId,
+        type: channel.type,
+        target: channel.target,
+        enabled: channel.enabled,
+        verifiedAt: channel.verifiedAt,
+        createdAt: channel.createdAt,
+        updatedAt: channel.updatedAt,
+    };
+}
+
+export class ChannelService {
+    async list(userId: string): Promise<AlertChannelDTO[]> {
+        const channels = await prisma.alertChannel.findMany({ where: { userId } });
+        return channels.map(serializeAlertChannel);
+    }
+
+    /**
+     * Create or update a channel. Throws ChannelTargetError for a target
+     * the channel can't be pointed at.
+     */
+    async save(userId: string, type: ChannelType, rawTarget: string, enabled: boolean): Promise<AlertChannelDTO> {
+        if (type === 'webhook') {
+            const url = await assertPublicWebhookUrl(rawTarget.trim());
+            const target = url.toString();
+            const channel = await prisma.alertChannel.upsert({
+                where: { userId_type: { userId, type } },
+                update: { target, enabled, verifiedAt: new Date(), verifyTokenHash: null, verifyExpiresAt: null },
+                create: { userId, type, target, enabled, verifiedAt: new Date() },
+            });
+            return serializeAlertChannel(channel);
+        }
+
+        const target = normalizeEmailTarget(rawTarget);
+        const [existing, user] = await Promise.all([
+            prisma.alertChannel.findUnique({ where: { userId_type: { userId, type } } }),
+            prisma.user.findUnique({ where: { id: userId } }),
+        ]);
+
+        // Same confirmed address: only the enabled flag changes
+        if (existing?.target === target && existing.verifiedAt) {
+            const channel = await prisma.alertChannel.update({ where: { id: existing.id }, data: { enabled } });
+            return serializeAlertChannel(channel);
+        }
+
+        // The account's own address was confirmed when it signed in by magic link
+        if (user?.email === target && user.emailVerifiedAt) {
+            const channel = await prisma.alertChannel.upsert({
+                where: { userId_type: { userId, type } },
+                update: { target, enabled, verifiedAt: new Date(), verifyTokenHash: null, verifyExpiresAt: null },
+                create: { userId, type, target, enabled, verifiedAt: new Date() },
+            });
+            return serializeAlertChannel(channel);
+        }
+
+        const token = generateOpaqueToken();
+        const pending = {
+            target,
+            enabled,
+            verifiedAt: null,
+            verifyTokenHash: hashOpaqueToken(token),
+            verifyExpiresAt: new Date(Date.now() + CONFIRM_TTL_HOURS * 60 * 60 * 1000),
+        };
+        const channel = await prisma.alertChannel.upsert({
+            where: { userId_type: { userId, type } },
+            update: pending,
+            create: { userId, type, ...pending },
+        });
+
+        const appUrl = process.env.APP_URL || 'http://localhost:5173';
+        const link = `${appUrl}/?alertEmailToken=${encodeURIComponent(token)}`;
+        try {
+            await mailer.send({
+                to: target,
+                subject: 'Confirm your Tadow alert email',
+                text: `Confirm that alerts may be sent to this address:\n\n${link}\n\nThis link expires in ${CONFIRM_TTL_HOURS} hours. If you didn't ask for alerts, ignore this email.`,
+            });
+        } catch (error) {
+            console.error('[Alerts] Failed to send channel confirmation:', error);
+        }
+
+        return serializeAlertChannel(channel);
+    }
+
+    /**
+     * Confirm an email channel from the link sent to it. Each token
+     * works once.
+     */
+    async confirmEmail(token: string): Promise<AlertChannelDTO> {
+        const now = new Date();
+        const verifyTokenHash = hashOpaqueToken(token);
+
+        const pending = await prisma.alertChannel.findUnique({ where: { verifyTokenHash } });
+        // Conditional on the token, so a link used twice at once confirms once
+        const confirmed = pending && await prisma.alertChannel.updateMany({
+            where: { id: pending.id, verifyTokenHash, verifyExpiresAt: { gt: now } },
+            data: { verifiedAt: now, verifyTokenHash: null, verifyExpiresAt: null },
+        });
+        if (!confirmed || confirmed.count !== 1) {
+            throw new ChannelTargetError('Confirmation link is invalid or has expired');
+        }
+
+        const channel = await prisma.alertChannel.findUniqueOrThrow({ where: { id: pending.id } });
+        return serializeAlertChannel(channel);
+    }
+}
+
+// Singleton instance
+export const channelService = new ChannelService();
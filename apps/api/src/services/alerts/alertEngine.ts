@@ -0,0 +1,341 @@
+/**
+ * Alert Engine - Server-Side Price Alerts
+ *
+ * Runs after every price history write. Matches the deal against
+ * wishlist price thresholds and active agent hunts, dedupes and
+ * throttles per user, then fans out to the delivery channels and
+ * records every attempt in the delivery log. The saved-search job
+ * sends its new matches, and auctions their outbid and result notices,
+ * through the same path.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { Deal, DealHunt } from '@prisma/client';
+import {
+    InboxChannel,
+    WebhookChannel,
+    SmtpChannel,
+    type AlertPayload,
+    type DeliveryChannel,
+} from './channels';
+
+const prisma = new PrismaClient();
+
+interface AlertCandidate {
+    userId: string;
+    type: AlertPayload['type'];
+    dealId?: string;
+    title: string;
+    message: string;
+    dedupeKey: string;
+    data: Record<string, unknown>;
+}
+
+export class AlertEngine {
+    private channels: Map<string, DeliveryChannel> = new Map();
+
+    // External deliveries allowed per user per hour; the inbox is never throttled
+    private readonly maxPerHour = parseInt(process.env.ALERT_MAX_PER_HOUR || '5');
+
+    constructor() {
+        this.registerChannel(new InboxChannel());
+        this.registerChannel(new WebhookChannel());
+        this.registerChannel(new SmtpChannel());
+    }
+
+    /**
+     * Add or replace a delivery channel
+     */
+    registerChannel(channel: DeliveryChannel): void {
+        this.channels.set(channel.name, channel);
+    }
+
+    getChannelNames(): string[] {
+        return Array.from(this.channels.keys());
+    }
+
+    /**
+     * Evaluate a deal after its price changed. Never throws, so callers
+     * writing price history aren't affected by alert failures.
+     */
+    async evaluateDeal(dealId: string): Promise<number> {
+        try {
+            const deal = await prisma.deal.findUnique({
+                where: { id: dealId },
+                include: { marketplace: true },
+            });
+            if (!deal || deal.isExpired) return 0;
+
+            const candidates = [
+                ...(await this.matchWishlists(deal, deal.marketplace.name)),
+                ...(await this.matchHunts(deal)),
+            ];
+
+            let sent = 0;
+            for (const candidate of candidates) {
+                if (await this.notify(candidate)) sent++;
+            }
+            return sent;
+        } catch (error) {
+            console.error(`[AlertEngine] Failed to evaluate deal ${dealId}:`, error);
+            return 0;
+        }
+    }
+
+    /**
+     * One notification for a saved search's new matches, led by the
+     * best-scored deal. Never throws, like evaluateDeal.
+     */
+    async notifySavedSearch(search: { id: string; userId: string; query: string }, deals: Deal[]): Promise<boolean> {
+        if (deals.length === 0) return false;
+
+        try {
+            const best = deals.reduce((top, deal) => (deal.dealScore ?? 0) > (top.dealScore ?? 0) ? deal : top);
+            const more = deals.length > 1 ? ` and ${deals.length - 1} more` : '';
+
+            // A deal matches a saved search at most once, so it keys the run
+            return await this.notify({
+                userId: search.userId,
+                type: 'saved_search',
+                dealId: best.id,
+                title: `${deals.length} new for "${search.query}"`,
+                message: `${best.title} at $${best.currentPrice.toFixed(2)}${more}. ${best.externalUrl}`,
+                dedupeKey: `saved_search:${search.id}:${best.id}`,
+                data: {
+                    savedSearchId: search.id,
+                    count: deals.length,
+                    dealIds: deals.slice(0, 20).map(deal => deal.id),
+                    url: best.externalUrl,
+                },
+            });
+        } catch (error) {
+            console.error(`[AlertEngine] Failed to notify saved search ${search.id}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Auction notices for a P2P listing: a bidder was outbid, the winner
+     * won, or the seller's auction ended. Never throws, like evaluateDeal.
+     */
+    async notifyAuction(
+        type: 'outbid' | 'auction_won' | 'auction_ended',
+        userId: string,
+        listing: { id: string; title: string; currentBid: number | null; bidCount: number },
+        message: string
+    ): Promise<boolean> {
+        const titles = {
+            outbid: `Outbid: ${listing.title}`,
+            auction_won: `You won: ${listing.title}`,
+            auction_ended: `Auction ended: ${listing.title}`,
+        };
+
+        try {
+            // Each outbid is a distinct bid count; results happen once per listing
+            return await this.notify({
+                userId,
+                type,
+                title: titles[type],
+                message,
+                dedupeKey: type === 'outbid' ? `outbid:${listing.id}:${listing.bidCount}` : `${type}:${listing.id}`,
+                data: {
+                    listingId: listing.id,
+                    currentBid: listing.currentBid,
+                    bidCount: listing.bidCount,
+                },
+            });
+        } catch (error) {
+            console.error(`[AlertEngine] Failed to send ${type} for listing ${listing.id}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Tell the buyer a carrier scanned their order as delivered, which
+     * starts the escrow hold. Never throws, like evaluateDeal.
+     */
+    async notifyDelivered(
+        userId: string,
+        order: { id: string; listingId: string; escrowReleaseDate: Date | null },
+        listingTitle: string,
+        message: string
+    ): Promise<boolean> {
+        try {
+            return await this.notify({
+                userId,
+                type: 'order_delivered',
+                title: `Delivered: ${listingTitle}`,
+                message,
+                dedupeKey: `order_delivered:${order.id}`,
+                data: {
+                    orderId: order.id,
+                    listingId: order.listingId,
+                    escrowReleaseDate: order.escrowReleaseDate,
+                },
+            });
+        } catch (error) {
+            console.error(`[AlertEngine] Failed to send order_delivered for order ${order.id}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Wishlist items whose alert threshold the deal now meets
+     */
+    private async matchWishlists(deal: Deal, marketplace: string): Promise<AlertCandidate[]> {
+        const items = await prisma.wishlistItem.findMany({
+            where: { dealId: deal.id, priceAlert: { gte: deal.currentPrice } },
+        });
+
+        return items.map(item => ({
+            userId: item.userId,
+            type: 'price_drop' as const,
+            dealId: deal.id,
+            title: `Price drop: ${deal.title}`,
+            message: `Now $${deal.currentPrice.toFixed(2)} at ${marketplace} ` +
+                `(your alert: $${item.priceAlert!.toFixed(2)}). ${deal.externalUrl}`,
+            dedupeKey: `price_drop:${deal.id}:${deal.currentPrice}`,
+            data: {
+                dealId: deal.id,
+                currentPrice: deal.currentPrice,
+                priceAlert: item.priceAlert,
+                url: deal.externalUrl,
+            },
+        }));
+    }
+
+    /**
+     * Active agent hunts the deal satisfies
+     */
+    private async matchHunts(deal: Deal): Promise<AlertCandidate[]> {
+        const hunts = await prisma.dealHunt.findMany({
+            where: {
+                status: 'hunting',
+                maxPrice: { gte: deal.currentPrice },
+                minDealScore: { lte: deal.dealScore ?? 0 },
+            },
+        });
+
+        return hunts
+            .filter(hunt => this.matchesHunt(hunt, deal))
+            .map(hunt => ({
+                userId: hunt.userId,
+                type: 'hunt_match' as const,
+                dealId: deal.id,
+                title: `Hunt match: ${hunt.query}`,
+                message: `${deal.title} is $${deal.currentPrice.toFixed(2)} ` +
+                    `(max $${hunt.maxPrice.toFixed(2)}, score ${deal.dealScore}). ${deal.externalUrl}`,
+                dedupeKey: `hunt_match:${hunt.id}:${deal.id}:${deal.currentPrice}`,
+                data: {
+                    huntId: hunt.id,
+                    dealId: deal.id,
+                    currentPrice: deal.currentPrice,
+                    dealScore: deal.dealScore,
+                    url: deal.externalUrl,
+                },
+            }));
+    }
+
+    private matchesHunt(hunt: DealHunt, deal: Deal): boolean {
+        const title = deal.title.toLowerCase();
+        const terms = hunt.query.toLowerCase().split(/\s+/).filter(t => t.length > 1);
+
+        if (!terms.every(term => title.includes(term))) return false;
+        if (hunt.category && hunt.category.toLowerCase() !== deal.category.toLowerCase()) return false;
+        if (hunt.brand && hunt.brand.toLowerCase() !== (deal.brand || '').toLowerCase()) return false;
+        if (hunt.targetDiscount && (deal.discountPercent ?? 0) < hunt.targetDiscount) return false;
+
+        return true;
+    }
+
+    /**
+     * Store and deliver one notification. Returns false for duplicates.
+     */
+    private async notify(candidate: AlertCandidate): Promise<boolean> {
+        const duplicate = await prisma.notification.findUnique({
+            where: { userId_dedupeKey: { userId: candidate.userId, dedupeKey: candidate.dedupeKey } },
+        });
+        if (duplicate) return false;
+
+        const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+        const recentCount = await prisma.notification.count({
+            where: { userId: candidate.userId, createdAt: { gte: hourAgo } },
+        });
+        const throttled = recentCount >= this.maxPerHour;
+
+        const notification = await prisma.notification.create({
+            data: {
+                userId: candidate.userId,
+                type: candidate.type,
+                dealId: candidate.dealId,
+                title: candidate.title,
+                message: candidate.message,
+                data: JSON.stringify(candidate.data),
+                dedupeKey: candidate.dedupeKey,
+            },
+        });
+
+        const payload: AlertPayload = {
+            notificationId: notification.id,
+            userId: notification.userId,
+            type: candidate.type,
+            title: notification.title,
+            message: notification.message,
+            dealId: candidate.dealId,
+            data: candidate.data,
+            createdAt: notification.createdAt,
+        };
+
+        const targets: { channel: string; target: string | null }[] = [{ channel: 'inbox', target: null }];
+        // Unverified channels wait for their URL check or email confirmation
+        const configured = await prisma.alertChannel.findMany({
+            where: { userId: candidate.userId, enabled: true, verifiedAt: { not: null } },
+        });
+        configured.forEach(c => targets.push({ channel: c.type, target: c.target }));
+
+        for (const { channel, target } of targets) {
+            await this.deliver(payload, channel, target, channel !== 'inbox' && throttled);
+        }
+
+        return true;
+    }
+
+    private async deliver(
+        payload: AlertPayload,
+        channelName: string,
+        target: string | null,
+        throttled: boolean
+    ): Promise<void> {
+        const channel = this.channels.get(channelName);
+        let status = 'sent';
+        let error: string | undefined;
+
+        if (throttled) {
+            status = 'throttled';
+        } else if (!channel) {
+            status = 'failed';
+            error = `Unknown channel: ${channelName}`;
+        } else {
+            try {
+                await channel.deliver(payload, target);
+            } catch (err) {
+                status = 'failed';
+                error = err instanceof Error ? err.message : 'Unknown error';
+                console.error(`[AlertEngine] ${channelName} delivery failed:`, error);
+            }
+        }
+
+        await prisma.notificationDelivery.create({
+            data: {
+                notificationId: payload.notificationId,
+                channel: channelName,
+                target,
+                status,
+                error,
+            },
+        });
+    }
+}
+
+// Singleton instance
+export const alertEngine = new AlertEngine();
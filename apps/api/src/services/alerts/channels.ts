@@ -0,0 +1,83 @@
+/**
+ * Alert Delivery Channels
+ *
+ * Pluggable transports for price alerts. Every notification lands in the
+ * in-app inbox; users can add a webhook and/or email channel on top.
+ */
+
+import { mailer } from '../mail';
+import { assertPublicWebhookUrl } from './targets';
+
+export interface AlertPayload {
+    notificationId: string;
+    userId: string;
+    type: 'price_drop' | 'hunt_match' | 'saved_search' | 'outbid' | 'auction_won' | 'auction_ended' | 'order_delivered';
+    title: string;
+    message: string;
+    dealId?: string;
+    data: Record<string, unknown>;
+    createdAt: Date;
+}
+
+export interface DeliveryChannel {
+    readonly name: string;
+    deliver(payload: AlertPayload, target: string | null): Promise<void>;
+}
+
+/**
+ * In-app inbox. The Notification row itself is the inbox entry,
+ * so delivery only has to be recorded.
+ */
+export class InboxChannel implements DeliveryChannel {
+    readonly name = 'inbox';
+
+    async deliver(): Promise<void> {
+        // Already persisted by the engine
+    }
+}
+
+/**
+ * POSTs the alert as JSON to a user-supplied URL. Redirects are not
+ * followed; they could lead to an address the URL check never saw.
+ */
+export class WebhookChannel implements DeliveryChannel {
+    readonly name = 'webhook';
+
+    constructor(private timeoutMs: number = 10000) { }
+
+    async deliver(payload: AlertPayload, target: string | null): Promise<void> {
+        if (!target) throw new Error('No webhook URL configured');
+
+        const url = await assertPublicWebhookUrl(target);
+        const response = await fetch(url, {
+            method: 'POST',
+            redirect: 'manual',
+            headers: { 'Content-Type': 'application/json', 'User-Agent': 'Verity-Alerts/1.0' },
+            body: JSON.stringify(payload),
+            signal: AbortSignal.timeout(this.timeoutMs),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Webhook responded ${response.status}`);
+        }
+    }
+}
+
+/**
+ * Emails the alert through the shared SMTP mailer. The engine only
+ * hands it addresses the user has confirmed (see ChannelService).
+ */
+export class SmtpChannel implements DeliveryChannel {
+    readonly name = 'email';
+
+    async deliver(payload: AlertPayload, target: string | null): Promise<void> {
+        if (!target) throw new Error('No email address configured');
+
+        await mailer.send({
+            to: target,
+            subject: payload.title,
+            text: payload.message,
+            date: payload.createdAt,
+        });
+    }
+}
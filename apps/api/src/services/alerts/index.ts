@@ -0,0 +1,23 @@
+/**
+ * Alert Services Index
+ *
+ * Exports the price alert engine, its delivery channels and the
+ * service that configures them.
+ */
+
+export { AlertEngine, alertEngine } from './alertEngine';
+export {
+    ChannelService,
+    channelService,
+    serializeAlertChannel,
+    type AlertChannelDTO,
+    type ChannelType,
+} from './ChannelService';
+export { ChannelTargetError, assertPublicWebhookUrl, isPublicAddress } from './targets';
+export {
+    InboxChannel,
+    WebhookChannel,
+    SmtpChannel,
+    type AlertPayload,
+    type DeliveryChannel,
+} from './channels';
@@ -0,0 +1,91 @@
+/**
+ * Channel Targets
+ *
+ * Checks for the addresses users point their channels at. Webhooks are
+ * fetched from the server, so a URL must be http(s) and every address
+ * its host resolves to must be public; otherwise a user could aim the
+ * server at localhost, the private network or a cloud metadata service.
+ * The host is resolved again before each delivery, since DNS can change
+ * after the channel was saved.
+ */
+
+import { lookup } from 'dns/promises';
+import net from 'net';
+
+export class ChannelTargetError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ChannelTargetError';
+    }
+}
+
+const BLOCKED = new net.BlockList();
+// IPv4: this network, private, carrier-grade NAT, loopback, link-local,
+// protocol assignments, benchmarking, multicast and reserved
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+    ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16],
+    ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+    BLOCKED.addSubnet(network, prefix, 'ipv4');
+}
+// IPv6: unspecified, loopback, unique local, link-local and multicast.
+// BlockList checks IPv4-mapped addresses (::ffff:127.0.0.1) against the
+// IPv4 ranges itself.
+for (const [network, prefix] of [
+    ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+    BLOCKED.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+    const family = net.isIPv4(address) ? 'ipv4' : net.isIPv6(address) ? 'ipv6' : null;
+    return family !== null && !BLOCKED.check(address, family);
+}
+
+/**
+ * Parse a webhook URL and make sure it only reaches public addresses.
+ * Throws ChannelTargetError otherwise.
+ */
+export async function assertPublicWebhookUrl(target: string): Promise<URL> {
+    let url: URL;
+    try {
+        url = new URL(target);
+    } catch {
+        throw new ChannelTargetError('Webhook must be a valid URL');
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new ChannelTargetError('Webhook must be an http or https URL');
+    }
+    if (url.username || url.password) {
+        throw new ChannelTargetError('Webhook URL must not contain credentials');
+    }
+
+    // IPv6 literals keep their brackets in hostname
+    const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: string[];
+    try {
+        addresses = net.isIP(host)
+            ? [host]
+            : (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+        throw new ChannelTargetError(`Webhook host ${url.hostname} could not be resolved`);
+    }
+
+    if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+        throw new ChannelTargetError('Webhook must point at a public address');
+    }
+    return url;
+}
+
+// Deliberately plain: one @, no whitespace or angle brackets (they would
+// break the SMTP headers), and a dotted domain
+const EMAIL = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+export function normalizeEmailTarget(target: string): string {
+    const email = target.trim().toLowerCase();
+    if (email.length > 254 || !EMAIL.test(email)) {
+        throw new ChannelTargetError('Email channel needs a valid email address');
+    }
+    return email;
+}
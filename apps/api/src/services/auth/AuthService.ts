@@ -0,0 +1,236 @@
+/**
+ * Auth Service
+ *
+ * Email + password and magic-link sign in, backed by the User,
+ * Session and MagicLinkToken tables.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { User } from '@prisma/client';
+import { hashPassword, verifyPassword } from './passwords';
+import { signToken, verifyToken, generateOpaqueToken, hashOpaqueToken } from './tokens';
+import { mailer } from '../mail';
+
+const prisma = new PrismaClient();
+
+const SESSION_TTL_DAYS = parseInt(process.env.SESSION_TTL_DAYS || '30');
+const MAGIC_LINK_TTL_MINUTES = 15;
+const MIN_PASSWORD_LENGTH = 8;
+
+export interface AuthUser {
+    id: string;
+    email: string | null;
+    name: string | null;
+    role: string;
+    sessionId: string;
+}
+
+export interface AuthResult {
+    token: string;
+    expiresAt: Date;
+    user: Omit<AuthUser, 'sessionId'>;
+}
+
+/**
+ * Expected auth failures, carrying the HTTP status to respond with
+ */
+export class AuthError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+export class AuthService {
+    async register(
+        input: { email: string; password: string; name?: string },
+        userAgent?: string
+    ): Promise<AuthResult> {
+        const email = this.normalizeEmail(input.email);
+        if (input.password.length < MIN_PASSWORD_LENGTH) {
+            throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+        }
+
+        // Magic-link-only accounts add a password while signed in (setPassword).
+        // The unique email decides, so two registrations at once can't both succeed.
+        let user: User;
+        try {
+            user = await prisma.user.create({
+                data: { email, passwordHash: await hashPassword(input.password), name: input.name },
+            });
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                throw new AuthError('An account with this email already exists', 409);
+            }
+            throw error;
+        }
+
+        return this.createSession(user, 'password', userAgent);
+    }
+
+    async login(input: { email: string; password: string }, userAgent?: string): Promise<AuthResult> {
+        const email = this.normalizeEmail(input.email);
+        const user = await prisma.user.findUnique({ where: { email } });
+
+        if (!user?.passwordHash || !(await verifyPassword(input.password, user.passwordHash))) {
+            throw new AuthError('Invalid email or password', 401);
+        }
+
+        return this.createSession(user, 'password', userAgent);
+    }
+
+    /**
+     * Email a one-time sign-in link. Returns the link only when
+     * AUTH_DEV_LINKS=true, so local development works without a mail server.
+     */
+    async requestMagicLink(rawEmail: string): Promise<string | null> {
+        const email = this.normalizeEmail(rawEmail);
+        const token = generateOpaqueToken();
+
+        await prisma.magicLinkToken.create({
+            data: {
+                email,
+                tokenHash: hashOpaqueToken(token),
+                expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000),
+            },
+        });
+
+        const appUrl = process.env.APP_URL || 'http://localhost:5173';
+        const link = `${appUrl}/?magicToken=${encodeURIComponent(token)}`;
+
+        try {
+            await mailer.send({
+                to: email,
+                subject: 'Your Tadow sign-in link',
+                text: `Sign in to Tadow:\n\n${link}\n\nThis link expires in ${MAGIC_LINK_TTL_MINUTES} minutes.`,
+            });
+        } catch (error) {
+            console.error('[Auth] Failed to send magic link:', error);
+        }
+
+        if (process.env.AUTH_DEV_LINKS !== 'true') return null;
+
+        console.log(`[Auth] Magic link for ${email}: ${link}`);
+        return link;
+    }
+
+    /**
+     * Exchange a magic-link token for a session, creating the user on first
+     * sign in. The first link to an account proves who owns the address;
+     * an account registered with a password before that may have been
+     * registered by someone else, so its password and sessions are dropped.
+     */
+    async verifyMagicLink(token: string, userAgent?: string): Promise<AuthResult> {
+        const tokenHash = hashOpaqueToken(token);
+        const now = new Date();
+
+        // Consume in one statement so two requests can't both redeem the link
+        const consumed = await prisma.magicLinkToken.updateMany({
+            where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+            data: { usedAt: now },
+        });
+        if (consumed.count !== 1) {
+            throw new AuthError('Invalid or expired sign-in link', 401);
+        }
+
+        const record = await prisma.magicLinkToken.findUniqueOrThrow({ where: { tokenHash } });
+
+        const user = await prisma.$transaction(async tx => {
+            const existing = await tx.user.findUnique({ where: { email: record.email } });
+            if (!existing) {
+                return tx.user.create({ data: { email: record.email, emailVerifiedAt: now } });
+            }
+            if (existing.emailVerifiedAt) return existing;
+
+            await tx.session.updateMany({
+                where: { userId: existing.id, revokedAt: null },
+                data: { revokedAt: now },
+            });
+            return tx.user.update({
+                where: { id: existing.id },
+                data: { emailVerifiedAt: now, passwordHash: null },
+            });
+        });
+
+        return this.createSession(user, 'magic_link', userAgent);
+    }
+
+    /**
+     * Set or change the signed-in user's password. Changing an existing
+     * password requires the current one.
+     */
+    async setPassword(userId: string, input: { password: string; currentPassword?: string }): Promise<void> {
+        if (input.password.length < MIN_PASSWORD_LENGTH) {
+            throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+        }
+
+        const user = await prisma.user.findUnique({ where: { id: userId } });
+        if (!user) {
+            throw new AuthError('User not found', 404);
+        }
+        if (user.passwordHash && !(input.currentPassword && await verifyPassword(input.currentPassword, user.passwordHash))) {
+            throw new AuthError('Current password is incorrect', 401);
+        }
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: { passwordHash: await hashPassword(input.password) },
+        });
+    }
+
+    /**
+     * Resolve a bearer token to its user, or null if invalid, expired or revoked
+     */
+    async authenticate(token: string): Promise<AuthUser | null> {
+        const claims = verifyToken(token);
+        if (!claims) return null;
+
+        const session = await prisma.session.findUnique({
+            where: { id: claims.sid },
+            include: { user: true },
+        });
+
+        if (!session || session.revokedAt || session.expiresAt < new Date() || session.userId !== claims.sub) {
+            return null;
+        }
+
+        return {
+            id: session.user.id,
+            email: session.user.email,
+            name: session.user.name,
+            role: session.user.role,
+            sessionId: session.id,
+        };
+    }
+
+    async logout(sessionId: string): Promise<void> {
+        await prisma.session.updateMany({
+            where: { id: sessionId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+    }
+
+    private async createSession(user: User, method: string, userAgent?: string): Promise<AuthResult> {
+        const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+        const session = await prisma.session.create({
+            data: { userId: user.id, method, userAgent, expiresAt },
+        });
+
+        return {
+            token: signToken(user.id, session.id, expiresAt),
+            expiresAt,
+            user: { id: user.id, email: user.email, name: user.name, role: user.role },
+        };
+    }
+
+    private normalizeEmail(email: string): string {
+        const normalized = (email || '').trim().toLowerCase();
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) {
+            throw new AuthError('A valid email is required');
+        }
+        return normalized;
+    }
+}
+
+// Singleton instance
+export const authService = new AuthService();
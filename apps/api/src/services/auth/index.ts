@@ -0,0 +1,16 @@
+/**
+ * Auth Services Index
+ *
+ * Exports authentication, password hashing and token helpers.
+ */
+
+export { AuthService, authService, AuthError, type AuthUser, type AuthResult } from './AuthService';
+export { hashPassword, verifyPassword } from './passwords';
+export {
+    signToken,
+    verifyToken,
+    assertTokenSecret,
+    generateOpaqueToken,
+    hashOpaqueToken,
+    type TokenClaims,
+} from './tokens';
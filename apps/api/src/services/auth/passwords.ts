@@ -0,0 +1,35 @@
+/**
+ * Password Hashing
+ *
+ * scrypt with a per-user salt, stored as "scrypt$<N>$<salt>$<hash>".
+ */
+
+import { scrypt, randomBytes, timingSafeEqual } from 'crypto';
+
+const COST = 16384;
+const KEY_LENGTH = 64;
+
+function derive(password: string, salt: Buffer, cost: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, KEY_LENGTH, { N: cost }, (err, key) => {
+            if (err) reject(err);
+            else resolve(key);
+        });
+    });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await derive(password, salt, COST);
+    return `scrypt$${COST}$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, cost, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !cost || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await derive(password, Buffer.from(salt, 'base64'), parseInt(cost));
+
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,80 @@
+/**
+ * Session Tokens
+ *
+ * HS256 JWTs signed with JWT_SECRET. Each token carries the session ID,
+ * so revoking the Session row invalidates the token.
+ */
+
+import { createHmac, createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+export interface TokenClaims {
+    sub: string;    // User ID
+    sid: string;    // Session ID
+    iat: number;
+    exp: number;
+}
+
+function getSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('JWT_SECRET must be set');
+    }
+    return secret;
+}
+
+/**
+ * Fail fast at startup rather than on the first sign in
+ */
+export function assertTokenSecret(): void {
+    getSecret();
+}
+
+function sign(input: string): string {
+    return createHmac('sha256', getSecret()).update(input).digest('base64url');
+}
+
+export function signToken(userId: string, sessionId: string, expiresAt: Date): string {
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+    const claims: TokenClaims = {
+        sub: userId,
+        sid: sessionId,
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(expiresAt.getTime() / 1000),
+    };
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+
+    return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+}
+
+/**
+ * Verify signature and expiry; returns null for anything invalid
+ */
+export function verifyToken(token: string): TokenClaims | null {
+    const [header, payload, signature] = token.split('.');
+    if (!header || !payload || !signature) return null;
+
+    const expected = Buffer.from(sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return null;
+    }
+
+    try {
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as TokenClaims;
+        if (!claims.sub || !claims.sid || claims.exp * 1000 < Date.now()) return null;
+        return claims;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Random URL-safe token for magic links
+ */
+export function generateOpaqueToken(): string {
+    return randomBytes(32).toString('base64url');
+}
+
+export function hashOpaqueToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
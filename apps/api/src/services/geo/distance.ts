@@ -0,0 +1,54 @@
+/**
+ * Great-circle distance and bounding boxes
+ */
+
+export interface GeoPoint {
+    lat: number;
+    lng: number;
+}
+
+export interface BoundingBox {
+    minLat: number;
+    maxLat: number;
+    minLng: number;
+    maxLng: number;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+const MILES_PER_DEGREE_LAT = 69.0;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Haversine distance between two points, in miles
+ */
+export function haversineMiles(a: GeoPoint, b: GeoPoint): number {
+    const dLat = toRadians(b.lat - a.lat);
+    const dLng = toRadians(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Box that contains every point within radiusMiles of center. Used as an
+ * indexed pre-filter; callers still check the exact distance.
+ */
+export function boundingBox(center: GeoPoint, radiusMiles: number): BoundingBox {
+    const latDelta = radiusMiles / MILES_PER_DEGREE_LAT;
+    // Longitude degrees shrink toward the poles; near them, take every longitude
+    const cosLat = Math.cos(toRadians(center.lat));
+    const lngDelta = cosLat > 0.01 ? radiusMiles / (MILES_PER_DEGREE_LAT * cosLat) : 180;
+
+    return {
+        minLat: Math.max(-90, center.lat - latDelta),
+        maxLat: Math.min(90, center.lat + latDelta),
+        minLng: Math.max(-180, center.lng - lngDelta),
+        maxLng: Math.min(180, center.lng + lngDelta),
+    };
+}
+
+// Distances are reported to a tenth of a mile
+export function roundMiles(miles: number): number {
+    return Math.round(miles * 10) / 10;
+}
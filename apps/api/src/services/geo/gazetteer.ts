@@ -0,0 +1,178 @@
+/**
+ * Gazetteer
+ * Offline geocoding: ZIP codes and city/state pairs to coordinates, and
+ * coordinates back to the nearest known city. Starts from the built-in
+ * place list; a full ZIP centroid file can be loaded on top of it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { PLACES, STATE_CODES, type Place } from './places';
+import { haversineMiles, type GeoPoint } from './distance';
+
+export interface LocationInput {
+    city?: string | null;
+    state?: string | null;
+    zipCode?: string | null;
+}
+
+export interface GeocodeResult extends GeoPoint {
+    city: string;
+    state: string;
+    zipCode?: string;
+    precision: 'zip' | 'zip3' | 'city';     // How closely the point matches the input
+}
+
+// One row of a ZIP centroid file
+interface ZipEntry extends GeoPoint {
+    zip: string;
+    city: string;
+    state: string;
+}
+
+// "St. Louis", "saint louis" and "ST LOUIS" are the same city
+function cityKey(city: string): string {
+    return city
+        .toLowerCase()
+        .replace(/\bsaint\b/g, 'st')
+        .replace(/[^a-z0-9 ]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * USPS code for a state given as a code or a full name
+ */
+export function normalizeState(state?: string | null): string | undefined {
+    const value = state?.trim();
+    if (!value) return undefined;
+    if (/^[a-z]{2}$/i.test(value)) return value.toUpperCase();
+    return STATE_CODES[value.toLowerCase()];
+}
+
+// First five digits of a US ZIP or ZIP+4
+function normalizeZip(zip?: string | null): string | undefined {
+    const match = zip?.trim().match(/^(\d{5})(?:-\d{4})?$/);
+    return match?.[1];
+}
+
+export class Gazetteer {
+    private places: Place[] = [];
+    private byZip3: Map<string, Place> = new Map();
+    private byCity: Map<string, Place[]> = new Map();
+    private byZip: Map<string, ZipEntry> = new Map();
+
+    constructor(places: Place[] = PLACES) {
+        places.forEach(place => this.addPlace(place));
+    }
+
+    private addPlace(place: Place): void {
+        this.places.push(place);
+        place.zip3.forEach(prefix => this.byZip3.set(prefix, place));
+        const key = cityKey(place.name);
+        this.byCity.set(key, [...(this.byCity.get(key) || []), place]);
+    }
+
+    /**
+     * Load ZIP centroids from a JSON array of { zip, city, state, lat, lng }
+     * (e.g. converted from the Census ZCTA gazetteer). Their cities become
+     * lookups too. Returns the number of ZIPs loaded.
+     */
+    loadZipFile(file: string = process.env.GEO_ZIP_FILE || path.resolve('config/geo/zips.json')): number {
+        if (!fs.existsSync(file)) return 0;
+
+        try {
+            const rows = JSON.parse(fs.readFileSync(file, 'utf8')) as Partial<ZipEntry>[];
+            let loaded = 0;
+
+            for (const row of rows) {
+                const zip = normalizeZip(row.zip);
+                const state = normalizeState(row.state);
+                if (!zip || !state || !row.city || typeof row.lat !== 'number' || typeof row.lng !== 'number') continue;
+
+                const entry = { zip, city: row.city, state, lat: row.lat, lng: row.lng };
+                this.byZip.set(zip, entry);
+                if (!this.lookupCity(entry.city, state)) {
+                    this.addPlace({ name: entry.city, state, lat: entry.lat, lng: entry.lng, zip3: [] });
+                }
+                loaded++;
+            }
+
+            console.log(`[Gazetteer] Loaded ${loaded} ZIP codes from ${file}`);
+            return loaded;
+        } catch (error) {
+            console.error(`[Gazetteer] Failed to load ${file}: ${(error as Error).message}`);
+            return 0;
+        }
+    }
+
+    /**
+     * Coordinates for a ZIP: its own centroid when loaded, else the city
+     * its 3-digit prefix serves
+     */
+    lookupZip(zipCode: string): GeocodeResult | null {
+        const zip = normalizeZip(zipCode);
+        if (!zip) return null;
+
+        const entry = this.byZip.get(zip);
+        if (entry) {
+            return { lat: entry.lat, lng: entry.lng, city: entry.city, state: entry.state, zipCode: zip, precision: 'zip' };
+        }
+
+        const place = this.byZip3.get(zip.slice(0, 3));
+        return place ? { ...this.toResult(place, 'zip3'), zipCode: zip } : null;
+    }
+
+    /**
+     * A known city; without a state, only when the name is unambiguous
+     */
+    lookupCity(city: string, state?: string | null): Place | null {
+        const matches = this.byCity.get(cityKey(city)) || [];
+        const code = normalizeState(state);
+        if (code) return matches.find(place => place.state === code) || null;
+        return matches.length === 1 ? matches[0] : null;
+    }
+
+    /**
+     * Geocode a deal or listing location, trying the ZIP first
+     */
+    geocode(location: LocationInput): GeocodeResult | null {
+        if (location.zipCode) {
+            const byZip = this.lookupZip(location.zipCode);
+            if (byZip) return byZip;
+        }
+        if (location.city) {
+            const place = this.lookupCity(location.city, location.state);
+            if (place) return this.toResult(place, 'city');
+        }
+        return null;
+    }
+
+    /**
+     * latitude/longitude columns for a stored location; null when it
+     * can't be placed, so a changed location never keeps stale coordinates
+     */
+    coordinatesFor(location: LocationInput): { latitude: number | null; longitude: number | null } {
+        const result = this.geocode(location);
+        return { latitude: result?.lat ?? null, longitude: result?.lng ?? null };
+    }
+
+    /**
+     * Nearest known city to a point, e.g. to label browser coordinates
+     */
+    nearest(point: GeoPoint): (Place & { distanceMiles: number }) | null {
+        let best: (Place & { distanceMiles: number }) | null = null;
+        for (const place of this.places) {
+            const distanceMiles = haversineMiles(point, place);
+            if (!best || distanceMiles < best.distanceMiles) best = { ...place, distanceMiles };
+        }
+        return best;
+    }
+
+    private toResult(place: Place, precision: GeocodeResult['precision']): GeocodeResult {
+        return { lat: place.lat, lng: place.lng, city: place.name, state: place.state, precision };
+    }
+}
+
+// Singleton instance; the ZIP file (if any) is loaded at startup
+export const gazetteer = new Gazetteer();
@@ -0,0 +1,10 @@
+/**
+ * Geo Services
+ * Offline gazetteer, great-circle distance and radius search over stored
+ * deals and listings
+ */
+
+export { Gazetteer, gazetteer, normalizeState, type GeocodeResult, type LocationInput } from './gazetteer';
+export { haversineMiles, boundingBox, roundMiles, type GeoPoint, type BoundingBox } from './distance';
+export { LocalSearchService, localSearch, type LocalSearchParams, type LocalSort } from './localSearch';
+export type { Place } from './places';
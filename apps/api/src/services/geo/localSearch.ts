@@ -0,0 +1,210 @@
+/**
+ * Local Search Service
+ * Stored deals and P2P listings within a radius of a point. An indexed
+ * bounding-box query reads the position, price and date of every row in
+ * the box; haversine distance drops the corners outside the radius and
+ * the requested order picks the page. Only that page is loaded in full,
+ * so a dense area can't push the nearest rows out of a capped read.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { serializeListing } from '../p2p/ListingService';
+import { gazetteer } from './gazetteer';
+import { boundingBox, haversineMiles, roundMiles, type GeoPoint } from './distance';
+
+const prisma = new PrismaClient();
+
+const BACKFILL_BATCH = 200;
+
+export type LocalSort = 'distance' | 'price-low' | 'price-high' | 'recent';
+
+export interface LocalSearchParams {
+    center: GeoPoint;
+    radiusMiles: number;
+    type?: 'all' | 'deals' | 'listings';
+    category?: string;
+    q?: string;
+    sort?: LocalSort;
+    limit?: number;
+}
+
+// The columns a candidate is ranked by, shared by deals and listings
+interface Candidate {
+    id: string;
+    latitude: number | null;
+    longitude: number | null;
+    price: number;
+    postedAt: Date;
+}
+
+interface Ranked extends Candidate {
+    distanceMiles: number;
+}
+
+function compare(sort: LocalSort) {
+    return (a: Ranked, b: Ranked) => {
+        switch (sort) {
+            case 'price-low': return a.price - b.price || a.distanceMiles - b.distanceMiles;
+            case 'price-high': return b.price - a.price || a.distanceMiles - b.distanceMiles;
+            case 'recent': return b.postedAt.getTime() - a.postedAt.getTime();
+            default: return a.distanceMiles - b.distanceMiles;
+        }
+    };
+}
+
+// Exact distance for candidates inside the box, dropping the corners outside the radius, then the page in order
+function rank(candidates: Candidate[], center: GeoPoint, radiusMiles: number, sort: LocalSort, limit: number): Ranked[] {
+    return candidates
+        .flatMap(candidate => {
+            if (candidate.latitude === null || candidate.longitude === null) return [];
+            const distanceMiles = haversineMiles(center, { lat: candidate.latitude, lng: candidate.longitude });
+            return distanceMiles <= radiusMiles ? [{ ...candidate, distanceMiles: roundMiles(distanceMiles) }] : [];
+        })
+        .sort(compare(sort))
+        .slice(0, limit);
+}
+
+// Full rows for a ranked page, in the page's order
+function inPageOrder<T extends { id: string }>(page: Ranked[], rows: T[]): (T & { distanceMiles: number })[] {
+    const byId = new Map(rows.map(row => [row.id, row]));
+    return page.flatMap(({ id, distanceMiles }) => {
+        const row = byId.get(id);
+        return row ? [{ ...row, distanceMiles }] : [];
+    });
+}
+
+export class LocalSearchService {
+    async search(params: LocalSearchParams) {
+        const { center, radiusMiles, type = 'all', sort = 'distance', limit = 30 } = params;
+        const box = boundingBox(center, radiusMiles);
+        const inBox = {
+            latitude: { gte: box.minLat, lte: box.maxLat },
+            longitude: { gte: box.minLng, lte: box.maxLng },
+        };
+
+        const [dealCandidates, listingCandidates] = await Promise.all([
+            type === 'listings' ? [] : this.dealCandidates(inBox, params),
+            type === 'deals' ? [] : this.listingCandidates(inBox, params),
+        ]);
+        const dealPage = rank(dealCandidates, center, radiusMiles, sort, limit);
+        const listingPage = rank(listingCandidates, center, radiusMiles, sort, limit);
+
+        const [deals, listings] = await Promise.all([
+            dealPage.length === 0 ? [] : prisma.deal.findMany({
+                where: { id: { in: dealPage.map(deal => deal.id) } },
+                include: { marketplace: true },
+            }),
+            listingPage.length === 0 ? [] : prisma.listing.findMany({
+                where: { id: { in: listingPage.map(listing => listing.id) } },
+            }),
+        ]);
+
+        return {
+            center,
+            radiusMiles,
+            deals: inPageOrder(dealPage, deals),
+            listings: inPageOrder(listingPage, listings)
+                .map(listing => ({ ...serializeListing(listing), distanceMiles: listing.distanceMiles })),
+        };
+    }
+
+    private async dealCandidates(inBox: Prisma.DealWhereInput, params: LocalSearchParams): Promise<Candidate[]> {
+        const deals = await prisma.deal.findMany({
+            where: {
+                ...inBox,
+                isExpired: false,
+                ...(params.category ? { category: params.category } : {}),
+                ...(params.q ? {
+                    OR: [
+                        { title: { contains: params.q } },
+                        { brand: { contains: params.q } },
+                    ],
+                } : {}),
+            },
+            select: { id: true, latitude: true, longitude: true, currentPrice: true, postedAt: true, createdAt: true },
+        });
+        return deals.map(deal => ({
+            id: deal.id,
+            latitude: deal.latitude,
+            longitude: deal.longitude,
+            price: deal.currentPrice,
+            postedAt: deal.postedAt || deal.createdAt,
+        }));
+    }
+
+    private async listingCandidates(inBox: Prisma.ListingWhereInput, params: LocalSearchParams): Promise<Candidate[]> {
+        const listings = await prisma.listing.findMany({
+            where: {
+                ...inBox,
+                status: 'active',
+                ...(params.category ? { category: params.category } : {}),
+                ...(params.q ? {
+                    OR: [
+                        { title: { contains: params.q } },
+                        { description: { contains: params.q } },
+                        { brand: { contains: params.q } },
+                    ],
+                } : {}),
+            },
+            select: { id: true, latitude: true, longitude: true, price: true, createdAt: true },
+        });
+        return listings.map(listing => ({
+            id: listing.id,
+            latitude: listing.latitude,
+            longitude: listing.longitude,
+            price: listing.price,
+            postedAt: listing.createdAt,
+        }));
+    }
+
+    /**
+     * Geocode deals and listings stored before they had coordinates (or
+     * before a ZIP file was loaded). Rows that can't be placed keep null.
+     */
+    async geocodeMissing(): Promise<{ deals: number; listings: number }> {
+        const where = (cursor?: string) => ({
+            latitude: null,
+            OR: [{ city: { not: null } }, { zipCode: { not: null } }],
+            ...(cursor ? { id: { gt: cursor } } : {}),
+        });
+        const page = { select: { id: true, city: true, state: true, zipCode: true }, orderBy: { id: 'asc' as const }, take: BACKFILL_BATCH };
+
+        const deals = await this.backfill(
+            cursor => prisma.deal.findMany({ where: where(cursor), ...page }),
+            (id, data) => prisma.deal.update({ where: { id }, data })
+        );
+        const listings = await this.backfill(
+            cursor => prisma.listing.findMany({ where: where(cursor), ...page }),
+            (id, data) => prisma.listing.update({ where: { id }, data })
+        );
+
+        if (deals + listings > 0) {
+            console.log(`[LocalSearch] Geocoded ${deals} deal(s) and ${listings} listing(s)`);
+        }
+        return { deals, listings };
+    }
+
+    // Unplaceable rows stay null, so page by id rather than re-querying from the start
+    private async backfill(
+        findBatch: (cursor?: string) => Promise<{ id: string; city: string | null; state: string | null; zipCode: string | null }[]>,
+        update: (id: string, data: { latitude: number; longitude: number }) => Promise<unknown>
+    ): Promise<number> {
+        let updated = 0;
+        let cursor: string | undefined;
+
+        for (; ;) {
+            const batch = await findBatch(cursor);
+            for (const row of batch) {
+                const result = gazetteer.geocode(row);
+                if (!result) continue;
+                await update(row.id, { latitude: result.lat, longitude: result.lng });
+                updated++;
+            }
+            if (batch.length < BACKFILL_BATCH) return updated;
+            cursor = batch[batch.length - 1].id;
+        }
+    }
+}
+
+// Singleton instance
+export const localSearch = new LocalSearchService();
@@ -0,0 +1,152 @@
+/**
+ * Built-in Gazetteer Data
+ * US cities with their center coordinates and the 3-digit ZIP prefixes
+ * (sectional centers) they serve. Accurate to a metro area, which is what
+ * radius search needs; load a full ZIP file (GEO_ZIP_FILE) for street-level
+ * ZIP centroids.
+ */
+
+export interface Place {
+    name: string;
+    state: string;              // USPS code
+    lat: number;
+    lng: number;
+    zip3: string[];
+}
+
+export const PLACES: Place[] = [
+    // Northeast
+    { name: 'New York', state: 'NY', lat: 40.7128, lng: -74.0060, zip3: ['100', '101', '102'] },
+    { name: 'Brooklyn', state: 'NY', lat: 40.6782, lng: -73.9442, zip3: ['112'] },
+    { name: 'Bronx', state: 'NY', lat: 40.8448, lng: -73.8648, zip3: ['104'] },
+    { name: 'Queens', state: 'NY', lat: 40.7282, lng: -73.7949, zip3: ['110', '111', '113', '114', '116'] },
+    { name: 'Staten Island', state: 'NY', lat: 40.5795, lng: -74.1502, zip3: ['103'] },
+    { name: 'Buffalo', state: 'NY', lat: 42.8864, lng: -78.8784, zip3: ['140', '141', '142'] },
+    { name: 'Rochester', state: 'NY', lat: 43.1566, lng: -77.6088, zip3: ['144', '145', '146'] },
+    { name: 'Syracuse', state: 'NY', lat: 43.0481, lng: -76.1474, zip3: ['130', '131', '132'] },
+    { name: 'Albany', state: 'NY', lat: 42.6526, lng: -73.7562, zip3: ['120', '121', '122'] },
+    { name: 'Newark', state: 'NJ', lat: 40.7357, lng: -74.1724, zip3: ['070', '071'] },
+    { name: 'Jersey City', state: 'NJ', lat: 40.7178, lng: -74.0431, zip3: ['073'] },
+    { name: 'Trenton', state: 'NJ', lat: 40.2206, lng: -74.7597, zip3: ['085', '086'] },
+    { name: 'Philadelphia', state: 'PA', lat: 39.9526, lng: -75.1652, zip3: ['190', '191'] },
+    { name: 'Pittsburgh', state: 'PA', lat: 40.4406, lng: -79.9959, zip3: ['150', '151', '152'] },
+    { name: 'Boston', state: 'MA', lat: 42.3601, lng: -71.0589, zip3: ['021', '022'] },
+    { name: 'Worcester', state: 'MA', lat: 42.2626, lng: -71.8023, zip3: ['015', '016'] },
+    { name: 'Springfield', state: 'MA', lat: 42.1015, lng: -72.5898, zip3: ['010', '011'] },
+    { name: 'Providence', state: 'RI', lat: 41.8240, lng: -71.4128, zip3: ['028', '029'] },
+    { name: 'Hartford', state: 'CT', lat: 41.7658, lng: -72.6734, zip3: ['060', '061'] },
+    { name: 'New Haven', state: 'CT', lat: 41.3083, lng: -72.9279, zip3: ['064', '065'] },
+    { name: 'Manchester', state: 'NH', lat: 42.9956, lng: -71.4548, zip3: ['030', '031'] },
+    { name: 'Portland', state: 'ME', lat: 43.6591, lng: -70.2568, zip3: ['040', '041'] },
+    { name: 'Burlington', state: 'VT', lat: 44.4759, lng: -73.2121, zip3: ['054'] },
+
+    // Mid-Atlantic & South
+    { name: 'Wilmington', state: 'DE', lat: 39.7391, lng: -75.5398, zip3: ['197', '198'] },
+    { name: 'Baltimore', state: 'MD', lat: 39.2904, lng: -76.6122, zip3: ['210', '211', '212'] },
+    { name: 'Washington', state: 'DC', lat: 38.9072, lng: -77.0369, zip3: ['200', '202', '203', '204', '205'] },
+    { name: 'Arlington', state: 'VA', lat: 38.8816, lng: -77.0910, zip3: ['222'] },
+    { name: 'Richmond', state: 'VA', lat: 37.5407, lng: -77.4360, zip3: ['230', '231', '232'] },
+    { name: 'Norfolk', state: 'VA', lat: 36.8508, lng: -76.2859, zip3: ['233', '234', '235'] },
+    { name: 'Charleston', state: 'WV', lat: 38.3498, lng: -81.6326, zip3: ['250', '251', '253'] },
+    { name: 'Charlotte', state: 'NC', lat: 35.2271, lng: -80.8431, zip3: ['280', '281', '282'] },
+    { name: 'Raleigh', state: 'NC', lat: 35.7796, lng: -78.6382, zip3: ['275', '276'] },
+    { name: 'Greensboro', state: 'NC', lat: 36.0726, lng: -79.7920, zip3: ['270', '274'] },
+    { name: 'Charleston', state: 'SC', lat: 32.7765, lng: -79.9311, zip3: ['294'] },
+    { name: 'Columbia', state: 'SC', lat: 34.0007, lng: -81.0348, zip3: ['290', '291', '292'] },
+    { name: 'Atlanta', state: 'GA', lat: 33.7490, lng: -84.3880, zip3: ['300', '301', '303'] },
+    { name: 'Miami', state: 'FL', lat: 25.7617, lng: -80.1918, zip3: ['330', '331', '332'] },
+    { name: 'Fort Lauderdale', state: 'FL', lat: 26.1224, lng: -80.1373, zip3: ['333'] },
+    { name: 'West Palm Beach', state: 'FL', lat: 26.7153, lng: -80.0534, zip3: ['334'] },
+    { name: 'Tampa', state: 'FL', lat: 27.9506, lng: -82.4572, zip3: ['335', '336'] },
+    { name: 'St. Petersburg', state: 'FL', lat: 27.7676, lng: -82.6403, zip3: ['337'] },
+    { name: 'Orlando', state: 'FL', lat: 28.5383, lng: -81.3792, zip3: ['327', '328'] },
+    { name: 'Jacksonville', state: 'FL', lat: 30.3322, lng: -81.6557, zip3: ['320', '322'] },
+    { name: 'Tallahassee', state: 'FL', lat: 30.4383, lng: -84.2807, zip3: ['323'] },
+    { name: 'Birmingham', state: 'AL', lat: 33.5186, lng: -86.8104, zip3: ['350', '351', '352'] },
+    { name: 'Jackson', state: 'MS', lat: 32.2988, lng: -90.1848, zip3: ['390', '391', '392'] },
+    { name: 'Nashville', state: 'TN', lat: 36.1627, lng: -86.7816, zip3: ['370', '371', '372'] },
+    { name: 'Memphis', state: 'TN', lat: 35.1495, lng: -90.0490, zip3: ['375', '380', '381'] },
+    { name: 'Knoxville', state: 'TN', lat: 35.9606, lng: -83.9207, zip3: ['377', '378', '379'] },
+    { name: 'Louisville', state: 'KY', lat: 38.2527, lng: -85.7585, zip3: ['400', '401', '402'] },
+    { name: 'Lexington', state: 'KY', lat: 38.0406, lng: -84.5037, zip3: ['403', '404', '405'] },
+    { name: 'New Orleans', state: 'LA', lat: 29.9511, lng: -90.0715, zip3: ['700', '701'] },
+    { name: 'Baton Rouge', state: 'LA', lat: 30.4515, lng: -91.1871, zip3: ['707', '708'] },
+    { name: 'Little Rock', state: 'AR', lat: 34.7465, lng: -92.2896, zip3: ['720', '721', '722'] },
+
+    // Midwest
+    { name: 'Chicago', state: 'IL', lat: 41.8781, lng: -87.6298, zip3: ['600', '601', '606', '607', '608'] },
+    { name: 'Detroit', state: 'MI', lat: 42.3314, lng: -83.0458, zip3: ['480', '481', '482'] },
+    { name: 'Grand Rapids', state: 'MI', lat: 42.9634, lng: -85.6681, zip3: ['493', '494', '495'] },
+    { name: 'Columbus', state: 'OH', lat: 39.9612, lng: -82.9988, zip3: ['430', '431', '432'] },
+    { name: 'Cleveland', state: 'OH', lat: 41.4993, lng: -81.6944, zip3: ['440', '441'] },
+    { name: 'Cincinnati', state: 'OH', lat: 39.1031, lng: -84.5120, zip3: ['450', '451', '452'] },
+    { name: 'Indianapolis', state: 'IN', lat: 39.7684, lng: -86.1581, zip3: ['460', '461', '462'] },
+    { name: 'Milwaukee', state: 'WI', lat: 43.0389, lng: -87.9065, zip3: ['530', '531', '532'] },
+    { name: 'Madison', state: 'WI', lat: 43.0731, lng: -89.4012, zip3: ['535', '537'] },
+    { name: 'Minneapolis', state: 'MN', lat: 44.9778, lng: -93.2650, zip3: ['553', '554', '555'] },
+    { name: 'St. Paul', state: 'MN', lat: 44.9537, lng: -93.0900, zip3: ['550', '551'] },
+    { name: 'Des Moines', state: 'IA', lat: 41.5868, lng: -93.6250, zip3: ['500', '501', '503'] },
+    { name: 'St. Louis', state: 'MO', lat: 38.6270, lng: -90.1994, zip3: ['630', '631'] },
+    { name: 'Kansas City', state: 'MO', lat: 39.0997, lng: -94.5786, zip3: ['640', '641'] },
+    { name: 'Wichita', state: 'KS', lat: 37.6872, lng: -97.3301, zip3: ['670', '671', '672'] },
+    { name: 'Omaha', state: 'NE', lat: 41.2565, lng: -95.9345, zip3: ['680', '681'] },
+    { name: 'Sioux Falls', state: 'SD', lat: 43.5446, lng: -96.7311, zip3: ['570', '571'] },
+    { name: 'Fargo', state: 'ND', lat: 46.8772, lng: -96.7898, zip3: ['580', '581'] },
+
+    // Southwest & Texas
+    { name: 'Houston', state: 'TX', lat: 29.7604, lng: -95.3698, zip3: ['770', '772', '773', '774', '775'] },
+    { name: 'Dallas', state: 'TX', lat: 32.7767, lng: -96.7970, zip3: ['750', '751', '752', '753'] },
+    { name: 'Fort Worth', state: 'TX', lat: 32.7555, lng: -97.3308, zip3: ['760', '761'] },
+    { name: 'Austin', state: 'TX', lat: 30.2672, lng: -97.7431, zip3: ['786', '787'] },
+    { name: 'San Antonio', state: 'TX', lat: 29.4241, lng: -98.4936, zip3: ['780', '781', '782'] },
+    { name: 'El Paso', state: 'TX', lat: 31.7619, lng: -106.4850, zip3: ['798', '799'] },
+    { name: 'Oklahoma City', state: 'OK', lat: 35.4676, lng: -97.5164, zip3: ['730', '731'] },
+    { name: 'Tulsa', state: 'OK', lat: 36.1540, lng: -95.9928, zip3: ['740', '741'] },
+    { name: 'Albuquerque', state: 'NM', lat: 35.0844, lng: -106.6504, zip3: ['870', '871'] },
+    { name: 'Phoenix', state: 'AZ', lat: 33.4484, lng: -112.0740, zip3: ['850', '852', '853'] },
+    { name: 'Tucson', state: 'AZ', lat: 32.2226, lng: -110.9747, zip3: ['856', '857'] },
+
+    // Mountain & West
+    { name: 'Denver', state: 'CO', lat: 39.7392, lng: -104.9903, zip3: ['800', '801', '802'] },
+    { name: 'Boulder', state: 'CO', lat: 40.0150, lng: -105.2705, zip3: ['803'] },
+    { name: 'Colorado Springs', state: 'CO', lat: 38.8339, lng: -104.8214, zip3: ['808', '809'] },
+    { name: 'Cheyenne', state: 'WY', lat: 41.1400, lng: -104.8202, zip3: ['820'] },
+    { name: 'Billings', state: 'MT', lat: 45.7833, lng: -108.5007, zip3: ['590', '591'] },
+    { name: 'Salt Lake City', state: 'UT', lat: 40.7608, lng: -111.8910, zip3: ['840', '841'] },
+    { name: 'Boise', state: 'ID', lat: 43.6150, lng: -116.2023, zip3: ['836', '837'] },
+    { name: 'Las Vegas', state: 'NV', lat: 36.1699, lng: -115.1398, zip3: ['889', '890', '891'] },
+    { name: 'Reno', state: 'NV', lat: 39.5296, lng: -119.8138, zip3: ['894', '895'] },
+    { name: 'Los Angeles', state: 'CA', lat: 34.0522, lng: -118.2437, zip3: ['900', '901'] },
+    { name: 'Long Beach', state: 'CA', lat: 33.7701, lng: -118.1937, zip3: ['907', '908'] },
+    { name: 'Pasadena', state: 'CA', lat: 34.1478, lng: -118.1445, zip3: ['910', '911'] },
+    { name: 'Irvine', state: 'CA', lat: 33.6846, lng: -117.8265, zip3: ['926', '927'] },
+    { name: 'Riverside', state: 'CA', lat: 33.9806, lng: -117.3755, zip3: ['925'] },
+    { name: 'San Diego', state: 'CA', lat: 32.7157, lng: -117.1611, zip3: ['919', '920', '921'] },
+    { name: 'San Francisco', state: 'CA', lat: 37.7749, lng: -122.4194, zip3: ['940', '941'] },
+    { name: 'Oakland', state: 'CA', lat: 37.8044, lng: -122.2712, zip3: ['945', '946', '947'] },
+    { name: 'San Jose', state: 'CA', lat: 37.3382, lng: -121.8863, zip3: ['950', '951'] },
+    { name: 'Sacramento', state: 'CA', lat: 38.5816, lng: -121.4944, zip3: ['956', '957', '958'] },
+    { name: 'Fresno', state: 'CA', lat: 36.7378, lng: -119.7871, zip3: ['936', '937'] },
+    { name: 'Portland', state: 'OR', lat: 45.5152, lng: -122.6784, zip3: ['970', '971', '972'] },
+    { name: 'Eugene', state: 'OR', lat: 44.0521, lng: -123.0868, zip3: ['974'] },
+    { name: 'Seattle', state: 'WA', lat: 47.6062, lng: -122.3321, zip3: ['980', '981'] },
+    { name: 'Tacoma', state: 'WA', lat: 47.2529, lng: -122.4443, zip3: ['983', '984'] },
+    { name: 'Spokane', state: 'WA', lat: 47.6588, lng: -117.4260, zip3: ['990', '992'] },
+    { name: 'Anchorage', state: 'AK', lat: 61.2181, lng: -149.9003, zip3: ['995'] },
+    { name: 'Honolulu', state: 'HI', lat: 21.3069, lng: -157.8583, zip3: ['967', '968'] },
+];
+
+// Full state names as people type them, to USPS codes
+export const STATE_CODES: Record<string, string> = {
+    alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA',
+    colorado: 'CO', connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC', florida: 'FL',
+    georgia: 'GA', hawaii: 'HI', idaho: 'ID', illinois: 'IL', indiana: 'IN',
+    iowa: 'IA', kansas: 'KS', kentucky: 'KY', louisiana: 'LA', maine: 'ME',
+    maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN', mississippi: 'MS',
+    missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH',
+    'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND',
+    ohio: 'OH', oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI',
+    'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT',
+    vermont: 'VT', virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI',
+    wyoming: 'WY',
+};
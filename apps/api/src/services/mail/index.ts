@@ -0,0 +1,84 @@
+/**
+ * SMTP Mailer
+ *
+ * Minimal plain-SMTP sender used for alert emails and magic links.
+ * Points at a local stand-in (MailHog, smtp4dev, ...) on localhost:1025
+ * unless SMTP_HOST / SMTP_PORT say otherwise.
+ */
+
+import net from 'net';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    date?: Date;
+}
+
+export class SmtpMailer {
+    private host = process.env.SMTP_HOST || 'localhost';
+    private port = parseInt(process.env.SMTP_PORT || '1025');
+    private from = process.env.SMTP_FROM || 'alerts@verity.local';
+
+    async send(mail: MailMessage): Promise<void> {
+        const message = [
+            `From: Verity <${this.from}>`,
+            `To: <${mail.to}>`,
+            `Subject: ${mail.subject}`,
+            `Date: ${(mail.date || new Date()).toUTCString()}`,
+            'Content-Type: text/plain; charset=utf-8',
+            '',
+            mail.text,
+        ].join('\r\n');
+
+        await this.transmit(mail.to, message);
+    }
+
+    private transmit(to: string, message: string): Promise<void> {
+        const commands = [
+            'EHLO verity.local',
+            `MAIL FROM:<${this.from}>`,
+            `RCPT TO:<${to}>`,
+            'DATA',
+            // Dot-stuff body lines, then terminate the DATA section
+            `${message.replace(/^\./gm, '..')}\r\n.`,
+            'QUIT',
+        ];
+
+        return new Promise((resolve, reject) => {
+            const socket = net.createConnection(this.port, this.host);
+            let step = 0;
+            let buffer = '';
+
+            socket.setTimeout(10000, () => socket.destroy(new Error('SMTP timeout')));
+            socket.on('error', reject);
+            // No-op once resolved
+            socket.on('close', () => reject(new Error('SMTP connection closed')));
+
+            socket.on('data', chunk => {
+                buffer += chunk.toString();
+
+                // Wait for the last line of a (possibly multi-line) reply
+                const lines = buffer.split('\r\n').filter(Boolean);
+                const last = lines[lines.length - 1] || '';
+                if (!buffer.endsWith('\r\n') || !/^\d{3} /.test(last)) return;
+                buffer = '';
+
+                if (parseInt(last.slice(0, 3)) >= 400) {
+                    socket.destroy();
+                    reject(new Error(`SMTP error: ${last}`));
+                    return;
+                }
+
+                if (step < commands.length) {
+                    socket.write(commands[step++] + '\r\n');
+                } else {
+                    socket.end();
+                    resolve();
+                }
+            });
+        });
+    }
+}
+
+export const mailer = new SmtpMailer();
@@ -0,0 +1,161 @@
+/**
+ * Configured Source Adapter
+ * Base for sources described by a config file instead of code: handles
+ * env expansion, required credentials, the HTTP request and the defaults
+ * every parsed deal shares. Subclasses only parse the response body.
+ */
+
+import { createHash } from 'crypto';
+import { BaseFetcher } from '../fetcher';
+import { sourceMode } from '../fixtures';
+import type { RawDeal, FetchResult, SourceAdapterConfig } from '../types';
+
+// Fields a subclass pulls out of one listing
+export interface ParsedListing {
+    url: string;
+    title: string;
+    price: number;
+    id?: string;
+    originalPrice?: number;
+    description?: string;
+    imageUrl?: string;
+    brand?: string;
+    category?: string;
+    upc?: string;
+    mpn?: string;
+    inStock?: boolean;
+    rating?: number;
+    reviewCount?: number;
+    postedAt?: Date;
+    expiresAt?: Date;
+}
+
+function expandEnv(value: string): string {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] || '');
+}
+
+export abstract class ConfiguredSourceAdapter<C extends SourceAdapterConfig = SourceAdapterConfig> extends BaseFetcher {
+    readonly adapterConfig: C;
+
+    constructor(config: C) {
+        super(config);
+        this.adapterConfig = config;
+    }
+
+    // Turn a response body into listings
+    protected abstract parse(body: string): ParsedListing[];
+
+    get adapterType(): SourceAdapterConfig['type'] {
+        return this.adapterConfig.type;
+    }
+
+    isConfigured(): boolean {
+        return this.missingEnv().length === 0;
+    }
+
+    async fetchDeals(): Promise<FetchResult> {
+        return this.collect(this.adapterConfig.url);
+    }
+
+    async searchDeals(query: string): Promise<FetchResult> {
+        if (this.adapterConfig.searchUrl) {
+            return this.collect(this.adapterConfig.searchUrl.replace('{query}', encodeURIComponent(query)));
+        }
+
+        // No search endpoint: filter the main listing
+        const result = await this.fetchDeals();
+        const queryLower = query.toLowerCase();
+        return {
+            ...result,
+            deals: result.deals.filter(deal => deal.title.toLowerCase().includes(queryLower))
+        };
+    }
+
+    // Replayed fixtures need no credentials
+    private missingEnv(): string[] {
+        if (sourceMode() === 'replay') return [];
+        return (this.adapterConfig.requiredEnv || []).filter(name => !process.env[name]);
+    }
+
+    private async collect(url: string): Promise<FetchResult> {
+        const startTime = Date.now();
+
+        const missing = this.missingEnv();
+        if (missing.length > 0) {
+            return this.createResult([], startTime, `Not configured - set ${missing.join(', ')}`);
+        }
+
+        try {
+            const deals = await this.rateLimitedFetch(async () => {
+                const headers: Record<string, string> = { 'User-Agent': 'Verity Deal Aggregator/1.0' };
+                for (const [name, value] of Object.entries(this.adapterConfig.headers || {})) {
+                    headers[name] = expandEnv(value);
+                }
+
+                const listings = await this.load(expandEnv(url), headers);
+                return listings
+                    .filter(listing => listing.title && listing.url && listing.price > 0)
+                    .map(listing => this.toRawDeal(listing));
+            });
+
+            return this.createResult(deals, startTime);
+        } catch (error) {
+            return this.createResult([], startTime, (error as Error).message);
+        }
+    }
+
+    // Request a URL and parse the body; feed adapters override this for conditional GET
+    protected async load(url: string, headers: Record<string, string>): Promise<ParsedListing[]> {
+        const response = await this.request(url, { headers });
+
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        return this.parse(await response.text());
+    }
+
+    private toRawDeal(listing: ParsedListing): RawDeal {
+        const { defaults = {} } = this.adapterConfig;
+
+        return {
+            sourceId: listing.id || `${this.name}-${createHash('sha1').update(listing.url).digest('hex').slice(0, 12)}`,
+            source: this.name,
+            sourceUrl: listing.url,
+            title: listing.title,
+            description: listing.description,
+            imageUrl: listing.imageUrl,
+            brand: listing.brand,
+            category: listing.category,
+            upc: listing.upc,
+            mpn: listing.mpn,
+            rating: listing.rating,
+            reviewCount: listing.reviewCount,
+            currentPrice: listing.price,
+            originalPrice: listing.originalPrice && listing.originalPrice > listing.price ? listing.originalPrice : undefined,
+            currency: defaults.currency || 'USD',
+            condition: defaults.condition || 'new',
+            inStock: listing.inStock,
+            sellerName: defaults.sellerName || this.adapterConfig.marketplace?.name || this.adapterConfig.displayName,
+            postedAt: listing.postedAt,
+            expiresAt: listing.expiresAt
+        };
+    }
+
+    // Resolve a possibly relative link against the listing page
+    protected absoluteUrl(href: string): string {
+        try {
+            return new URL(href, expandEnv(this.adapterConfig.url)).toString();
+        } catch {
+            return href;
+        }
+    }
+}
+
+// First dollar amount in a string, e.g. "$1,299.99"
+export function parseDollars(text: string | undefined): number | undefined {
+    const match = text?.match(/\$?\s*([\d,]+(?:\.\d{1,2})?)/);
+    if (!match) return undefined;
+    const price = parseFloat(match[1].replace(/,/g, ''));
+    return isNaN(price) ? undefined : price;
+}
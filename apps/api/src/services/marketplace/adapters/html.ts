@@ -0,0 +1,149 @@
+/**
+ * HTML Source Adapter
+ * Extracts deals from listing pages with CSS selectors, in the same shape
+ * as SCRAPER_CONFIGS. Runs on the raw markup without a DOM: selectors are
+ * compounds of a tag, `.class` and `[attr]` / `[attr="value"]` parts,
+ * joined by descendant combinators (e.g. `.sku-item .sku-title a`).
+ */
+
+import { ConfiguredSourceAdapter, parseDollars, type ParsedListing } from './configured';
+import { htmlToText } from '../feeds';
+import type { HtmlAdapterConfig } from '../types';
+
+interface HtmlElement {
+    tag: string;
+    attributes: Record<string, string>;
+    inner: string;
+}
+
+interface CompoundSelector {
+    tag?: string;
+    classes: string[];
+    attributes: { name: string; value?: string }[];
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'wbr']);
+
+function parseAttributes(raw: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const attrRegex = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+    let match;
+
+    while ((match = attrRegex.exec(raw)) !== null) {
+        attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+    }
+
+    return attributes;
+}
+
+function parseCompound(part: string): CompoundSelector {
+    const selector: CompoundSelector = { classes: [], attributes: [] };
+    const tokenRegex = /^([a-z][\w-]*)|\.([\w-]+)|\[([\w-]+)(?:=["']?([^"'\]]*)["']?)?\]/gi;
+    let match;
+
+    while ((match = tokenRegex.exec(part)) !== null) {
+        if (match[1]) selector.tag = match[1].toLowerCase();
+        else if (match[2]) selector.classes.push(match[2]);
+        else if (match[3]) selector.attributes.push({ name: match[3].toLowerCase(), value: match[4] });
+    }
+
+    return selector;
+}
+
+function matchesCompound(tag: string, attributes: Record<string, string>, selector: CompoundSelector): boolean {
+    if (selector.tag && selector.tag !== tag) return false;
+
+    const classes = (attributes.class || '').split(/\s+/);
+    if (!selector.classes.every(c => classes.includes(c))) return false;
+
+    return selector.attributes.every(({ name, value }) =>
+        name in attributes && (value === undefined || attributes[name] === value)
+    );
+}
+
+// Markup between an element's start tag and its matching end tag
+function innerHtml(html: string, tag: string, start: number): string {
+    const tagRegex = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+    tagRegex.lastIndex = start;
+    let depth = 1;
+    let match;
+
+    while ((match = tagRegex.exec(html)) !== null) {
+        if (match[1]) {
+            depth--;
+            if (depth === 0) return html.slice(start, match.index);
+        } else if (!match[0].endsWith('/>')) {
+            depth++;
+        }
+    }
+
+    return html.slice(start);
+}
+
+function findAll(html: string, selector: CompoundSelector): HtmlElement[] {
+    const elements: HtmlElement[] = [];
+    const startTagRegex = /<([a-zA-Z][\w-]*)((?:\s[^>]*)?)>/g;
+    let match;
+
+    while ((match = startTagRegex.exec(html)) !== null) {
+        const tag = match[1].toLowerCase();
+        const attributes = parseAttributes(match[2]);
+        if (!matchesCompound(tag, attributes, selector)) continue;
+
+        const selfClosing = VOID_TAGS.has(tag) || match[2].trimEnd().endsWith('/');
+        elements.push({
+            tag,
+            attributes,
+            inner: selfClosing ? '' : innerHtml(html, tag, startTagRegex.lastIndex)
+        });
+    }
+
+    return elements;
+}
+
+export function selectAll(html: string, selector: string): HtmlElement[] {
+    let matched: HtmlElement[] = [];
+    let scopes = [html];
+
+    for (const part of selector.trim().split(/\s+/)) {
+        const compound = parseCompound(part);
+        matched = scopes.flatMap(scope => findAll(scope, compound));
+        scopes = matched.map(element => element.inner);
+    }
+
+    return matched;
+}
+
+function selectFirst(html: string, selector: string | undefined): HtmlElement | undefined {
+    return selector ? selectAll(html, selector)[0] : undefined;
+}
+
+export class HtmlSourceAdapter extends ConfiguredSourceAdapter<HtmlAdapterConfig> {
+    protected parse(html: string): ParsedListing[] {
+        const { selectors } = this.adapterConfig;
+
+        return selectAll(html, selectors.container).map(container => {
+            const titleElement = selectFirst(container.inner, selectors.title);
+            const linkElement = selectFirst(container.inner, selectors.link) || titleElement;
+            const imageElement = selectFirst(container.inner, selectors.image);
+            const stockElement = selectFirst(container.inner, selectors.inStock);
+            const originalElement = selectFirst(container.inner, selectors.originalPrice);
+            const priceElement = selectFirst(container.inner, selectors.price);
+
+            const href = linkElement?.attributes.href;
+            const image = imageElement?.attributes.src || imageElement?.attributes['data-src'];
+            const stockText = stockElement ? htmlToText(stockElement.inner).toLowerCase() : '';
+
+            return {
+                url: href ? this.absoluteUrl(href) : '',
+                title: titleElement ? htmlToText(titleElement.inner) : '',
+                price: parseDollars(priceElement && htmlToText(priceElement.inner)) || 0,
+                originalPrice: parseDollars(originalElement && htmlToText(originalElement.inner)),
+                imageUrl: image ? this.absoluteUrl(image) : undefined,
+                inStock: selectors.inStock
+                    ? !/out of stock|sold out|unavailable/.test(stockText)
+                    : undefined
+            };
+        });
+    }
+}
@@ -0,0 +1,23 @@
+/**
+ * Source Adapter Factory
+ * Builds a fetcher from a declarative source config
+ */
+
+import type { SourceAdapterConfig } from '../types';
+import { ConfiguredSourceAdapter } from './configured';
+import { RssSourceAdapter } from './rss';
+import { JsonApiSourceAdapter } from './json';
+import { HtmlSourceAdapter } from './html';
+
+export { ConfiguredSourceAdapter, RssSourceAdapter, JsonApiSourceAdapter, HtmlSourceAdapter };
+
+export function createSourceAdapter(config: SourceAdapterConfig): ConfiguredSourceAdapter {
+    switch (config.type) {
+        case 'rss':
+            return new RssSourceAdapter(config);
+        case 'json':
+            return new JsonApiSourceAdapter(config);
+        case 'html':
+            return new HtmlSourceAdapter(config);
+    }
+}
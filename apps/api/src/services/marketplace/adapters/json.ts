@@ -0,0 +1,68 @@
+/**
+ * JSON API Source Adapter
+ * Maps items of a JSON response onto deals using configured dot paths
+ */
+
+import { ConfiguredSourceAdapter, parseDollars, type ParsedListing } from './configured';
+import type { JsonAdapterConfig } from '../types';
+
+// Read "a.b.0.c" out of parsed JSON
+function readPath(value: unknown, path: string | undefined): unknown {
+    if (!path) return undefined;
+    return path.split('.').reduce<unknown>(
+        (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+        value
+    );
+}
+
+function asString(value: unknown): string | undefined {
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+    if (typeof value === 'number') return value;
+    return parseDollars(asString(value));
+}
+
+function asDate(value: unknown): Date | undefined {
+    const text = asString(value);
+    if (!text) return undefined;
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+export class JsonApiSourceAdapter extends ConfiguredSourceAdapter<JsonAdapterConfig> {
+    protected parse(body: string): ParsedListing[] {
+        const { itemsPath, fields } = this.adapterConfig;
+        const data = JSON.parse(body) as unknown;
+        const items = itemsPath ? readPath(data, itemsPath) : data;
+
+        if (!Array.isArray(items)) {
+            throw new Error(`Expected an array at ${itemsPath || 'the response root'}`);
+        }
+
+        return items.map(item => {
+            const soldOut = readPath(item, fields.soldOut);
+            const inStock = readPath(item, fields.inStock);
+
+            return {
+                id: asString(readPath(item, fields.id)),
+                url: this.absoluteUrl(asString(readPath(item, fields.url)) || ''),
+                title: asString(readPath(item, fields.title)) || '',
+                price: asNumber(readPath(item, fields.price)) || 0,
+                originalPrice: asNumber(readPath(item, fields.originalPrice)),
+                description: asString(readPath(item, fields.description)),
+                imageUrl: asString(readPath(item, fields.image)),
+                brand: asString(readPath(item, fields.brand)),
+                category: asString(readPath(item, fields.category)),
+                upc: asString(readPath(item, fields.upc)),
+                mpn: asString(readPath(item, fields.mpn)),
+                inStock: soldOut !== undefined ? !soldOut : inStock !== undefined ? !!inStock : undefined,
+                rating: asNumber(readPath(item, fields.rating)),
+                reviewCount: asNumber(readPath(item, fields.reviewCount)),
+                postedAt: asDate(readPath(item, fields.postedAt)),
+                expiresAt: asDate(readPath(item, fields.expiresAt))
+            };
+        });
+    }
+}
@@ -0,0 +1,38 @@
+/**
+ * RSS Source Adapter
+ * Deal feeds (RSS 2.0, Atom or RDF) whose items carry the price in the
+ * title or description. Fetched with conditional GET.
+ */
+
+import { ConfiguredSourceAdapter, type ParsedListing } from './configured';
+import { parseFeed, htmlToText, extractPrice, extractOriginalPrice, type FeedEntry } from '../feeds';
+import type { RssAdapterConfig } from '../types';
+
+export class RssSourceAdapter extends ConfiguredSourceAdapter<RssAdapterConfig> {
+    protected parse(xml: string): ParsedListing[] {
+        return this.toListings(parseFeed(xml).entries);
+    }
+
+    protected async load(url: string, headers: Record<string, string>): Promise<ParsedListing[]> {
+        const { feed } = await this.fetchFeed(url, headers);
+        return this.toListings(feed.entries);
+    }
+
+    private toListings(entries: FeedEntry[]): ParsedListing[] {
+        return entries.map(entry => {
+            const description = htmlToText(entry.description);
+
+            // Price is usually the first dollar amount; "was $X" gives the original
+            return {
+                url: entry.link,
+                title: entry.title,
+                price: extractPrice(entry.title + ' ' + description) || 0,
+                originalPrice: extractOriginalPrice(description),
+                description,
+                imageUrl: entry.imageUrl || undefined,
+                category: entry.categories[0],
+                postedAt: entry.publishedAt || undefined
+            };
+        });
+    }
+}
@@ -1,29 +1,34 @@
 /**
  * Marketplace Aggregator
- * Central service that coordinates all marketplace sources
+ * Central service that coordinates all registered deal sources
  */
 
-import type { NormalizedDeal, FetchResult, MarketplaceSource, DealCategory } from './types';
-import { normalizeDeals, deduplicateDeals } from './normalizer';
-import { enhanceDealsWithScores, detectSuspiciousDeals } from './scoring';
+import type { NormalizedDeal, FetchResult, DealSource, DealCategory } from './types';
+import { dealPipeline } from './pipeline';
 import { dealCache, cacheKeys } from './cache';
-import { slickdealsFetcher } from './sources/slickdeals';
-import { dealNewsFetcher } from './sources/dealnews';
-import { ebayFetcher } from './sources/ebay';
-import { craigslistFetcher } from './sources/craigslist';
+import { sourceRegistry } from './registry';
+import { craigslistFetcher, CraigslistFetcher } from './sources/craigslist';
+import type { BaseFetcher } from './fetcher';
+import type { GeoPoint } from '../geo';
 
 interface AggregatorOptions {
-    sources?: MarketplaceSource[];
+    sources?: DealSource[];
     category?: DealCategory;
     limit?: number;
     useCache?: boolean;
     city?: string;
+    near?: GeoPoint;            // Picks nearby Craigslist sites when no city is given
+}
+
+// ~7 mile grid so nearby callers share cache entries
+function nearKey(near?: GeoPoint): string {
+    return near ? `${near.lat.toFixed(1)},${near.lng.toFixed(1)}` : 'any';
 }
 
 interface AggregatorResult {
     deals: NormalizedDeal[];
     sources: {
-        name: MarketplaceSource;
+        name: DealSource;
         count: number;
         success: boolean;
         error?: string;
@@ -35,52 +40,48 @@ interface AggregatorResult {
 }
 
 class MarketplaceAggregator {
-    private fetchers = {
-        slickdeals: slickdealsFetcher,
-        dealnews: dealNewsFetcher,
-        ebay: ebayFetcher,
-        craigslist: craigslistFetcher
-    };
-
-    private defaultSources: MarketplaceSource[] = [
-        'slickdeals',
-        'dealnews',
-        'craigslist'
-        // 'ebay' requires API key
-    ];
-
     async fetchDeals(options: AggregatorOptions = {}): Promise<AggregatorResult> {
-        const startTime = Date.now();
         const {
-            sources = this.defaultSources,
+            sources = sourceRegistry.defaultSources(),
             category,
             limit = 100,
             useCache = true,
-            city
+            city,
+            near
         } = options;
 
-        // Check cache first
-        const cacheKey = `${cacheKeys.deals(sources.join('-'))}:${category || 'all'}:${city || 'all'}`;
-
-        if (useCache) {
-            const cached = dealCache.get<AggregatorResult>(cacheKey);
-            if (cached) {
-                return { ...cached, cached: true };
-            }
+        const load = () => this.collectDeals(sources, category, limit, city, near);
+        if (!useCache) {
+            return load();
         }
 
+        // Expired results are served while a refresh runs in the background
+        const cacheKey = `${cacheKeys.deals(sources.join('-'))}:${category || 'all'}:${city || 'all'}:${nearKey(near)}`;
+        const { data, cached } = await dealCache.getOrLoad(cacheKey, load, { ttlMs: 5 * 60 * 1000 }); // 5 minutes
+        return { ...data, cached };
+    }
+
+    private async collectDeals(
+        sources: DealSource[],
+        category: DealCategory | undefined,
+        limit: number,
+        city: string | undefined,
+        near: GeoPoint | undefined
+    ): Promise<AggregatorResult> {
+        const startTime = Date.now();
+
         // Fetch from all sources in parallel
         const fetchPromises: Promise<FetchResult>[] = [];
-        const sourceNames: MarketplaceSource[] = [];
+        const sourceNames: DealSource[] = [];
 
         for (const source of sources) {
-            const fetcher = this.fetchers[source as keyof typeof this.fetchers];
-            if (fetcher) {
+            const fetcher = sourceRegistry.get(source);
+            if (fetcher?.isEnabled()) {
                 if (source === 'craigslist') {
                     fetchPromises.push(
                         city
                             ? craigslistFetcher.fetchDeals(category, city)
-                            : craigslistFetcher.fetchMultipleCities(category || 'laptops')
+                            : craigslistFetcher.fetchMultipleCities(category || 'laptops', near)
                     );
                 } else {
                     fetchPromises.push(fetcher.fetchDeals(category));
@@ -117,25 +118,13 @@ class MarketplaceAggregator {
             }
         });
 
-        // Normalize all deals to unified format
-        let normalizedDeals = normalizeDeals(allRawDeals);
-
-        // Deduplicate across sources
-        normalizedDeals = deduplicateDeals(normalizedDeals);
-
-        // Add AI scores
-        normalizedDeals = enhanceDealsWithScores(normalizedDeals);
-
-        // Flag suspicious deals
-        normalizedDeals = detectSuspiciousDeals(normalizedDeals);
-
-        // Sort by AI score
-        normalizedDeals.sort((a, b) => (b.aiScore?.overall || 0) - (a.aiScore?.overall || 0));
+        // Normalize, dedupe across sources and score
+        const normalizedDeals = dealPipeline.process(allRawDeals);
 
         // Apply limit
         const limitedDeals = normalizedDeals.slice(0, limit);
 
-        const aggregatorResult: AggregatorResult = {
+        return {
             deals: limitedDeals,
             sources: sourceStatus,
             totalFetched: allRawDeals.length,
@@ -143,41 +132,44 @@ class MarketplaceAggregator {
             fetchTime: Date.now() - startTime,
             cached: false
         };
-
-        // Cache the result
-        if (useCache) {
-            dealCache.set(cacheKey, aggregatorResult, 5 * 60 * 1000); // 5 minutes
-        }
-
-        return aggregatorResult;
     }
 
     async search(query: string, options: AggregatorOptions = {}): Promise<AggregatorResult> {
-        const startTime = Date.now();
         const {
-            sources = this.defaultSources,
+            sources = sourceRegistry.defaultSources(),
             limit = 50,
             useCache = true,
-            city
+            city,
+            near
         } = options;
 
-        // Check cache
-        const cacheKey = cacheKeys.search(query, sources.join('-'));
-
-        if (useCache) {
-            const cached = dealCache.get<AggregatorResult>(cacheKey);
-            if (cached) {
-                return { ...cached, cached: true };
-            }
+        // Without a city, search the Craigslist site nearest the caller
+        const searchCity = city || (near ? CraigslistFetcher.nearestSites(near)[0]?.code : undefined);
+        const load = () => this.collectSearch(query, sources, limit, searchCity);
+        if (!useCache) {
+            return load();
         }
 
+        const cacheKey = `${cacheKeys.search(query, sources.join('-'))}:${searchCity || 'all'}`;
+        const { data, cached } = await dealCache.getOrLoad(cacheKey, load, { ttlMs: 3 * 60 * 1000 }); // 3 minutes for search
+        return { ...data, cached };
+    }
+
+    private async collectSearch(
+        query: string,
+        sources: DealSource[],
+        limit: number,
+        city: string | undefined
+    ): Promise<AggregatorResult> {
+        const startTime = Date.now();
+
         // Search all sources in parallel
         const searchPromises: Promise<FetchResult>[] = [];
-        const sourceNames: MarketplaceSource[] = [];
+        const sourceNames: DealSource[] = [];
 
         for (const source of sources) {
-            const fetcher = this.fetchers[source as keyof typeof this.fetchers];
-            if (fetcher) {
+            const fetcher = sourceRegistry.get(source);
+            if (fetcher?.isEnabled()) {
                 if (source === 'craigslist') {
                     searchPromises.push(craigslistFetcher.searchDeals(query, city));
                 } else {
@@ -215,24 +207,16 @@ class MarketplaceAggregator {
             }
         });
 
-        // Process deals
-        let normalizedDeals = normalizeDeals(allRawDeals);
-        normalizedDeals = deduplicateDeals(normalizedDeals);
-        normalizedDeals = enhanceDealsWithScores(normalizedDeals);
-        normalizedDeals = detectSuspiciousDeals(normalizedDeals);
-
-        // Filter by query relevance
+        // Process deals, then filter by query relevance
         const queryLower = query.toLowerCase();
-        normalizedDeals = normalizedDeals.filter(deal =>
+        const normalizedDeals = dealPipeline.process(allRawDeals).filter(deal =>
             deal.title.toLowerCase().includes(queryLower) ||
             deal.description.toLowerCase().includes(queryLower)
         );
 
-        normalizedDeals.sort((a, b) => (b.aiScore?.overall || 0) - (a.aiScore?.overall || 0));
-
         const limitedDeals = normalizedDeals.slice(0, limit);
 
-        const result: AggregatorResult = {
+        return {
             deals: limitedDeals,
             sources: sourceStatus,
             totalFetched: allRawDeals.length,
@@ -240,23 +224,19 @@ class MarketplaceAggregator {
             fetchTime: Date.now() - startTime,
             cached: false
         };
-
-        if (useCache) {
-            dealCache.set(cacheKey, result, 3 * 60 * 1000); // 3 minutes for search
-        }
-
-        return result;
     }
 
     async getHotDeals(limit: number = 20): Promise<AggregatorResult> {
-        const startTime = Date.now();
+        const { data, cached } = await dealCache.getOrLoad(
+            cacheKeys.hotDeals(),
+            () => this.collectHotDeals(limit),
+            { ttlMs: 5 * 60 * 1000 }
+        );
+        return { ...data, cached };
+    }
 
-        // Check cache
-        const cacheKey = cacheKeys.hotDeals();
-        const cached = dealCache.get<AggregatorResult>(cacheKey);
-        if (cached) {
-            return { ...cached, cached: true };
-        }
+    private async collectHotDeals(limit: number): Promise<AggregatorResult> {
+        const startTime = Date.now();
 
         // Fetch from deal aggregators (they curate hot deals)
         const result = await this.fetchDeals({
@@ -270,34 +250,22 @@ class MarketplaceAggregator {
             .filter(d => (d.aiScore?.overall || 0) >= 75)
             .slice(0, limit);
 
-        const hotResult: AggregatorResult = {
+        return {
             ...result,
             deals: hotDeals,
             fetchTime: Date.now() - startTime,
             cached: false
         };
-
-        dealCache.set(cacheKey, hotResult, 5 * 60 * 1000);
-
-        return hotResult;
     }
 
-    // Get stats about all sources
-    getSourceStats(): Record<string, unknown>[] {
-        return Object.entries(this.fetchers).map(([name, fetcher]) => ({
-            name,
-            ...fetcher.getStats()
-        }));
+    // Get the fetcher that owns a source, if one is registered
+    getFetcher(source: DealSource): BaseFetcher | undefined {
+        return sourceRegistry.get(source);
     }
 
     // Clear all caches
-    clearCache(): void {
-        dealCache.clear();
-    }
-
-    // Check if eBay is configured
-    isEbayConfigured(): boolean {
-        return !!process.env.EBAY_APP_ID;
+    async clearCache(): Promise<void> {
+        await dealCache.clear();
     }
 }
 
@@ -0,0 +1,32 @@
+/**
+ * Cache Backends
+ * Storage behind DealCache. A backend only stores and expires entries;
+ * freshness, stale-while-revalidate and request coalescing live in DealCache.
+ */
+
+import type { CacheEntry } from '../types';
+
+export interface CacheBackendStats {
+    size: number | null;        // Null when counting would be expensive
+    evictions: number;
+}
+
+export interface CacheBackend {
+    readonly name: string;
+
+    get<T>(key: string): Promise<CacheEntry<T> | null>;
+
+    // ttlMs is the hard expiry; the entry is gone afterwards, stale or not
+    set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void>;
+
+    delete(key: string): Promise<boolean>;
+
+    // Keys starting with prefix, or every key when omitted
+    keys(prefix?: string): Promise<string[]>;
+
+    clear(): Promise<void>;
+
+    stats(): Promise<CacheBackendStats>;
+
+    close(): Promise<void>;
+}
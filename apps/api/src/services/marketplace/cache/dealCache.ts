@@ -0,0 +1,247 @@
+/**
+ * Deal Cache
+ * Caches aggregator results on a pluggable backend (in-memory LRU or
+ * Redis) with stale-while-revalidate: once an entry's TTL passes it is
+ * still served for a stale window while one background refresh replaces
+ * it. Concurrent loads of the same key share a single request.
+ */
+
+import type { CacheEntry } from '../types';
+import type { CacheBackend } from './backend';
+import { MemoryCacheBackend } from './memory';
+import { RedisCacheBackend } from './redis';
+
+export interface CacheOptions {
+    ttlMs?: number;             // How long an entry is fresh
+    staleMs?: number;           // How long after that it may be served while refreshing
+}
+
+export interface CachedResult<T> {
+    data: T;
+    cached: boolean;
+    stale: boolean;             // Served past its TTL; a refresh is running
+}
+
+export interface DealCacheStats {
+    backend: string;
+    size: number | null;
+    evictions: number;
+    hits: number;
+    staleHits: number;
+    misses: number;
+    hitRate: number;            // Fresh and stale hits over all lookups
+    coalesced: number;          // Loads that joined one already in flight
+    refreshes: number;          // Background revalidations started
+    loadErrors: number;
+    backendErrors: number;      // Backend failures, served as misses
+    inFlight: number;
+}
+
+export interface DealCacheOptions extends CacheOptions {
+    backend?: CacheBackend;
+}
+
+/**
+ * Backend from DEAL_CACHE_BACKEND (memory or redis). Read on first use,
+ * since dotenv loads after module evaluation.
+ */
+export function createCacheBackend(): CacheBackend {
+    if (process.env.DEAL_CACHE_BACKEND === 'redis') {
+        return new RedisCacheBackend({ url: process.env.REDIS_URL });
+    }
+    return new MemoryCacheBackend(parseInt(process.env.DEAL_CACHE_MAX_ENTRIES || '500', 10));
+}
+
+export class DealCache {
+    private backend: CacheBackend | null;
+    private defaultTTL: number;
+    private defaultStale: number | null;
+    private inFlight: Map<string, Promise<unknown>> = new Map();
+    private metrics = {
+        hits: 0,
+        staleHits: 0,
+        misses: 0,
+        coalesced: 0,
+        refreshes: 0,
+        loadErrors: 0,
+        backendErrors: 0,
+    };
+
+    constructor(options: DealCacheOptions = {}) {
+        this.backend = options.backend || null;
+        this.defaultTTL = options.ttlMs || 5 * 60 * 1000; // 5 minutes
+        this.defaultStale = options.staleMs ?? null;
+    }
+
+    private getBackend(): CacheBackend {
+        if (!this.backend) {
+            this.backend = createCacheBackend();
+            console.log(`[DealCache] Using ${this.backend.name} backend`);
+        }
+        return this.backend;
+    }
+
+    private staleWindow(options: CacheOptions): number {
+        return options.staleMs ?? this.defaultStale ?? parseInt(process.env.DEAL_CACHE_STALE_MS || String(15 * 60 * 1000), 10);
+    }
+
+    /**
+     * Swap the backend, e.g. for a stand-in server. The old one is closed.
+     */
+    async useBackend(backend: CacheBackend): Promise<void> {
+        const previous = this.backend;
+        this.backend = backend;
+        if (previous && previous !== backend) await previous.close();
+    }
+
+    // Backend errors degrade to a miss rather than failing the request
+    private async read<T>(key: string): Promise<CacheEntry<T> | null> {
+        try {
+            return await this.getBackend().get<T>(key);
+        } catch (error) {
+            this.metrics.backendErrors++;
+            console.error(`[DealCache] Read failed for ${key}:`, (error as Error).message);
+            return null;
+        }
+    }
+
+    async set<T>(key: string, data: T, options: CacheOptions = {}): Promise<void> {
+        const ttlMs = options.ttlMs || this.defaultTTL;
+        const now = new Date();
+        const entry: CacheEntry<T> = {
+            data,
+            cachedAt: now,
+            expiresAt: new Date(now.getTime() + ttlMs),
+        };
+
+        try {
+            await this.getBackend().set(key, entry, ttlMs + this.staleWindow(options));
+        } catch (error) {
+            this.metrics.backendErrors++;
+            console.error(`[DealCache] Write failed for ${key}:`, (error as Error).message);
+        }
+    }
+
+    /**
+     * Fresh or stale data for a key, without refreshing
+     */
+    async get<T>(key: string): Promise<T | null> {
+        const entry = await this.read<T>(key);
+        return entry ? entry.data : null;
+    }
+
+    /**
+     * Serve from cache, loading on a miss. Stale entries are returned
+     * immediately and refreshed in the background.
+     */
+    async getOrLoad<T>(key: string, loader: () => Promise<T>, options: CacheOptions = {}): Promise<CachedResult<T>> {
+        const entry = await this.read<T>(key);
+
+        if (entry && new Date() < new Date(entry.expiresAt)) {
+            this.metrics.hits++;
+            return { data: entry.data, cached: true, stale: false };
+        }
+
+        if (entry) {
+            this.metrics.staleHits++;
+            if (!this.inFlight.has(key)) {
+                this.metrics.refreshes++;
+                this.load(key, loader, options).catch(error =>
+                    console.error(`[DealCache] Refresh failed for ${key}:`, (error as Error).message)
+                );
+            }
+            return { data: entry.data, cached: true, stale: true };
+        }
+
+        this.metrics.misses++;
+        return { data: await this.load(key, loader, options), cached: false, stale: false };
+    }
+
+    // One load per key at a time; later callers wait on the first
+    private load<T>(key: string, loader: () => Promise<T>, options: CacheOptions): Promise<T> {
+        const existing = this.inFlight.get(key);
+        if (existing) {
+            this.metrics.coalesced++;
+            return existing as Promise<T>;
+        }
+
+        const promise = (async () => {
+            try {
+                const data = await loader();
+                await this.set(key, data, options);
+                return data;
+            } catch (error) {
+                this.metrics.loadErrors++;
+                throw error;
+            } finally {
+                this.inFlight.delete(key);
+            }
+        })();
+
+        this.inFlight.set(key, promise);
+        return promise;
+    }
+
+    async has(key: string): Promise<boolean> {
+        return (await this.read(key)) !== null;
+    }
+
+    async delete(key: string): Promise<boolean> {
+        return this.getBackend().delete(key);
+    }
+
+    async clear(): Promise<void> {
+        await this.getBackend().clear();
+    }
+
+    // Remove entries matching a pattern
+    async invalidate(pattern: string | RegExp): Promise<number> {
+        const regex = typeof pattern === 'string'
+            ? new RegExp(pattern)
+            : pattern;
+
+        const backend = this.getBackend();
+        let count = 0;
+        for (const key of await backend.keys()) {
+            if (regex.test(key) && await backend.delete(key)) {
+                count++;
+            }
+        }
+
+        return count;
+    }
+
+    // Stats for monitoring
+    async getStats(): Promise<DealCacheStats> {
+        const backend = this.getBackend();
+        let backendStats = { size: null as number | null, evictions: 0 };
+        try {
+            backendStats = await backend.stats();
+        } catch (error) {
+            this.metrics.backendErrors++;
+        }
+
+        const lookups = this.metrics.hits + this.metrics.staleHits + this.metrics.misses;
+
+        return {
+            backend: backend.name,
+            ...backendStats,
+            ...this.metrics,
+            hitRate: lookups > 0 ? Math.round(((this.metrics.hits + this.metrics.staleHits) / lookups) * 1000) / 1000 : 0,
+            inFlight: this.inFlight.size,
+        };
+    }
+}
+
+// Singleton instance
+export const dealCache = new DealCache();
+
+// Cache key generators
+export const cacheKeys = {
+    deals: (source: string) => `deals:${source}`,
+    deal: (id: string) => `deal:${id}`,
+    search: (query: string, filters: string) => `search:${query}:${filters}`,
+    hotDeals: () => 'hot-deals',
+    categories: () => 'categories',
+    priceHistory: (productId: string) => `price-history:${productId}`,
+};
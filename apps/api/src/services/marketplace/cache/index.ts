@@ -0,0 +1,12 @@
+/**
+ * Deal Cache
+ * Stale-while-revalidate caching for aggregator results, on an in-memory
+ * LRU or a Redis backend
+ */
+
+export { DealCache, dealCache, cacheKeys, createCacheBackend } from './dealCache';
+export type { CacheOptions, CachedResult, DealCacheStats, DealCacheOptions } from './dealCache';
+export { MemoryCacheBackend } from './memory';
+export { RedisCacheBackend } from './redis';
+export type { RedisCacheOptions } from './redis';
+export type { CacheBackend, CacheBackendStats } from './backend';
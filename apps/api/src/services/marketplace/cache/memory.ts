@@ -0,0 +1,71 @@
+/**
+ * In-Memory Cache Backend
+ * Size-bounded LRU: reads move an entry to the back of the Map, writes
+ * past maxEntries evict from the front. Expired entries are dropped when
+ * read or when they reach the front, so no cleanup timer is needed.
+ */
+
+import type { CacheEntry } from '../types';
+import type { CacheBackend, CacheBackendStats } from './backend';
+
+interface StoredEntry {
+    entry: CacheEntry<unknown>;
+    expiresAt: number;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+    readonly name = 'memory';
+    private entries: Map<string, StoredEntry> = new Map();
+    private evictions: number = 0;
+
+    constructor(private maxEntries: number = 500) {}
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const stored = this.entries.get(key);
+        if (!stored) return null;
+
+        if (Date.now() >= stored.expiresAt) {
+            this.entries.delete(key);
+            return null;
+        }
+
+        // Most recently used goes last
+        this.entries.delete(key);
+        this.entries.set(key, stored);
+        return stored.entry as CacheEntry<T>;
+    }
+
+    async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as string;
+            this.entries.delete(oldest);
+            this.evictions++;
+        }
+    }
+
+    async delete(key: string): Promise<boolean> {
+        return this.entries.delete(key);
+    }
+
+    async keys(prefix: string = ''): Promise<string[]> {
+        const now = Date.now();
+        return Array.from(this.entries.entries())
+            .filter(([key, stored]) => key.startsWith(prefix) && now < stored.expiresAt)
+            .map(([key]) => key);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+
+    async stats(): Promise<CacheBackendStats> {
+        return { size: this.entries.size, evictions: this.evictions };
+    }
+
+    async close(): Promise<void> {
+        this.entries.clear();
+    }
+}
@@ -0,0 +1,298 @@
+/**
+ * Redis Cache Backend
+ * Shares cached deal results between API instances. Speaks RESP over a
+ * plain TCP socket, so any server implementing the protocol works: Redis,
+ * Valkey, KeyDB, or a local stand-in during development.
+ *
+ * Entries are stored as JSON under `<namespace><key>` with a PX expiry.
+ * Dates written as ISO strings are turned back into Dates on read.
+ */
+
+import net from 'net';
+import type { CacheEntry } from '../types';
+import type { CacheBackend, CacheBackendStats } from './backend';
+
+type RespValue = string | number | null | RespValue[] | RespError;
+
+class RespError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RespError';
+    }
+}
+
+interface PendingCommand {
+    resolve: (value: RespValue) => void;
+    reject: (error: Error) => void;
+}
+
+export interface RedisCacheOptions {
+    url?: string;               // redis://[:password@]host[:port][/db]
+    namespace?: string;
+    connectTimeoutMs?: number;
+    commandTimeoutMs?: number;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z$/;
+
+function reviveDates(_key: string, value: unknown): unknown {
+    return typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value;
+}
+
+function encodeCommand(args: string[]): Buffer {
+    const parts = [`*${args.length}\r\n`];
+    for (const arg of args) {
+        parts.push(`$${Buffer.byteLength(arg)}\r\n${arg}\r\n`);
+    }
+    return Buffer.from(parts.join(''));
+}
+
+/**
+ * Parse one reply starting at offset; undefined when the buffer doesn't
+ * hold a complete reply yet
+ */
+function parseReply(buffer: Buffer, offset: number): [RespValue, number] | undefined {
+    const lineEnd = buffer.indexOf('\r\n', offset);
+    if (lineEnd === -1) return undefined;
+
+    const type = String.fromCharCode(buffer[offset]);
+    const line = buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + 2;
+
+    switch (type) {
+        case '+':
+            return [line, next];
+        case '-':
+            return [new RespError(line), next];
+        case ':':
+            return [parseInt(line, 10), next];
+        case '$': {
+            const length = parseInt(line, 10);
+            if (length === -1) return [null, next];
+            if (buffer.length < next + length + 2) return undefined;
+            return [buffer.toString('utf8', next, next + length), next + length + 2];
+        }
+        case '*': {
+            const count = parseInt(line, 10);
+            if (count === -1) return [null, next];
+            const items: RespValue[] = [];
+            let position = next;
+            for (let i = 0; i < count; i++) {
+                const item = parseReply(buffer, position);
+                if (!item) return undefined;
+                items.push(item[0]);
+                position = item[1];
+            }
+            return [items, position];
+        }
+        default:
+            throw new RespError(`Unexpected reply type "${type}"`);
+    }
+}
+
+// Escape glob characters so a key prefix matches literally in SCAN MATCH
+function escapeGlob(value: string): string {
+    return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+export class RedisCacheBackend implements CacheBackend {
+    readonly name = 'redis';
+    private url: URL;
+    private namespace: string;
+    private connectTimeoutMs: number;
+    private commandTimeoutMs: number;
+    private socket: net.Socket | null = null;
+    private connecting: Promise<net.Socket> | null = null;
+    private pending: PendingCommand[] = [];
+    private buffer: Buffer = Buffer.alloc(0);
+
+    constructor(options: RedisCacheOptions = {}) {
+        this.url = new URL(options.url || 'redis://localhost:6379');
+        this.namespace = options.namespace ?? 'tadow:deal-cache:';
+        this.connectTimeoutMs = options.connectTimeoutMs ?? 2000;
+        this.commandTimeoutMs = options.commandTimeoutMs ?? 2000;
+    }
+
+    private connect(): Promise<net.Socket> {
+        if (this.socket) return Promise.resolve(this.socket);
+        if (this.connecting) return this.connecting;
+
+        const attempt: Promise<net.Socket> = new Promise<net.Socket>((resolve, reject) => {
+            const socket = net.createConnection({
+                host: this.url.hostname || 'localhost',
+                port: parseInt(this.url.port || '6379', 10),
+            });
+
+            // An unreachable host would otherwise hang every cache call
+            // until the OS gives up on the TCP connect
+            const timer = setTimeout(() => {
+                fail(new Error(`Redis connect timed out after ${this.connectTimeoutMs}ms`));
+                socket.destroy();
+            }, this.connectTimeoutMs);
+
+            let settled = false;
+            const fail = (error: Error) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                if (this.connecting === attempt) this.connecting = null;
+                reject(error);
+            };
+
+            const onConnectError = (error: Error) => fail(error);
+            socket.once('error', onConnectError);
+
+            socket.once('connect', () => {
+                socket.off('error', onConnectError);
+                socket.setNoDelay(true);
+                socket.on('data', chunk => this.onData(chunk));
+                // Ignore a replaced socket closing late
+                const drop = (error: Error) => {
+                    if (this.socket === null || this.socket === socket) this.reset(error);
+                };
+                socket.on('error', drop);
+                socket.on('close', () => drop(new Error('Redis connection closed')));
+
+                // Commands wait on `connecting` until AUTH and SELECT are done
+                this.handshake(socket).then(() => {
+                    if (settled) return;
+                    settled = true;
+                    clearTimeout(timer);
+                    this.socket = socket;
+                    this.connecting = null;
+                    resolve(socket);
+                }, error => {
+                    fail(error);
+                    socket.destroy();
+                });
+            });
+        });
+
+        this.connecting = attempt;
+        return attempt;
+    }
+
+    private async handshake(socket: net.Socket): Promise<void> {
+        const password = decodeURIComponent(this.url.password);
+        const username = decodeURIComponent(this.url.username);
+        if (password) {
+            await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+        }
+
+        const db = this.url.pathname.replace(/^\//, '');
+        if (db && db !== '0') {
+            await this.send(socket, ['SELECT', db]);
+        }
+    }
+
+    private onData(chunk: Buffer): void {
+        this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+        let offset = 0;
+        try {
+            while (offset < this.buffer.length) {
+                const reply = parseReply(this.buffer, offset);
+                if (!reply) break;
+                offset = reply[1];
+
+                const command = this.pending.shift();
+                if (!command) continue;
+                if (reply[0] instanceof RespError) command.reject(reply[0]);
+                else command.resolve(reply[0]);
+            }
+        } catch (error) {
+            this.socket?.destroy();
+            this.reset(error as Error);
+            return;
+        }
+
+        this.buffer = this.buffer.subarray(offset);
+    }
+
+    // Fail everything in flight; the next command reconnects
+    private reset(error: Error): void {
+        this.socket = null;
+        this.buffer = Buffer.alloc(0);
+        const pending = this.pending;
+        this.pending = [];
+        for (const command of pending) command.reject(error);
+    }
+
+    private send(socket: net.Socket, args: string[]): Promise<RespValue> {
+        return new Promise<RespValue>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                // Replies are matched by order, so a lost reply poisons the connection
+                socket.destroy();
+                this.reset(new Error(`Redis ${args[0]} timed out after ${this.commandTimeoutMs}ms`));
+            }, this.commandTimeoutMs);
+
+            this.pending.push({
+                resolve: value => { clearTimeout(timer); resolve(value); },
+                reject: error => { clearTimeout(timer); reject(error); },
+            });
+            socket.write(encodeCommand(args));
+        });
+    }
+
+    private async command(...args: string[]): Promise<RespValue> {
+        return this.send(await this.connect(), args);
+    }
+
+    async get<T>(key: string): Promise<CacheEntry<T> | null> {
+        const value = await this.command('GET', this.namespace + key);
+        if (typeof value !== 'string') return null;
+        return JSON.parse(value, reviveDates) as CacheEntry<T>;
+    }
+
+    async set<T>(key: string, entry: CacheEntry<T>, ttlMs: number): Promise<void> {
+        await this.command('SET', this.namespace + key, JSON.stringify(entry), 'PX', String(Math.max(1, Math.round(ttlMs))));
+    }
+
+    async delete(key: string): Promise<boolean> {
+        return (await this.command('DEL', this.namespace + key)) === 1;
+    }
+
+    async keys(prefix: string = ''): Promise<string[]> {
+        const keys: string[] = [];
+        const match = `${escapeGlob(this.namespace + prefix)}*`;
+        let cursor = '0';
+
+        do {
+            const reply = await this.command('SCAN', cursor, 'MATCH', match, 'COUNT', '200');
+            if (!Array.isArray(reply) || reply.length !== 2) {
+                throw new Error('Unexpected SCAN reply');
+            }
+            cursor = String(reply[0]);
+            for (const key of reply[1] as string[]) {
+                keys.push(key.slice(this.namespace.length));
+            }
+        } while (cursor !== '0');
+
+        return keys;
+    }
+
+    async clear(): Promise<void> {
+        const keys = await this.keys();
+        // DEL in batches to keep each command small
+        for (let i = 0; i < keys.length; i += 200) {
+            await this.command('DEL', ...keys.slice(i, i + 200).map(key => this.namespace + key));
+        }
+    }
+
+    async stats(): Promise<CacheBackendStats> {
+        // Redis evicts on its own terms; counting our keys would mean a full SCAN
+        return { size: null, evictions: 0 };
+    }
+
+    async close(): Promise<void> {
+        const socket = this.socket;
+        if (!socket) return;
+        try {
+            await this.send(socket, ['QUIT']);
+        } catch {
+            // Closing anyway
+        }
+        socket.destroy();
+        this.socket = null;
+    }
+}
@@ -0,0 +1,220 @@
+/**
+ * Deal Event Stream
+ *
+ * Change feed for the stored catalog. Ingestion and price verification
+ * record `deal.created`, `deal.price_changed` and `deal.expired` rows in
+ * DealEvent; a single poller fans new rows out to in-process
+ * subscribers (the SSE route). Polling the table rather than emitting
+ * directly means events recorded by a scheduler running in another
+ * process still reach this one's streams. A subscriber resuming from an
+ * older event reads its backlog with its own queries, so the shared
+ * poller only ever moves forward.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { DealEvent } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const POLL_INTERVAL_MS = parseInt(process.env.DEAL_STREAM_POLL_MS || '2000', 10);
+const REPLAY_LIMIT = 500;
+
+// A resuming client is replayed at most this many events; anything older
+// is skipped rather than making one reconnect page through the table
+const RESUME_WINDOW = 2000;
+
+export type DealEventType = 'deal.created' | 'deal.price_changed' | 'deal.expired';
+
+export interface DealStreamEvent {
+    id: number;
+    type: DealEventType;
+    dealId: string;
+    marketplaceId: string;
+    source: string;
+    category: string;
+    dealScore: number | null;
+    deal: Record<string, unknown>;
+    createdAt: Date;
+}
+
+type Listener = (event: DealStreamEvent) => void;
+
+interface Subscriber {
+    listener: Listener;
+    cursor: number;
+    // Live events that arrive while the backlog is still being read
+    buffered: DealStreamEvent[] | null;
+}
+
+function toStreamEvent(row: DealEvent): DealStreamEvent {
+    return {
+        id: row.id,
+        type: row.type as DealEventType,
+        dealId: row.dealId,
+        marketplaceId: row.marketplaceId,
+        source: row.source,
+        category: row.category,
+        dealScore: row.dealScore,
+        deal: JSON.parse(row.payload),
+        createdAt: row.createdAt,
+    };
+}
+
+export class DealEventStream {
+    private subscribers: Set<Subscriber> = new Set();
+    private lastDeliveredId: number | null = null;
+    private pollTimer: NodeJS.Timeout | null = null;
+    private polling = false;
+    private pollAgain = false;
+
+    /**
+     * Record an event for a stored deal. Never throws: the feed must not
+     * break ingestion.
+     */
+    async record(type: DealEventType, dealId: string, extra: Record<string, unknown> = {}): Promise<void> {
+        try {
+            const deal = await prisma.deal.findUnique({
+                where: { id: dealId },
+                include: { marketplace: true },
+            });
+            if (!deal) return;
+
+            await prisma.dealEvent.create({
+                data: {
+                    type,
+                    dealId,
+                    marketplaceId: deal.marketplaceId,
+                    source: deal.marketplace.name,
+                    category: deal.category,
+                    dealScore: deal.dealScore,
+                    payload: JSON.stringify({ ...deal, ...extra }),
+                },
+            });
+
+            if (this.subscribers.size > 0) void this.poll();
+        } catch (error) {
+            console.error(`[DealEvents] Failed to record ${type} for ${dealId}:`, error);
+        }
+    }
+
+    /**
+     * Events after `lastEventId`, oldest first, for Last-Event-ID resume
+     */
+    async since(lastEventId: number, limit: number = REPLAY_LIMIT): Promise<DealStreamEvent[]> {
+        const rows = await prisma.dealEvent.findMany({
+            where: { id: { gt: lastEventId } },
+            orderBy: { id: 'asc' },
+            take: limit,
+        });
+        return rows.map(toStreamEvent);
+    }
+
+    async latestId(): Promise<number> {
+        const latest = await prisma.dealEvent.findFirst({ orderBy: { id: 'desc' }, select: { id: true } });
+        return latest?.id ?? 0;
+    }
+
+    /**
+     * Receive new events; with `afterId`, first replay what was recorded
+     * after it (at most RESUME_WINDOW events). Returns the unsubscribe
+     * function.
+     */
+    subscribe(listener: Listener, afterId?: number): () => void {
+        const subscriber: Subscriber = {
+            listener,
+            cursor: 0,
+            buffered: afterId === undefined ? null : [],
+        };
+        this.subscribers.add(subscriber);
+        if (!this.pollTimer) {
+            this.pollTimer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+        }
+        void this.poll();
+        if (afterId !== undefined) void this.replay(subscriber, afterId);
+
+        return () => {
+            this.subscribers.delete(subscriber);
+            if (this.subscribers.size === 0 && this.pollTimer) {
+                clearInterval(this.pollTimer);
+                this.pollTimer = null;
+                this.lastDeliveredId = null;
+            }
+        };
+    }
+
+    /**
+     * Delete events older than the retention window
+     */
+    async prune(retentionHours: number): Promise<number> {
+        const cutoff = new Date(Date.now() - retentionHours * 60 * 60 * 1000);
+        const result = await prisma.dealEvent.deleteMany({ where: { createdAt: { lt: cutoff } } });
+        return result.count;
+    }
+
+    // Read one subscriber's backlog, then hand it over to the live feed
+    private async replay(subscriber: Subscriber, afterId: number): Promise<void> {
+        try {
+            const latest = await this.latestId();
+            subscriber.cursor = Math.min(Math.max(afterId, latest - RESUME_WINDOW), latest);
+            // If the live feed isn't running yet, start it where the backlog
+            // begins to be read, so nothing falls between the two
+            this.lastDeliveredId ??= latest;
+
+            let events: DealStreamEvent[];
+            do {
+                events = await this.since(subscriber.cursor);
+                if (!this.subscribers.has(subscriber)) return;
+                events.forEach(event => this.deliver(subscriber, event));
+            } while (events.length === REPLAY_LIMIT);
+        } catch (error) {
+            console.error('[DealEvents] Replay failed:', error);
+        }
+
+        const buffered = subscriber.buffered ?? [];
+        subscriber.buffered = null;
+        buffered.forEach(event => this.deliver(subscriber, event));
+    }
+
+    private deliver(subscriber: Subscriber, event: DealStreamEvent): void {
+        if (event.id <= subscriber.cursor) return;
+        subscriber.cursor = event.id;
+        subscriber.listener(event);
+    }
+
+    private async poll(): Promise<void> {
+        if (this.polling) {
+            this.pollAgain = true;
+            return;
+        }
+        this.polling = true;
+
+        try {
+            do {
+                this.pollAgain = false;
+                // The first subscriber starts the live feed at the newest event
+                if (this.lastDeliveredId === null) {
+                    const latest = await this.latestId();
+                    this.lastDeliveredId ??= latest;
+                    continue;
+                }
+
+                const events = await this.since(this.lastDeliveredId);
+                for (const event of events) {
+                    this.lastDeliveredId = event.id;
+                    this.subscribers.forEach(subscriber => {
+                        if (subscriber.buffered) subscriber.buffered.push(event);
+                        else this.deliver(subscriber, event);
+                    });
+                }
+                if (events.length === REPLAY_LIMIT) this.pollAgain = true;
+            } while (this.pollAgain && this.subscribers.size > 0);
+        } catch (error) {
+            console.error('[DealEvents] Poll failed:', error);
+        } finally {
+            this.polling = false;
+        }
+    }
+}
+
+// Singleton instance
+export const dealEvents = new DealEventStream();
@@ -0,0 +1,82 @@
+/**
+ * Feed Client
+ * Fetches and parses feeds with conditional GET: the ETag and Last-Modified
+ * of each response are sent back on the next request, and a 304 reuses the
+ * feed parsed last time instead of downloading and parsing it again.
+ */
+
+import { parseFeed, type ParsedFeed } from './parser';
+
+export type FeedRequest = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface FeedFetchOptions {
+    request?: FeedRequest;                  // Defaults to fetch; fetchers pass their recorded request
+    headers?: Record<string, string>;
+}
+
+export interface FeedFetchResult {
+    feed: ParsedFeed;
+    notModified: boolean;                   // True when the server answered 304
+}
+
+interface CachedFeed {
+    etag: string | null;
+    lastModified: string | null;
+    feed: ParsedFeed;
+}
+
+const ACCEPT = 'application/rss+xml, application/atom+xml, application/rdf+xml, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.5';
+
+export class FeedClient {
+    // Validators and last parse, per consumer and URL
+    private cache: Map<string, CachedFeed> = new Map();
+
+    /**
+     * Fetch a feed. `consumer` scopes the validators, so two readers of the
+     * same URL each see every change once.
+     */
+    async fetch(consumer: string, url: string, options: FeedFetchOptions = {}): Promise<FeedFetchResult> {
+        const key = `${consumer} ${url}`;
+        const cached = this.cache.get(key);
+        const request = options.request || ((input: string, init?: RequestInit) => fetch(input, init));
+
+        const headers: Record<string, string> = { 'Accept': ACCEPT, ...options.headers };
+        if (cached?.etag) headers['If-None-Match'] = cached.etag;
+        if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+        const response = await request(url, { headers });
+
+        if (response.status === 304 && cached) {
+            return { feed: cached.feed, notModified: true };
+        }
+
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        }
+
+        const feed = parseFeed(await response.text());
+        this.cache.set(key, {
+            etag: response.headers.get('etag'),
+            lastModified: response.headers.get('last-modified'),
+            feed,
+        });
+
+        return { feed, notModified: false };
+    }
+
+    /**
+     * Forget validators so the next fetch downloads every feed in full
+     */
+    clear(consumer?: string): void {
+        if (!consumer) {
+            this.cache.clear();
+            return;
+        }
+        for (const key of this.cache.keys()) {
+            if (key.startsWith(`${consumer} `)) this.cache.delete(key);
+        }
+    }
+}
+
+// Singleton instance
+export const feedClient = new FeedClient();
@@ -0,0 +1,15 @@
+/**
+ * Feed Parsing
+ * Shared RSS / Atom / RDF reading for deal sources and the RSS aggregator
+ */
+
+export { FeedClient, feedClient } from './client';
+export type { FeedRequest, FeedFetchOptions, FeedFetchResult } from './client';
+export {
+    parseFeed,
+    parseFeedDate,
+    htmlToText,
+    extractPrice,
+    extractOriginalPrice,
+} from './parser';
+export type { FeedFormat, FeedEntry, FeedEnclosure, ParsedFeed } from './parser';
@@ -0,0 +1,298 @@
+/**
+ * Feed Parser
+ * Reads RSS 2.0, Atom and RSS 1.0 (RDF) into one entry shape, with the
+ * helpers deal feeds need on top: text from HTML descriptions, images from
+ * media/enclosure tags or inline markup, prices and publication dates.
+ */
+
+import { parseXml, child, childrenNamed, descendantsNamed, type XmlElement } from './xml';
+
+export type FeedFormat = 'rss' | 'atom' | 'rdf';
+
+export interface FeedEnclosure {
+    url: string;
+    type: string | null;
+    length: number | null;
+}
+
+export interface FeedEntry {
+    id: string;
+    title: string;                  // Plain text
+    link: string;
+    description: string;            // HTML as published (summary, or description)
+    content: string | null;         // Full HTML body (content:encoded, Atom content)
+    author: string | null;
+    categories: string[];
+    publishedAt: Date | null;
+    updatedAt: Date | null;
+    imageUrl: string | null;
+    enclosures: FeedEnclosure[];
+}
+
+export interface ParsedFeed {
+    format: FeedFormat;
+    title: string;
+    link: string;
+    entries: FeedEntry[];
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+    nbsp: ' ',
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    rsquo: '’',
+    lsquo: '‘',
+    rdquo: '”',
+    ldquo: '“',
+    ndash: '–',
+    mdash: '—',
+    hellip: '…',
+    trade: '™',
+    reg: '®',
+    copy: '©',
+    deg: '°',
+    times: '×',
+    frac12: '½',
+    cent: '¢',
+    pound: '£',
+    euro: '€',
+};
+
+/**
+ * Plain text from an HTML fragment: tags dropped, entities decoded,
+ * whitespace collapsed
+ */
+export function htmlToText(html: string): string {
+    return html
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, body: string) => {
+            if (body[0] === '#') {
+                const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+                return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+            }
+            return HTML_ENTITIES[body.toLowerCase()] ?? entity;
+        })
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+const PRICE = /\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?(?!\d)/g;
+const ORIGINAL_MARKER = /(?:was|list|reg(?:ular)?|msrp|orig(?:inal)?|retail|compare at)\.?:?\s*(?:price\s*)?$/i;
+
+function toAmount(match: RegExpMatchArray): number {
+    return parseFloat(`${match[1].replace(/,/g, '')}.${match[2] || '0'}`);
+}
+
+/**
+ * Sale price: the first dollar amount not labelled as a former price
+ * ("was $399", "list $349")
+ */
+export function extractPrice(text: string): number | undefined {
+    for (const match of text.matchAll(PRICE)) {
+        const before = text.slice(Math.max(0, match.index! - 24), match.index);
+        if (!ORIGINAL_MARKER.test(before)) return toAmount(match);
+    }
+    return undefined;
+}
+
+/**
+ * Former price from "was $X", "list $X", "reg. $X", "MSRP $X"
+ */
+export function extractOriginalPrice(text: string): number | undefined {
+    for (const match of text.matchAll(PRICE)) {
+        const before = text.slice(Math.max(0, match.index! - 24), match.index);
+        if (ORIGINAL_MARKER.test(before)) return toAmount(match);
+    }
+    return undefined;
+}
+
+// Zones JS can't parse, as offsets
+const TIMEZONES: Record<string, string> = {
+    UT: '+0000', Z: '+0000', BST: '+0100', CET: '+0100', CEST: '+0200', IST: '+0530', AEST: '+1000', AEDT: '+1100',
+};
+
+/**
+ * RFC 822 and ISO 8601 dates, including the malformed variants feeds
+ * publish (unknown zone abbreviations, missing weekday commas)
+ */
+export function parseFeedDate(value: string | undefined | null): Date | null {
+    const text = value?.trim();
+    if (!text) return null;
+
+    let date = new Date(text);
+    if (!isNaN(date.getTime())) return date;
+
+    const cleaned = text
+        .replace(/^[A-Za-z]{3},?\s+/, '')
+        .replace(/\s([A-Z]{1,4})$/, (_, zone: string) => ` ${TIMEZONES[zone] || '+0000'}`);
+    date = new Date(cleaned);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+// Markup of an element: its text, or raw inner markup when a feed embeds unescaped HTML
+function html(element: XmlElement | undefined): string {
+    if (!element) return '';
+    return (element.children.length > 0 ? element.inner : element.text).trim();
+}
+
+function text(element: XmlElement | undefined): string {
+    return element ? htmlToText(html(element)) : '';
+}
+
+function firstImageIn(markup: string): string | null {
+    return markup.match(/<img\b[^>]*?\ssrc=["']([^"']+)["']/i)?.[1] || null;
+}
+
+function mediaEnclosures(item: XmlElement): FeedEnclosure[] {
+    const groups = childrenNamed(item, 'media:group');
+    const contents = [item, ...groups].flatMap(el => childrenNamed(el, 'media:content'));
+
+    return contents
+        .filter(el => el.attributes.url)
+        .map(el => ({
+            url: el.attributes.url,
+            type: el.attributes.type || (el.attributes.medium === 'image' ? 'image/*' : null),
+            length: el.attributes.fileSize ? parseInt(el.attributes.fileSize, 10) : null,
+        }));
+}
+
+function pickImage(item: XmlElement, enclosures: FeedEnclosure[], ...markup: string[]): string | null {
+    const thumbnail = descendantsNamed(item, 'media:thumbnail')[0]?.attributes.url;
+    if (thumbnail) return thumbnail;
+
+    const image = enclosures.find(enclosure =>
+        enclosure.type?.startsWith('image') || /\.(jpe?g|png|gif|webp)(\?|$)/i.test(enclosure.url)
+    );
+    if (image) return image.url;
+
+    for (const fragment of markup) {
+        const inline = firstImageIn(fragment);
+        if (inline) return inline;
+    }
+    return null;
+}
+
+function rssEntry(item: XmlElement): FeedEntry {
+    const enclosures: FeedEnclosure[] = [
+        ...childrenNamed(item, 'enclosure')
+            .filter(el => el.attributes.url)
+            .map(el => ({
+                url: el.attributes.url,
+                type: el.attributes.type || null,
+                length: el.attributes.length ? parseInt(el.attributes.length, 10) : null,
+            })),
+        ...childrenNamed(item, 'enc:enclosure')
+            .map(el => el.attributes['rdf:resource'] || el.attributes.resource || el.attributes.url)
+            .filter(Boolean)
+            .map(url => ({ url, type: null, length: null })),
+        ...mediaEnclosures(item),
+    ];
+
+    // RSS 1.0 items carry their URL in rdf:about
+    const link = text(child(item, 'link')) || item.attributes['rdf:about'] || '';
+    const guid = child(item, 'guid');
+    const description = html(child(item, 'description'));
+    const content = html(child(item, 'content:encoded')) || null;
+
+    return {
+        id: text(guid) || item.attributes['rdf:about'] || link,
+        title: text(child(item, 'title')),
+        link: link || (guid?.attributes.isPermaLink !== 'false' ? text(guid) : ''),
+        description,
+        content,
+        author: text(child(item, 'dc:creator', 'author')) || null,
+        categories: childrenNamed(item, 'category', 'dc:subject').map(text).filter(Boolean),
+        publishedAt: parseFeedDate(text(child(item, 'pubDate', 'dc:date'))),
+        updatedAt: null,
+        imageUrl: pickImage(item, enclosures, description, content || ''),
+        enclosures,
+    };
+}
+
+// Atom elements are unprefixed in Atom documents and "atom:" inside others
+function atom(element: XmlElement, name: string): XmlElement | undefined {
+    return child(element, name, `atom:${name}`);
+}
+
+function atomAll(element: XmlElement, name: string): XmlElement[] {
+    return childrenNamed(element, name, `atom:${name}`);
+}
+
+function atomContent(element: XmlElement | undefined): string {
+    if (!element) return '';
+    // type="xhtml" wraps real markup in a div; text and html are escaped
+    return element.attributes.type === 'xhtml' ? element.inner.trim() : html(element);
+}
+
+function atomEntry(entry: XmlElement): FeedEntry {
+    const links = atomAll(entry, 'link');
+    const alternate = links.find(l => !l.attributes.rel || l.attributes.rel === 'alternate');
+    const enclosures: FeedEnclosure[] = [
+        ...links
+            .filter(l => l.attributes.rel === 'enclosure' && l.attributes.href)
+            .map(l => ({
+                url: l.attributes.href,
+                type: l.attributes.type || null,
+                length: l.attributes.length ? parseInt(l.attributes.length, 10) : null,
+            })),
+        ...mediaEnclosures(entry),
+    ];
+
+    const description = atomContent(atom(entry, 'summary'));
+    const content = atomContent(atom(entry, 'content')) || null;
+    const updatedAt = parseFeedDate(text(atom(entry, 'updated')));
+    const author = atom(entry, 'author');
+
+    return {
+        id: text(atom(entry, 'id')) || alternate?.attributes.href || '',
+        title: text(atom(entry, 'title')),
+        link: alternate?.attributes.href || links[0]?.attributes.href || '',
+        description: description || content || '',
+        content,
+        author: author ? text(atom(author, 'name')) || text(author) || null : null,
+        categories: atomAll(entry, 'category').map(c => c.attributes.term || c.attributes.label || text(c)).filter(Boolean),
+        publishedAt: parseFeedDate(text(atom(entry, 'published'))) || updatedAt,
+        updatedAt,
+        imageUrl: pickImage(entry, enclosures, content || '', description),
+        enclosures,
+    };
+}
+
+/**
+ * Parse an RSS 2.0, Atom or RSS 1.0 document. Throws when the markup isn't
+ * a feed at all (e.g. an HTML error page).
+ */
+export function parseFeed(xml: string): ParsedFeed {
+    const document = parseXml(xml);
+    const root = document.children.find(el => ['rss', 'feed', 'atom:feed', 'rdf:RDF'].includes(el.name));
+
+    if (!root) {
+        throw new Error('Not an RSS, Atom or RDF feed');
+    }
+
+    if (root.name === 'feed' || root.name === 'atom:feed') {
+        const alternate = atomAll(root, 'link').find(l => !l.attributes.rel || l.attributes.rel === 'alternate');
+        return {
+            format: 'atom',
+            title: text(atom(root, 'title')),
+            link: alternate?.attributes.href || '',
+            entries: atomAll(root, 'entry').map(atomEntry),
+        };
+    }
+
+    const channel = child(root, 'channel');
+    // RSS 2.0 nests items in the channel; RSS 1.0 makes them its siblings
+    const items = root.name === 'rdf:RDF' ? childrenNamed(root, 'item') : channel ? childrenNamed(channel, 'item') : [];
+
+    return {
+        format: root.name === 'rdf:RDF' ? 'rdf' : 'rss',
+        title: text(channel && child(channel, 'title')),
+        link: text(channel && child(channel, 'link')),
+        entries: items.map(rssEntry),
+    };
+}
@@ -0,0 +1,187 @@
+/**
+ * Tolerant XML Reader
+ * Builds an element tree from feed markup without a DOM. Handles CDATA,
+ * comments, processing instructions and numeric/XML entities, resolves
+ * namespace prefixes to conventional ones (so `<x:creator>` declared with
+ * the Dublin Core URI reads as `dc:creator`), and recovers from the
+ * unclosed or mismatched tags real feeds ship with.
+ */
+
+export interface XmlElement {
+    name: string;                       // Qualified name with a canonical prefix, e.g. "media:content"
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;                       // Direct text and CDATA content, entities decoded
+    inner: string;                      // Raw markup between the start and end tags
+}
+
+// Conventional prefix for each namespace feeds use
+const NAMESPACES: Record<string, string> = {
+    'http://www.w3.org/2005/Atom': 'atom',
+    'http://purl.org/dc/elements/1.1/': 'dc',
+    'http://purl.org/rss/1.0/modules/content/': 'content',
+    'http://search.yahoo.com/mrss/': 'media',
+    'http://search.yahoo.com/mrss': 'media',
+    'http://purl.oclc.org/net/rss_2.0/enc#': 'enc',
+    'http://www.w3.org/1999/02/22-rdf-syntax-ns#': 'rdf',
+};
+
+const XML_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+};
+
+/**
+ * Decode XML entities; named HTML entities are left for htmlToText
+ */
+export function decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+        if (body[0] === '#') {
+            const code = body[1] === 'x' || body[1] === 'X'
+                ? parseInt(body.slice(2), 16)
+                : parseInt(body.slice(1), 10);
+            return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+        }
+        return XML_ENTITIES[body] ?? entity;
+    });
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const attrRegex = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+    let match;
+
+    while ((match = attrRegex.exec(raw)) !== null) {
+        attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+
+    return attributes;
+}
+
+interface OpenElement {
+    element: XmlElement;
+    rawName: string;
+    innerStart: number;
+    namespaces: Record<string, string>;
+}
+
+function canonicalName(rawName: string, namespaces: Record<string, string>): string {
+    const colon = rawName.indexOf(':');
+    if (colon === -1) return rawName;
+
+    const prefix = rawName.slice(0, colon);
+    const uri = namespaces[prefix];
+    const canonical = uri ? NAMESPACES[uri] : undefined;
+    return `${canonical || prefix}:${rawName.slice(colon + 1)}`;
+}
+
+function canonicalAttributes(attributes: Record<string, string>, namespaces: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [name, value] of Object.entries(attributes)) {
+        result[name.startsWith('xmlns') ? name : canonicalName(name, namespaces)] = value;
+    }
+    return result;
+}
+
+/**
+ * Parse markup into a single root element (a synthetic "#document" holding
+ * every top-level element)
+ */
+export function parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '', inner: xml };
+    const stack: OpenElement[] = [{ element: root, rawName: '#document', innerStart: 0, namespaces: {} }];
+    const tokenRegex = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/gi;
+
+    let last = 0;
+    let match;
+
+    const appendText = (text: string) => {
+        stack[stack.length - 1].element.text += text;
+    };
+
+    while ((match = tokenRegex.exec(xml)) !== null) {
+        if (match.index > last) appendText(decodeXmlEntities(xml.slice(last, match.index)));
+        last = tokenRegex.lastIndex;
+
+        // Comments, processing instructions and doctypes match none of these
+        const [, cdata, endName, startName, rawAttributes, selfClosing] = match;
+
+        if (cdata !== undefined) {
+            appendText(cdata);
+        } else if (endName) {
+            // Close the nearest matching element; a stray end tag is ignored
+            const index = stack.map(open => open.rawName).lastIndexOf(endName);
+            if (index > 0) {
+                for (let i = stack.length - 1; i >= index; i--) {
+                    stack[i].element.inner = xml.slice(stack[i].innerStart, match.index);
+                }
+                stack.length = index;
+            }
+        } else if (startName) {
+            const parent = stack[stack.length - 1];
+            const attributes = parseAttributes(rawAttributes || '');
+
+            let namespaces = parent.namespaces;
+            for (const [name, value] of Object.entries(attributes)) {
+                if (name.startsWith('xmlns:')) {
+                    namespaces = { ...namespaces, [name.slice(6)]: value };
+                }
+            }
+
+            const element: XmlElement = {
+                name: canonicalName(startName, namespaces),
+                attributes: canonicalAttributes(attributes, namespaces),
+                children: [],
+                text: '',
+                inner: '',
+            };
+            parent.element.children.push(element);
+
+            if (!selfClosing) {
+                stack.push({ element, rawName: startName, innerStart: last, namespaces });
+            }
+        }
+    }
+
+    if (last < xml.length) appendText(decodeXmlEntities(xml.slice(last)));
+
+    // Elements never closed run to the end of the document
+    for (let i = stack.length - 1; i > 0; i--) {
+        stack[i].element.inner = xml.slice(stack[i].innerStart);
+    }
+
+    return root;
+}
+
+/**
+ * Direct children with a given name
+ */
+export function childrenNamed(element: XmlElement, ...names: string[]): XmlElement[] {
+    return element.children.filter(child => names.includes(child.name));
+}
+
+/**
+ * First direct child with any of the names, in the order given
+ */
+export function child(element: XmlElement, ...names: string[]): XmlElement | undefined {
+    for (const name of names) {
+        const found = element.children.find(c => c.name === name);
+        if (found) return found;
+    }
+    return undefined;
+}
+
+/**
+ * Depth-first search for elements with a given name
+ */
+export function descendantsNamed(element: XmlElement, name: string): XmlElement[] {
+    const found: XmlElement[] = [];
+    for (const c of element.children) {
+        if (c.name === name) found.push(c);
+        else found.push(...descendantsNamed(c, name));
+    }
+    return found;
+}
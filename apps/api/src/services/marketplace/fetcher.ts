@@ -1,9 +1,14 @@
 /**
  * Base Fetcher Class
- * Handles rate limiting, retries, and error handling for all sources
+ * Handles rate limiting, retries, error handling and health tracking for all sources
  */
 
-import type { MarketplaceSource, RawDeal, FetchResult, SourceConfig } from './types';
+import type { DealSource, RawDeal, FetchResult, SourceConfig, SourceHealth, PriceCheck } from './types';
+import { fixtureFetch, sourceMode } from './fixtures';
+import { feedClient, type FeedFetchResult } from './feeds';
+
+// Consecutive failed fetches before a source is reported down rather than degraded
+const DOWN_AFTER_FAILURES = 3;
 
 export abstract class BaseFetcher {
     protected config: SourceConfig;
@@ -11,6 +16,12 @@ export abstract class BaseFetcher {
     private dailyRequestCount: number = 0;
     private lastRequestTime: number = 0;
     private dailyResetTime: number = Date.now();
+    private lastSuccessAt: Date | null = null;
+    private lastFailureAt: Date | null = null;
+    private lastError: string | null = null;
+    private consecutiveFailures: number = 0;
+    private lastDuration: number | null = null;
+    private lastCount: number | null = null;
 
     constructor(config: SourceConfig) {
         this.config = config;
@@ -43,11 +54,16 @@ export abstract class BaseFetcher {
             throw new Error(`Daily rate limit exceeded for ${this.config.name}`);
         }
 
+        // Replayed fixtures don't touch the source: no throttling, and a
+        // missing fixture won't appear on retry
+        const replaying = sourceMode() === 'replay';
+        if (replaying) retries = 1;
+
         // Calculate delay for rate limiting
         const minInterval = 60000 / this.config.rateLimit.requestsPerMinute;
         const timeSinceLastRequest = Date.now() - this.lastRequestTime;
 
-        if (timeSinceLastRequest < minInterval) {
+        if (!replaying && timeSinceLastRequest < minInterval) {
             await this.delay(minInterval - timeSinceLastRequest);
         }
 
@@ -75,6 +91,19 @@ export abstract class BaseFetcher {
         throw lastError;
     }
 
+    // HTTP request to the source, recorded or replayed per SOURCE_MODE
+    protected request(url: string, init?: RequestInit): Promise<Response> {
+        return fixtureFetch(this.config.name, url, init);
+    }
+
+    // Feed request with conditional GET; a 304 returns the last parse
+    protected fetchFeed(url: string, headers?: Record<string, string>): Promise<FeedFetchResult> {
+        return feedClient.fetch(this.config.name, url, {
+            request: (input, init) => this.request(input, init),
+            headers
+        });
+    }
+
     private delay(ms: number): Promise<void> {
         return new Promise(resolve => setTimeout(resolve, ms));
     }
@@ -83,12 +112,39 @@ export abstract class BaseFetcher {
     abstract fetchDeals(category?: string): Promise<FetchResult>;
     abstract searchDeals(query: string): Promise<FetchResult>;
 
-    // Helper to create consistent fetch results
+    // Re-check a stored deal. Sources without an item lookup search by title
+    // and match on sourceId; null means the source can't say either way.
+    async checkDeal(sourceId: string, title: string): Promise<PriceCheck | null> {
+        const result = await this.searchDeals(title);
+        if (!result.success) return null;
+
+        const match = result.deals.find(d => d.sourceId === sourceId);
+        if (!match) return null;
+
+        return {
+            currentPrice: match.currentPrice,
+            inStock: match.inStock !== false
+        };
+    }
+
+    // Helper to create consistent fetch results; every fetch passes through
+    // here, so it also records the source's health
     protected createResult(
         deals: RawDeal[],
         startTime: number,
         error?: string
     ): FetchResult {
+        this.lastDuration = Date.now() - startTime;
+        if (error) {
+            this.lastFailureAt = new Date();
+            this.lastError = error;
+            this.consecutiveFailures++;
+        } else {
+            this.lastSuccessAt = new Date();
+            this.lastCount = deals.length;
+            this.consecutiveFailures = 0;
+        }
+
         return {
             source: this.config.name,
             deals,
@@ -141,18 +197,61 @@ export abstract class BaseFetcher {
         return 'other';
     }
 
-    // Get stats for monitoring
-    getStats(): {
-        source: MarketplaceSource;
-        enabled: boolean;
-        requestsToday: number;
-        remainingToday: number;
-    } {
+    get name(): DealSource {
+        return this.config.name;
+    }
+
+    get priority(): number {
+        return this.config.priority;
+    }
+
+    // Code-defined fetchers are built in; configured adapters report their type
+    get adapterType(): SourceHealth['adapter'] {
+        return 'builtin';
+    }
+
+    isEnabled(): boolean {
+        return this.config.enabled;
+    }
+
+    setEnabled(enabled: boolean): void {
+        this.config.enabled = enabled;
+    }
+
+    // Whether credentials the source needs are present; checked lazily so
+    // values loaded by dotenv after import still count
+    isConfigured(): boolean {
+        return true;
+    }
+
+    // Health and usage for monitoring
+    getHealth(): SourceHealth {
+        const configured = this.isConfigured();
+        let status: SourceHealth['status'];
+        if (!this.config.enabled) status = 'disabled';
+        else if (!configured) status = 'unconfigured';
+        else if (this.consecutiveFailures >= DOWN_AFTER_FAILURES) status = 'down';
+        else if (this.consecutiveFailures > 0) status = 'degraded';
+        else if (this.lastSuccessAt) status = 'healthy';
+        else status = 'unknown';
+
         return {
             source: this.config.name,
+            displayName: this.config.displayName || this.config.name,
+            adapter: this.adapterType,
+            status,
             enabled: this.config.enabled,
+            configured,
+            priority: this.config.priority,
+            rateLimit: this.config.rateLimit,
             requestsToday: this.dailyRequestCount,
-            remainingToday: this.config.rateLimit.requestsPerDay - this.dailyRequestCount
+            remainingToday: this.config.rateLimit.requestsPerDay - this.dailyRequestCount,
+            lastSuccessAt: this.lastSuccessAt,
+            lastFailureAt: this.lastFailureAt,
+            lastError: this.lastError,
+            consecutiveFailures: this.consecutiveFailures,
+            lastDuration: this.lastDuration,
+            lastCount: this.lastCount
         };
     }
 }
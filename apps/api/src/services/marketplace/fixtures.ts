@@ -0,0 +1,150 @@
+/**
+ * Source Fixtures - Record / Replay for Outbound Requests
+ *
+ * Every source request goes through fixtureFetch. SOURCE_MODE picks what
+ * it does:
+ * - live (default): plain fetch
+ * - record: fetch, then save the response under SOURCE_FIXTURE_DIR
+ * - replay: answer from the saved response without touching the network;
+ *   a request with no fixture fails instead of falling back to live
+ *
+ * Fixtures are keyed by source, method, URL and body. Query parameters
+ * that look like credentials are redacted before the key is computed, and
+ * request headers are never written, so recorded files are safe to commit.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+export type SourceMode = 'live' | 'record' | 'replay';
+
+export interface SourceFixture {
+    request: {
+        method: string;
+        url: string;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        contentType: string | null;
+        body: string;
+    };
+    recordedAt: string;
+}
+
+const SECRET_PARAM = /key|token|secret|sig|password|auth/i;
+
+// Read lazily: dotenv loads after module evaluation
+export function sourceMode(): SourceMode {
+    const mode = process.env.SOURCE_MODE;
+    return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+function fixtureDir(): string {
+    return process.env.SOURCE_FIXTURE_DIR || path.resolve('fixtures/sources');
+}
+
+function redactUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        for (const name of Array.from(parsed.searchParams.keys())) {
+            if (SECRET_PARAM.test(name)) parsed.searchParams.set(name, 'REDACTED');
+        }
+        return parsed.toString();
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Where the fixture for a request lives: a readable slug of the URL plus a
+ * hash of the full request, e.g. slickdeals/slickdeals-net-newsearch-php-3f2a9c1e.json
+ */
+export function fixturePath(source: string, method: string, url: string, body?: string): string {
+    const redacted = redactUrl(url);
+    const hash = createHash('sha1')
+        .update(`${method.toUpperCase()} ${redacted}\n${body || ''}`)
+        .digest('hex')
+        .slice(0, 8);
+
+    let slug = redacted;
+    try {
+        const parsed = new URL(redacted);
+        slug = `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname}`;
+    } catch {
+        // Not a URL; slug the raw string
+    }
+    slug = slug.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+
+    return path.join(fixtureDir(), source, `${slug}-${hash}.json`);
+}
+
+function requestBody(init?: RequestInit): string | undefined {
+    return typeof init?.body === 'string' ? init.body : undefined;
+}
+
+function replay(source: string, url: string, init?: RequestInit): Response {
+    const method = init?.method || 'GET';
+    const file = fixturePath(source, method, url, requestBody(init));
+
+    if (!fs.existsSync(file)) {
+        throw new Error(`No fixture for ${method} ${redactUrl(url)} (${path.relative(process.cwd(), file)}); record one with SOURCE_MODE=record`);
+    }
+
+    const fixture = JSON.parse(fs.readFileSync(file, 'utf8')) as SourceFixture;
+    return new Response(fixture.response.body, {
+        status: fixture.response.status,
+        statusText: fixture.response.statusText,
+        headers: fixture.response.contentType ? { 'Content-Type': fixture.response.contentType } : {},
+    });
+}
+
+async function record(source: string, url: string, init?: RequestInit): Promise<Response> {
+    const method = init?.method || 'GET';
+
+    // Drop conditional GET validators so every fixture holds a full body
+    const headers = new Headers(init?.headers);
+    headers.delete('If-None-Match');
+    headers.delete('If-Modified-Since');
+
+    const response = await fetch(url, { ...init, headers });
+    const body = await response.text();
+
+    const fixture: SourceFixture = {
+        request: { method, url: redactUrl(url) },
+        response: {
+            status: response.status,
+            statusText: response.statusText,
+            contentType: response.headers.get('content-type'),
+            body,
+        },
+        recordedAt: new Date().toISOString(),
+    };
+
+    const file = fixturePath(source, method, url, requestBody(init));
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+    console.log(`[Fixtures] Recorded ${method} ${fixture.request.url} -> ${path.relative(process.cwd(), file)}`);
+
+    // The body was consumed; hand the caller an equivalent response
+    return new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+    });
+}
+
+/**
+ * Drop-in for fetch on source requests
+ */
+export async function fixtureFetch(source: string, url: string, init?: RequestInit): Promise<Response> {
+    switch (sourceMode()) {
+        case 'replay':
+            return replay(source, url, init);
+        case 'record':
+            return record(source, url, init);
+        default:
+            return fetch(url, init);
+    }
+}
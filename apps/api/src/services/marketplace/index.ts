@@ -7,9 +7,21 @@ export * from './cache';
 export * from './normalizer';
 export * from './scoring';
 export { marketplaceAggregator } from './aggregator';
+export { sourceRegistry, SourceRegistry } from './registry';
+export { createSourceAdapter, ConfiguredSourceAdapter, RssSourceAdapter, JsonApiSourceAdapter, HtmlSourceAdapter } from './adapters';
+export { feedClient, FeedClient, parseFeed, parseFeedDate, extractPrice, extractOriginalPrice } from './feeds';
+export type { FeedEntry, FeedEnclosure, FeedFormat, ParsedFeed, FeedFetchResult } from './feeds';
+export { fixtureFetch, fixturePath, sourceMode } from './fixtures';
+export type { SourceMode, SourceFixture } from './fixtures';
+export { dealPipeline, DealPipeline } from './pipeline';
+export type { PipelineOptions, PipelineRun } from './pipeline';
 
 // Source exports
 export { slickdealsFetcher } from './sources/slickdeals';
 export { dealNewsFetcher } from './sources/dealnews';
 export { ebayFetcher } from './sources/ebay';
 export { craigslistFetcher, CraigslistFetcher } from './sources/craigslist';
+export { dealIngestion, fromNormalizedDeal, sourceForMarketplace, catalogCategoryLabel } from './ingestion';
+export type { DealInput, IngestionResult, CatalogQuery } from './ingestion';
+export { dealEvents, DealEventStream } from './dealEvents';
+export type { DealEventType, DealStreamEvent } from './dealEvents';
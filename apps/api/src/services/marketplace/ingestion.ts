@@ -0,0 +1,405 @@
+/**
+ * Deal Ingestion Service
+ * Persists aggregated deals into the Deal / DealPriceHistory catalog,
+ * keeps their derived price fields current, and serves filtered,
+ * paginated queries over it
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { NormalizedDeal, MarketplaceSource, DealSource, DealCategory, DealCondition, AdapterMarketplace } from './types';
+import { createFingerprint } from './normalizer';
+import { priceHistoryService } from '../aggregation/priceHistory';
+import { alertEngine } from '../alerts';
+import { dealEvents } from './dealEvents';
+import { sourceRegistry } from './registry';
+import { productMatcher } from '../matching';
+import { gazetteer } from '../geo';
+
+const prisma = new PrismaClient();
+
+/**
+ * Source-agnostic shape written to the catalog. Pipeline deals map into this
+ * via fromNormalizedDeal; user submissions and seeds write it directly.
+ */
+export interface DealInput {
+    source: string;             // MarketplaceSource, or a merchant name from an affiliate network
+    externalId?: string;
+    externalUrl: string;
+    title: string;
+    description?: string;
+    imageUrl?: string;
+    currentPrice: number;
+    originalPrice?: number;
+    currency?: string;
+    condition?: string;
+    category: string;
+    brand?: string;
+    model?: string;
+    upc?: string;
+    mpn?: string;
+    city?: string;
+    state?: string;
+    zipCode?: string;
+    latitude?: number;          // When the source gives coordinates; else geocoded from the above
+    longitude?: number;
+    sellerName?: string;
+    sellerRating?: number;
+    sellerReviews?: number;
+    isVerifiedSeller?: boolean;
+    dealScore?: number;
+    aiVerdict?: string;
+    inStock?: boolean;
+    postedAt?: Date;
+    expiresAt?: Date | null;
+}
+
+export interface IngestionResult {
+    received: number;
+    created: number;
+    updated: number;
+    priceChanges: number;
+    failed: number;
+    duration: number;           // ms
+}
+
+export interface CatalogQuery {
+    category?: string;
+    marketplaces?: string[];    // Marketplace IDs or names
+    sources?: DealSource[];
+    condition?: string;
+    city?: string;
+    brand?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    minScore?: number;
+    sort?: 'score' | 'price-low' | 'price-high' | 'discount' | 'recent';
+    page?: number;
+    limit?: number;
+}
+
+const SOURCE_MARKETPLACES: Record<MarketplaceSource, AdapterMarketplace> = {
+    amazon: { name: 'Amazon', type: 'retail', baseUrl: 'https://amazon.com', color: '#FF9900' },
+    ebay: { name: 'eBay', type: 'auction', baseUrl: 'https://ebay.com', color: '#E53238' },
+    bestbuy: { name: 'Best Buy', type: 'retail', baseUrl: 'https://bestbuy.com', color: '#0046BE' },
+    walmart: { name: 'Walmart', type: 'retail', baseUrl: 'https://walmart.com', color: '#0071CE' },
+    target: { name: 'Target', type: 'retail', baseUrl: 'https://target.com', color: '#CC0000' },
+    newegg: { name: 'Newegg', type: 'retail', baseUrl: 'https://newegg.com', color: '#F7A21B' },
+    slickdeals: { name: 'Slickdeals', type: 'aggregator', baseUrl: 'https://slickdeals.net', color: '#2A6EBB' },
+    dealnews: { name: 'DealNews', type: 'aggregator', baseUrl: 'https://dealnews.com', color: '#E4002B' },
+    techbargains: { name: 'TechBargains', type: 'aggregator', baseUrl: 'https://techbargains.com', color: '#1B75BC' },
+    craigslist: { name: 'Craigslist', type: 'classifieds', baseUrl: 'https://craigslist.org', color: '#5A2D82' },
+    facebook: { name: 'Facebook Marketplace', type: 'p2p', baseUrl: 'https://facebook.com/marketplace', color: '#1877F2' },
+    offerup: { name: 'OfferUp', type: 'p2p', baseUrl: 'https://offerup.com', color: '#00A87E' },
+};
+
+// Catalog uses the display labels the seed data and web app filter on
+const CATEGORY_LABELS: Record<DealCategory, string> = {
+    laptops: 'Laptops',
+    phones: 'Phones',
+    tvs: 'TVs',
+    gaming: 'Gaming',
+    audio: 'Audio',
+    wearables: 'Wearables',
+    cameras: 'Cameras',
+    computers: 'Desktops',
+    tablets: 'Tablets',
+    accessories: 'Accessories',
+    other: 'Electronics',
+};
+
+// Catalog label for a pipeline category
+export function catalogCategoryLabel(category: DealCategory): string {
+    return CATEGORY_LABELS[category] || CATEGORY_LABELS.other;
+}
+
+const CONDITION_VALUES: Record<DealCondition, string> = {
+    new: 'new',
+    like_new: 'like-new',
+    refurbished: 'refurbished',
+    used: 'used',
+    for_parts: 'for-parts',
+};
+
+/**
+ * Map a canonical pipeline deal into the catalog shape
+ */
+export function fromNormalizedDeal(deal: NormalizedDeal): DealInput {
+    return {
+        source: deal.source,
+        externalId: deal.sourceId || undefined,
+        externalUrl: deal.sourceUrl,
+        title: deal.title,
+        description: deal.description || undefined,
+        imageUrl: deal.imageUrl || undefined,
+        currentPrice: deal.currentPrice,
+        originalPrice: deal.originalPrice,
+        currency: deal.currency,
+        condition: CONDITION_VALUES[deal.condition],
+        category: catalogCategoryLabel(deal.category),
+        brand: deal.brand !== 'Unknown' ? deal.brand : undefined,
+        model: deal.model || undefined,
+        upc: deal.upc || undefined,
+        mpn: deal.mpn || undefined,
+        city: deal.location?.city || undefined,
+        state: deal.location?.state || undefined,
+        zipCode: deal.location?.zip,
+        latitude: deal.location?.lat,
+        longitude: deal.location?.lng,
+        sellerName: deal.seller.name,
+        sellerRating: deal.seller.rating,
+        sellerReviews: deal.seller.reviews,
+        isVerifiedSeller: deal.seller.verified,
+        dealScore: deal.aiScore?.overall,
+        aiVerdict: deal.aiScore?.verdict,
+        inStock: deal.inStock,
+        postedAt: deal.postedAt,
+        expiresAt: deal.expiresAt,
+    };
+}
+
+// Built-in marketplace for a source, else the one its config declares
+function marketplaceFor(source: DealSource): AdapterMarketplace | undefined {
+    return SOURCE_MARKETPLACES[source as MarketplaceSource] || sourceRegistry.marketplaceFor(source);
+}
+
+/**
+ * Reverse lookup from a Marketplace row name to the source that feeds it
+ */
+export function sourceForMarketplace(name: string): DealSource | undefined {
+    const entry = Object.entries(SOURCE_MARKETPLACES).find(([, m]) => m.name === name);
+    if (entry) return entry[0];
+
+    return sourceRegistry.list().find(fetcher => sourceRegistry.marketplaceFor(fetcher.name)?.name === name)?.name;
+}
+
+class DealIngestionService {
+    // Marketplace row IDs by source key, resolved once per process
+    private marketplaceIds: Map<string, string> = new Map();
+
+    /**
+     * Upsert deals into the catalog, appending price history on every change
+     */
+    async ingestDeals(deals: DealInput[]): Promise<IngestionResult> {
+        const startTime = Date.now();
+        const result: IngestionResult = {
+            received: deals.length,
+            created: 0,
+            updated: 0,
+            priceChanges: 0,
+            failed: 0,
+            duration: 0,
+        };
+
+        for (const deal of deals) {
+            if (!(deal.currentPrice > 0)) {
+                result.failed++;
+                continue;
+            }
+
+            try {
+                const outcome = await this.ingestDeal(deal);
+                if (outcome === 'created') result.created++;
+                else result.updated++;
+                if (outcome === 'repriced') result.priceChanges++;
+            } catch (error) {
+                console.error(`[Ingestion] Failed to ingest "${deal.title}":`, error);
+                result.failed++;
+            }
+        }
+
+        result.duration = Date.now() - startTime;
+        console.log(
+            `[Ingestion] ${result.received} deals: ${result.created} new, ${result.updated} updated, ` +
+            `${result.priceChanges} price changes, ${result.failed} failed (${result.duration}ms)`
+        );
+
+        return result;
+    }
+
+    /**
+     * Convenience wrapper for canonical pipeline deals
+     */
+    async ingestNormalizedDeals(deals: NormalizedDeal[]): Promise<IngestionResult> {
+        return this.ingestDeals(deals.map(fromNormalizedDeal));
+    }
+
+    /**
+     * Query the stored catalog
+     */
+    async queryCatalog(query: CatalogQuery = {}) {
+        const page = Math.max(1, query.page || 1);
+        const limit = Math.min(100, Math.max(1, query.limit || 30));
+
+        const where: Prisma.DealWhereInput = { isExpired: false };
+
+        if (query.category) where.category = query.category;
+        if (query.condition) where.condition = query.condition;
+        if (query.city) where.city = query.city;
+        if (query.brand) where.brand = query.brand;
+
+        if (query.minPrice !== undefined || query.maxPrice !== undefined) {
+            where.currentPrice = {
+                ...(query.minPrice !== undefined ? { gte: query.minPrice } : {}),
+                ...(query.maxPrice !== undefined ? { lte: query.maxPrice } : {}),
+            };
+        }
+
+        if (query.minScore !== undefined) {
+            where.dealScore = { gte: query.minScore };
+        }
+
+        const marketplaceKeys = [
+            ...(query.marketplaces || []),
+            ...(query.sources || []).map(s => marketplaceFor(s)?.name || s),
+        ];
+        if (marketplaceKeys.length > 0) {
+            where.marketplace = {
+                OR: [
+                    { id: { in: marketplaceKeys } },
+                    { name: { in: marketplaceKeys } },
+                ],
+            };
+        }
+
+        const orderBy: Prisma.DealOrderByWithRelationInput[] = {
+            'score': [{ dealScore: 'desc' as const }],
+            'price-low': [{ currentPrice: 'asc' as const }],
+            'price-high': [{ currentPrice: 'desc' as const }],
+            'discount': [{ discountPercent: 'desc' as const }],
+            'recent': [{ postedAt: 'desc' as const }],
+        }[query.sort || 'score'];
+        orderBy.push({ createdAt: 'desc' });
+
+        const [deals, total] = await Promise.all([
+            prisma.deal.findMany({
+                where,
+                include: { marketplace: true },
+                orderBy,
+                skip: (page - 1) * limit,
+                take: limit,
+            }),
+            prisma.deal.count({ where }),
+        ]);
+
+        return {
+            deals,
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    private async ingestDeal(deal: DealInput): Promise<'created' | 'repriced' | 'unchanged'> {
+        const marketplaceId = await this.resolveMarketplace(deal.source);
+        const fingerprint = createFingerprint(deal.title);
+
+        const existing = deal.externalId
+            ? await prisma.deal.findUnique({
+                where: { marketplaceId_externalId: { marketplaceId, externalId: deal.externalId } },
+            })
+            : await prisma.deal.findFirst({
+                where: { marketplaceId, fingerprint },
+            });
+
+        const originalPrice = deal.originalPrice && deal.originalPrice > deal.currentPrice
+            ? deal.originalPrice
+            : null;
+        const discountPercent = originalPrice
+            ? Math.round(((originalPrice - deal.currentPrice) / originalPrice) * 100)
+            : null;
+
+        const data = {
+            title: deal.title,
+            description: deal.description,
+            imageUrl: deal.imageUrl,
+            originalPrice,
+            currentPrice: deal.currentPrice,
+            currency: deal.currency || 'USD',
+            discountPercent,
+            externalUrl: deal.externalUrl,
+            fingerprint,
+            city: deal.city,
+            state: deal.state,
+            zipCode: deal.zipCode,
+            ...(deal.latitude !== undefined && deal.longitude !== undefined
+                ? { latitude: deal.latitude, longitude: deal.longitude }
+                : gazetteer.coordinatesFor(deal)),
+            condition: deal.condition || 'new',
+            category: deal.category,
+            brand: deal.brand,
+            model: deal.model,
+            upc: deal.upc,
+            mpn: deal.mpn,
+            dealScore: deal.dealScore !== undefined ? Math.round(deal.dealScore) : undefined,
+            aiVerdict: deal.aiVerdict,
+            sellerName: deal.sellerName,
+            sellerRating: deal.sellerRating,
+            sellerReviews: deal.sellerReviews,
+            isVerifiedSeller: deal.isVerifiedSeller,
+            inStock: deal.inStock ?? true,
+            isExpired: !!deal.expiresAt && deal.expiresAt < new Date(),
+            postedAt: deal.postedAt,
+            expiresAt: deal.expiresAt,
+        };
+
+        if (!existing) {
+            const created = await prisma.deal.create({
+                data: {
+                    ...data,
+                    marketplaceId,
+                    externalId: deal.externalId,
+                    priceHistory: { create: { price: deal.currentPrice } },
+                },
+            });
+            await priceHistoryService.refreshDeal(created.id);
+            await productMatcher.matchDeal(created.id);
+            await alertEngine.evaluateDeal(created.id);
+            await dealEvents.record('deal.created', created.id);
+            return 'created';
+        }
+
+        const priceChanged = existing.currentPrice !== deal.currentPrice;
+
+        await prisma.deal.update({
+            where: { id: existing.id },
+            data: {
+                ...data,
+                ...(priceChanged ? { priceHistory: { create: { price: deal.currentPrice } } } : {}),
+            },
+        });
+        await priceHistoryService.refreshDeal(existing.id);
+        if (!existing.productId) {
+            await productMatcher.matchDeal(existing.id);
+        }
+        if (priceChanged) {
+            await alertEngine.evaluateDeal(existing.id);
+            await dealEvents.record('deal.price_changed', existing.id, { previousPrice: existing.currentPrice });
+        }
+        if (data.isExpired && !existing.isExpired) {
+            await dealEvents.record('deal.expired', existing.id);
+        }
+
+        return priceChanged ? 'repriced' : 'unchanged';
+    }
+
+    /**
+     * Find or create the Marketplace row for a source key or display name
+     */
+    private async resolveMarketplace(source: string): Promise<string> {
+        const cached = this.marketplaceIds.get(source);
+        if (cached) return cached;
+
+        const known = marketplaceFor(source);
+        const marketplace = await prisma.marketplace.upsert({
+            where: { name: known?.name || source },
+            update: {},
+            create: known || { name: source, type: 'retail', baseUrl: '' },
+        });
+
+        this.marketplaceIds.set(source, marketplace.id);
+        return marketplace.id;
+    }
+}
+
+export const dealIngestion = new DealIngestionService();
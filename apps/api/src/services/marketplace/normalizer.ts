@@ -1,6 +1,8 @@
 /**
  * Deal Normalizer
- * Transforms raw deals from various sources into unified format
+ * Transforms raw deals from every source (marketplace fetchers and
+ * affiliate networks) into the canonical NormalizedDeal, and merges
+ * cross-source duplicates
  */
 
 import { v4 as uuidv4 } from 'uuid';
@@ -14,6 +16,63 @@ const CONDITION_LABELS: Record<DealCondition, string> = {
     for_parts: 'For Parts'
 };
 
+// Canonical brand names and the spellings sources use for them
+const BRANDS: { canonical: string; aliases: string[] }[] = [
+    { canonical: 'Apple', aliases: ['apple inc', 'apple computer'] },
+    { canonical: 'Samsung', aliases: ['samsung electronics'] },
+    { canonical: 'Sony', aliases: ['sony corporation'] },
+    { canonical: 'LG', aliases: ['lg electronics'] },
+    { canonical: 'Microsoft', aliases: ['microsoft corporation'] },
+    { canonical: 'Dell', aliases: ['dell technologies'] },
+    { canonical: 'HP', aliases: ['hewlett-packard', 'hewlett packard', 'hp inc'] },
+    { canonical: 'Lenovo', aliases: [] },
+    { canonical: 'ASUS', aliases: ['asustek'] },
+    { canonical: 'Bose', aliases: ['bose corporation'] },
+    { canonical: 'JBL', aliases: ['jbl by harman'] },
+    { canonical: 'Beats', aliases: ['beats by dr. dre', 'beats by dre'] },
+    { canonical: 'Nintendo', aliases: [] },
+    { canonical: 'Dyson', aliases: [] },
+    { canonical: 'Google', aliases: ['google llc'] },
+    { canonical: 'Amazon', aliases: ['amazon basics', 'amazonbasics'] },
+];
+
+// Source category labels mapped onto our categories
+const CATEGORY_HINTS: [string, DealCategory][] = [
+    ['laptop', 'laptops'],
+    ['notebook', 'laptops'],
+    ['desktop', 'computers'],
+    ['monitor', 'computers'],
+    ['phone', 'phones'],
+    ['tablet', 'tablets'],
+    ['headphone', 'audio'],
+    ['earbud', 'audio'],
+    ['speaker', 'audio'],
+    ['audio', 'audio'],
+    ['tv', 'tvs'],
+    ['television', 'tvs'],
+    ['gaming', 'gaming'],
+    ['video game', 'gaming'],
+    ['console', 'gaming'],
+    ['camera', 'cameras'],
+    ['wearable', 'wearables'],
+    ['smartwatch', 'wearables'],
+    ['accessor', 'accessories'],
+];
+
+// Title words that imply a category, checked in order
+const CATEGORY_KEYWORDS: [DealCategory, string[]][] = [
+    ['laptops', ['laptop', 'notebook', 'macbook', 'chromebook', 'thinkpad', 'dell xps', 'surface laptop']],
+    ['phones', ['phone', 'iphone', 'galaxy s', 'pixel', 'smartphone', 'oneplus']],
+    ['tvs', ['tv', 'television', 'oled', 'qled', '4k tv', '8k tv', 'smart tv']],
+    ['gaming', ['xbox', 'playstation', 'ps5', 'ps4', 'nintendo', 'switch', 'gaming', 'rtx', 'gpu', 'graphics card']],
+    ['audio', ['headphones', 'earbuds', 'speaker', 'soundbar', 'airpods', 'beats', 'bose', 'sony wh', 'audio']],
+    ['wearables', ['apple watch', 'galaxy watch', 'fitbit', 'garmin', 'smartwatch', 'fitness tracker']],
+    ['cameras', ['camera', 'dslr', 'mirrorless', 'gopro', 'lens', 'canon eos', 'sony a7']],
+    ['computers', ['desktop', 'pc', 'imac', 'mac mini', 'mac studio', 'computer', 'workstation']],
+    ['tablets', ['ipad', 'tablet', 'surface pro', 'galaxy tab']],
+    ['accessories', ['case', 'charger', 'cable', 'adapter', 'keyboard', 'mouse', 'stand', 'dock']],
+];
+
 export function normalizeDeal(raw: RawDeal): NormalizedDeal {
     const now = new Date();
 
@@ -29,8 +88,12 @@ export function normalizeDeal(raw: RawDeal): NormalizedDeal {
     const comments = raw.commentCount || 0;
     const popularityScore = upvotes - downvotes + (comments * 0.5);
 
-    // Infer category from title if not provided
-    const category = inferCategory(raw.title);
+    const title = cleanTitle(raw.title);
+    const brand = extractBrand(raw.title, raw.brand);
+    const model = extractModel(raw.title);
+
+    // Prefer the source's own category, then infer from the title
+    const category = (raw.category && categoryFromHint(raw.category)) || inferCategory(raw.title);
 
     return {
         id: uuidv4(),
@@ -38,11 +101,19 @@ export function normalizeDeal(raw: RawDeal): NormalizedDeal {
         source: raw.source,
         sourceUrl: raw.sourceUrl,
 
-        title: cleanTitle(raw.title),
+        title,
         description: raw.description || '',
         category,
+        brand,
+        model,
+        upc: raw.upc || null,
+        mpn: raw.mpn || null,
         imageUrl: raw.imageUrl || getPlaceholderImage(category),
         images: raw.images || (raw.imageUrl ? [raw.imageUrl] : []),
+        // Same product from different sources shares a key once brand and model are known
+        fingerprint: brand !== 'Unknown' && model
+            ? `${brand.toLowerCase()}:${modelKey(model)}:${raw.condition || 'new'}`
+            : createFingerprint(title),
 
         currentPrice: raw.currentPrice,
         originalPrice,
@@ -62,9 +133,15 @@ export function normalizeDeal(raw: RawDeal): NormalizedDeal {
             verified: raw.isVerifiedSeller ?? false
         },
 
+        rating: raw.rating ?? null,
+        reviewCount: raw.reviewCount ?? null,
+
         location: raw.location ? {
             city: raw.location.city || '',
             state: raw.location.state || '',
+            zip: raw.location.zip,
+            lat: raw.location.lat,
+            lng: raw.location.lng,
             distance: undefined // Calculated when user location is known
         } : null,
 
@@ -94,28 +171,87 @@ export function normalizeDeals(rawDeals: RawDeal[]): NormalizedDeal[] {
 function cleanTitle(title: string): string {
     return title
         .trim()
+        .replace(/^(NEW|SALE|HOT|LIMITED|EXCLUSIVE)[\s\-:]+/gi, '')        // Promotional prefixes
+        .replace(/[\s\-]+(?:sale|deal|offer|promo|discount|clearance)$/gi, '') // Promotional suffixes
+        .replace(/\((sale|deal|offer|promo|new|save \d+%?)\)/gi, '')
         .replace(/\s+/g, ' ')           // Multiple spaces to single
         .replace(/[^\w\s\-.,()&]/g, '') // Remove special chars
+        .trim()
         .substring(0, 200);             // Limit length
 }
 
-function inferCategory(title: string): DealCategory {
-    const titleLower = title.toLowerCase();
+export function extractBrand(title: string, providedBrand?: string): string {
+    const canonical = (name: string): string | null => {
+        const lower = name.toLowerCase();
+        const brand = BRANDS.find(b => b.canonical.toLowerCase() === lower || b.aliases.includes(lower));
+        return brand?.canonical || null;
+    };
 
-    const patterns: [DealCategory, string[]][] = [
-        ['laptops', ['laptop', 'notebook', 'macbook', 'chromebook', 'thinkpad', 'dell xps', 'surface laptop']],
-        ['phones', ['phone', 'iphone', 'galaxy s', 'pixel', 'smartphone', 'oneplus']],
-        ['tvs', ['tv', 'television', 'oled', 'qled', '4k tv', '8k tv', 'smart tv']],
-        ['gaming', ['xbox', 'playstation', 'ps5', 'ps4', 'nintendo', 'switch', 'gaming', 'rtx', 'gpu', 'graphics card']],
-        ['audio', ['headphones', 'earbuds', 'speaker', 'soundbar', 'airpods', 'beats', 'bose', 'sony wh', 'audio']],
-        ['wearables', ['apple watch', 'galaxy watch', 'fitbit', 'garmin', 'smartwatch', 'fitness tracker']],
-        ['cameras', ['camera', 'dslr', 'mirrorless', 'gopro', 'lens', 'canon eos', 'sony a7']],
-        ['computers', ['desktop', 'pc', 'imac', 'mac mini', 'mac studio', 'computer', 'workstation']],
-        ['tablets', ['ipad', 'tablet', 'surface pro', 'galaxy tab']],
-        ['accessories', ['case', 'charger', 'cable', 'adapter', 'keyboard', 'mouse', 'stand', 'dock']],
+    if (providedBrand) {
+        return canonical(providedBrand) || providedBrand;
+    }
+
+    for (const word of title.split(/[\s\-]+/)) {
+        const brand = canonical(word);
+        if (brand) return brand;
+    }
+
+    return 'Unknown';
+}
+
+// Spec tokens that look like model numbers ("128GB", "1080P", "144Hz")
+const SPEC_TOKEN = /^\d+(?:GB|TB|MB|HZ|MHZ|GHZ|W|V|MP|MM|CM|IN|FT|OZ|LB|K|P|MAH|RPM|FPS|PK)$/i;
+
+export function extractModel(title: string): string | null {
+    const patterns = [
+        /\bmodel(?:\s*(?:no\.?|number|#))?[:\s]+([A-Z0-9-]*\d[A-Z0-9-]*)/gi,
+        /\b([A-Z]{1,4}-?\d{2,5}[A-Z0-9]*(?:-[A-Z0-9]+)*)\b/g,
+        /\b(\d{2,5}[A-Z]{1,3}[A-Z0-9]*(?:-[A-Z0-9]+)*)\b/g,
     ];
 
-    for (const [category, keywords] of patterns) {
+    for (const pattern of patterns) {
+        for (const match of title.matchAll(pattern)) {
+            if (!SPEC_TOKEN.test(match[1])) return match[1];
+        }
+    }
+
+    return null;
+}
+
+/**
+ * The brand and category vocabulary the normalizer recognizes, for search
+ * synonym expansion: each brand with its aliases, and each category with
+ * the words that imply it
+ */
+export function searchVocabulary(): {
+    brands: { canonical: string; aliases: string[] }[];
+    categories: Map<DealCategory, string[]>;
+} {
+    const categories = new Map<DealCategory, string[]>();
+    for (const [hint, category] of CATEGORY_HINTS) {
+        categories.set(category, [...(categories.get(category) || []), hint]);
+    }
+    for (const [category, keywords] of CATEGORY_KEYWORDS) {
+        categories.set(category, [...new Set([...(categories.get(category) || []), ...keywords])]);
+    }
+
+    return { brands: BRANDS.map(b => ({ ...b, aliases: [...b.aliases] })), categories };
+}
+
+// Model numbers compare without case or separators: "WH-1000XM5" = "wh1000xm5"
+export function modelKey(model: string): string {
+    return model.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function categoryFromHint(hint: string): DealCategory | null {
+    const lower = hint.toLowerCase();
+    return CATEGORY_HINTS.find(([key]) => lower.includes(key))?.[1] || null;
+}
+
+function inferCategory(title: string): DealCategory {
+    const titleLower = title.toLowerCase();
+
+    for (const [category, keywords] of CATEGORY_KEYWORDS) {
         if (keywords.some(k => titleLower.includes(k))) {
             return category;
         }
@@ -147,24 +283,24 @@ export function deduplicateDeals(deals: NormalizedDeal[]): NormalizedDeal[] {
     const seen = new Map<string, NormalizedDeal>();
 
     for (const deal of deals) {
-        // Create a fingerprint based on title similarity
-        const fingerprint = createFingerprint(deal.title);
-
-        const existing = seen.get(fingerprint);
-        if (existing) {
-            // Keep the one with lower price
-            if (deal.currentPrice < existing.currentPrice) {
-                seen.set(fingerprint, deal);
-            }
-        } else {
-            seen.set(fingerprint, deal);
+        const existing = seen.get(deal.fingerprint);
+        if (!existing || isBetterListing(deal, existing)) {
+            seen.set(deal.fingerprint, deal);
         }
     }
 
     return Array.from(seen.values());
 }
 
-function createFingerprint(title: string): string {
+// Lower price wins; at the same price, keep the listing with review data
+function isBetterListing(deal: NormalizedDeal, existing: NormalizedDeal): boolean {
+    if (deal.currentPrice !== existing.currentPrice) {
+        return deal.currentPrice < existing.currentPrice;
+    }
+    return deal.reviewCount !== null && existing.reviewCount === null;
+}
+
+export function createFingerprint(title: string): string {
     return title
         .toLowerCase()
         .replace(/[^\w\s]/g, '')
@@ -0,0 +1,76 @@
+/**
+ * Deal Pipeline
+ * The single path every deal takes, whatever its source:
+ * fetch → normalize → dedupe → score → persist
+ *
+ * Marketplace fetchers and affiliate networks both hand RawDeals to
+ * this pipeline, so a deal is normalized, deduplicated and scored the
+ * same way whether it is served by /api/deals or /api/aggregation.
+ */
+
+import type { RawDeal, NormalizedDeal } from './types';
+import { normalizeDeals, deduplicateDeals } from './normalizer';
+import { enhanceDealsWithScores, detectSuspiciousDeals } from './scoring';
+import { dealIngestion, type IngestionResult } from './ingestion';
+
+export interface PipelineOptions {
+    persist?: boolean;          // Write the scored deals to the catalog
+}
+
+export interface PipelineRun {
+    deals: NormalizedDeal[];
+    fetched: number;
+    ingestion: IngestionResult | null;
+}
+
+export class DealPipeline {
+    /**
+     * Map raw source deals into the canonical model, dropping invalid prices
+     */
+    normalize(rawDeals: RawDeal[]): NormalizedDeal[] {
+        return normalizeDeals(rawDeals);
+    }
+
+    /**
+     * Merge the same product listed by several sources
+     */
+    dedupe(deals: NormalizedDeal[]): NormalizedDeal[] {
+        return deduplicateDeals(deals);
+    }
+
+    /**
+     * Attach AI scores and flag suspicious deals
+     */
+    score(deals: NormalizedDeal[]): NormalizedDeal[] {
+        return detectSuspiciousDeals(enhanceDealsWithScores(deals));
+    }
+
+    /**
+     * Upsert scored deals into the catalog
+     */
+    async persist(deals: NormalizedDeal[]): Promise<IngestionResult> {
+        return dealIngestion.ingestNormalizedDeals(deals);
+    }
+
+    /**
+     * Normalize, dedupe and score, best deals first
+     */
+    process(rawDeals: RawDeal[]): NormalizedDeal[] {
+        const deals = this.score(this.dedupe(this.normalize(rawDeals)));
+        return deals.sort((a, b) => (b.aiScore?.overall || 0) - (a.aiScore?.overall || 0));
+    }
+
+    /**
+     * Run every stage, starting from a fetch
+     */
+    async run(fetch: () => Promise<RawDeal[]>, options: PipelineOptions = {}): Promise<PipelineRun> {
+        const rawDeals = await fetch();
+        const deals = this.process(rawDeals);
+        const ingestion = options.persist ? await this.persist(deals) : null;
+
+        return { deals, fetched: rawDeals.length, ingestion };
+    }
+}
+
+// Singleton instance
+export const dealPipeline = new DealPipeline();
@@ -0,0 +1,156 @@
+/**
+ * Source Registry
+ * Every deal source the aggregator can fetch from: the built-in fetchers
+ * plus declarative adapters (RSS, JSON API, HTML selectors) loaded from
+ * config/sources/*.json at startup. Sources can be enabled and disabled
+ * at runtime, and each reports its own health.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { BaseFetcher } from './fetcher';
+import type { DealSource, SourceAdapterConfig, SourceHealth, AdapterMarketplace } from './types';
+import { createSourceAdapter, ConfiguredSourceAdapter } from './adapters';
+import { slickdealsFetcher } from './sources/slickdeals';
+import { dealNewsFetcher } from './sources/dealnews';
+import { ebayFetcher } from './sources/ebay';
+import { craigslistFetcher } from './sources/craigslist';
+
+const ADAPTER_TYPES: SourceAdapterConfig['type'][] = ['rss', 'json', 'html'];
+
+/**
+ * Validate a parsed config file and fill in SourceConfig defaults
+ */
+function toAdapterConfig(raw: unknown): SourceAdapterConfig {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('expected a JSON object');
+    }
+
+    const config = raw as Partial<SourceAdapterConfig>;
+
+    if (typeof config.name !== 'string' || !/^[a-z0-9-]+$/.test(config.name)) {
+        throw new Error('name must be a lowercase key (a-z, 0-9, -)');
+    }
+    if (!config.type || !ADAPTER_TYPES.includes(config.type)) {
+        throw new Error(`type must be one of: ${ADAPTER_TYPES.join(', ')}`);
+    }
+    if (typeof config.url !== 'string') {
+        throw new Error('url is required');
+    }
+    if (config.type === 'json') {
+        const { fields } = config;
+        if (!fields?.id || !fields.title || !fields.url || !fields.price) {
+            throw new Error('json sources need fields.id, fields.title, fields.url and fields.price');
+        }
+    }
+    if (config.type === 'html') {
+        const { selectors } = config;
+        if (!selectors?.container || !selectors.title || !selectors.price) {
+            throw new Error('html sources need selectors.container, selectors.title and selectors.price');
+        }
+    }
+
+    return {
+        enabled: true,
+        categories: [],
+        fetchInterval: 30,
+        priority: 5,
+        ...config,
+        rateLimit: {
+            requestsPerMinute: 10,
+            requestsPerDay: 1000,
+            ...config.rateLimit
+        }
+    } as SourceAdapterConfig;
+}
+
+export class SourceRegistry {
+    private sources: Map<string, BaseFetcher> = new Map();
+
+    constructor(builtins: BaseFetcher[] = []) {
+        builtins.forEach(fetcher => this.register(fetcher));
+    }
+
+    register(fetcher: BaseFetcher): void {
+        if (this.sources.has(fetcher.name)) {
+            throw new Error(`source "${fetcher.name}" is already registered`);
+        }
+        this.sources.set(fetcher.name, fetcher);
+    }
+
+    /**
+     * Register an adapter for each *.json config in the directory. Bad
+     * files are logged and skipped so one typo can't take the API down.
+     */
+    loadConfigDirectory(dir: string = process.env.SOURCE_CONFIG_DIR || path.resolve('config/sources')): number {
+        if (!fs.existsSync(dir)) {
+            console.log(`[SourceRegistry] No source configs at ${dir}`);
+            return 0;
+        }
+
+        let loaded = 0;
+        const files = fs.readdirSync(dir).filter(file => file.endsWith('.json')).sort();
+
+        for (const file of files) {
+            try {
+                const config = toAdapterConfig(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')));
+                this.register(createSourceAdapter(config));
+                loaded++;
+            } catch (error) {
+                console.error(`[SourceRegistry] Skipping ${file}: ${(error as Error).message}`);
+            }
+        }
+
+        console.log(`[SourceRegistry] Loaded ${loaded} configured source(s) from ${dir}`);
+        return loaded;
+    }
+
+    get(source: DealSource): BaseFetcher | undefined {
+        return this.sources.get(source);
+    }
+
+    /**
+     * All sources, highest priority first
+     */
+    list(): BaseFetcher[] {
+        return Array.from(this.sources.values()).sort((a, b) => b.priority - a.priority);
+    }
+
+    /**
+     * Sources fetched when a caller doesn't name any: enabled and configured
+     */
+    defaultSources(): DealSource[] {
+        return this.list()
+            .filter(fetcher => fetcher.isEnabled() && fetcher.isConfigured())
+            .map(fetcher => fetcher.name);
+    }
+
+    setEnabled(source: DealSource, enabled: boolean): SourceHealth | undefined {
+        const fetcher = this.sources.get(source);
+        if (!fetcher) return undefined;
+
+        fetcher.setEnabled(enabled);
+        console.log(`[SourceRegistry] ${enabled ? 'Enabled' : 'Disabled'} ${source}`);
+        return fetcher.getHealth();
+    }
+
+    /**
+     * Catalog marketplace declared by a configured source
+     */
+    marketplaceFor(source: DealSource): AdapterMarketplace | undefined {
+        const fetcher = this.sources.get(source);
+        return fetcher instanceof ConfiguredSourceAdapter ? fetcher.adapterConfig.marketplace : undefined;
+    }
+
+    health(): SourceHealth[] {
+        return this.list().map(fetcher => fetcher.getHealth());
+    }
+}
+
+// Singleton instance; configured adapters are added by loadConfigDirectory at startup
+export const sourceRegistry = new SourceRegistry([
+    slickdealsFetcher,
+    dealNewsFetcher,
+    ebayFetcher,
+    craigslistFetcher
+]);
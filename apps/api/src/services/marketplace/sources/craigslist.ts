@@ -4,9 +4,11 @@
  */
 
 import { BaseFetcher } from '../fetcher';
+import { htmlToText, extractPrice, type FeedEntry } from '../feeds';
 import type { RawDeal, FetchResult, DealCategory } from '../types';
+import { gazetteer, haversineMiles, type GeoPoint } from '../../geo';
 
-// Major US cities with Craigslist
+// Craigslist sites, named for the city the gazetteer places them at
 const CITIES = [
     { code: 'newyork', name: 'New York', state: 'NY' },
     { code: 'losangeles', name: 'Los Angeles', state: 'CA' },
@@ -18,9 +20,70 @@ const CITIES = [
     { code: 'boston', name: 'Boston', state: 'MA' },
     { code: 'denver', name: 'Denver', state: 'CO' },
     { code: 'atlanta', name: 'Atlanta', state: 'GA' },
-    { code: 'tampa', name: 'Tampa', state: 'FL' }
+    { code: 'tampa', name: 'Tampa', state: 'FL' },
+    { code: 'houston', name: 'Houston', state: 'TX' },
+    { code: 'dallas', name: 'Dallas', state: 'TX' },
+    { code: 'sanantonio', name: 'San Antonio', state: 'TX' },
+    { code: 'elpaso', name: 'El Paso', state: 'TX' },
+    { code: 'phoenix', name: 'Phoenix', state: 'AZ' },
+    { code: 'tucson', name: 'Tucson', state: 'AZ' },
+    { code: 'sandiego', name: 'San Diego', state: 'CA' },
+    { code: 'orangecounty', name: 'Irvine', state: 'CA' },
+    { code: 'inlandempire', name: 'Riverside', state: 'CA' },
+    { code: 'sacramento', name: 'Sacramento', state: 'CA' },
+    { code: 'fresno', name: 'Fresno', state: 'CA' },
+    { code: 'portland', name: 'Portland', state: 'OR' },
+    { code: 'spokane', name: 'Spokane', state: 'WA' },
+    { code: 'boise', name: 'Boise', state: 'ID' },
+    { code: 'saltlakecity', name: 'Salt Lake City', state: 'UT' },
+    { code: 'lasvegas', name: 'Las Vegas', state: 'NV' },
+    { code: 'reno', name: 'Reno', state: 'NV' },
+    { code: 'albuquerque', name: 'Albuquerque', state: 'NM' },
+    { code: 'cosprings', name: 'Colorado Springs', state: 'CO' },
+    { code: 'oklahomacity', name: 'Oklahoma City', state: 'OK' },
+    { code: 'tulsa', name: 'Tulsa', state: 'OK' },
+    { code: 'kansascity', name: 'Kansas City', state: 'MO' },
+    { code: 'stlouis', name: 'St. Louis', state: 'MO' },
+    { code: 'omaha', name: 'Omaha', state: 'NE' },
+    { code: 'minneapolis', name: 'Minneapolis', state: 'MN' },
+    { code: 'milwaukee', name: 'Milwaukee', state: 'WI' },
+    { code: 'madison', name: 'Madison', state: 'WI' },
+    { code: 'detroit', name: 'Detroit', state: 'MI' },
+    { code: 'grandrapids', name: 'Grand Rapids', state: 'MI' },
+    { code: 'indianapolis', name: 'Indianapolis', state: 'IN' },
+    { code: 'columbus', name: 'Columbus', state: 'OH' },
+    { code: 'cleveland', name: 'Cleveland', state: 'OH' },
+    { code: 'cincinnati', name: 'Cincinnati', state: 'OH' },
+    { code: 'louisville', name: 'Louisville', state: 'KY' },
+    { code: 'nashville', name: 'Nashville', state: 'TN' },
+    { code: 'memphis', name: 'Memphis', state: 'TN' },
+    { code: 'neworleans', name: 'New Orleans', state: 'LA' },
+    { code: 'bham', name: 'Birmingham', state: 'AL' },
+    { code: 'orlando', name: 'Orlando', state: 'FL' },
+    { code: 'jacksonville', name: 'Jacksonville', state: 'FL' },
+    { code: 'charlotte', name: 'Charlotte', state: 'NC' },
+    { code: 'raleigh', name: 'Raleigh', state: 'NC' },
+    { code: 'richmond', name: 'Richmond', state: 'VA' },
+    { code: 'norfolk', name: 'Norfolk', state: 'VA' },
+    { code: 'washingtondc', name: 'Washington', state: 'DC' },
+    { code: 'baltimore', name: 'Baltimore', state: 'MD' },
+    { code: 'philadelphia', name: 'Philadelphia', state: 'PA' },
+    { code: 'pittsburgh', name: 'Pittsburgh', state: 'PA' },
+    { code: 'newjersey', name: 'Newark', state: 'NJ' },
+    { code: 'hartford', name: 'Hartford', state: 'CT' },
+    { code: 'providence', name: 'Providence', state: 'RI' },
+    { code: 'albany', name: 'Albany', state: 'NY' },
+    { code: 'buffalo', name: 'Buffalo', state: 'NY' },
+    { code: 'honolulu', name: 'Honolulu', state: 'HI' },
+    { code: 'anchorage', name: 'Anchorage', state: 'AK' },
 ];
 
+type CraigslistSite = typeof CITIES[number];
+
+// How far from the user a site's center may be to count as nearby
+const NEARBY_SITE_MILES = 150;
+const MAX_SITES = 5;
+
 // Craigslist category codes
 const CATEGORY_MAP: Record<DealCategory, string> = {
     laptops: 'sya', // computers
@@ -42,6 +105,7 @@ export class CraigslistFetcher extends BaseFetcher {
     constructor() {
         super({
             name: 'craigslist',
+            displayName: 'Craigslist',
             enabled: true,
             rateLimit: {
                 requestsPerMinute: 5, // Be gentle with Craigslist
@@ -62,18 +126,10 @@ export class CraigslistFetcher extends BaseFetcher {
             const deals = await this.rateLimitedFetch(async () => {
                 const url = `https://${cityCode}.craigslist.org/search/${categoryCode}?format=rss`;
 
-                const response = await fetch(url, {
-                    headers: {
-                        'User-Agent': 'Mozilla/5.0 (compatible; Verity/1.0)'
-                    }
+                const { feed } = await this.fetchFeed(url, {
+                    'User-Agent': 'Mozilla/5.0 (compatible; Verity/1.0)'
                 });
-
-                if (!response.ok) {
-                    throw new Error(`Craigslist ${response.status}: ${response.statusText}`);
-                }
-
-                const xml = await response.text();
-                return this.parseRSS(xml, cityCode);
+                return this.parseEntries(feed.entries, cityCode);
             });
 
             return this.createResult(deals, startTime);
@@ -90,18 +146,10 @@ export class CraigslistFetcher extends BaseFetcher {
             const deals = await this.rateLimitedFetch(async () => {
                 const url = `https://${cityCode}.craigslist.org/search/sss?query=${encodeURIComponent(query)}&format=rss`;
 
-                const response = await fetch(url, {
-                    headers: {
-                        'User-Agent': 'Mozilla/5.0 (compatible; Verity/1.0)'
-                    }
+                const { feed } = await this.fetchFeed(url, {
+                    'User-Agent': 'Mozilla/5.0 (compatible; Verity/1.0)'
                 });
-
-                if (!response.ok) {
-                    throw new Error(`Craigslist search failed: ${response.status}`);
-                }
-
-                const xml = await response.text();
-                return this.parseRSS(xml, cityCode);
+                return this.parseEntries(feed.entries, cityCode);
             });
 
             return this.createResult(deals, startTime);
@@ -110,12 +158,16 @@ export class CraigslistFetcher extends BaseFetcher {
         }
     }
 
-    async fetchMultipleCities(category: string): Promise<FetchResult> {
+    /**
+     * Fetch several sites in parallel: the ones nearest the user when their
+     * location is known, else the five largest
+     */
+    async fetchMultipleCities(category: string, near?: GeoPoint): Promise<FetchResult> {
         const startTime = Date.now();
         const allDeals: RawDeal[] = [];
 
-        // Fetch from top 5 cities in parallel
-        const citiesToFetch = CITIES.slice(0, 5);
+        const nearby = near ? CraigslistFetcher.nearestSites(near) : [];
+        const citiesToFetch = nearby.length > 0 ? nearby : CITIES.slice(0, MAX_SITES);
 
         const results = await Promise.allSettled(
             citiesToFetch.map(city => this.fetchDeals(category, city.code))
@@ -137,49 +189,38 @@ export class CraigslistFetcher extends BaseFetcher {
         return this.createResult(allDeals, startTime);
     }
 
-    private parseRSS(xml: string, cityCode: string): RawDeal[] {
+    private parseEntries(entries: FeedEntry[], cityCode: string): RawDeal[] {
         const deals: RawDeal[] = [];
         const cityInfo = CITIES.find(c => c.code === cityCode) || { name: cityCode, state: '' };
+        // Posts only say which site they're on, so they're placed at its city
+        const point = gazetteer.lookupCity(cityInfo.name, cityInfo.state);
 
-        const itemRegex = /<item[^>]*>([\s\S]*?)<\/item>/g;
-        let match;
-
-        while ((match = itemRegex.exec(xml)) !== null) {
-            const itemXml = match[1];
-
-            const title = this.extractTag(itemXml, 'title');
-            const link = this.extractTag(itemXml, 'link');
-            const description = this.extractTag(itemXml, 'description');
-            const pubDate = this.extractTag(itemXml, 'dc:date') || this.extractTag(itemXml, 'pubDate');
-
+        for (const entry of entries) {
             // Craigslist often has price in title: "iPhone 14 Pro - $800"
-            const priceMatch = title.match(/\$[\d,]+/);
-            const price = priceMatch ? this.parsePrice(priceMatch[0]) : 0;
-
-            // Extract image from enc:enclosure or description
-            const imageMatch = itemXml.match(/resource="([^"]+)"/);
-            const imageUrl = imageMatch ? imageMatch[1] : undefined;
+            const price = extractPrice(entry.title) || 0;
 
             // Clean title (remove price)
-            const cleanTitle = title.replace(/\s*[-–]\s*\$[\d,]+.*$/, '').trim();
+            const cleanTitle = entry.title.replace(/\s*[-–]\s*\$[\d,]+.*$/, '').trim();
 
-            if (cleanTitle && link && price > 0) {
+            if (cleanTitle && entry.link && price > 0) {
                 deals.push({
-                    sourceId: this.generateId(link),
+                    sourceId: this.generateId(entry.link),
                     source: 'craigslist',
-                    sourceUrl: link,
+                    sourceUrl: entry.link,
                     title: cleanTitle,
-                    description: this.cleanHtml(description || ''),
-                    imageUrl,
+                    description: htmlToText(entry.description),
+                    imageUrl: entry.imageUrl || undefined,
                     currentPrice: price,
                     currency: 'USD',
                     condition: 'used', // Assume used for Craigslist
                     isVerifiedSeller: false,
                     location: {
                         city: cityInfo.name,
-                        state: cityInfo.state
+                        state: cityInfo.state,
+                        lat: point?.lat,
+                        lng: point?.lng
                     },
-                    postedAt: pubDate ? new Date(pubDate) : new Date()
+                    postedAt: entry.publishedAt || new Date()
                 });
             }
         }
@@ -187,24 +228,6 @@ export class CraigslistFetcher extends BaseFetcher {
         return deals;
     }
 
-    private extractTag(xml: string, tag: string): string {
-        const regex = new RegExp(`<${tag}[^>]*>(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?<\\/${tag}>`, 'i');
-        const match = xml.match(regex);
-        return match ? match[1].trim() : '';
-    }
-
-    private cleanHtml(text: string): string {
-        return text
-            .replace(/<[^>]+>/g, '')
-            .replace(/&amp;/g, '&')
-            .replace(/&lt;/g, '<')
-            .replace(/&gt;/g, '>')
-            .replace(/&quot;/g, '"')
-            .replace(/&#39;/g, "'")
-            .replace(/&nbsp;/g, ' ')
-            .trim();
-    }
-
     private generateId(url: string): string {
         const match = url.match(/\/(\d+)\.html/);
         return match ? `cl-${match[1]}` : `cl-${Date.now()}`;
@@ -214,6 +237,21 @@ export class CraigslistFetcher extends BaseFetcher {
     static getCities(): typeof CITIES {
         return CITIES;
     }
+
+    /**
+     * Sites within reach of a point, nearest first
+     */
+    static nearestSites(near: GeoPoint, radiusMiles = NEARBY_SITE_MILES, limit = MAX_SITES): CraigslistSite[] {
+        return CITIES
+            .flatMap(site => {
+                const place = gazetteer.lookupCity(site.name, site.state);
+                return place ? [{ site, distance: haversineMiles(near, place) }] : [];
+            })
+            .filter(({ distance }) => distance <= radiusMiles)
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, limit)
+            .map(({ site }) => site);
+    }
 }
 
 export const craigslistFetcher = new CraigslistFetcher();
@@ -4,6 +4,7 @@
  */
 
 import { BaseFetcher } from '../fetcher';
+import { htmlToText, extractPrice, extractOriginalPrice, type FeedEntry } from '../feeds';
 import type { RawDeal, FetchResult, DealCategory } from '../types';
 
 const DEALNEWS_FEEDS: Record<string, string> = {
@@ -21,6 +22,7 @@ export class DealNewsFetcher extends BaseFetcher {
     constructor() {
         super({
             name: 'dealnews',
+            displayName: 'DealNews',
             enabled: true,
             rateLimit: {
                 requestsPerMinute: 10,
@@ -41,18 +43,10 @@ export class DealNewsFetcher extends BaseFetcher {
                 : DEALNEWS_FEEDS.all;
 
             const deals = await this.rateLimitedFetch(async () => {
-                const response = await fetch(feedUrl, {
-                    headers: {
-                        'User-Agent': 'Verity Deal Aggregator/1.0'
-                    }
+                const { feed } = await this.fetchFeed(feedUrl, {
+                    'User-Agent': 'Verity Deal Aggregator/1.0'
                 });
-
-                if (!response.ok) {
-                    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-                }
-
-                const xml = await response.text();
-                return this.parseRSS(xml);
+                return this.parseEntries(feed.entries);
             });
 
             return this.createResult(deals, startTime);
@@ -109,31 +103,18 @@ export class DealNewsFetcher extends BaseFetcher {
         );
     }
 
-    private parseRSS(xml: string): RawDeal[] {
+    private parseEntries(entries: FeedEntry[]): RawDeal[] {
         const deals: RawDeal[] = [];
 
-        const itemRegex = /<item>([\s\S]*?)<\/item>/g;
-        let match;
-
-        while ((match = itemRegex.exec(xml)) !== null) {
-            const itemXml = match[1];
-
-            const title = this.extractTag(itemXml, 'title');
-            const link = this.extractTag(itemXml, 'link');
-            const description = this.extractTag(itemXml, 'description');
-            const pubDate = this.extractTag(itemXml, 'pubDate');
+        for (const entry of entries) {
+            const title = entry.title;
+            const description = htmlToText(entry.description);
 
             // DealNews format: "Product Name for $XX at Store"
-            const priceMatch = title.match(/\$[\d,]+\.?\d*/);
-            const price = priceMatch ? this.parsePrice(priceMatch[0]) : 0;
+            const price = extractPrice(title) || 0;
 
-            // Extract "was $X" or "list $X" for original price
-            const originalMatch = (title + ' ' + description).match(
-                /(?:was|list|reg|msrp|orig)\s*\$[\d,]+\.?\d*/i
-            );
-            const originalPrice = originalMatch
-                ? this.parsePrice(originalMatch[0])
-                : undefined;
+            // "was $X" or "list $X" for original price
+            const originalPrice = extractOriginalPrice(title + ' ' + description);
 
             // Extract store from "at Store" pattern
             const storeMatch = title.match(/\bat\s+([A-Za-z][A-Za-z\s&'.]+?)(?:\.|,|$)/i);
@@ -145,25 +126,21 @@ export class DealNewsFetcher extends BaseFetcher {
             );
             const couponCode = couponMatch ? couponMatch[1] : undefined;
 
-            // Extract image from description
-            const imageMatch = description.match(/src=["']([^"']+)["']/);
-            const imageUrl = imageMatch ? imageMatch[1] : undefined;
-
-            if (title && link && price > 0) {
+            if (title && entry.link && price > 0) {
                 deals.push({
-                    sourceId: this.generateId(link),
+                    sourceId: this.generateId(entry.link),
                     source: 'dealnews',
-                    sourceUrl: link,
-                    title: this.cleanHtml(title),
-                    description: this.cleanHtml(description),
-                    imageUrl,
+                    sourceUrl: entry.link,
+                    title,
+                    description,
+                    imageUrl: entry.imageUrl || undefined,
                     currentPrice: price,
                     originalPrice,
                     currency: 'USD',
                     condition: 'new',
                     sellerName: store,
                     isVerifiedSeller: true,
-                    postedAt: pubDate ? new Date(pubDate) : new Date(),
+                    postedAt: entry.publishedAt || new Date(),
                     couponCode,
                     promoDetails: couponCode ? `Use code: ${couponCode}` : undefined
                 });
@@ -173,27 +150,6 @@ export class DealNewsFetcher extends BaseFetcher {
         return deals;
     }
 
-    private extractTag(xml: string, tag: string): string {
-        const regex = new RegExp(
-            `<${tag}[^>]*>(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?<\\/${tag}>`,
-            'i'
-        );
-        const match = xml.match(regex);
-        return match ? match[1].trim() : '';
-    }
-
-    private cleanHtml(text: string): string {
-        return text
-            .replace(/<[^>]+>/g, '')
-            .replace(/&amp;/g, '&')
-            .replace(/&lt;/g, '<')
-            .replace(/&gt;/g, '>')
-            .replace(/&quot;/g, '"')
-            .replace(/&#39;/g, "'")
-            .replace(/&nbsp;/g, ' ')
-            .trim();
-    }
-
     private generateId(url: string): string {
         const match = url.match(/\/(\d+)\//);
         return match ? `dn-${match[1]}` : `dn-${Date.now()}`;
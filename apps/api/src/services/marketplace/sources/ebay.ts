@@ -5,7 +5,8 @@
  */
 
 import { BaseFetcher } from '../fetcher';
-import type { RawDeal, FetchResult, DealCondition } from '../types';
+import { sourceMode } from '../fixtures';
+import type { RawDeal, FetchResult, DealCondition, PriceCheck } from '../types';
 
 const EBAY_API_BASE = 'https://api.ebay.com/buy/browse/v1';
 
@@ -53,6 +54,7 @@ export class EbayFetcher extends BaseFetcher {
     constructor() {
         super({
             name: 'ebay',
+            displayName: 'eBay',
             enabled: true,
             apiKey: process.env.EBAY_APP_ID,
             rateLimit: {
@@ -65,7 +67,17 @@ export class EbayFetcher extends BaseFetcher {
         });
     }
 
+    // Replayed fixtures stand in for the API, so no credentials are needed
+    isConfigured(): boolean {
+        return !!process.env.EBAY_APP_ID || sourceMode() === 'replay';
+    }
+
     private async getAccessToken(): Promise<string> {
+        // Fixtures are keyed without auth headers; never request a real token
+        if (sourceMode() === 'replay') {
+            return 'replay';
+        }
+
         // Check if we have a valid token
         if (this.accessToken && this.tokenExpiry && new Date() < this.tokenExpiry) {
             return this.accessToken;
@@ -80,6 +92,7 @@ export class EbayFetcher extends BaseFetcher {
 
         const credentials = Buffer.from(`${appId}:${appSecret}`).toString('base64');
 
+        // Plain fetch so the token never lands in a recorded fixture
         const response = await fetch('https://api.ebay.com/identity/v1/oauth2/token', {
             method: 'POST',
             headers: {
@@ -104,7 +117,7 @@ export class EbayFetcher extends BaseFetcher {
         const startTime = Date.now();
 
         // Check if API is configured
-        if (!process.env.EBAY_APP_ID) {
+        if (!this.isConfigured()) {
             return this.createResult([], startTime, 'eBay API not configured - set EBAY_APP_ID');
         }
 
@@ -133,7 +146,7 @@ export class EbayFetcher extends BaseFetcher {
                     sort: '-price'
                 });
 
-                const response = await fetch(`${EBAY_API_BASE}/item_summary/search?${params}`, {
+                const response = await this.request(`${EBAY_API_BASE}/item_summary/search?${params}`, {
                     headers: {
                         'Authorization': `Bearer ${token}`,
                         'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US',
@@ -158,7 +171,7 @@ export class EbayFetcher extends BaseFetcher {
     async searchDeals(query: string): Promise<FetchResult> {
         const startTime = Date.now();
 
-        if (!process.env.EBAY_APP_ID) {
+        if (!this.isConfigured()) {
             return this.createResult([], startTime, 'eBay API not configured');
         }
 
@@ -172,7 +185,7 @@ export class EbayFetcher extends BaseFetcher {
                     sort: 'price'
                 });
 
-                const response = await fetch(`${EBAY_API_BASE}/item_summary/search?${params}`, {
+                const response = await this.request(`${EBAY_API_BASE}/item_summary/search?${params}`, {
                     headers: {
                         'Authorization': `Bearer ${token}`,
                         'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US'
@@ -193,6 +206,44 @@ export class EbayFetcher extends BaseFetcher {
         }
     }
 
+    // Look the item up directly instead of searching for it
+    async checkDeal(sourceId: string): Promise<PriceCheck | null> {
+        if (!this.isConfigured()) return null;
+
+        const itemId = sourceId.replace(/^ebay-/, '');
+
+        return this.rateLimitedFetch(async () => {
+            const token = await this.getAccessToken();
+
+            const response = await this.request(`${EBAY_API_BASE}/item/${encodeURIComponent(itemId)}`, {
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'X-EBAY-C-MARKETPLACE-ID': 'EBAY_US'
+                }
+            });
+
+            // Ended or removed listings
+            if (response.status === 404) {
+                return { currentPrice: null, inStock: false };
+            }
+
+            if (!response.ok) {
+                throw new Error(`eBay item lookup failed: ${response.status}`);
+            }
+
+            const item = await response.json() as {
+                price: { value: string };
+                estimatedAvailabilities?: Array<{ estimatedAvailabilityStatus: string }>;
+            };
+            const availability = item.estimatedAvailabilities?.[0]?.estimatedAvailabilityStatus;
+
+            return {
+                currentPrice: parseFloat(item.price.value),
+                inStock: availability !== 'OUT_OF_STOCK'
+            };
+        });
+    }
+
     private parseItems(items: EbayItem[]): RawDeal[] {
         return items.map(item => {
             const currentPrice = parseFloat(item.price.value);
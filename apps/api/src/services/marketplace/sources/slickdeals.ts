@@ -4,6 +4,7 @@
  */
 
 import { BaseFetcher } from '../fetcher';
+import { htmlToText, extractPrice, extractOriginalPrice, type FeedEntry } from '../feeds';
 import type { RawDeal, FetchResult, SourceConfig } from '../types';
 
 const SLICKDEALS_RSS = 'https://slickdeals.net/newsearch.php?mode=frontpage&searcharea=deals&searchin=first&rss=1';
@@ -13,6 +14,7 @@ export class SlickdealsFetcher extends BaseFetcher {
     constructor() {
         super({
             name: 'slickdeals',
+            displayName: 'Slickdeals',
             enabled: true,
             rateLimit: {
                 requestsPerMinute: 10,
@@ -29,18 +31,10 @@ export class SlickdealsFetcher extends BaseFetcher {
 
         try {
             const deals = await this.rateLimitedFetch(async () => {
-                const response = await fetch(SLICKDEALS_RSS, {
-                    headers: {
-                        'User-Agent': 'Verity Deal Aggregator/1.0'
-                    }
+                const { feed } = await this.fetchFeed(SLICKDEALS_RSS, {
+                    'User-Agent': 'Verity Deal Aggregator/1.0'
                 });
-
-                if (!response.ok) {
-                    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-                }
-
-                const xml = await response.text();
-                return this.parseRSS(xml);
+                return this.parseEntries(feed.entries);
             });
 
             return this.createResult(deals, startTime);
@@ -56,18 +50,10 @@ export class SlickdealsFetcher extends BaseFetcher {
             const deals = await this.rateLimitedFetch(async () => {
                 const url = `${SLICKDEALS_SEARCH}${encodeURIComponent(query)}&searcharea=deals&searchin=first&rss=1`;
 
-                const response = await fetch(url, {
-                    headers: {
-                        'User-Agent': 'Verity Deal Aggregator/1.0'
-                    }
+                const { feed } = await this.fetchFeed(url, {
+                    'User-Agent': 'Verity Deal Aggregator/1.0'
                 });
-
-                if (!response.ok) {
-                    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-                }
-
-                const xml = await response.text();
-                return this.parseRSS(xml);
+                return this.parseEntries(feed.entries);
             });
 
             return this.createResult(deals, startTime);
@@ -76,56 +62,39 @@ export class SlickdealsFetcher extends BaseFetcher {
         }
     }
 
-    private parseRSS(xml: string): RawDeal[] {
+    private parseEntries(entries: FeedEntry[]): RawDeal[] {
         const deals: RawDeal[] = [];
 
-        // Parse RSS items using regex (works in Node.js without DOM parser)
-        const itemRegex = /<item>([\s\S]*?)<\/item>/g;
-        let match;
-
-        while ((match = itemRegex.exec(xml)) !== null) {
-            const itemXml = match[1];
-
-            const title = this.extractTag(itemXml, 'title');
-            const link = this.extractTag(itemXml, 'link');
-            const description = this.extractTag(itemXml, 'description');
-            const pubDate = this.extractTag(itemXml, 'pubDate');
+        for (const entry of entries) {
+            const description = htmlToText(entry.description);
 
-            // Extract price from title or description
-            const priceMatch = (title + ' ' + description).match(/\$[\d,]+\.?\d*/);
-            const price = priceMatch ? this.parsePrice(priceMatch[0]) : 0;
-
-            // Extract original price (often in "was $X" format)
-            const originalMatch = description.match(/(?:was|reg(?:ular)?\.?|orig(?:inal)?\.?)\s*\$[\d,]+\.?\d*/i);
-            const originalPrice = originalMatch ? this.parsePrice(originalMatch[0]) : undefined;
+            // Price from title or description; original price often in "was $X" format
+            const price = extractPrice(entry.title + ' ' + description) || 0;
+            const originalPrice = extractOriginalPrice(description);
 
             // Extract store name
             const storeMatch = description.match(/(?:at|from|via)\s+([A-Za-z\s]+?)(?:\.|,|\s*-|\s*\[)/i);
             const store = storeMatch ? storeMatch[1].trim() : 'Unknown Store';
 
-            // Extract image from description
-            const imageMatch = description.match(/src=["']([^"']+)["']/);
-            const imageUrl = imageMatch ? imageMatch[1] : undefined;
-
             // Extract thumbs up count (popularity)
             const thumbsMatch = description.match(/(\d+)\s*thumb/i);
             const upvotes = thumbsMatch ? parseInt(thumbsMatch[1]) : 0;
 
-            if (title && link && price > 0) {
+            if (entry.title && entry.link && price > 0) {
                 deals.push({
-                    sourceId: this.generateId(link),
+                    sourceId: this.generateId(entry.link),
                     source: 'slickdeals',
-                    sourceUrl: link,
-                    title: this.cleanHtml(title),
-                    description: this.cleanHtml(description),
-                    imageUrl,
+                    sourceUrl: entry.link,
+                    title: entry.title,
+                    description,
+                    imageUrl: entry.imageUrl || undefined,
                     currentPrice: price,
                     originalPrice,
                     currency: 'USD',
                     condition: 'new',
                     sellerName: store,
                     isVerifiedSeller: true,
-                    postedAt: pubDate ? new Date(pubDate) : new Date(),
+                    postedAt: entry.publishedAt || new Date(),
                     upvotes,
                     commentCount: 0
                 });
@@ -135,24 +104,6 @@ export class SlickdealsFetcher extends BaseFetcher {
         return deals;
     }
 
-    private extractTag(xml: string, tag: string): string {
-        const regex = new RegExp(`<${tag}[^>]*>(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?<\\/${tag}>`, 'i');
-        const match = xml.match(regex);
-        return match ? match[1].trim() : '';
-    }
-
-    private cleanHtml(text: string): string {
-        return text
-            .replace(/<[^>]+>/g, '')
-            .replace(/&amp;/g, '&')
-            .replace(/&lt;/g, '<')
-            .replace(/&gt;/g, '>')
-            .replace(/&quot;/g, '"')
-            .replace(/&#39;/g, "'")
-            .replace(/&nbsp;/g, ' ')
-            .trim();
-    }
-
     private generateId(url: string): string {
         // Extract deal ID from URL
         const match = url.match(/\/(\d+)\//);
@@ -1,6 +1,6 @@
 /**
  * Verity Marketplace Integration - Unified Types
- * All marketplace sources normalize to these interfaces
+ * All deal sources normalize to these interfaces
  */
 
 export type MarketplaceSource =
@@ -17,6 +17,9 @@ export type MarketplaceSource =
     | 'facebook'
     | 'offerup';
 
+// A source key, or the merchant name for affiliate stores without an adapter
+export type DealSource = MarketplaceSource | (string & {});
+
 export type DealCondition = 'new' | 'like_new' | 'refurbished' | 'used' | 'for_parts';
 
 export type DealCategory =
@@ -35,7 +38,7 @@ export type DealCategory =
 export interface RawDeal {
     // Source identification
     sourceId: string;           // Unique ID from source
-    source: MarketplaceSource;
+    source: DealSource;
     sourceUrl: string;          // Link to original listing
 
     // Product info
@@ -43,6 +46,14 @@ export interface RawDeal {
     description?: string;
     imageUrl?: string;
     images?: string[];
+    brand?: string;
+    category?: string;          // Source's own category label, used as a hint
+    upc?: string;
+    mpn?: string;               // Manufacturer part number
+
+    // Product reviews (distinct from seller rating)
+    rating?: number;            // 0-5 scale
+    reviewCount?: number;
 
     // Pricing
     currentPrice: number;
@@ -86,18 +97,28 @@ export interface RawDeal {
     rawData?: Record<string, unknown>;
 }
 
+/**
+ * The canonical deal model. Every source, marketplace fetchers and
+ * affiliate networks alike, goes through DealPipeline into this shape,
+ * and it is the only shape that gets scored and persisted.
+ */
 export interface NormalizedDeal {
     id: string;                 // Generated UUID
     sourceId: string;
-    source: MarketplaceSource;
+    source: DealSource;
     sourceUrl: string;
 
     // Product
     title: string;
     description: string;
     category: DealCategory;
+    brand: string;              // Canonical brand, "Unknown" when not found
+    model: string | null;
+    upc: string | null;
+    mpn: string | null;
     imageUrl: string;
     images: string[];
+    fingerprint: string;        // Cross-source duplicate key
 
     // Pricing
     currentPrice: number;
@@ -121,10 +142,17 @@ export interface NormalizedDeal {
         verified: boolean;
     };
 
+    // Product reviews
+    rating: number | null;
+    reviewCount: number | null;
+
     // Location
     location: {
         city: string;
         state: string;
+        zip?: string;
+        lat?: number;
+        lng?: number;
         distance?: number;        // Miles from user
     } | null;
 
@@ -145,15 +173,8 @@ export interface NormalizedDeal {
     couponCode: string | null;
     promoDetails: string | null;
 
-    // AI Scoring (computed later)
-    aiScore?: {
-        overall: number;          // 0-100
-        priceScore: number;
-        sellerScore: number;
-        timingScore: number;
-        verdict: string;
-        reasons: string[];
-    };
+    // AI Scoring (the pipeline's score stage)
+    aiScore?: DealScore;
 
     // Price history
     priceHistory?: {
@@ -164,8 +185,25 @@ export interface NormalizedDeal {
     isAllTimeLow?: boolean;
 }
 
+export interface ScoreBreakdown {
+    priceHistory: number;
+    discount: number;
+    productQuality: number;
+    freshness: number;
+    retailerTrust: number;
+    engagement: number;
+}
+
+export interface DealScore {
+    overall: number;            // 0-100
+    verdict: string;
+    recommendation: 'buy_now' | 'wait' | 'skip';
+    breakdown: ScoreBreakdown;
+    reasons: string[];
+}
+
 export interface FetchResult {
-    source: MarketplaceSource;
+    source: DealSource;
     deals: RawDeal[];
     fetchedAt: Date;
     duration: number;           // ms
@@ -177,8 +215,15 @@ export interface FetchResult {
     };
 }
 
+// Result of re-checking a single stored deal at its source
+export interface PriceCheck {
+    currentPrice: number | null;    // null when the listing no longer shows a price
+    inStock: boolean;
+}
+
 export interface SourceConfig {
-    name: MarketplaceSource;
+    name: DealSource;
+    displayName?: string;
     enabled: boolean;
     apiKey?: string;
     rateLimit: {
@@ -190,9 +235,97 @@ export interface SourceConfig {
     priority: number;           // Higher = fetch first
 }
 
+/**
+ * Declarative source adapters, loaded from config/sources/*.json.
+ * `${ENV_VAR}` in urls and headers is expanded at request time, and
+ * `{query}` in searchUrl is replaced with the encoded search terms.
+ */
+interface AdapterConfigBase extends SourceConfig {
+    url: string;
+    searchUrl?: string;
+    headers?: Record<string, string>;
+    requiredEnv?: string[];     // Source reports unconfigured until these are set
+    marketplace?: {             // Catalog row for sources without a built-in one
+        name: string;
+        type: string;
+        baseUrl: string;
+        color?: string;
+    };
+    defaults?: {
+        condition?: DealCondition;
+        currency?: string;
+        sellerName?: string;
+    };
+}
+
+export interface RssAdapterConfig extends AdapterConfigBase {
+    type: 'rss';
+}
+
+export interface JsonAdapterConfig extends AdapterConfigBase {
+    type: 'json';
+    itemsPath?: string;         // Dot path to the item array; the body itself when omitted
+    fields: {                   // Dot paths within each item
+        id: string;
+        title: string;
+        url: string;
+        price: string;
+        originalPrice?: string;
+        image?: string;
+        description?: string;
+        brand?: string;
+        category?: string;
+        upc?: string;
+        mpn?: string;
+        inStock?: string;
+        soldOut?: string;
+        rating?: string;
+        reviewCount?: string;
+        postedAt?: string;
+        expiresAt?: string;
+    };
+}
+
+export interface HtmlAdapterConfig extends AdapterConfigBase {
+    type: 'html';
+    selectors: {
+        container: string;
+        title: string;
+        price: string;
+        originalPrice?: string;
+        image?: string;
+        link?: string;
+        inStock?: string;
+    };
+}
+
+export type SourceAdapterConfig = RssAdapterConfig | JsonAdapterConfig | HtmlAdapterConfig;
+
+export type AdapterMarketplace = NonNullable<AdapterConfigBase['marketplace']>;
+
+export type SourceStatus = 'healthy' | 'degraded' | 'down' | 'unconfigured' | 'disabled' | 'unknown';
+
+export interface SourceHealth {
+    source: DealSource;
+    displayName: string;
+    adapter: 'builtin' | SourceAdapterConfig['type'];
+    status: SourceStatus;
+    enabled: boolean;
+    configured: boolean;
+    priority: number;
+    rateLimit: SourceConfig['rateLimit'];
+    requestsToday: number;
+    remainingToday: number;
+    lastSuccessAt: Date | null;
+    lastFailureAt: Date | null;
+    lastError: string | null;
+    consecutiveFailures: number;
+    lastDuration: number | null;    // ms
+    lastCount: number | null;       // Deals in the last successful fetch
+}
+
 export interface CacheEntry<T> {
     data: T;
     cachedAt: Date;
-    expiresAt: Date;
-    hits: number;
+    expiresAt: Date;    // End of freshness; the backend may keep it longer to serve stale
 }
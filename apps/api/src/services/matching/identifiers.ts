@@ -0,0 +1,113 @@
+/**
+ * Product Identifiers
+ * Pulls brand, model number, UPC and MPN out of a listing so deals for the
+ * same item can be matched across sources
+ */
+
+import { extractBrand, extractModel, modelKey } from '../marketplace/normalizer';
+
+export interface IdentifierInput {
+    title: string;
+    description?: string | null;
+    brand?: string | null;
+    model?: string | null;
+    upc?: string | null;
+    mpn?: string | null;
+}
+
+export interface ProductIdentifiers {
+    brand: string | null;
+    model: string | null;
+    modelKey: string | null;
+    upc: string | null;
+    mpn: string | null;
+}
+
+const LABELLED_UPC = /\b(?:UPC|EAN|GTIN)(?:-?\d{1,2})?\s*(?:code)?[:#\s]\s*(\d{12,14})\b/i;
+const BARE_UPC = /\b(\d{12,13})\b/g;
+const LABELLED_MPN = /\b(?:MPN|Part\s*(?:No\.?|Number|#))[:#\s]\s*([A-Z0-9][A-Z0-9\-/.]{2,30}[A-Z0-9])/i;
+
+/**
+ * GTIN check digit: weights alternate 3 and 1 from the right, excluding the check digit
+ */
+export function isValidUpc(code: string): boolean {
+    if (!/^\d{12,14}$/.test(code)) return false;
+
+    const digits = code.split('').map(Number);
+    const check = digits.pop()!;
+    const sum = digits.reverse().reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 3 : 1), 0);
+
+    return (10 - (sum % 10)) % 10 === check;
+}
+
+// UPC-A and EAN-13 name the same item; store the 13-digit form
+function normalizeUpc(code: string): string {
+    const digits = code.replace(/\D/g, '');
+    if (digits.length === 14 && digits.startsWith('0')) return digits.slice(1);
+    return digits.length === 12 ? `0${digits}` : digits;
+}
+
+function extractUpc(text: string): string | null {
+    const labelled = text.match(LABELLED_UPC);
+    if (labelled && isValidUpc(labelled[1])) return normalizeUpc(labelled[1]);
+
+    // Unlabelled numbers only count when the check digit agrees
+    for (const match of text.matchAll(BARE_UPC)) {
+        if (isValidUpc(match[1])) return normalizeUpc(match[1]);
+    }
+
+    return null;
+}
+
+export function extractIdentifiers(input: IdentifierInput): ProductIdentifiers {
+    const text = [input.title, input.description].filter(Boolean).join(' ');
+
+    const brand = extractBrand(input.title, input.brand || undefined);
+    const model = input.model || extractModel(input.title);
+    const upc = input.upc && isValidUpc(input.upc.replace(/\D/g, ''))
+        ? normalizeUpc(input.upc)
+        : extractUpc(text);
+    const mpn = input.mpn?.trim() || text.match(LABELLED_MPN)?.[1] || null;
+
+    return {
+        brand: brand !== 'Unknown' ? brand : null,
+        model,
+        modelKey: model ? modelKey(model) : null,
+        upc,
+        mpn: mpn ? mpn.toUpperCase() : null,
+    };
+}
+
+/**
+ * Key that clusters listings of one product: "sony:WH1000XM5"
+ */
+export function matchKeyFor(brand: string, key: string): string {
+    return `${brand.toLowerCase()}:${key}`;
+}
+
+const STOP_WORDS = new Set(['the', 'and', 'with', 'for', 'new', 'inch', 'edition']);
+
+function tokens(text: string): string[] {
+    return text
+        .toLowerCase()
+        .replace(/[^\w\s]/g, ' ')
+        .split(/\s+/)
+        .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Share of a product name's tokens present in a deal title, ignoring the
+ * brand. Any missing token with a digit ("M3", "256GB", "15") means a
+ * different variant, so the score drops to 0.
+ */
+export function titleSimilarity(productName: string, dealTitle: string, brand?: string): number {
+    const brandToken = brand?.toLowerCase();
+    const productTokens = tokens(productName).filter(token => token !== brandToken);
+    if (productTokens.length === 0) return 0;
+
+    const titleTokens = new Set(tokens(dealTitle));
+    const missing = productTokens.filter(token => !titleTokens.has(token));
+
+    if (missing.some(token => /\d/.test(token))) return 0;
+    return (productTokens.length - missing.length) / productTokens.length;
+}
@@ -0,0 +1,21 @@
+/**
+ * Product Matching Services Index
+ *
+ * Exports the cross-source product matcher and identifier extraction.
+ */
+
+export {
+    ProductMatcher,
+    productMatcher,
+    type ProductMatch,
+    type MatchRunResult,
+    type OffersQuery,
+} from './productMatcher';
+export {
+    extractIdentifiers,
+    isValidUpc,
+    matchKeyFor,
+    titleSimilarity,
+    type IdentifierInput,
+    type ProductIdentifiers,
+} from './identifiers';
@@ -0,0 +1,240 @@
+/**
+ * Product Matcher - Cross-Source Product Matching
+ *
+ * Links each catalog deal to the canonical Product it is an offer for, so
+ * the same item listed on Amazon, eBay and a deal feed shows up as one
+ * product with several offers. Matches on the strongest identifier the
+ * deal carries (UPC, then brand + MPN, then brand + model number, then a
+ * same-brand title comparison) and records how confident the match is.
+ * Deals with a brand and model number but no existing product start a new
+ * matched product.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Deal, Product } from '@prisma/client';
+import { extractIdentifiers, matchKeyFor, titleSimilarity, type ProductIdentifiers } from './identifiers';
+
+const prisma = new PrismaClient();
+
+// Confidence recorded for each kind of match
+const CONFIDENCE = {
+    upc: 0.99,
+    mpn: 0.95,
+    model: 0.9,
+    title: 0.85,    // scaled by the title similarity
+};
+
+// Title matches below this similarity are left unlinked
+const MIN_TITLE_SIMILARITY = 0.75;
+
+export interface ProductMatch {
+    productId: string;
+    confidence: number;
+    method: keyof typeof CONFIDENCE | 'created';
+}
+
+export interface MatchRunResult {
+    scanned: number;
+    matched: number;
+    created: number;
+    unmatched: number;
+}
+
+export interface OffersQuery {
+    minConfidence?: number;
+    condition?: string;
+}
+
+export class ProductMatcher {
+    /**
+     * Match a stored deal to a product and link it. Never throws, so
+     * ingestion isn't affected by matching failures.
+     */
+    async matchDeal(dealId: string): Promise<ProductMatch | null> {
+        try {
+            const deal = await prisma.deal.findUnique({ where: { id: dealId } });
+            if (!deal) return null;
+
+            const ids = extractIdentifiers(deal);
+            const match = await this.findMatch(deal, ids) || await this.createProduct(deal, ids);
+            if (!match) return null;
+
+            await prisma.deal.update({
+                where: { id: deal.id },
+                data: {
+                    productId: match.productId,
+                    matchConfidence: match.confidence,
+                    model: deal.model || ids.model,
+                    upc: deal.upc || ids.upc,
+                    mpn: deal.mpn || ids.mpn,
+                },
+            });
+            await this.backfillProduct(match.productId, ids);
+
+            return match;
+        } catch (error) {
+            console.error(`[ProductMatcher] Failed to match deal ${dealId}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Match live deals that aren't linked to a product yet
+     */
+    async matchUnlinked(limit: number = 500, signal?: AbortSignal): Promise<MatchRunResult> {
+        const deals = await prisma.deal.findMany({
+            where: { productId: null, isExpired: false },
+            select: { id: true },
+            orderBy: { updatedAt: 'desc' },
+            take: limit,
+        });
+
+        const result: MatchRunResult = { scanned: deals.length, matched: 0, created: 0, unmatched: 0 };
+
+        for (const { id } of deals) {
+            signal?.throwIfAborted();
+            const match = await this.matchDeal(id);
+            if (!match) result.unmatched++;
+            else if (match.method === 'created') result.created++;
+            else result.matched++;
+        }
+
+        console.log(
+            `[ProductMatcher] ${result.scanned} deals: ${result.matched} matched, ` +
+            `${result.created} new products, ${result.unmatched} unmatched`
+        );
+        return result;
+    }
+
+    /**
+     * A product with every live offer linked to it, cheapest first
+     */
+    async offersFor(productId: string, query: OffersQuery = {}) {
+        const product = await prisma.product.findUnique({ where: { id: productId } });
+        if (!product) return null;
+
+        const where: Prisma.DealWhereInput = { productId, isExpired: false };
+        if (query.condition) where.condition = query.condition;
+        if (query.minConfidence !== undefined) where.matchConfidence = { gte: query.minConfidence };
+
+        const offers = await prisma.deal.findMany({
+            where,
+            include: { marketplace: true },
+            orderBy: [{ currentPrice: 'asc' }, { matchConfidence: 'desc' }],
+        });
+
+        const prices = offers.map(offer => offer.currentPrice);
+
+        return {
+            product,
+            offers,
+            summary: {
+                offerCount: offers.length,
+                lowestPrice: prices.length > 0 ? Math.min(...prices) : null,
+                highestPrice: prices.length > 0 ? Math.max(...prices) : null,
+                marketplaces: new Set(offers.map(offer => offer.marketplaceId)).size,
+            },
+        };
+    }
+
+    private async findMatch(deal: Deal, ids: ProductIdentifiers): Promise<ProductMatch | null> {
+        if (ids.upc) {
+            const product = await prisma.product.findUnique({ where: { upc: ids.upc } });
+            if (product) return { productId: product.id, confidence: CONFIDENCE.upc, method: 'upc' };
+        }
+
+        if (ids.brand && ids.mpn) {
+            const product = await prisma.product.findFirst({ where: { brand: ids.brand, mpn: ids.mpn } });
+            if (product) return { productId: product.id, confidence: CONFIDENCE.mpn, method: 'mpn' };
+        }
+
+        if (ids.brand && ids.modelKey) {
+            const product = await prisma.product.findUnique({ where: { matchKey: matchKeyFor(ids.brand, ids.modelKey) } });
+            if (product) return { productId: product.id, confidence: CONFIDENCE.model, method: 'model' };
+        }
+
+        if (ids.brand) {
+            const candidates = await prisma.product.findMany({
+                where: { brand: ids.brand },
+                select: { id: true, name: true },
+                take: 200,
+            });
+
+            let best: { id: string; similarity: number } | null = null;
+            for (const candidate of candidates) {
+                const similarity = titleSimilarity(candidate.name, deal.title, ids.brand);
+                if (similarity >= MIN_TITLE_SIMILARITY && (!best || similarity > best.similarity)) {
+                    best = { id: candidate.id, similarity };
+                }
+            }
+
+            if (best) {
+                return {
+                    productId: best.id,
+                    confidence: Math.round(best.similarity * CONFIDENCE.title * 100) / 100,
+                    method: 'title',
+                };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Start a matched product from a deal. Needs a brand and model number,
+     * or a UPC; anything vaguer stays unlinked.
+     */
+    private async createProduct(deal: Deal, ids: ProductIdentifiers): Promise<ProductMatch | null> {
+        const matchKey = ids.brand && ids.modelKey ? matchKeyFor(ids.brand, ids.modelKey) : null;
+        if (!matchKey && !ids.upc) return null;
+
+        const data = {
+            name: deal.title,
+            brand: ids.brand || deal.brand || 'Unknown',
+            category: deal.category,
+            imageUrl: deal.imageUrl,
+            origin: 'matched',
+            model: ids.model,
+            matchKey,
+            upc: ids.upc,
+            mpn: ids.mpn,
+        };
+
+        // Upsert so two deals ingested together can't create the product twice
+        const product = matchKey
+            ? await prisma.product.upsert({ where: { matchKey }, update: {}, create: data })
+            : await prisma.product.upsert({ where: { upc: ids.upc! }, update: {}, create: data });
+
+        return { productId: product.id, confidence: CONFIDENCE.model, method: 'created' };
+    }
+
+    /**
+     * Fill identifiers the product is missing from a matched deal, skipping
+     * unique values another product already holds
+     */
+    private async backfillProduct(productId: string, ids: ProductIdentifiers): Promise<void> {
+        const product = await prisma.product.findUnique({ where: { id: productId } });
+        if (!product) return;
+
+        const data: Partial<Pick<Product, 'model' | 'matchKey' | 'upc' | 'mpn'>> = {};
+
+        if (!product.model && ids.model) data.model = ids.model;
+        if (!product.mpn && ids.mpn) data.mpn = ids.mpn;
+
+        if (!product.upc && ids.upc && !(await prisma.product.findUnique({ where: { upc: ids.upc } }))) {
+            data.upc = ids.upc;
+        }
+
+        if (!product.matchKey && ids.modelKey && product.brand.toLowerCase() === ids.brand?.toLowerCase()) {
+            const matchKey = matchKeyFor(product.brand, ids.modelKey);
+            if (!(await prisma.product.findUnique({ where: { matchKey } }))) data.matchKey = matchKey;
+        }
+
+        if (Object.keys(data).length > 0) {
+            await prisma.product.update({ where: { id: productId }, data });
+        }
+    }
+}
+
+// Singleton instance
+export const productMatcher = new ProductMatcher();
@@ -0,0 +1,230 @@
+/**
+ * Messaging Service
+ *
+ * Buyer/seller conversations, optionally about a listing. Each
+ * participant row tracks unread count and last read time, which drive
+ * read receipts pushed through the event hub.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { Message, ConversationParticipant } from '@prisma/client';
+import { MarketplaceError } from '../p2p';
+import { messagingEvents } from './events';
+
+const prisma = new PrismaClient();
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+export type MessageType = 'text' | 'image' | 'offer' | 'system';
+
+export interface MessageDTO {
+    id: string;
+    conversationId: string;
+    senderId: string;
+    content: string;
+    type: MessageType;
+    offerId?: string;
+    read: boolean;
+    createdAt: Date;
+}
+
+export interface ConversationDTO {
+    id: string;
+    listingId?: string;
+    participants: string[];
+    lastMessage?: MessageDTO;
+    unreadCount: Record<string, number>;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export function serializeMessage(message: Message): MessageDTO {
+    return {
+        id: message.id,
+        conversationId: message.conversationId,
+        senderId: message.senderId,
+        content: message.content,
+        type: message.type as MessageType,
+        offerId: message.offerId ?? undefined,
+        read: message.readAt !== null,
+        createdAt: message.createdAt,
+    };
+}
+
+export class MessagingService {
+    async listConversations(userId: string): Promise<ConversationDTO[]> {
+        const conversations = await prisma.conversation.findMany({
+            where: { participants: { some: { userId } } },
+            include: {
+                participants: true,
+                messages: { orderBy: { createdAt: 'desc' }, take: 1 },
+            },
+            orderBy: { updatedAt: 'desc' },
+        });
+
+        return conversations.map(c => this.toDTO(c, c.participants, c.messages[0]));
+    }
+
+    /**
+     * Find the conversation between two users about a listing, or start one
+     */
+    async getOrCreateConversation(userId: string, otherUserId: string, listingId?: string): Promise<ConversationDTO> {
+        if (userId === otherUserId) {
+            throw new MarketplaceError('You cannot message yourself');
+        }
+
+        const other = await prisma.user.findUnique({ where: { id: otherUserId } });
+        if (!other) {
+            throw new MarketplaceError('User not found', 404);
+        }
+
+        const existing = await prisma.conversation.findFirst({
+            where: {
+                listingId: listingId ?? null,
+                AND: [
+                    { participants: { some: { userId } } },
+                    { participants: { some: { userId: otherUserId } } },
+                ],
+            },
+            include: {
+                participants: true,
+                messages: { orderBy: { createdAt: 'desc' }, take: 1 },
+            },
+        });
+        if (existing) {
+            return this.toDTO(existing, existing.participants, existing.messages[0]);
+        }
+
+        const created = await prisma.conversation.create({
+            data: {
+                listingId,
+                participants: { create: [{ userId }, { userId: otherUserId }] },
+            },
+            include: { participants: true },
+        });
+        return this.toDTO(created, created.participants);
+    }
+
+    async getMessages(
+        conversationId: string,
+        userId: string,
+        options: { before?: string; limit?: number } = {}
+    ): Promise<MessageDTO[]> {
+        await this.requireParticipant(conversationId, userId);
+
+        const messages = await prisma.message.findMany({
+            where: {
+                conversationId,
+                ...(options.before ? { createdAt: { lt: new Date(options.before) } } : {}),
+            },
+            orderBy: { createdAt: 'desc' },
+            take: Math.min(options.limit || 50, 200),
+        });
+
+        return messages.reverse().map(serializeMessage);
+    }
+
+    /**
+     * Store a message, bump unread counts and push it to every participant
+     */
+    async sendMessage(
+        conversationId: string,
+        senderId: string,
+        content: string,
+        type: MessageType = 'text',
+        offerId?: string
+    ): Promise<MessageDTO> {
+        if (!content || content.length > MAX_MESSAGE_LENGTH) {
+            throw new MarketplaceError(`Messages must be 1-${MAX_MESSAGE_LENGTH} characters`);
+        }
+
+        const participants = await this.requireParticipant(conversationId, senderId);
+
+        const message = await prisma.$transaction(async tx => {
+            const created = await tx.message.create({
+                data: { conversationId, senderId, content, type, offerId },
+            });
+            await tx.conversationParticipant.updateMany({
+                where: { conversationId, userId: { not: senderId } },
+                data: { unreadCount: { increment: 1 } },
+            });
+            await tx.conversation.update({
+                where: { id: conversationId },
+                data: { updatedAt: new Date() },
+            });
+            return created;
+        });
+
+        const dto = serializeMessage(message);
+        await messagingEvents.publish(participants.map(p => p.userId), {
+            type: 'message',
+            conversationId,
+            message: dto,
+        });
+        return dto;
+    }
+
+    /**
+     * Mark everything the other side sent as read and send a read receipt
+     */
+    async markRead(conversationId: string, userId: string): Promise<number> {
+        const participants = await this.requireParticipant(conversationId, userId);
+        const readAt = new Date();
+
+        const [updated] = await prisma.$transaction([
+            prisma.message.updateMany({
+                where: { conversationId, senderId: { not: userId }, readAt: null },
+                data: { readAt },
+            }),
+            prisma.conversationParticipant.updateMany({
+                where: { conversationId, userId },
+                data: { unreadCount: 0, lastReadAt: readAt },
+            }),
+        ]);
+
+        if (updated.count > 0) {
+            await messagingEvents.publish(participants.map(p => p.userId), {
+                type: 'read',
+                conversationId,
+                userId,
+                readAt,
+            });
+        }
+        return updated.count;
+    }
+
+    async getUnreadCount(userId: string): Promise<number> {
+        const result = await prisma.conversationParticipant.aggregate({
+            where: { userId },
+            _sum: { unreadCount: true },
+        });
+        return result._sum.unreadCount || 0;
+    }
+
+    private async requireParticipant(conversationId: string, userId: string): Promise<ConversationParticipant[]> {
+        const participants = await prisma.conversationParticipant.findMany({ where: { conversationId } });
+        if (!participants.some(p => p.userId === userId)) {
+            throw new MarketplaceError('Conversation not found', 404);
+        }
+        return participants;
+    }
+
+    private toDTO(
+        conversation: { id: string; listingId: string | null; createdAt: Date; updatedAt: Date },
+        participants: ConversationParticipant[],
+        lastMessage?: Message
+    ): ConversationDTO {
+        return {
+            id: conversation.id,
+            listingId: conversation.listingId ?? undefined,
+            participants: participants.map(p => p.userId),
+            lastMessage: lastMessage ? serializeMessage(lastMessage) : undefined,
+            unreadCount: Object.fromEntries(participants.map(p => [p.userId, p.unreadCount])),
+            createdAt: conversation.createdAt,
+            updatedAt: conversation.updatedAt,
+        };
+    }
+}
+
+// Singleton instance
+export const messagingService = new MessagingService();
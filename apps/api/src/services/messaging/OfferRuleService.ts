@@ -0,0 +1,128 @@
+/**
+ * Offer Rule Service
+ *
+ * Sellers' automatic answers to offers, one rule per listing: decline
+ * below one amount, accept at or above another, counter at a third in
+ * between. Rules are private to the seller; OfferService applies them to
+ * every buyer move.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { OfferRule } from '@prisma/client';
+import { MarketplaceError } from '../p2p';
+
+const prisma = new PrismaClient();
+
+export interface OfferRuleInput {
+    declineBelow?: number | null;
+    acceptAtOrAbove?: number | null;
+    counterAt?: number | null;
+    enabled?: boolean;
+}
+
+export interface OfferRuleDTO {
+    listingId: string;
+    declineBelow?: number;
+    acceptAtOrAbove?: number;
+    counterAt?: number;
+    enabled: boolean;
+    updatedAt: Date;
+}
+
+export function serializeOfferRule(rule: OfferRule): OfferRuleDTO {
+    return {
+        listingId: rule.listingId,
+        declineBelow: rule.declineBelow ?? undefined,
+        acceptAtOrAbove: rule.acceptAtOrAbove ?? undefined,
+        counterAt: rule.counterAt ?? undefined,
+        enabled: rule.enabled,
+        updatedAt: rule.updatedAt,
+    };
+}
+
+export class OfferRuleService {
+    async list(sellerId: string): Promise<OfferRuleDTO[]> {
+        const rules = await prisma.offerRule.findMany({
+            where: { sellerId },
+            orderBy: { updatedAt: 'desc' },
+        });
+        return rules.map(serializeOfferRule);
+    }
+
+    /**
+     * Create or change the rule for one of the seller's listings. Fields
+     * left out keep their value; null clears a threshold.
+     */
+    async set(sellerId: string, listingId: string, input: OfferRuleInput): Promise<OfferRuleDTO> {
+        const listing = await prisma.listing.findUnique({
+            where: { id: listingId },
+            include: { offerRule: true },
+        });
+        if (!listing) {
+            throw new MarketplaceError('Listing not found', 404);
+        }
+        if (listing.sellerId !== sellerId) {
+            throw new MarketplaceError('Only the seller can set offer rules', 403);
+        }
+        if (listing.pricingType === 'fixed' || listing.pricingType === 'auction') {
+            throw new MarketplaceError('Offer rules only apply to listings that take offers');
+        }
+
+        const existing = listing.offerRule;
+        const merged = {
+            declineBelow: input.declineBelow !== undefined ? input.declineBelow : existing?.declineBelow ?? null,
+            acceptAtOrAbove: input.acceptAtOrAbove !== undefined ? input.acceptAtOrAbove : existing?.acceptAtOrAbove ?? null,
+            counterAt: input.counterAt !== undefined ? input.counterAt : existing?.counterAt ?? null,
+            enabled: input.enabled ?? existing?.enabled ?? true,
+        };
+        this.validate(merged);
+
+        const rule = await prisma.offerRule.upsert({
+            where: { listingId },
+            create: { listingId, sellerId, ...merged },
+            update: merged,
+        });
+        return serializeOfferRule(rule);
+    }
+
+    async remove(sellerId: string, listingId: string): Promise<void> {
+        const rule = await prisma.offerRule.findUnique({ where: { listingId } });
+        if (!rule || rule.sellerId !== sellerId) {
+            throw new MarketplaceError('Offer rule not found', 404);
+        }
+        await prisma.offerRule.delete({ where: { listingId } });
+    }
+
+    /**
+     * Enabled rules for the listings of an offer, in the same order; null
+     * where a listing has none
+     */
+    async forListings(listingIds: string[]): Promise<(OfferRule | null)[]> {
+        const rules = await prisma.offerRule.findMany({
+            where: { listingId: { in: listingIds }, enabled: true },
+        });
+        return listingIds.map(id => rules.find(rule => rule.listingId === id) ?? null);
+    }
+
+    private validate(rule: { declineBelow: number | null; acceptAtOrAbove: number | null; counterAt: number | null }): void {
+        const { declineBelow, acceptAtOrAbove, counterAt } = rule;
+        if (declineBelow === null && acceptAtOrAbove === null && counterAt === null) {
+            throw new MarketplaceError('Set at least one of declineBelow, acceptAtOrAbove and counterAt');
+        }
+        if ([declineBelow, acceptAtOrAbove, counterAt].some(value => value !== null && !(value > 0))) {
+            throw new MarketplaceError('Offer rule amounts must be positive');
+        }
+        if (declineBelow !== null && counterAt !== null && counterAt < declineBelow) {
+            throw new MarketplaceError('counterAt cannot be below declineBelow');
+        }
+        if (acceptAtOrAbove !== null && counterAt !== null && counterAt >= acceptAtOrAbove) {
+            throw new MarketplaceError('counterAt must be below acceptAtOrAbove');
+        }
+        if (acceptAtOrAbove !== null && declineBelow !== null && declineBelow > acceptAtOrAbove) {
+            throw new MarketplaceError('declineBelow cannot be above acceptAtOrAbove');
+        }
+    }
+}
+
+// Singleton instance
+export const offerRuleService = new OfferRuleService();
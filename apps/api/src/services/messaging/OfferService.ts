@@ -0,0 +1,417 @@
+/**
+ * Offer Service
+ *
+ * Offer threads between a buyer and a seller, on one listing or a bundle
+ * of the seller's listings. The two sides take turns accepting,
+ * declining or countering, and every move is kept as a round. The
+ * seller's offer rules answer buyer moves automatically. An accepted
+ * offer becomes escrowed orders at the agreed price. Moves are posted
+ * into the listing's conversation, and the offer-expiry job expires
+ * threads once OFFER_TTL_HOURS pass without an answer.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Listing } from '@prisma/client';
+import { MarketplaceError, orderService } from '../p2p';
+import { messagingService } from './MessagingService';
+import { messagingEvents } from './events';
+import { offerRuleService } from './OfferRuleService';
+import { allocateBundle, bundleMinimum, decideByRules } from './negotiation';
+
+const prisma = new PrismaClient();
+
+export const OFFER_TTL_HOURS = 24;
+
+// Listings one bundle offer may cover
+export const MAX_BUNDLE_SIZE = 10;
+
+// Offers still waiting on someone
+const OPEN_STATUSES = ['pending', 'countered'];
+
+const OFFER_INCLUDE = Prisma.validator<Prisma.OfferInclude>()({
+    items: true,
+    rounds: { orderBy: { createdAt: 'asc' } },
+    orders: { select: { id: true } },
+});
+
+type OfferWithHistory = Prisma.OfferGetPayload<{ include: typeof OFFER_INCLUDE }>;
+
+export type OfferStatus = 'pending' | 'accepted' | 'declined' | 'countered' | 'expired' | 'withdrawn';
+
+export type OfferRole = 'buyer' | 'seller';
+
+export type OfferAction = 'offer' | 'counter' | 'accept' | 'decline' | 'withdraw' | 'expire';
+
+export interface OfferRoundDTO {
+    id: string;
+    role: OfferRole | 'system';
+    action: OfferAction;
+    amount?: number;
+    message?: string;
+    automatic: boolean;
+    createdAt: Date;
+}
+
+export interface OfferDTO {
+    id: string;
+    listingId: string;
+    listingIds: string[];
+    buyerId: string;
+    sellerId: string;
+    conversationId?: string;
+    amount: number;
+    message?: string;
+    status: OfferStatus;
+    counterAmount?: number;
+    agreedAmount?: number;
+    paymentMethod: string;
+    awaiting?: OfferRole;
+    rounds: OfferRoundDTO[];
+    orderIds: string[];
+    expiresAt: Date;
+    createdAt: Date;
+    respondedAt?: Date;
+}
+
+// Offers made before bundles have no items
+function offerListingIds(offer: OfferWithHistory): string[] {
+    return offer.items.length > 0 ? offer.items.map(item => item.listingId) : [offer.listingId];
+}
+
+// Whose move it is: the seller answers pending offers, the buyer answers counters
+function awaiting(status: string): OfferRole | undefined {
+    return status === 'pending' ? 'seller' : status === 'countered' ? 'buyer' : undefined;
+}
+
+export function serializeOffer(offer: OfferWithHistory): OfferDTO {
+    return {
+        id: offer.id,
+        listingId: offer.listingId,
+        listingIds: offerListingIds(offer),
+        buyerId: offer.buyerId,
+        sellerId: offer.sellerId,
+        conversationId: offer.conversationId ?? undefined,
+        amount: offer.amount,
+        message: offer.message ?? undefined,
+        status: offer.status as OfferStatus,
+        counterAmount: offer.counterAmount ?? undefined,
+        agreedAmount: offer.agreedAmount ?? undefined,
+        paymentMethod: offer.paymentMethod,
+        awaiting: awaiting(offer.status),
+        rounds: offer.rounds.map(round => ({
+            id: round.id,
+            role: round.role as OfferRole | 'system',
+            action: round.action as OfferAction,
+            amount: round.amount ?? undefined,
+            message: round.message ?? undefined,
+            automatic: round.automatic,
+            createdAt: round.createdAt,
+        })),
+        orderIds: offer.orders.map(order => order.id),
+        expiresAt: offer.expiresAt,
+        createdAt: offer.createdAt,
+        respondedAt: offer.respondedAt ?? undefined,
+    };
+}
+
+const money = (amount: number) => `$${amount}`;
+
+const freshExpiry = (now: Date) => new Date(now.getTime() + OFFER_TTL_HOURS * 60 * 60 * 1000);
+
+export class OfferService {
+    /**
+     * Make an offer on a listing, or on it plus bundleListingIds from the
+     * same seller. The seller's rules may answer it straight away.
+     */
+    async create(
+        buyerId: string,
+        input: { listingId: string; bundleListingIds?: string[]; amount: number; message?: string; paymentMethod?: string }
+    ): Promise<OfferDTO> {
+        if (!(typeof input.amount === 'number' && input.amount > 0)) {
+            throw new MarketplaceError('amount must be a positive number');
+        }
+
+        const listingIds = [...new Set([input.listingId, ...(input.bundleListingIds || [])])];
+        if (listingIds.length > MAX_BUNDLE_SIZE) {
+            throw new MarketplaceError(`Bundles can include up to ${MAX_BUNDLE_SIZE} listings`);
+        }
+
+        const found = await prisma.listing.findMany({ where: { id: { in: listingIds } } });
+        const listings = listingIds.map(id => found.find(listing => listing.id === id));
+        this.checkOfferable(listings, buyerId);
+        const [listing] = listings as Listing[];
+
+        const minimum = bundleMinimum(listings as Listing[]);
+        if (input.amount < minimum) {
+            throw new MarketplaceError(`Offers must be at least $${minimum}`);
+        }
+
+        const conversation = await messagingService.getOrCreateConversation(buyerId, listing.sellerId, listing.id);
+        const offer = await prisma.offer.create({
+            data: {
+                listingId: listing.id,
+                buyerId,
+                sellerId: listing.sellerId,
+                conversationId: conversation.id,
+                amount: input.amount,
+                message: input.message,
+                ...(input.paymentMethod ? { paymentMethod: input.paymentMethod } : {}),
+                expiresAt: freshExpiry(new Date()),
+                items: {
+                    create: (listings as Listing[]).map(item => ({ listingId: item.id, listPrice: item.price })),
+                },
+                rounds: {
+                    create: { actorId: buyerId, role: 'buyer', action: 'offer', amount: input.amount, message: input.message },
+                },
+            },
+            include: OFFER_INCLUDE,
+        });
+
+        const content = listingIds.length > 1
+            ? `Made a bundle offer: ${money(input.amount)} for ${listingIds.length} items`
+            : `Made an offer: ${money(input.amount)}`;
+        await messagingService.sendMessage(conversation.id, buyerId, content, 'offer', offer.id);
+        await this.publish(offer);
+
+        return serializeOffer(await this.applyRules(offer));
+    }
+
+    async list(
+        userId: string,
+        filters: { type?: 'sent' | 'received'; listingId?: string; status?: string } = {}
+    ): Promise<OfferDTO[]> {
+        const offers = await prisma.offer.findMany({
+            where: {
+                AND: [
+                    filters.type === 'sent' ? { buyerId: userId }
+                        : filters.type === 'received' ? { sellerId: userId }
+                            : { OR: [{ buyerId: userId }, { sellerId: userId }] },
+                    filters.listingId
+                        ? { OR: [{ listingId: filters.listingId }, { items: { some: { listingId: filters.listingId } } }] }
+                        : {},
+                ],
+                ...(filters.status ? { status: filters.status } : {}),
+            },
+            include: OFFER_INCLUDE,
+            orderBy: { createdAt: 'desc' },
+        });
+        return offers.map(serializeOffer);
+    }
+
+    /**
+     * The next move from whichever side's turn it is: the seller answers
+     * the buyer's offer, the buyer answers the seller's counter. Accepting
+     * places the orders.
+     */
+    async respond(
+        offerId: string,
+        userId: string,
+        response: 'accept' | 'decline' | 'counter',
+        counterAmount?: number,
+        message?: string
+    ): Promise<OfferDTO> {
+        const offer = await this.getOpenOffer(offerId);
+        const role: OfferRole | null = userId === offer.sellerId ? 'seller' : userId === offer.buyerId ? 'buyer' : null;
+        if (!role) {
+            throw new MarketplaceError('Only the buyer or seller can respond to this offer', 403);
+        }
+        if (awaiting(offer.status) !== role) {
+            throw new MarketplaceError(`Waiting on the ${awaiting(offer.status)} to respond`, 409);
+        }
+
+        if (response === 'counter') {
+            if (!(typeof counterAmount === 'number' && counterAmount > 0)) {
+                throw new MarketplaceError('counterAmount must be a positive number');
+            }
+            // A counter that meets the other side's number should be an accept
+            if (role === 'seller' && counterAmount <= offer.amount) {
+                throw new MarketplaceError(`Counter above the buyer's ${money(offer.amount)}, or accept it`);
+            }
+            if (role === 'buyer' && counterAmount >= offer.counterAmount!) {
+                throw new MarketplaceError(`Counter below the seller's ${money(offer.counterAmount!)}, or accept it`);
+            }
+        }
+
+        const updated = await this.move(offer, role, response, { amount: counterAmount, message });
+        return serializeOffer(role === 'buyer' && response === 'counter' ? await this.applyRules(updated) : updated);
+    }
+
+    async withdraw(offerId: string, buyerId: string): Promise<OfferDTO> {
+        const offer = await this.getOpenOffer(offerId);
+        if (offer.buyerId !== buyerId) {
+            throw new MarketplaceError('Only the buyer can withdraw this offer', 403);
+        }
+
+        return serializeOffer(await this.move(offer, 'buyer', 'withdraw'));
+    }
+
+    /**
+     * Expire open offers past their deadline
+     */
+    async expireOffers(): Promise<{ expired: number }> {
+        const stale = await prisma.offer.findMany({
+            where: { status: { in: OPEN_STATUSES }, expiresAt: { lt: new Date() } },
+        });
+
+        let expired = 0;
+        for (const offer of stale) {
+            // Guard on status so a response racing the job wins
+            const result = await prisma.$transaction(async tx => {
+                const moved = await tx.offer.updateMany({
+                    where: { id: offer.id, status: offer.status },
+                    data: { status: 'expired' },
+                });
+                if (moved.count > 0) {
+                    await tx.offerRound.create({ data: { offerId: offer.id, role: 'system', action: 'expire' } });
+                }
+                return moved;
+            });
+            if (result.count > 0) {
+                expired++;
+                await this.publish(await prisma.offer.findUniqueOrThrow({ where: { id: offer.id }, include: OFFER_INCLUDE }));
+            }
+        }
+
+        return { expired };
+    }
+
+    // Every listing must exist, be on sale, take offers and belong to one seller who isn't the buyer
+    private checkOfferable(listings: (Listing | undefined)[], buyerId: string): void {
+        const sellerId = listings[0]?.sellerId;
+        for (const listing of listings) {
+            if (!listing || listing.status !== 'active') {
+                throw new MarketplaceError('Listing is not available', 404);
+            }
+            if (listing.sellerId !== sellerId) {
+                throw new MarketplaceError('A bundle can only include listings from one seller');
+            }
+            if (listing.sellerId === buyerId) {
+                throw new MarketplaceError('You cannot make an offer on your own listing');
+            }
+            if (listing.pricingType === 'fixed') {
+                throw new MarketplaceError(listings.length > 1 ? `${listing.title} has a fixed price` : 'This listing has a fixed price');
+            }
+            if (listing.pricingType === 'auction') {
+                throw new MarketplaceError('Place a bid on this auction instead');
+            }
+        }
+    }
+
+    /**
+     * Record a move and post it to the conversation. Accepting places the
+     * orders in the same transaction, so a listing that sold in the
+     * meantime leaves the offer open.
+     */
+    private async move(
+        offer: OfferWithHistory,
+        role: OfferRole,
+        action: 'accept' | 'decline' | 'counter' | 'withdraw',
+        options: { amount?: number; message?: string; automatic?: boolean } = {}
+    ): Promise<OfferWithHistory> {
+        const now = new Date();
+        const agreedAmount = role === 'seller' ? offer.amount : offer.counterAmount!;
+        const actorId = role === 'seller' ? offer.sellerId : offer.buyerId;
+
+        const data: Prisma.OfferUpdateManyMutationInput =
+            action === 'accept' ? { status: 'accepted', agreedAmount, respondedAt: now }
+                : action === 'decline' ? { status: 'declined', respondedAt: now }
+                    : action === 'withdraw' ? { status: 'withdrawn', respondedAt: now }
+                        : {
+                            // The other side gets a fresh window to answer the counter
+                            ...(role === 'seller'
+                                ? { status: 'countered', counterAmount: options.amount }
+                                : { status: 'pending', amount: options.amount }),
+                            respondedAt: now,
+                            expiresAt: freshExpiry(now),
+                        };
+
+        const updated = await prisma.$transaction(async tx => {
+            // Guard on status so the other side or the expiry job can't move at the same time
+            const moved = await tx.offer.updateMany({ where: { id: offer.id, status: offer.status }, data });
+            if (moved.count === 0) {
+                throw new MarketplaceError('This offer has changed, please reload it', 409);
+            }
+
+            await tx.offerRound.create({
+                data: {
+                    offerId: offer.id,
+                    actorId,
+                    role,
+                    action,
+                    amount: action === 'accept' ? agreedAmount : action === 'counter' ? options.amount : null,
+                    message: options.message,
+                    automatic: options.automatic ?? false,
+                },
+            });
+
+            if (action === 'accept') {
+                const listingIds = offerListingIds(offer);
+                const prices = allocateBundle(agreedAmount, offer.items.length > 0
+                    ? offer.items.map(item => item.listPrice)
+                    : [agreedAmount]);
+                await orderService.createOfferOrders(tx, offer, listingIds.map((listingId, i) => ({ listingId, price: prices[i] })));
+            }
+
+            return tx.offer.findUniqueOrThrow({ where: { id: offer.id }, include: OFFER_INCLUDE });
+        });
+
+        if (offer.conversationId) {
+            const automatic = options.automatic ? ' (automatic)' : '';
+            const content = action === 'accept' ? `Offer accepted at ${money(agreedAmount)}! 🎉 Payment is held in escrow.`
+                : action === 'decline' ? 'Offer declined'
+                    : action === 'withdraw' ? 'Offer withdrawn'
+                        : `Counter offer: ${money(options.amount!)}`;
+            // Counters need an answer, so they show as offers
+            await messagingService.sendMessage(offer.conversationId, actorId, content + automatic,
+                action === 'counter' ? 'offer' : 'system', offer.id);
+        }
+
+        await this.publish(updated);
+        return updated;
+    }
+
+    /**
+     * Let the seller's rules answer an offer waiting on the seller. A
+     * failure leaves the offer for the seller to answer by hand.
+     */
+    private async applyRules(offer: OfferWithHistory): Promise<OfferWithHistory> {
+        if (offer.status !== 'pending') return offer;
+
+        try {
+            const rules = await offerRuleService.forListings(offerListingIds(offer));
+            const decision = decideByRules(offer.amount, rules, offer.counterAmount);
+            if (!decision) return offer;
+
+            return await this.move(offer, 'seller', decision.action, {
+                amount: decision.action === 'counter' ? decision.amount : undefined,
+                automatic: true,
+            });
+        } catch (error) {
+            console.error(`[Offers] Failed to apply offer rules to ${offer.id}:`, error);
+            return offer;
+        }
+    }
+
+    private async getOpenOffer(offerId: string): Promise<OfferWithHistory> {
+        const offer = await prisma.offer.findUnique({ where: { id: offerId }, include: OFFER_INCLUDE });
+        if (!offer) {
+            throw new MarketplaceError('Offer not found', 404);
+        }
+        if (!OPEN_STATUSES.includes(offer.status)) {
+            throw new MarketplaceError(`Offer is ${offer.status}`, 409);
+        }
+        if (offer.expiresAt < new Date()) {
+            throw new MarketplaceError('Offer has expired', 409);
+        }
+        return offer;
+    }
+
+    private async publish(offer: OfferWithHistory): Promise<OfferDTO> {
+        const dto = serializeOffer(offer);
+        await messagingEvents.publish([offer.buyerId, offer.sellerId], { type: 'offer', offer: dto });
+        return dto;
+    }
+}
+
+// Singleton instance
+export const offerService = new OfferService();
@@ -0,0 +1,129 @@
+/**
+ * Messaging Event Hub
+ *
+ * Pub/sub from the messaging and offer services to the SSE stream.
+ * Events are addressed to users; every open stream for a user receives
+ * them. Publishing writes one MessagingEvent row per user and a single
+ * poller fans new rows out to this process's subscribers, so an event
+ * published on one API instance reaches streams held by another (the
+ * same approach as the deal stream).
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { MessagingEvent as MessagingEventRow } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const POLL_INTERVAL_MS = parseInt(process.env.MESSAGING_STREAM_POLL_MS || '1000', 10);
+const POLL_LIMIT = 500;
+
+export type MessagingEvent =
+    | { type: 'message'; conversationId: string; message: unknown }
+    | { type: 'read'; conversationId: string; userId: string; readAt: Date }
+    | { type: 'offer'; offer: unknown };
+
+type Listener = (event: MessagingEvent) => void;
+
+function toEvent(row: MessagingEventRow): MessagingEvent {
+    const event = JSON.parse(row.payload) as MessagingEvent;
+    if (event.type === 'read') event.readAt = new Date(event.readAt);
+    return event;
+}
+
+export class MessagingEventHub {
+    private listeners: Map<string, Set<Listener>> = new Map();
+    private lastDeliveredId: number | null = null;
+    private pollTimer: NodeJS.Timeout | null = null;
+    private polling = false;
+    private pollAgain = false;
+
+    /**
+     * Record an event for each user. Never throws: a failed live update
+     * must not fail the message or offer that caused it.
+     */
+    async publish(userIds: string[], event: MessagingEvent): Promise<void> {
+        try {
+            const payload = JSON.stringify(event);
+            await prisma.messagingEvent.createMany({
+                data: [...new Set(userIds)].map(userId => ({ userId, type: event.type, payload })),
+            });
+            if (this.listeners.size > 0) void this.poll();
+        } catch (error) {
+            console.error(`[Messaging] Failed to publish ${event.type} event:`, error);
+        }
+    }
+
+    /**
+     * Listen for a user's events from now on; returns the unsubscribe
+     * function
+     */
+    subscribe(userId: string, listener: Listener): () => void {
+        const forUser = this.listeners.get(userId) ?? new Set();
+        forUser.add(listener);
+        this.listeners.set(userId, forUser);
+        if (!this.pollTimer) {
+            this.pollTimer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+        }
+        void this.poll();
+
+        return () => {
+            forUser.delete(listener);
+            if (forUser.size === 0 && this.listeners.get(userId) === forUser) {
+                this.listeners.delete(userId);
+            }
+            if (this.listeners.size === 0 && this.pollTimer) {
+                clearInterval(this.pollTimer);
+                this.pollTimer = null;
+                this.lastDeliveredId = null;
+            }
+        };
+    }
+
+    /**
+     * Delete events older than the retention window
+     */
+    async prune(retentionHours: number): Promise<number> {
+        const cutoff = new Date(Date.now() - retentionHours * 60 * 60 * 1000);
+        const result = await prisma.messagingEvent.deleteMany({ where: { createdAt: { lt: cutoff } } });
+        return result.count;
+    }
+
+    private async poll(): Promise<void> {
+        if (this.polling) {
+            this.pollAgain = true;
+            return;
+        }
+        this.polling = true;
+
+        try {
+            do {
+                this.pollAgain = false;
+                // The first subscriber starts the stream at the newest event
+                if (this.lastDeliveredId === null) {
+                    const latest = await prisma.messagingEvent.findFirst({ orderBy: { id: 'desc' }, select: { id: true } });
+                    this.lastDeliveredId = latest?.id ?? 0;
+                    continue;
+                }
+
+                const rows = await prisma.messagingEvent.findMany({
+                    where: { id: { gt: this.lastDeliveredId }, userId: { in: [...this.listeners.keys()] } },
+                    orderBy: { id: 'asc' },
+                    take: POLL_LIMIT,
+                });
+                for (const row of rows) {
+                    this.lastDeliveredId = row.id;
+                    const event = toEvent(row);
+                    this.listeners.get(row.userId)?.forEach(listener => listener(event));
+                }
+                if (rows.length === POLL_LIMIT) this.pollAgain = true;
+            } while (this.pollAgain && this.listeners.size > 0);
+        } catch (error) {
+            console.error('[Messaging] Poll failed:', error);
+        } finally {
+            this.polling = false;
+        }
+    }
+}
+
+// Singleton instance
+export const messagingEvents = new MessagingEventHub();
@@ -0,0 +1,35 @@
+/**
+ * Messaging Services Index
+ *
+ * Exports conversations, offers and offer rules, and the real-time event hub.
+ */
+
+export {
+    MessagingService,
+    messagingService,
+    serializeMessage,
+    type MessageDTO,
+    type ConversationDTO,
+    type MessageType,
+} from './MessagingService';
+export {
+    OfferService,
+    offerService,
+    serializeOffer,
+    OFFER_TTL_HOURS,
+    MAX_BUNDLE_SIZE,
+    type OfferDTO,
+    type OfferRoundDTO,
+    type OfferStatus,
+    type OfferRole,
+    type OfferAction,
+} from './OfferService';
+export {
+    OfferRuleService,
+    offerRuleService,
+    serializeOfferRule,
+    type OfferRuleDTO,
+    type OfferRuleInput,
+} from './OfferRuleService';
+export { decideByRules, bundleMinimum, allocateBundle, type RuleDecision } from './negotiation';
+export { MessagingEventHub, messagingEvents, type MessagingEvent } from './events';
@@ -0,0 +1,65 @@
+/**
+ * Negotiation Rules
+ *
+ * Pure decisions for offer threads: how a seller's offer rules answer a
+ * buyer's amount, the floor for a bundle, and how an agreed bundle price
+ * splits across its listings.
+ */
+
+import type { OfferRule } from '@prisma/client';
+
+export type RuleDecision =
+    | { action: 'accept' }
+    | { action: 'decline' }
+    | { action: 'counter'; amount: number };
+
+type Threshold = 'declineBelow' | 'acceptAtOrAbove' | 'counterAt';
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// A bundle uses a threshold only when every listing's rule sets it; the amounts add up
+function bundleThreshold(rules: (OfferRule | null)[], key: Threshold): number | null {
+    if (rules.length === 0 || rules.some(rule => rule?.[key] == null)) return null;
+    return roundCents(rules.reduce((sum, rule) => sum + rule![key]!, 0));
+}
+
+/**
+ * The seller's automatic answer to a buyer's amount, or null to leave it
+ * to the seller. A standing counter is never raised by an automatic one.
+ */
+export function decideByRules(
+    amount: number,
+    rules: (OfferRule | null)[],
+    standingCounter: number | null = null
+): RuleDecision | null {
+    const acceptAt = bundleThreshold(rules, 'acceptAtOrAbove');
+    const declineBelow = bundleThreshold(rules, 'declineBelow');
+    const counterAt = bundleThreshold(rules, 'counterAt');
+
+    if (acceptAt !== null && amount >= acceptAt) return { action: 'accept' };
+    if (declineBelow !== null && amount < declineBelow) return { action: 'decline' };
+    if (counterAt !== null && amount < counterAt) {
+        return { action: 'counter', amount: Math.min(counterAt, standingCounter ?? Infinity) };
+    }
+    return null;
+}
+
+/**
+ * Lowest offer a bundle takes: the sum of the minimums its listings set
+ */
+export function bundleMinimum(listings: { minimumOffer: number | null }[]): number {
+    return roundCents(listings.reduce((sum, listing) => sum + (listing.minimumOffer ?? 0), 0));
+}
+
+/**
+ * Split an agreed bundle price across its listings in proportion to their
+ * list prices. Rounding goes to the last listing so the parts add up.
+ */
+export function allocateBundle(total: number, listPrices: number[]): number[] {
+    const listTotal = listPrices.reduce((sum, price) => sum + price, 0);
+    const shares = listPrices.map(price => listTotal > 0 ? price / listTotal : 1 / listPrices.length);
+
+    const parts = shares.slice(0, -1).map(share => roundCents(total * share));
+    parts.push(roundCents(total - parts.reduce((sum, part) => sum + part, 0)));
+    return parts;
+}
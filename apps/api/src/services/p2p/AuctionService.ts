@@ -0,0 +1,199 @@
+/**
+ * Auction Service
+ *
+ * Bidding on auction listings and closing them. Bids are proxy bids
+ * resolved by auctionRules; the listing row carries the visible price and
+ * leader, guarded on bidCount so concurrent bids can't both apply. The
+ * auction-close job turns ended auctions into an escrowed order for the
+ * winner, or expires them when nobody met the reserve.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { Bid, Listing } from '@prisma/client';
+import { MarketplaceError, type BidDTO, type ListingDTO } from './types';
+import { serializeListing } from './ListingService';
+import { orderService } from './OrderService';
+import { resolveBid, extendedEnd, reserveMet } from './auctionRules';
+import { alertEngine } from '../alerts';
+
+const prisma = new PrismaClient();
+
+export function serializeBid(bid: Bid): BidDTO {
+    return {
+        id: bid.id,
+        listingId: bid.listingId,
+        bidderId: bid.bidderId,
+        amount: bid.amount,
+        isAutomatic: bid.isAutomatic,
+        createdAt: bid.createdAt,
+    };
+}
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+export class AuctionService {
+    /**
+     * Bid up to maxAmount. Returns the listing's new public state and
+     * whether the bidder now leads.
+     */
+    async placeBid(
+        listingId: string,
+        bidderId: string,
+        input: { maxAmount: number; paymentMethod: string }
+    ): Promise<{ listing: ListingDTO; leading: boolean; yourMaxBid: number }> {
+        if (!(typeof input.maxAmount === 'number' && input.maxAmount > 0)) {
+            throw new MarketplaceError('maxAmount must be a positive number');
+        }
+
+        const listing = await prisma.listing.findUnique({ where: { id: listingId } });
+        if (!listing || listing.status !== 'active') {
+            throw new MarketplaceError('Listing is not available', 404);
+        }
+        if (listing.pricingType !== 'auction' || !listing.auctionEndsAt) {
+            throw new MarketplaceError('This listing is not an auction');
+        }
+        if (listing.sellerId === bidderId) {
+            throw new MarketplaceError('You cannot bid on your own listing');
+        }
+
+        const now = new Date();
+        if (listing.auctionEndsAt <= now) {
+            throw new MarketplaceError('This auction has ended', 409);
+        }
+
+        const leaderBid = await this.leaderBid(listing);
+        const outcome = resolveBid({
+            startingBid: listing.price,
+            reservePrice: listing.reservePrice,
+            bidIncrement: listing.bidIncrement,
+            currentBid: listing.currentBid,
+            leader: leaderBid ? { bidderId: leaderBid.bidderId, maxAmount: leaderBid.maxAmount } : null,
+        }, { bidderId, maxAmount: input.maxAmount });
+
+        const updated = await prisma.$transaction(async tx => {
+            // Guard on bidCount and the end time so a bid that raced this one, or the close, wins
+            const applied = await tx.listing.updateMany({
+                where: { id: listing.id, status: 'active', bidCount: listing.bidCount, auctionEndsAt: { gt: now } },
+                data: {
+                    currentBid: outcome.currentBid,
+                    highBidderId: outcome.leader.bidderId,
+                    bidCount: { increment: outcome.bids.length },
+                    auctionEndsAt: extendedEnd(listing.auctionEndsAt!, now),
+                },
+            });
+            if (applied.count === 0) {
+                throw new MarketplaceError('Another bid came in first, please try again', 409);
+            }
+
+            // Rows are ordered by createdAt, so keep proxy answers after the bid they answer
+            for (const [i, bid] of outcome.bids.entries()) {
+                await tx.bid.create({
+                    data: {
+                        listingId: listing.id,
+                        ...bid,
+                        paymentMethod: bid.bidderId === bidderId ? input.paymentMethod : leaderBid!.paymentMethod,
+                        createdAt: new Date(now.getTime() + i),
+                    },
+                });
+            }
+
+            return tx.listing.findUniqueOrThrow({ where: { id: listing.id } });
+        });
+
+        if (outcome.outbidBidderId) {
+            await alertEngine.notifyAuction('outbid', outcome.outbidBidderId, updated,
+                `The current bid is now ${money(updated.currentBid!)}. Bid again before the auction ends.`);
+        }
+
+        const leading = outcome.leader.bidderId === bidderId;
+        return {
+            listing: serializeListing(updated),
+            leading,
+            yourMaxBid: leading ? outcome.leader.maxAmount : input.maxAmount,
+        };
+    }
+
+    /**
+     * Bid history, newest first. Maximums stay private except the viewer's own.
+     */
+    async listBids(listingId: string, viewerId?: string): Promise<{ bids: BidDTO[]; yourMaxBid?: number }> {
+        const listing = await prisma.listing.findUnique({ where: { id: listingId } });
+        if (!listing || listing.status === 'draft' || listing.pricingType !== 'auction') {
+            throw new MarketplaceError('Auction not found', 404);
+        }
+
+        const bids = await prisma.bid.findMany({
+            where: { listingId },
+            orderBy: { createdAt: 'desc' },
+        });
+        const yours = viewerId ? bids.find(bid => bid.bidderId === viewerId) : undefined;
+
+        return {
+            bids: bids.map(serializeBid),
+            yourMaxBid: yours?.maxAmount,
+        };
+    }
+
+    /**
+     * Close auctions past their end time. One failing auction doesn't
+     * stop the rest; it is retried on the next run.
+     */
+    async closeEnded(): Promise<{ sold: number; unsold: number; failed: number }> {
+        const ended = await prisma.listing.findMany({
+            where: { pricingType: 'auction', status: 'active', auctionEndsAt: { lte: new Date() } },
+        });
+
+        const counts = { sold: 0, unsold: 0, failed: 0 };
+        for (const listing of ended) {
+            try {
+                if (await this.close(listing)) {
+                    counts.sold++;
+                } else {
+                    counts.unsold++;
+                }
+            } catch (error) {
+                counts.failed++;
+                console.error(`[Auctions] Failed to close ${listing.id}:`, error);
+            }
+        }
+        return counts;
+    }
+
+    // Sell to the winner, or expire the listing; true when it sold
+    private async close(listing: Listing): Promise<boolean> {
+        const winningBid = reserveMet(listing) ? await this.leaderBid(listing) : null;
+
+        if (winningBid) {
+            const price = listing.currentBid!;
+            const order = await orderService.createAuctionOrder(listing, winningBid.bidderId, price, winningBid.paymentMethod);
+            await alertEngine.notifyAuction('auction_won', winningBid.bidderId, listing,
+                `You won at ${money(price)}. Payment is held in escrow until delivery (order ${order.id}).`);
+            await alertEngine.notifyAuction('auction_ended', listing.sellerId, listing,
+                `Sold for ${money(price)} after ${listing.bidCount} bids. Ship it to the buyer to get paid.`);
+            return true;
+        }
+
+        const expired = await prisma.listing.updateMany({
+            where: { id: listing.id, status: 'active', auctionEndsAt: { lte: new Date() } },
+            data: { status: 'expired' },
+        });
+        if (expired.count > 0) {
+            await alertEngine.notifyAuction('auction_ended', listing.sellerId, listing, listing.bidCount > 0
+                ? `The reserve wasn't met, so the item didn't sell. The highest bid was ${money(listing.currentBid!)}.`
+                : 'The auction ended without any bids.');
+        }
+        return false;
+    }
+
+    // The leader's latest bid carries their current maximum and payment method
+    private async leaderBid(listing: Listing): Promise<Bid | null> {
+        if (!listing.highBidderId) return null;
+        return prisma.bid.findFirst({
+            where: { listingId: listing.id, bidderId: listing.highBidderId },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+}
+
+// Singleton instance
+export const auctionService = new AuctionService();
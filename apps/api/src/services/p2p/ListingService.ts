@@ -0,0 +1,320 @@
+/**
+ * Listing Service
+ *
+ * CRUD and browsing for P2P listings. JSON columns (images, shipping,
+ * specs, aiVerification) are parsed back into the web app's Listing shape.
+ * aiVerification is computed on every save (see listingVerification.ts),
+ * never taken from the seller.
+ * Auction listings carry their public bidding state; bids themselves go
+ * through AuctionService.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Listing } from '@prisma/client';
+import {
+    MarketplaceError,
+    type AuctionDTO,
+    type ListingDTO,
+    type ListingInput,
+    type ListingQuery,
+    type ListingCondition,
+    type ListingStatus,
+    type PricingType,
+} from './types';
+import { minimumBid, reserveMet } from './auctionRules';
+import { verifyListing } from './listingVerification';
+import { gazetteer } from '../geo/gazetteer';
+
+const prisma = new PrismaClient();
+
+const MAX_LIMIT = 100;
+const CONDITIONS: ListingCondition[] = ['new', 'like_new', 'excellent', 'good', 'fair', 'parts'];
+const SELLER_STATUSES: ListingStatus[] = ['draft', 'active', 'removed'];
+
+// Where a seller can move an existing listing. Only a draft goes live;
+// moving a live listing back to draft pauses it. Pending, sold and
+// expired listings are settled by orders and auctions, not the seller.
+const SELLER_TRANSITIONS: Partial<Record<ListingStatus, ListingStatus[]>> = {
+    draft: ['active', 'removed'],
+    active: ['draft', 'removed'],
+};
+
+function serializeAuction(listing: Listing): AuctionDTO | undefined {
+    if (listing.pricingType !== 'auction' || !listing.auctionEndsAt) return undefined;
+    return {
+        endsAt: listing.auctionEndsAt,
+        ended: listing.status !== 'active' || listing.auctionEndsAt <= new Date(),
+        startingBid: listing.price,
+        currentBid: listing.currentBid ?? undefined,
+        minimumBid: minimumBid({ startingBid: listing.price, bidIncrement: listing.bidIncrement, currentBid: listing.currentBid }),
+        bidCount: listing.bidCount,
+        highBidderId: listing.highBidderId ?? undefined,
+        hasReserve: listing.reservePrice !== null,
+        reserveMet: reserveMet(listing),
+    };
+}
+
+export function serializeListing(listing: Listing): ListingDTO {
+    return {
+        id: listing.id,
+        sellerId: listing.sellerId,
+        title: listing.title,
+        description: listing.description,
+        category: listing.category,
+        subcategory: listing.subcategory ?? undefined,
+        condition: listing.condition as ListingCondition,
+        images: JSON.parse(listing.images),
+        price: listing.price,
+        originalPrice: listing.originalPrice ?? undefined,
+        originalRetailPrice: listing.originalRetailPrice ?? undefined,
+        pricingType: listing.pricingType as PricingType,
+        minimumOffer: listing.minimumOffer ?? undefined,
+        shipping: JSON.parse(listing.shipping),
+        quantity: listing.quantity,
+        brand: listing.brand ?? undefined,
+        model: listing.model ?? undefined,
+        specs: listing.specs ? JSON.parse(listing.specs) : undefined,
+        status: listing.status as ListingStatus,
+        views: listing.views,
+        saves: listing.saves,
+        createdAt: listing.createdAt,
+        updatedAt: listing.updatedAt,
+        expiresAt: listing.expiresAt ?? undefined,
+        aiVerification: listing.aiVerification ? JSON.parse(listing.aiVerification) : undefined,
+        location: listing.city || listing.zipCode ? {
+            city: listing.city ?? undefined,
+            state: listing.state ?? undefined,
+            zipCode: listing.zipCode ?? undefined,
+        } : undefined,
+        auction: serializeAuction(listing),
+    };
+}
+
+export class ListingService {
+    async list(query: ListingQuery): Promise<{
+        listings: ListingDTO[];
+        total: number;
+        page: number;
+        limit: number;
+        totalPages: number;
+    }> {
+        const page = Math.max(1, query.page || 1);
+        const limit = Math.min(MAX_LIMIT, Math.max(1, query.limit || 24));
+
+        const where: Prisma.ListingWhereInput = {
+            status: query.status || 'active',
+            ...(query.category ? { category: query.category } : {}),
+            ...(query.sellerId ? { sellerId: query.sellerId } : {}),
+            ...(query.minPrice !== undefined || query.maxPrice !== undefined ? {
+                price: {
+                    ...(query.minPrice !== undefined ? { gte: query.minPrice } : {}),
+                    ...(query.maxPrice !== undefined ? { lte: query.maxPrice } : {}),
+                },
+            } : {}),
+            ...(query.q ? {
+                OR: [
+                    { title: { contains: query.q } },
+                    { description: { contains: query.q } },
+                    { brand: { contains: query.q } },
+                ],
+            } : {}),
+        };
+
+        const orderBy: Prisma.ListingOrderByWithRelationInput =
+            query.sort === 'price-low' ? { price: 'asc' }
+                : query.sort === 'price-high' ? { price: 'desc' }
+                    : query.sort === 'popular' ? { views: 'desc' }
+                        : { createdAt: 'desc' };
+
+        const [listings, total] = await Promise.all([
+            prisma.listing.findMany({ where, orderBy, skip: (page - 1) * limit, take: limit }),
+            prisma.listing.count({ where }),
+        ]);
+
+        return {
+            listings: listings.map(serializeListing),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    /**
+     * Fetch a listing, counting a view unless the seller is looking at it
+     */
+    async get(id: string, viewerId?: string): Promise<ListingDTO> {
+        const listing = await prisma.listing.findUnique({ where: { id } });
+        if (!listing || (listing.status === 'draft' && listing.sellerId !== viewerId)) {
+            throw new MarketplaceError('Listing not found', 404);
+        }
+
+        if (listing.sellerId === viewerId) {
+            return serializeListing(listing);
+        }
+
+        const viewed = await prisma.listing.update({
+            where: { id },
+            data: { views: { increment: 1 } },
+        });
+        return serializeListing(viewed);
+    }
+
+    async create(sellerId: string, input: ListingInput): Promise<ListingDTO> {
+        this.validate(input);
+
+        const listing = await prisma.listing.create({
+            data: {
+                sellerId,
+                ...this.toData(input),
+                title: input.title,
+                description: input.description,
+                category: input.category,
+                condition: input.condition,
+                price: input.price,
+                aiVerification: JSON.stringify(verifyListing({
+                    title: input.title,
+                    description: input.description,
+                    images: input.images ?? [],
+                    price: input.price,
+                    pricingType: input.pricingType ?? 'fixed',
+                    originalRetailPrice: input.originalRetailPrice,
+                })),
+            },
+        });
+        return serializeListing(listing);
+    }
+
+    async update(id: string, sellerId: string, input: Partial<ListingInput>): Promise<ListingDTO> {
+        const existing = await this.getOwned(id, sellerId);
+        const merged = { pricingType: existing.pricingType as PricingType, price: existing.price, quantity: existing.quantity, ...input };
+        this.validate(merged, true);
+        if (merged.pricingType === 'auction' && !input.auction && !existing.auctionEndsAt) {
+            this.validateAuction(merged);
+        }
+
+        const from = existing.status as ListingStatus;
+        if (input.status !== undefined && input.status !== from && !SELLER_TRANSITIONS[from]?.includes(input.status)) {
+            throw new MarketplaceError(`A ${from} listing cannot be set to ${input.status}`, 409);
+        }
+
+        // Bidders committed against the current terms, and to a live auction
+        if (existing.bidCount > 0) {
+            if (input.price !== undefined || input.pricingType !== undefined || input.auction !== undefined || input.quantity !== undefined) {
+                throw new MarketplaceError('Price, quantity and auction terms cannot change once bidding has started', 409);
+            }
+            if (input.status === 'draft') {
+                throw new MarketplaceError('An auction with bids cannot be paused', 409);
+            }
+        }
+
+        const listing = await prisma.listing.update({
+            where: { id },
+            data: {
+                ...this.toData(input),
+                ...(input.title !== undefined ? { title: input.title } : {}),
+                ...(input.description !== undefined ? { description: input.description } : {}),
+                ...(input.category !== undefined ? { category: input.category } : {}),
+                ...(input.condition !== undefined ? { condition: input.condition } : {}),
+                ...(input.price !== undefined ? { price: input.price } : {}),
+                aiVerification: JSON.stringify(verifyListing({
+                    title: input.title ?? existing.title,
+                    description: input.description ?? existing.description,
+                    images: input.images ?? JSON.parse(existing.images),
+                    price: merged.price,
+                    pricingType: merged.pricingType,
+                    originalRetailPrice: input.originalRetailPrice ?? existing.originalRetailPrice,
+                })),
+            },
+        });
+        return serializeListing(listing);
+    }
+
+    /**
+     * Soft-delete so existing orders keep their listing
+     */
+    async remove(id: string, sellerId: string): Promise<void> {
+        await this.getOwned(id, sellerId);
+        await prisma.listing.update({ where: { id }, data: { status: 'removed' } });
+    }
+
+    private async getOwned(id: string, sellerId: string): Promise<Listing> {
+        const listing = await prisma.listing.findUnique({ where: { id } });
+        if (!listing) {
+            throw new MarketplaceError('Listing not found', 404);
+        }
+        if (listing.sellerId !== sellerId) {
+            throw new MarketplaceError('Only the seller can change this listing', 403);
+        }
+        return listing;
+    }
+
+    private validate(input: Partial<ListingInput>, partial = false): void {
+        if (!partial && (!input.title || !input.description || !input.category || !input.condition)) {
+            throw new MarketplaceError('title, description, category, condition and price are required');
+        }
+        if (input.condition && !CONDITIONS.includes(input.condition)) {
+            throw new MarketplaceError(`condition must be one of: ${CONDITIONS.join(', ')}`);
+        }
+        if ((!partial || input.price !== undefined) && !(typeof input.price === 'number' && input.price >= 0)) {
+            throw new MarketplaceError('price must be a non-negative number');
+        }
+        if (input.status && !SELLER_STATUSES.includes(input.status)) {
+            throw new MarketplaceError(`status must be one of: ${SELLER_STATUSES.join(', ')}`);
+        }
+        if (input.pricingType === 'auction' && (!partial || input.auction !== undefined)) {
+            this.validateAuction(input);
+        }
+    }
+
+    private validateAuction(input: Partial<ListingInput>): void {
+        const { auction } = input;
+        if (!auction?.endsAt || !(new Date(auction.endsAt) > new Date())) {
+            throw new MarketplaceError('Auctions need an auction.endsAt in the future');
+        }
+        if ((input.quantity ?? 1) !== 1) {
+            throw new MarketplaceError('Auctions sell a single item');
+        }
+        if (auction.reservePrice !== undefined && input.price !== undefined && auction.reservePrice < input.price) {
+            throw new MarketplaceError('reservePrice cannot be below the starting price');
+        }
+        if (auction.bidIncrement !== undefined && !(auction.bidIncrement > 0)) {
+            throw new MarketplaceError('bidIncrement must be positive');
+        }
+    }
+
+    /**
+     * Optional and JSON-encoded columns shared by create and update
+     */
+    private toData(input: Partial<ListingInput>) {
+        return {
+            ...(input.subcategory !== undefined ? { subcategory: input.subcategory } : {}),
+            ...(input.images !== undefined ? { images: JSON.stringify(input.images) } : {}),
+            ...(input.originalPrice !== undefined ? { originalPrice: input.originalPrice } : {}),
+            ...(input.originalRetailPrice !== undefined ? { originalRetailPrice: input.originalRetailPrice } : {}),
+            ...(input.pricingType !== undefined ? { pricingType: input.pricingType } : {}),
+            ...(input.minimumOffer !== undefined ? { minimumOffer: input.minimumOffer } : {}),
+            ...(input.shipping !== undefined ? { shipping: JSON.stringify(input.shipping) } : {}),
+            ...(input.quantity !== undefined ? { quantity: input.quantity } : {}),
+            ...(input.brand !== undefined ? { brand: input.brand } : {}),
+            ...(input.model !== undefined ? { model: input.model } : {}),
+            ...(input.specs !== undefined ? { specs: JSON.stringify(input.specs) } : {}),
+            ...(input.status !== undefined ? { status: input.status } : {}),
+            ...(input.expiresAt !== undefined ? { expiresAt: new Date(input.expiresAt) } : {}),
+            ...(input.location !== undefined ? {
+                city: input.location.city ?? null,
+                state: input.location.state ?? null,
+                zipCode: input.location.zipCode ?? null,
+                ...gazetteer.coordinatesFor(input.location),
+            } : {}),
+            ...(input.auction !== undefined ? {
+                auctionEndsAt: new Date(input.auction.endsAt),
+                reservePrice: input.auction.reservePrice ?? null,
+                bidIncrement: input.auction.bidIncrement ?? null,
+            } : {}),
+        };
+    }
+}
+
+// Singleton instance
+export const listingService = new ListingService();
@@ -0,0 +1,451 @@
+/**
+ * Order Service - P2P Orders & Escrow
+ *
+ * Creates orders against listings (and for auction winners and accepted
+ * offers), applies
+ * status changes through the order state machine, runs disputes, and
+ * releases escrowed funds to the seller once ESCROW_HOLD_DAYS have passed
+ * since delivery. Delivery is confirmed by the buyer or by a carrier scan
+ * (see ShippingService).
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Order, Listing, Dispute, TransactionReview } from '@prisma/client';
+import { canTransition, isOrderStatus, type OrderActor } from './orderStateMachine';
+import { serializeListing } from './ListingService';
+import {
+    CARRIERS,
+    CARRIER_NAMES,
+    isCarrier,
+    isValidTrackingNumber,
+    normalizeTrackingNumber,
+    trackingUrl,
+    type ShipmentStatus,
+} from '../shipping/carriers';
+import {
+    MarketplaceError,
+    type OrderDTO,
+    type OrderStatus,
+    type DisputeReason,
+    type DisputeOutcome,
+} from './types';
+
+const prisma = new PrismaClient();
+
+export const PLATFORM_FEE_PERCENT = 5;
+export const ESCROW_HOLD_DAYS = parseInt(process.env.ESCROW_HOLD_DAYS || '3');
+
+const DISPUTE_REASONS: DisputeReason[] = [
+    'not_as_described', 'not_received', 'damaged', 'counterfeit', 'wrong_item', 'buyer_remorse', 'other',
+];
+const DISPUTE_OUTCOMES: DisputeOutcome[] = ['refund_full', 'refund_partial', 'no_refund', 'return_required'];
+
+// Statuses from which a cancellation puts the item back on sale
+const RESTOCK_FROM: OrderStatus[] = ['pending_payment', 'payment_held'];
+
+interface OrderInput {
+    buyerId: string;
+    price: number;
+    paymentMethod: string;
+    meetup?: { location: string; scheduledAt: string };
+    offerId?: string;
+}
+
+export interface ShippingUpdate {
+    trackingNumber?: string;
+    carrier?: string;
+    estimatedDelivery?: string;
+}
+
+export function calculateFees(price: number, shippingCost: number = 0) {
+    const subtotal = price + shippingCost;
+    const platformFee = Math.round(price * (PLATFORM_FEE_PERCENT / 100) * 100) / 100;
+    const total = subtotal + platformFee;
+    const sellerReceives = price - platformFee;
+
+    return { subtotal, platformFee, total, sellerReceives };
+}
+
+export function serializeOrder(order: Order & { listing?: Listing }): OrderDTO {
+    const hasShipping = order.trackingNumber || order.carrier || order.estimatedDelivery || order.deliveredAt;
+
+    return {
+        id: order.id,
+        listingId: order.listingId,
+        sellerId: order.sellerId,
+        buyerId: order.buyerId,
+        status: order.status as OrderStatus,
+        price: order.price,
+        shippingCost: order.shippingCost,
+        platformFee: order.platformFee,
+        totalAmount: order.totalAmount,
+        paymentMethod: order.paymentMethod,
+        escrowReleaseDate: order.escrowReleaseDate ?? undefined,
+        shipping: hasShipping ? {
+            trackingNumber: order.trackingNumber ?? undefined,
+            carrier: order.carrier ?? undefined,
+            trackingUrl: order.carrier && order.trackingNumber && isCarrier(order.carrier)
+                ? trackingUrl(order.carrier, order.trackingNumber)
+                : undefined,
+            status: (order.shipmentStatus as ShipmentStatus | null) ?? undefined,
+            estimatedDelivery: order.estimatedDelivery ?? undefined,
+            deliveredAt: order.deliveredAt ?? undefined,
+        } : undefined,
+        meetup: order.meetup ? JSON.parse(order.meetup) : undefined,
+        offerId: order.offerId ?? undefined,
+        listing: order.listing ? serializeListing(order.listing) : undefined,
+        createdAt: order.createdAt,
+        updatedAt: order.updatedAt,
+    };
+}
+
+export class OrderService {
+    async listForUser(userId: string, role?: 'buyer' | 'seller'): Promise<OrderDTO[]> {
+        const orders = await prisma.order.findMany({
+            where: role === 'buyer' ? { buyerId: userId }
+                : role === 'seller' ? { sellerId: userId }
+                    : { OR: [{ buyerId: userId }, { sellerId: userId }] },
+            include: { listing: true },
+            orderBy: { createdAt: 'desc' },
+        });
+        return orders.map(serializeOrder);
+    }
+
+    /**
+     * Order detail for a participant (or staff), with disputes and reviews
+     */
+    async get(orderId: string, userId: string, isStaff = false): Promise<OrderDTO & {
+        disputes: Dispute[];
+        reviews: TransactionReview[];
+    }> {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            include: { listing: true, disputes: true, reviews: true },
+        });
+        if (!order || (!isStaff && order.buyerId !== userId && order.sellerId !== userId)) {
+            throw new MarketplaceError('Order not found', 404);
+        }
+
+        return {
+            ...serializeOrder(order),
+            disputes: order.disputes.map(d => ({ ...d, evidence: JSON.parse(d.evidence) })),
+            reviews: order.reviews,
+        };
+    }
+
+    /**
+     * Buy a listing. Payment is captured into escrow at checkout, so new
+     * orders start in payment_held.
+     */
+    async create(
+        buyerId: string,
+        input: { listingId: string; paymentMethod: string; meetup?: { location: string; scheduledAt: string } }
+    ): Promise<OrderDTO> {
+        const listing = await prisma.listing.findUnique({ where: { id: input.listingId } });
+        if (!listing || listing.status !== 'active') {
+            throw new MarketplaceError('Listing is not available', 404);
+        }
+        if (listing.sellerId === buyerId) {
+            throw new MarketplaceError('You cannot buy your own listing');
+        }
+        if (listing.pricingType === 'auction') {
+            throw new MarketplaceError('Auction listings go to the winning bidder', 409);
+        }
+
+        const order = await this.placeOrder(listing, {
+            buyerId,
+            price: listing.price,
+            paymentMethod: input.paymentMethod,
+            meetup: input.meetup,
+        });
+        return serializeOrder(order);
+    }
+
+    /**
+     * Order for an auction's winning bid, paid into escrow with the
+     * payment method the winner bid with. Only succeeds once the auction
+     * has ended, so a bid that extended it in the meantime wins the race.
+     */
+    async createAuctionOrder(listing: Listing, buyerId: string, price: number, paymentMethod: string): Promise<OrderDTO> {
+        const order = await this.placeOrder(listing, { buyerId, price, paymentMethod }, {
+            auctionEndsAt: { lte: new Date() },
+            highBidderId: buyerId,
+        });
+        return serializeOrder(order);
+    }
+
+    /**
+     * Orders for an accepted offer, one per listing at its share of the
+     * agreed price. Runs in the caller's transaction so the offer only
+     * counts as accepted if every listing could still be reserved.
+     */
+    async createOfferOrders(
+        tx: Prisma.TransactionClient,
+        offer: { id: string; buyerId: string; paymentMethod: string },
+        lines: { listingId: string; price: number }[]
+    ): Promise<OrderDTO[]> {
+        const orders: OrderDTO[] = [];
+        for (const line of lines) {
+            const listing = await tx.listing.findUnique({ where: { id: line.listingId } });
+            if (!listing) {
+                throw new MarketplaceError('Listing is not available', 404);
+            }
+            const order = await this.reserveAndCreate(tx, listing, {
+                buyerId: offer.buyerId,
+                price: line.price,
+                paymentMethod: offer.paymentMethod,
+                offerId: offer.id,
+            });
+            orders.push(serializeOrder(order));
+        }
+        return orders;
+    }
+
+    private placeOrder(
+        listing: Listing,
+        input: OrderInput,
+        guard: Prisma.ListingWhereInput = {}
+    ) {
+        return prisma.$transaction(tx => this.reserveAndCreate(tx, listing, input, guard));
+    }
+
+    // Reserve a unit of the listing and open its order in payment_held
+    private async reserveAndCreate(
+        tx: Prisma.TransactionClient,
+        listing: Listing,
+        input: OrderInput,
+        guard: Prisma.ListingWhereInput = {}
+    ) {
+        const shipping = JSON.parse(listing.shipping) as { cost?: number; freeOver?: number };
+        const shippingCost = input.meetup || (shipping.freeOver && input.price >= shipping.freeOver)
+            ? 0
+            : shipping.cost || 0;
+        const fees = calculateFees(input.price, shippingCost);
+
+        // Conditional decrement so two buyers can't take the last unit
+        const reserved = await tx.listing.updateMany({
+            where: { ...guard, id: listing.id, status: 'active', quantity: { gte: 1 } },
+            data: { quantity: { decrement: 1 } },
+        });
+        if (reserved.count === 0) {
+            throw new MarketplaceError('Listing is sold out', 409);
+        }
+        // Decide from the row, not the listing read before the decrement
+        await tx.listing.updateMany({
+            where: { id: listing.id, quantity: 0 },
+            data: { status: 'sold' },
+        });
+
+        return tx.order.create({
+            data: {
+                listingId: listing.id,
+                sellerId: listing.sellerId,
+                buyerId: input.buyerId,
+                status: 'payment_held',
+                price: input.price,
+                shippingCost,
+                platformFee: fees.platformFee,
+                totalAmount: fees.total,
+                paymentMethod: input.paymentMethod,
+                meetup: input.meetup ? JSON.stringify({ ...input.meetup, confirmed: false }) : null,
+                offerId: input.offerId,
+            },
+            include: { listing: true },
+        });
+    }
+
+    /**
+     * Move an order to a new status on behalf of a participant
+     */
+    async updateStatus(orderId: string, userId: string, status: string, shipping?: ShippingUpdate): Promise<OrderDTO> {
+        if (!isOrderStatus(status)) {
+            throw new MarketplaceError(`Unknown order status: ${status}`);
+        }
+
+        const order = await prisma.order.findUnique({ where: { id: orderId } });
+        if (!order || (order.buyerId !== userId && order.sellerId !== userId)) {
+            throw new MarketplaceError('Order not found', 404);
+        }
+
+        const actor: OrderActor = order.buyerId === userId ? 'buyer' : 'seller';
+        return this.transition(order, status, actor, shipping);
+    }
+
+    async openDispute(
+        orderId: string,
+        userId: string,
+        input: { reason: string; description: string; evidence?: string[] }
+    ): Promise<Dispute> {
+        if (!DISPUTE_REASONS.includes(input.reason as DisputeReason)) {
+            throw new MarketplaceError(`reason must be one of: ${DISPUTE_REASONS.join(', ')}`);
+        }
+
+        const order = await prisma.order.findUnique({ where: { id: orderId } });
+        if (!order || (order.buyerId !== userId && order.sellerId !== userId)) {
+            throw new MarketplaceError('Order not found', 404);
+        }
+
+        const actor: OrderActor = order.buyerId === userId ? 'buyer' : 'seller';
+        await this.transition(order, 'disputed', actor);
+
+        return prisma.dispute.create({
+            data: {
+                orderId,
+                initiatorId: userId,
+                reason: input.reason,
+                description: input.description,
+                evidence: JSON.stringify(input.evidence || []),
+            },
+        });
+    }
+
+    /**
+     * Support decision on a dispute. A full refund refunds the order;
+     * anything else completes it and releases the funds.
+     */
+    async resolveDispute(disputeId: string, outcome: string, amount?: number): Promise<Dispute> {
+        if (!DISPUTE_OUTCOMES.includes(outcome as DisputeOutcome)) {
+            throw new MarketplaceError(`outcome must be one of: ${DISPUTE_OUTCOMES.join(', ')}`);
+        }
+
+        const dispute = await prisma.dispute.findUnique({
+            where: { id: disputeId },
+            include: { order: true },
+        });
+        if (!dispute) {
+            throw new MarketplaceError('Dispute not found', 404);
+        }
+        if (dispute.status === 'resolved') {
+            throw new MarketplaceError('Dispute is already resolved', 409);
+        }
+
+        await this.transition(dispute.order, outcome === 'refund_full' ? 'refunded' : 'completed', 'system');
+
+        return prisma.dispute.update({
+            where: { id: disputeId },
+            data: {
+                status: 'resolved',
+                outcome,
+                refundAmount: outcome === 'refund_full' ? dispute.order.totalAmount : amount,
+                resolvedBy: 'support',
+                resolvedAt: new Date(),
+            },
+        });
+    }
+
+    /**
+     * Complete delivered orders whose hold period has passed
+     */
+    async releaseEscrow(): Promise<{ released: number; failed: number }> {
+        const due = await prisma.order.findMany({
+            where: { status: 'delivered', escrowReleaseDate: { lte: new Date() } },
+        });
+
+        let released = 0;
+        let failed = 0;
+        for (const order of due) {
+            try {
+                await this.transition(order, 'completed', 'system');
+                released++;
+            } catch (error) {
+                console.error(`[OrderService] Failed to release escrow for ${order.id}:`, error);
+                failed++;
+            }
+        }
+
+        return { released, failed };
+    }
+
+    /**
+     * Delivery reported by the carrier. The escrow hold runs from the
+     * scan, not from when the webhook arrived.
+     */
+    async markDelivered(order: Order, deliveredAt: Date): Promise<OrderDTO> {
+        return this.transition(order, 'delivered', 'system', undefined, deliveredAt);
+    }
+
+    private async transition(
+        order: Order,
+        to: OrderStatus,
+        actor: OrderActor,
+        shipping?: ShippingUpdate,
+        deliveredAt: Date = new Date()
+    ): Promise<OrderDTO> {
+        const from = order.status as OrderStatus;
+        if (!canTransition(from, to, actor)) {
+            throw new MarketplaceError(`The ${actor} cannot move an order from ${from} to ${to}`, 409);
+        }
+
+        // Skipping shipping is only for meetups, where the item is handed over in person
+        if (from === 'payment_held' && to === 'delivered' && !order.meetup) {
+            throw new MarketplaceError('Only meetup orders can be marked delivered without shipping', 409);
+        }
+
+        const data: Parameters<typeof prisma.order.update>[0]['data'] = { status: to };
+
+        if (to === 'shipped') {
+            if (!shipping?.trackingNumber || !shipping.carrier) {
+                throw new MarketplaceError('trackingNumber and carrier are required to ship');
+            }
+            if (!isCarrier(shipping.carrier)) {
+                throw new MarketplaceError(`carrier must be one of: ${CARRIERS.join(', ')}`);
+            }
+            if (!isValidTrackingNumber(shipping.carrier, shipping.trackingNumber)) {
+                throw new MarketplaceError(`${shipping.trackingNumber} is not a valid ${CARRIER_NAMES[shipping.carrier]} tracking number`);
+            }
+            const trackingNumber = normalizeTrackingNumber(shipping.trackingNumber);
+
+            // One box can carry a bundle to the same buyer, but a number
+            // already on someone else's order would let one scan deliver both
+            const sharedWith = await prisma.order.findFirst({
+                where: {
+                    id: { not: order.id },
+                    carrier: shipping.carrier,
+                    trackingNumber,
+                    status: { not: 'cancelled' },
+                    OR: [{ buyerId: { not: order.buyerId } }, { sellerId: { not: order.sellerId } }],
+                },
+            });
+            if (sharedWith) {
+                throw new MarketplaceError('That tracking number is already on another order', 409);
+            }
+
+            data.trackingNumber = trackingNumber;
+            data.carrier = shipping.carrier;
+            data.estimatedDelivery = shipping.estimatedDelivery ? new Date(shipping.estimatedDelivery) : null;
+            data.shippedAt = new Date();
+        }
+
+        if (to === 'delivered') {
+            data.deliveredAt = deliveredAt;
+            data.escrowReleaseDate = new Date(deliveredAt.getTime() + ESCROW_HOLD_DAYS * 24 * 60 * 60 * 1000);
+        }
+
+        const updated = await prisma.$transaction(async tx => {
+            // Guard on the current status so concurrent changes can't both apply
+            const result = await tx.order.updateMany({ where: { id: order.id, status: from }, data });
+            if (result.count === 0) {
+                throw new MarketplaceError('Order was changed by someone else, please retry', 409);
+            }
+
+            if ((to === 'cancelled' || to === 'refunded') && RESTOCK_FROM.includes(from)) {
+                await tx.listing.update({
+                    where: { id: order.listingId },
+                    data: { quantity: { increment: 1 } },
+                });
+                await tx.listing.updateMany({
+                    where: { id: order.listingId, status: 'sold' },
+                    data: { status: 'active' },
+                });
+            }
+
+            return tx.order.findUniqueOrThrow({ where: { id: order.id }, include: { listing: true } });
+        });
+
+        console.log(`[OrderService] Order ${order.id}: ${from} → ${to} (${actor})`);
+        return serializeOrder(updated);
+    }
+}
+
+// Singleton instance
+export const orderService = new OrderService();
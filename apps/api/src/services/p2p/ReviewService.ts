@@ -0,0 +1,107 @@
+/**
+ * Review Service
+ *
+ * Buyer and seller feedback on completed P2P orders. Each party can
+ * review the other once per order.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import type { TransactionReview } from '@prisma/client';
+import { MarketplaceError } from './types';
+
+const prisma = new PrismaClient();
+
+export interface ReviewInput {
+    rating: number;
+    title?: string;
+    comment: string;
+    images?: string[];
+    aspects?: {
+        accuracy: number;
+        communication: number;
+        shipping: number;
+        packaging?: number;
+    };
+}
+
+export function serializeReview(review: TransactionReview) {
+    const { images, aspects, responseComment, respondedAt, ...rest } = review;
+    return {
+        ...rest,
+        images: JSON.parse(images),
+        aspects: aspects ? JSON.parse(aspects) : undefined,
+        response: responseComment ? { comment: responseComment, respondedAt } : undefined,
+    };
+}
+
+export class ReviewService {
+    async create(orderId: string, reviewerId: string, input: ReviewInput) {
+        if (!Number.isInteger(input.rating) || input.rating < 1 || input.rating > 5) {
+            throw new MarketplaceError('rating must be an integer from 1 to 5');
+        }
+        if (!input.comment) {
+            throw new MarketplaceError('comment is required');
+        }
+
+        const order = await prisma.order.findUnique({ where: { id: orderId } });
+        if (!order || (order.buyerId !== reviewerId && order.sellerId !== reviewerId)) {
+            throw new MarketplaceError('Order not found', 404);
+        }
+        if (order.status !== 'completed') {
+            throw new MarketplaceError('Orders can be reviewed once completed', 409);
+        }
+
+        const existing = await prisma.transactionReview.findUnique({
+            where: { orderId_reviewerId: { orderId, reviewerId } },
+        });
+        if (existing) {
+            throw new MarketplaceError('You have already reviewed this order', 409);
+        }
+
+        const isBuyer = order.buyerId === reviewerId;
+        const review = await prisma.transactionReview.create({
+            data: {
+                orderId,
+                reviewerId,
+                revieweeId: isBuyer ? order.sellerId : order.buyerId,
+                type: isBuyer ? 'buyer_to_seller' : 'seller_to_buyer',
+                rating: input.rating,
+                title: input.title,
+                comment: input.comment,
+                images: JSON.stringify(input.images || []),
+                aspects: input.aspects ? JSON.stringify(input.aspects) : null,
+            },
+        });
+        return serializeReview(review);
+    }
+
+    async listForUser(revieweeId: string) {
+        const reviews = await prisma.transactionReview.findMany({
+            where: { revieweeId },
+            orderBy: { createdAt: 'desc' },
+        });
+        return reviews.map(serializeReview);
+    }
+
+    /**
+     * Let the reviewed party reply once
+     */
+    async respond(reviewId: string, userId: string, comment: string) {
+        const review = await prisma.transactionReview.findUnique({ where: { id: reviewId } });
+        if (!review || review.revieweeId !== userId) {
+            throw new MarketplaceError('Review not found', 404);
+        }
+        if (review.responseComment) {
+            throw new MarketplaceError('You have already responded to this review', 409);
+        }
+
+        const updated = await prisma.transactionReview.update({
+            where: { id: reviewId },
+            data: { responseComment: comment, respondedAt: new Date() },
+        });
+        return serializeReview(updated);
+    }
+}
+
+// Singleton instance
+export const reviewService = new ReviewService();
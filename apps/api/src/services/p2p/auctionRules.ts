@@ -0,0 +1,138 @@
+/**
+ * Auction Rules
+ *
+ * Proxy bidding: every bid names the most the bidder will pay, and the
+ * visible price only rises one increment past the runner-up's maximum.
+ * A tie goes to the earlier bid. Meeting a hidden reserve lifts the
+ * price to the reserve. Bids late in the auction push its end back so
+ * nobody can win by sniping.
+ */
+
+import { MarketplaceError } from './types';
+
+// A bid inside this many minutes of the end extends the auction to this many minutes out
+export const ANTI_SNIPE_MINUTES = parseInt(process.env.AUCTION_ANTI_SNIPE_MINUTES || '2');
+
+// Minimum raise by current price when the seller didn't set one
+const INCREMENT_TIERS: { below: number; increment: number }[] = [
+    { below: 25, increment: 1 },
+    { below: 100, increment: 2 },
+    { below: 250, increment: 5 },
+    { below: 1000, increment: 10 },
+    { below: Infinity, increment: 25 },
+];
+
+export interface AuctionState {
+    startingBid: number;
+    reservePrice: number | null;
+    bidIncrement: number | null;
+    currentBid: number | null;
+    leader: { bidderId: string; maxAmount: number } | null;
+}
+
+export interface BidOutcome {
+    currentBid: number;
+    leader: { bidderId: string; maxAmount: number };
+    outbidBidderId: string | null;
+    // Bid rows to record, oldest first
+    bids: { bidderId: string; amount: number; maxAmount: number; isAutomatic: boolean }[];
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function bidIncrement(price: number, fixed?: number | null): number {
+    if (fixed) return fixed;
+    return INCREMENT_TIERS.find(tier => price < tier.below)!.increment;
+}
+
+/**
+ * Smallest bid that would be accepted from someone other than the leader
+ */
+export function minimumBid(state: Pick<AuctionState, 'startingBid' | 'bidIncrement' | 'currentBid'>): number {
+    if (state.currentBid === null) return state.startingBid;
+    return roundCents(state.currentBid + bidIncrement(state.currentBid, state.bidIncrement));
+}
+
+// A winning maximum at or over the reserve pulls the price up to it
+function withReserve(price: number, winnerMax: number, reservePrice: number | null): number {
+    return reservePrice !== null && winnerMax >= reservePrice ? Math.max(price, reservePrice) : price;
+}
+
+/**
+ * Apply a bid to the auction. Throws MarketplaceError when it is too low.
+ */
+export function resolveBid(state: AuctionState, bid: { bidderId: string; maxAmount: number }): BidOutcome {
+    const { leader, reservePrice } = state;
+    const maxAmount = roundCents(bid.maxAmount);
+
+    // The leader raising their own maximum only moves the price to meet the reserve
+    if (leader && leader.bidderId === bid.bidderId) {
+        if (maxAmount <= leader.maxAmount) {
+            throw new MarketplaceError(`Your maximum bid is already $${leader.maxAmount}`);
+        }
+        const currentBid = withReserve(state.currentBid ?? state.startingBid, maxAmount, reservePrice);
+        return {
+            currentBid,
+            leader: { bidderId: bid.bidderId, maxAmount },
+            outbidBidderId: null,
+            bids: [{ bidderId: bid.bidderId, amount: currentBid, maxAmount, isAutomatic: false }],
+        };
+    }
+
+    const minimum = minimumBid(state);
+    if (maxAmount < minimum) {
+        throw new MarketplaceError(`Bids must be at least $${minimum}`);
+    }
+
+    if (!leader) {
+        const currentBid = withReserve(state.startingBid, maxAmount, reservePrice);
+        return {
+            currentBid,
+            leader: { bidderId: bid.bidderId, maxAmount },
+            outbidBidderId: null,
+            bids: [{ bidderId: bid.bidderId, amount: currentBid, maxAmount, isAutomatic: false }],
+        };
+    }
+
+    if (maxAmount > leader.maxAmount) {
+        const price = Math.min(maxAmount, roundCents(leader.maxAmount + bidIncrement(leader.maxAmount, state.bidIncrement)));
+        const currentBid = withReserve(price, maxAmount, reservePrice);
+        return {
+            currentBid,
+            leader: { bidderId: bid.bidderId, maxAmount },
+            outbidBidderId: leader.bidderId,
+            bids: [
+                { bidderId: leader.bidderId, amount: leader.maxAmount, maxAmount: leader.maxAmount, isAutomatic: true },
+                { bidderId: bid.bidderId, amount: currentBid, maxAmount, isAutomatic: false },
+            ],
+        };
+    }
+
+    // The leader's proxy answers, and wins a tie
+    const price = Math.min(leader.maxAmount, roundCents(maxAmount + bidIncrement(maxAmount, state.bidIncrement)));
+    const currentBid = withReserve(price, leader.maxAmount, reservePrice);
+    return {
+        currentBid,
+        leader,
+        outbidBidderId: bid.bidderId,
+        bids: [
+            { bidderId: bid.bidderId, amount: maxAmount, maxAmount, isAutomatic: false },
+            { bidderId: leader.bidderId, amount: currentBid, maxAmount: leader.maxAmount, isAutomatic: true },
+        ],
+    };
+}
+
+/**
+ * End time after a bid at `now`: late bids push it out to the anti-snipe window
+ */
+export function extendedEnd(endsAt: Date, now: Date = new Date()): Date {
+    const window = ANTI_SNIPE_MINUTES * 60 * 1000;
+    return endsAt.getTime() - now.getTime() < window ? new Date(now.getTime() + window) : endsAt;
+}
+
+/**
+ * Whether the auction has a winner: any bid, at or over the reserve
+ */
+export function reserveMet(state: Pick<AuctionState, 'reservePrice' | 'currentBid'>): boolean {
+    return state.currentBid !== null && (state.reservePrice === null || state.currentBid >= state.reservePrice);
+}
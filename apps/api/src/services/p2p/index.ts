@@ -0,0 +1,23 @@
+/**
+ * P2P Marketplace Services Index
+ *
+ * Exports listing, listing verification, auction, order/escrow and
+ * review services.
+ */
+
+export { ListingService, listingService, serializeListing } from './ListingService';
+export {
+    OrderService,
+    orderService,
+    serializeOrder,
+    calculateFees,
+    PLATFORM_FEE_PERCENT,
+    ESCROW_HOLD_DAYS,
+    type ShippingUpdate,
+} from './OrderService';
+export { AuctionService, auctionService, serializeBid } from './AuctionService';
+export { verifyListing, type ListingVerification, type VerifiableListing } from './listingVerification';
+export { ANTI_SNIPE_MINUTES, bidIncrement, minimumBid, resolveBid, extendedEnd, reserveMet } from './auctionRules';
+export { ReviewService, reviewService, serializeReview, type ReviewInput } from './ReviewService';
+export { ORDER_TRANSITIONS, canTransition, isOrderStatus, type OrderActor } from './orderStateMachine';
+export * from './types';
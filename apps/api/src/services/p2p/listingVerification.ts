@@ -0,0 +1,92 @@
+/**
+ * Listing Verification
+ *
+ * The quality check behind a listing's "AI Verified" badge: photos,
+ * price against retail, description and title length, and spam phrases.
+ * The server runs it whenever a listing is saved; sellers can't set the
+ * result themselves.
+ */
+
+import type { PricingType } from './types';
+
+export interface VerifiableListing {
+    title: string;
+    description: string;
+    images: string[];
+    price: number;
+    pricingType: PricingType;
+    originalRetailPrice?: number | null;
+}
+
+export interface ListingVerification {
+    approved: boolean;
+    score: number;
+    imageAuthenticity: number;
+    priceReasonableness: number;
+    descriptionQuality: number;
+    overallScore: number;
+    flags: string[];
+    suggestions: string[];
+}
+
+const SPAM_PATTERNS = ['FAST MONEY', 'GET RICH', 'GUARANTEED', 'ACT NOW'];
+
+export function verifyListing(listing: VerifiableListing): ListingVerification {
+    const flags: string[] = [];
+    const suggestions: string[] = [];
+    let imageScore = 80;
+    let priceScore = 80;
+    let descriptionScore = 80;
+
+    if (listing.images.length === 0) {
+        imageScore = 0;
+        flags.push('No images provided');
+        suggestions.push('Add at least 3 high-quality photos');
+    } else if (listing.images.length < 3) {
+        imageScore = 60;
+        suggestions.push('Add more photos for better buyer confidence');
+    }
+
+    if (listing.price === 0 && listing.pricingType !== 'free') {
+        priceScore = 40;
+        flags.push('Price cannot be zero for non-free items');
+    }
+    if (listing.price > 10000) {
+        suggestions.push('High-value items may require additional verification');
+    }
+    if (listing.originalRetailPrice && listing.price > listing.originalRetailPrice * 1.5) {
+        priceScore = 50;
+        flags.push('Price significantly above retail');
+    }
+
+    if (listing.description.length < 50) {
+        descriptionScore = 40;
+        flags.push('Description too short');
+        suggestions.push('Add more details about condition, features, and any defects');
+    } else if (listing.description.length < 150) {
+        descriptionScore = 60;
+        suggestions.push('Consider adding more details');
+    }
+
+    if (listing.title.length < 10) {
+        flags.push('Title too short');
+        suggestions.push('Use a descriptive title with brand and model');
+    }
+
+    if (SPAM_PATTERNS.some(pattern => listing.title.toUpperCase().includes(pattern))) {
+        flags.push('Possible spam content detected');
+        descriptionScore = 20;
+    }
+
+    const overallScore = Math.round((imageScore + priceScore + descriptionScore) / 3);
+    return {
+        approved: flags.length === 0 && overallScore >= 60,
+        score: overallScore,
+        imageAuthenticity: imageScore,
+        priceReasonableness: priceScore,
+        descriptionQuality: descriptionScore,
+        overallScore,
+        flags,
+        suggestions,
+    };
+}
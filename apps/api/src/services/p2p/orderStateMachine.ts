@@ -0,0 +1,55 @@
+/**
+ * Order State Machine
+ *
+ * Every order status change goes through here. Each transition names
+ * the parties allowed to make it; 'system' covers the escrow release
+ * job and dispute resolution.
+ *
+ *   pending_payment ─► payment_held ─► shipped ─► delivered ─► completed
+ *         │                 │             │           │
+ *         ▼                 ▼             ▼           ▼
+ *     cancelled         refunded      disputed ◄──────┘
+ *                                        │
+ *                                        ▼
+ *                              completed | refunded
+ */
+
+import type { OrderStatus } from './types';
+
+export type OrderActor = 'buyer' | 'seller' | 'system';
+
+export const ORDER_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, OrderActor[]>>> = {
+    pending_payment: {
+        payment_held: ['buyer'],
+        cancelled: ['buyer', 'seller', 'system'],
+    },
+    payment_held: {
+        shipped: ['seller'],
+        delivered: ['seller'],          // Meetup orders only (OrderService checks)
+        refunded: ['seller', 'system'], // Seller cancels before shipping
+        disputed: ['buyer'],
+    },
+    shipped: {
+        delivered: ['buyer', 'system'],
+        disputed: ['buyer'],
+    },
+    delivered: {
+        completed: ['buyer', 'system'], // Buyer releases early, or the hold expires
+        disputed: ['buyer'],
+    },
+    disputed: {
+        completed: ['system'],
+        refunded: ['system'],
+    },
+    completed: {},
+    refunded: {},
+    cancelled: {},
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus, actor: OrderActor): boolean {
+    return ORDER_TRANSITIONS[from]?.[to]?.includes(actor) ?? false;
+}
+
+export function isOrderStatus(value: string): value is OrderStatus {
+    return value in ORDER_TRANSITIONS;
+}
@@ -0,0 +1,198 @@
+/**
+ * P2P Marketplace Types
+ *
+ * API shapes for listings, orders, disputes and reviews. These mirror
+ * apps/web/src/types/marketplace.ts so the web client can use the
+ * responses directly.
+ */
+
+import type { Response } from 'express';
+
+export type ListingCondition = 'new' | 'like_new' | 'excellent' | 'good' | 'fair' | 'parts';
+
+export type ListingStatus = 'draft' | 'active' | 'pending' | 'sold' | 'expired' | 'removed';
+
+export type PricingType = 'fixed' | 'negotiable' | 'auction' | 'free';
+
+export type OrderStatus =
+    | 'pending_payment'
+    | 'payment_held'
+    | 'shipped'
+    | 'delivered'
+    | 'completed'
+    | 'disputed'
+    | 'refunded'
+    | 'cancelled';
+
+export type DisputeReason =
+    | 'not_as_described'
+    | 'not_received'
+    | 'damaged'
+    | 'counterfeit'
+    | 'wrong_item'
+    | 'buyer_remorse'
+    | 'other';
+
+export type DisputeOutcome = 'refund_full' | 'refund_partial' | 'no_refund' | 'return_required';
+
+export interface ListingShipping {
+    type: 'ship' | 'local_only' | 'both';
+    cost?: number;
+    freeOver?: number;
+    estimatedDays?: number;
+    localPickupOnly?: boolean;
+}
+
+// Pickup location; geocoded to coordinates that aren't returned
+export interface ListingLocation {
+    city?: string;
+    state?: string;
+    zipCode?: string;
+}
+
+// Auction terms a seller sets; price is the starting bid
+export interface AuctionInput {
+    endsAt: string;
+    reservePrice?: number;
+    bidIncrement?: number;
+}
+
+// Public auction state; the reserve and bidders' maximums stay hidden
+export interface AuctionDTO {
+    endsAt: Date;
+    ended: boolean;
+    startingBid: number;
+    currentBid?: number;
+    minimumBid: number;
+    bidCount: number;
+    highBidderId?: string;
+    hasReserve: boolean;
+    reserveMet: boolean;
+}
+
+export interface BidDTO {
+    id: string;
+    listingId: string;
+    bidderId: string;
+    amount: number;
+    isAutomatic: boolean;
+    createdAt: Date;
+}
+
+export interface ListingInput {
+    title: string;
+    description: string;
+    category: string;
+    subcategory?: string;
+    condition: ListingCondition;
+    images?: string[];
+    price: number;
+    originalPrice?: number;
+    originalRetailPrice?: number;
+    pricingType?: PricingType;
+    minimumOffer?: number;
+    shipping?: ListingShipping;
+    quantity?: number;
+    brand?: string;
+    model?: string;
+    specs?: Record<string, string>;
+    status?: ListingStatus;
+    expiresAt?: string;
+    location?: ListingLocation;
+    auction?: AuctionInput;
+}
+
+export interface ListingQuery {
+    category?: string;
+    sellerId?: string;
+    status?: ListingStatus;
+    q?: string;
+    minPrice?: number;
+    maxPrice?: number;
+    sort?: 'recent' | 'price-low' | 'price-high' | 'popular';
+    page?: number;
+    limit?: number;
+}
+
+export interface ListingDTO {
+    id: string;
+    sellerId: string;
+    title: string;
+    description: string;
+    category: string;
+    subcategory?: string;
+    condition: ListingCondition;
+    images: string[];
+    price: number;
+    originalPrice?: number;
+    originalRetailPrice?: number;
+    pricingType: PricingType;
+    minimumOffer?: number;
+    shipping: ListingShipping;
+    quantity: number;
+    brand?: string;
+    model?: string;
+    specs?: Record<string, string>;
+    status: ListingStatus;
+    views: number;
+    saves: number;
+    createdAt: Date;
+    updatedAt: Date;
+    expiresAt?: Date;
+    aiVerification?: Record<string, unknown>;
+    location?: ListingLocation;
+    auction?: AuctionDTO;
+}
+
+export interface OrderDTO {
+    id: string;
+    listingId: string;
+    sellerId: string;
+    buyerId: string;
+    status: OrderStatus;
+    price: number;
+    shippingCost: number;
+    platformFee: number;
+    totalAmount: number;
+    paymentMethod: string;
+    escrowReleaseDate?: Date;
+    shipping?: {
+        trackingNumber?: string;
+        carrier?: string;
+        trackingUrl?: string;
+        status?: string;            // Latest carrier scan
+        estimatedDelivery?: Date;
+        deliveredAt?: Date;
+    };
+    meetup?: {
+        location: string;
+        scheduledAt: Date;
+        confirmed: boolean;
+    };
+    offerId?: string;
+    listing?: ListingDTO;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Expected marketplace failures, carrying the HTTP status to respond with
+ */
+export class MarketplaceError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = 'MarketplaceError';
+    }
+}
+
+/**
+ * Shared catch for marketplace routes: a MarketplaceError answers with
+ * its own status, anything else is logged and answers 500 with fallback
+ */
+export function handleMarketplaceError(res: Response, error: unknown, fallback: string) {
+    if (error instanceof MarketplaceError) {
+        return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ error: fallback });
+}
@@ -0,0 +1,457 @@
+/**
+ * Deal Search Service
+ * Full-text search over stored deals on a SQLite FTS5 index.
+ *
+ * The index (`deal_search`) is not a Prisma model: ensureIndex creates it
+ * with triggers that keep it in step with the Deal table, and fills it the
+ * first time. Each query term is matched together with its synonyms and,
+ * when nothing in the index contains it, its closest spellings. Results
+ * rank by BM25 blended with the deal score, with facet counts and cursor
+ * pagination.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { parseSearchQuery, ftsOperand, searchForm, editDistance, allowedTypos } from './query';
+import { synonymsFor } from './synonyms';
+
+const prisma = new PrismaClient();
+
+export type SearchSort = 'relevance' | 'score' | 'price-low' | 'price-high' | 'discount' | 'recent';
+
+export type FacetName = 'category' | 'brand' | 'marketplace' | 'condition' | 'price';
+
+export interface DealSearchParams {
+    q?: string;
+    categories?: string[];
+    brands?: string[];
+    marketplaces?: string[];    // Marketplace IDs or names
+    conditions?: string[];
+    minPrice?: number;
+    maxPrice?: number;
+    minScore?: number;
+    createdAfter?: Date;        // Ingested in (createdAfter, createdBefore]
+    createdBefore?: Date;
+    sort?: SearchSort;
+    cursor?: string;
+    limit?: number;
+}
+
+export interface DealSearchOptions {
+    // Leave out the total and facets, for callers that only page through deals
+    dealsOnly?: boolean;
+}
+
+export interface FacetValue {
+    value: string;
+    count: number;
+}
+
+export interface PriceFacetValue extends FacetValue {
+    label: string;
+    min: number;
+    max: number | null;
+}
+
+export interface SearchFacets {
+    category: FacetValue[];
+    brand: FacetValue[];
+    marketplace: FacetValue[];
+    condition: FacetValue[];
+    price: PriceFacetValue[];
+}
+
+export interface SpellingCorrection {
+    term: string;
+    matched: string[];
+}
+
+/**
+ * Expected search failures (a bad cursor), with the HTTP status to respond with
+ */
+export class SearchError extends Error {
+    constructor(message: string, public status: number = 400) {
+        super(message);
+        this.name = 'SearchError';
+    }
+}
+
+// BM25 column weights, in index column order: deal_id (unindexed), title, description, brand, model, category, marketplace
+const COLUMN_WEIGHTS = [0, 10, 2, 6, 8, 3, 1];
+
+// Share of the final ranking that comes from text relevance; the rest is dealScore
+const RELEVANCE_WEIGHT = 0.75;
+
+const PRICE_BUCKETS: { value: string; label: string; min: number; max: number | null }[] = [
+    { value: 'under-25', label: 'Under $25', min: 0, max: 25 },
+    { value: '25-50', label: '$25 - $50', min: 25, max: 50 },
+    { value: '50-100', label: '$50 - $100', min: 50, max: 100 },
+    { value: '100-250', label: '$100 - $250', min: 100, max: 250 },
+    { value: '250-500', label: '$250 - $500', min: 250, max: 500 },
+    { value: '500-1000', label: '$500 - $1,000', min: 500, max: 1000 },
+    { value: '1000-plus', label: '$1,000 & up', min: 1000, max: null },
+];
+
+const FACET_LIMIT = 20;
+
+// Prisma stores SQLite DateTimes as epoch milliseconds; older rows may hold ISO text
+const EPOCH_MS = (column: string) => Prisma.raw(
+    `(CASE WHEN typeof(${column}) = 'integer' THEN ${column} ELSE CAST(strftime('%s', ${column}) AS INTEGER) * 1000 END)`
+);
+
+const SORTS: Record<SearchSort, { value: Prisma.Sql; direction: 'ASC' | 'DESC' }> = {
+    'relevance': { value: Prisma.sql`relevance`, direction: 'DESC' },
+    'score': { value: Prisma.sql`COALESCE("dealScore", 0)`, direction: 'DESC' },
+    'price-low': { value: Prisma.sql`"currentPrice"`, direction: 'ASC' },
+    'price-high': { value: Prisma.sql`"currentPrice"`, direction: 'DESC' },
+    'discount': { value: Prisma.sql`COALESCE("discountPercent", 0)`, direction: 'DESC' },
+    'recent': { value: EPOCH_MS('"publishedAt"'), direction: 'DESC' },
+};
+
+const PRICE_BUCKET_SQL = Prisma.raw(`CASE ${PRICE_BUCKETS
+    .filter(bucket => bucket.max !== null)
+    .map(bucket => `WHEN d."currentPrice" < ${bucket.max} THEN '${bucket.value}'`)
+    .join(' ')} ELSE '${PRICE_BUCKETS[PRICE_BUCKETS.length - 1].value}' END`);
+
+const FACET_VALUES: Record<Exclude<FacetName, 'price'>, Prisma.Sql> = {
+    category: Prisma.sql`d.category`,
+    brand: Prisma.sql`d.brand`,
+    marketplace: Prisma.sql`mk.name`,
+    condition: Prisma.sql`d.condition`,
+};
+
+interface SearchCursor {
+    sort: SearchSort;
+    value: number;
+    id: string;
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+    return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: SearchSort): SearchCursor {
+    try {
+        const [cursorSort, value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (cursorSort === sort && typeof value === 'number' && typeof id === 'string') {
+            return { sort, value, id };
+        }
+    } catch {
+        // Fall through
+    }
+    throw new SearchError('Invalid cursor for this search');
+}
+
+const lower = (values: string[]) => values.map(value => value.toLowerCase());
+
+export class DealSearchService {
+    private ready: Promise<void> | null = null;
+
+    /**
+     * Create the FTS index and its triggers if they're missing, filling the
+     * index from existing deals when it's new. Safe to call repeatedly.
+     */
+    ensureIndex(): Promise<void> {
+        if (!this.ready) {
+            this.ready = this.createIndex().catch(error => {
+                this.ready = null;
+                throw error;
+            });
+        }
+        return this.ready;
+    }
+
+    private async createIndex(): Promise<void> {
+        const existing = await prisma.$queryRaw<{ name: string }[]>`
+            SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'deal_search'`;
+
+        await prisma.$executeRawUnsafe(`
+            CREATE VIRTUAL TABLE IF NOT EXISTS deal_search USING fts5(
+                deal_id UNINDEXED, title, description, brand, model, category, marketplace,
+                tokenize = 'unicode61 remove_diacritics 2',
+                prefix = '2 3 4'
+            )`);
+        // Indexed terms with document counts, for spelling correction
+        await prisma.$executeRawUnsafe(`CREATE VIRTUAL TABLE IF NOT EXISTS deal_search_terms USING fts5vocab(deal_search, 'row')`);
+
+        const newRow = `NEW.rowid, NEW.id, NEW.title, COALESCE(NEW.description, ''),
+            COALESCE(NEW.brand, ''), COALESCE(NEW.model, ''), NEW.category,
+            COALESCE((SELECT name FROM "Marketplace" WHERE id = NEW."marketplaceId"), '')`;
+        const columns = 'rowid, deal_id, title, description, brand, model, category, marketplace';
+
+        await prisma.$executeRawUnsafe(`
+            CREATE TRIGGER IF NOT EXISTS deal_search_insert AFTER INSERT ON "Deal" BEGIN
+                INSERT INTO deal_search (${columns}) VALUES (${newRow});
+            END`);
+        await prisma.$executeRawUnsafe(`
+            CREATE TRIGGER IF NOT EXISTS deal_search_update
+            AFTER UPDATE OF title, description, brand, model, category, "marketplaceId" ON "Deal" BEGIN
+                DELETE FROM deal_search WHERE rowid = OLD.rowid;
+                INSERT INTO deal_search (${columns}) VALUES (${newRow});
+            END`);
+        await prisma.$executeRawUnsafe(`
+            CREATE TRIGGER IF NOT EXISTS deal_search_delete AFTER DELETE ON "Deal" BEGIN
+                DELETE FROM deal_search WHERE rowid = OLD.rowid;
+            END`);
+
+        if (existing.length === 0) {
+            const count = await this.rebuild();
+            console.log(`[DealSearch] Built search index over ${count} deals`);
+        }
+    }
+
+    /**
+     * Refill the index from the Deal table
+     */
+    async rebuild(): Promise<number> {
+        await prisma.$executeRawUnsafe(`DELETE FROM deal_search`);
+        const count = await prisma.$executeRawUnsafe(`
+            INSERT INTO deal_search (rowid, deal_id, title, description, brand, model, category, marketplace)
+            SELECT d.rowid, d.id, d.title, COALESCE(d.description, ''), COALESCE(d.brand, ''), COALESCE(d.model, ''),
+                   d.category, COALESCE(m.name, '')
+            FROM "Deal" d LEFT JOIN "Marketplace" m ON m.id = d."marketplaceId"`);
+        await prisma.$executeRawUnsafe(`INSERT INTO deal_search (deal_search) VALUES ('optimize')`);
+        return count;
+    }
+
+    private async countMatches(expression: string): Promise<number> {
+        const [row] = await prisma.$queryRaw<{ count: number | bigint }[]>`
+            SELECT COUNT(*) AS count FROM deal_search WHERE deal_search MATCH ${expression}`;
+        return Number(row?.count ?? 0);
+    }
+
+    /**
+     * Indexed terms within the allowed edit distance of a term, most common
+     * first. Candidates share the term's first letter, which keeps the scan
+     * to one slice of the vocabulary.
+     */
+    private async corrections(term: string): Promise<string[]> {
+        const max = allowedTypos(term);
+        if (max === 0) return [];
+
+        const first = term[0];
+        const next = String.fromCodePoint(first.codePointAt(0)! + 1);
+        const candidates = await prisma.$queryRaw<{ term: string; doc: number | bigint }[]>`
+            SELECT term, doc FROM deal_search_terms
+            WHERE term >= ${first} AND term < ${next}
+              AND length(term) BETWEEN ${term.length - max} AND ${term.length + max}`;
+
+        const form = searchForm(term);
+        return candidates
+            .map(candidate => ({
+                term: candidate.term,
+                doc: Number(candidate.doc),
+                distance: Math.min(editDistance(term, candidate.term, max), editDistance(form, candidate.term, max)),
+            }))
+            .filter(candidate => candidate.distance <= max)
+            .sort((a, b) => a.distance - b.distance || b.doc - a.doc)
+            .slice(0, 3)
+            .map(candidate => candidate.term);
+    }
+
+    /**
+     * FTS5 expression for the query: every term must match, each through
+     * itself, its synonyms or a spelling correction
+     */
+    private async buildMatch(terms: string[]): Promise<{ expression: string | null; corrections: SpellingCorrection[] }> {
+        const groups: string[] = [];
+        const corrections: SpellingCorrection[] = [];
+
+        for (const term of terms) {
+            const operands = [term, ...synonymsFor(term)].map(ftsOperand);
+            let group = `(${[...new Set(operands)].join(' OR ')})`;
+
+            if (await this.countMatches(group) === 0) {
+                const matched = await this.corrections(term);
+                if (matched.length > 0) {
+                    corrections.push({ term, matched });
+                    group = `(${[...new Set([...operands, ...matched.map(m => `"${m}"`)])].join(' OR ')})`;
+                }
+            }
+
+            groups.push(group);
+        }
+
+        return { expression: groups.length > 0 ? groups.join(' AND ') : null, corrections };
+    }
+
+    private matchesCte(expression: string | null): Prisma.Sql {
+        if (!expression) {
+            return Prisma.sql`matches AS (SELECT id, -1.0 AS text_rank FROM "Deal")`;
+        }
+        return Prisma.sql`matches AS (
+            SELECT deal_id AS id, bm25(deal_search, ${Prisma.raw(COLUMN_WEIGHTS.map(w => w.toFixed(1)).join(', '))}) AS text_rank
+            FROM deal_search WHERE deal_search MATCH ${expression}
+        )`;
+    }
+
+    // Filter conditions; a facet leaves out its own filter so its other values still count
+    private filters(params: DealSearchParams, exclude?: FacetName): Prisma.Sql {
+        const conditions: Prisma.Sql[] = [Prisma.sql`d."isExpired" = 0`];
+
+        if (params.categories?.length && exclude !== 'category') {
+            conditions.push(Prisma.sql`LOWER(d.category) IN (${Prisma.join(lower(params.categories))})`);
+        }
+        if (params.brands?.length && exclude !== 'brand') {
+            conditions.push(Prisma.sql`LOWER(d.brand) IN (${Prisma.join(lower(params.brands))})`);
+        }
+        if (params.marketplaces?.length && exclude !== 'marketplace') {
+            conditions.push(Prisma.sql`(d."marketplaceId" IN (${Prisma.join(params.marketplaces)})
+                OR LOWER(mk.name) IN (${Prisma.join(lower(params.marketplaces))}))`);
+        }
+        if (params.conditions?.length && exclude !== 'condition') {
+            conditions.push(Prisma.sql`LOWER(d.condition) IN (${Prisma.join(lower(params.conditions))})`);
+        }
+        if (params.minPrice !== undefined && exclude !== 'price') {
+            conditions.push(Prisma.sql`d."currentPrice" >= ${params.minPrice}`);
+        }
+        if (params.maxPrice !== undefined && exclude !== 'price') {
+            conditions.push(Prisma.sql`d."currentPrice" <= ${params.maxPrice}`);
+        }
+        if (params.minScore !== undefined) {
+            conditions.push(Prisma.sql`d."dealScore" >= ${params.minScore}`);
+        }
+        if (params.createdAfter) {
+            conditions.push(Prisma.sql`${EPOCH_MS('d."createdAt"')} > ${params.createdAfter.getTime()}`);
+        }
+        if (params.createdBefore) {
+            conditions.push(Prisma.sql`${EPOCH_MS('d."createdAt"')} <= ${params.createdBefore.getTime()}`);
+        }
+
+        return Prisma.join(conditions, ' AND ');
+    }
+
+    private async facet(matches: Prisma.Sql, params: DealSearchParams, name: Exclude<FacetName, 'price'>): Promise<FacetValue[]> {
+        const rows = await prisma.$queryRaw<{ value: string; count: number | bigint }[]>`
+            WITH ${matches}
+            SELECT ${FACET_VALUES[name]} AS value, COUNT(*) AS count
+            FROM matches m
+            JOIN "Deal" d ON d.id = m.id
+            JOIN "Marketplace" mk ON mk.id = d."marketplaceId"
+            WHERE ${this.filters(params, name)} AND ${FACET_VALUES[name]} IS NOT NULL AND ${FACET_VALUES[name]} != ''
+            GROUP BY value
+            ORDER BY count DESC, value ASC
+            LIMIT ${FACET_LIMIT}`;
+
+        return rows.map(row => ({ value: row.value, count: Number(row.count) }));
+    }
+
+    private async priceFacet(matches: Prisma.Sql, params: DealSearchParams): Promise<PriceFacetValue[]> {
+        const rows = await prisma.$queryRaw<{ value: string; count: number | bigint }[]>`
+            WITH ${matches}
+            SELECT ${PRICE_BUCKET_SQL} AS value, COUNT(*) AS count
+            FROM matches m
+            JOIN "Deal" d ON d.id = m.id
+            JOIN "Marketplace" mk ON mk.id = d."marketplaceId"
+            WHERE ${this.filters(params, 'price')}
+            GROUP BY value`;
+
+        const counts = new Map(rows.map(row => [row.value, Number(row.count)]));
+        return PRICE_BUCKETS
+            .map(bucket => ({ ...bucket, count: counts.get(bucket.value) || 0 }))
+            .filter(bucket => bucket.count > 0);
+    }
+
+    // Match count and facets for a search; both scan every match
+    private async totals(matches: Prisma.Sql, filterParams: DealSearchParams): Promise<{ total: number; facets: SearchFacets }> {
+        const [[total], category, brand, marketplace, condition, price] = await Promise.all([
+            prisma.$queryRaw<{ count: number | bigint }[]>`
+                WITH ${matches}
+                SELECT COUNT(*) AS count
+                FROM matches m
+                JOIN "Deal" d ON d.id = m.id
+                JOIN "Marketplace" mk ON mk.id = d."marketplaceId"
+                WHERE ${this.filters(filterParams)}`,
+            this.facet(matches, filterParams, 'category'),
+            this.facet(matches, filterParams, 'brand'),
+            this.facet(matches, filterParams, 'marketplace'),
+            this.facet(matches, filterParams, 'condition'),
+            this.priceFacet(matches, filterParams),
+        ]);
+        return {
+            total: Number(total?.count ?? 0),
+            facets: { category, brand, marketplace, condition, price },
+        };
+    }
+
+    /**
+     * Search stored deals. Price phrases in the text ("under $300") apply
+     * when no explicit price filter is given. With `dealsOnly`, total and
+     * facets come back null.
+     */
+    async search(params: DealSearchParams, options: DealSearchOptions = {}) {
+        await this.ensureIndex();
+
+        const parsed = parseSearchQuery(params.q || '');
+        const filterParams: DealSearchParams = {
+            ...params,
+            minPrice: params.minPrice ?? parsed.minPrice,
+            maxPrice: params.maxPrice ?? parsed.maxPrice,
+        };
+
+        const sort: SearchSort = params.sort && SORTS[params.sort] ? params.sort : 'relevance';
+        const limit = Math.min(100, Math.max(1, params.limit || 30));
+        const cursor = params.cursor ? decodeCursor(params.cursor, sort) : null;
+
+        const { expression, corrections } = await this.buildMatch(parsed.terms);
+        const matches = this.matchesCte(expression);
+        const { value: sortValue, direction } = SORTS[sort];
+
+        const after = cursor
+            ? Prisma.sql`WHERE ("sortValue" ${Prisma.raw(direction === 'DESC' ? '<' : '>')} ${cursor.value}
+                OR ("sortValue" = ${cursor.value} AND id > ${cursor.id}))`
+            : Prisma.empty;
+
+        const [page, totals] = await Promise.all([
+            prisma.$queryRaw<{ id: string; relevance: number; sortValue: number }[]>`
+                WITH ${matches},
+                scored AS (
+                    SELECT d.id, d."dealScore", d."currentPrice", d."discountPercent",
+                           COALESCE(d."postedAt", d."createdAt") AS "publishedAt",
+                           ROUND(
+                               ${RELEVANCE_WEIGHT} * (CASE WHEN MIN(m.text_rank) OVER () < 0 THEN m.text_rank / MIN(m.text_rank) OVER () ELSE 1 END)
+                               + ${1 - RELEVANCE_WEIGHT} * COALESCE(d."dealScore", 50) / 100.0,
+                           6) AS relevance
+                    FROM matches m
+                    JOIN "Deal" d ON d.id = m.id
+                    JOIN "Marketplace" mk ON mk.id = d."marketplaceId"
+                    WHERE ${this.filters(filterParams)}
+                )
+                SELECT id, relevance, "sortValue" FROM (
+                    SELECT id, relevance, ${sortValue} AS "sortValue" FROM scored
+                )
+                ${after}
+                ORDER BY "sortValue" ${Prisma.raw(direction)}, id ASC
+                LIMIT ${limit + 1}`,
+            options.dealsOnly ? null : this.totals(matches, filterParams),
+        ]);
+
+        const hasMore = page.length > limit;
+        const rows = page.slice(0, limit);
+        const deals = await prisma.deal.findMany({
+            where: { id: { in: rows.map(row => row.id) } },
+            include: { marketplace: true },
+        });
+        const byId = new Map(deals.map(deal => [deal.id, deal]));
+        const last = rows[rows.length - 1];
+
+        return {
+            deals: rows
+                .filter(row => byId.has(row.id))
+                .map(row => ({ ...byId.get(row.id)!, relevance: Number(row.relevance) })),
+            total: totals?.total ?? null,
+            facets: totals?.facets ?? null,
+            nextCursor: hasMore && last ? encodeCursor({ sort, value: Number(last.sortValue), id: last.id }) : null,
+            query: {
+                text: parsed.text,
+                terms: parsed.terms,
+                corrections,
+                minPrice: filterParams.minPrice ?? null,
+                maxPrice: filterParams.maxPrice ?? null,
+            },
+            sort,
+        };
+    }
+}
+
+// Singleton instance
+export const dealSearch = new DealSearchService();
@@ -0,0 +1,27 @@
+/**
+ * Deal Search
+ * Full-text search over stored deals with synonyms, spelling correction,
+ * facets and cursor pagination, and per-user saved searches tracked
+ * against newly ingested deals
+ */
+
+export { DealSearchService, dealSearch, SearchError } from './dealSearch';
+export type {
+    DealSearchParams,
+    SearchSort,
+    FacetName,
+    FacetValue,
+    PriceFacetValue,
+    SearchFacets,
+    SpellingCorrection,
+} from './dealSearch';
+export {
+    SavedSearchService,
+    savedSearchService,
+    serializeSavedSearch,
+    type SavedSearchDTO,
+    type SavedSearchFilters,
+    type SavedSearchInput,
+} from './savedSearches';
+export { parseSearchQuery, editDistance, type ParsedQuery } from './query';
+export { synonymsFor } from './synonyms';
@@ -0,0 +1,104 @@
+/**
+ * Search Query Parsing
+ * Turns free text into search terms plus price hints ("under $500"), and
+ * builds the FTS5 match expression for them
+ */
+
+export interface ParsedQuery {
+    text: string;
+    terms: string[];            // Lowercased, stopwords and price phrases removed
+    minPrice?: number;
+    maxPrice?: number;
+}
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'the', 'for', 'with', 'of', 'in', 'on', 'to', 'or', 'by',
+    'deal', 'deals', 'cheap', 'best', 'sale', 'price',
+]);
+
+const MAX_PRICE_HINT = /\b(?:under|below|less than|cheaper than|up to)\s*\$?\s*(\d[\d,]*(?:\.\d+)?)/i;
+const MIN_PRICE_HINT = /\b(?:over|above|more than|at least)\s*\$?\s*(\d[\d,]*(?:\.\d+)?)/i;
+
+function amount(text: string): number {
+    return parseFloat(text.replace(/,/g, ''));
+}
+
+export function parseSearchQuery(text: string): ParsedQuery {
+    let remaining = text;
+    const parsed: ParsedQuery = { text: text.trim(), terms: [] };
+
+    const max = remaining.match(MAX_PRICE_HINT);
+    if (max) {
+        parsed.maxPrice = amount(max[1]);
+        remaining = remaining.replace(max[0], ' ');
+    }
+    const min = remaining.match(MIN_PRICE_HINT);
+    if (min) {
+        parsed.minPrice = amount(min[1]);
+        remaining = remaining.replace(min[0], ' ');
+    }
+
+    // Same split as the index's unicode61 tokenizer: letters and digits
+    const words = remaining.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[\p{L}\p{N}]+/gu) || [];
+    parsed.terms = [...new Set(words.filter(word => !STOPWORDS.has(word)))].slice(0, 12);
+
+    return parsed;
+}
+
+/**
+ * The form a term is looked up and prefix-matched in: a plural "s" is
+ * dropped so "laptops" matches "laptop" and "laptops" alike
+ */
+export function searchForm(term: string): string {
+    const lower = term.toLowerCase();
+    if (lower.includes(' ')) return lower;
+    return lower.length > 3 && lower.endsWith('s') && !lower.endsWith('ss') ? lower.slice(0, -1) : lower;
+}
+
+/**
+ * One FTS5 operand: a quoted string, prefix-matched when it's a single
+ * word long enough for a prefix to mean anything
+ */
+export function ftsOperand(term: string): string {
+    const form = searchForm(term);
+    const quoted = `"${form.replace(/"/g, '""')}"`;
+    return !form.includes(' ') && form.length >= 3 ? `${quoted}*` : quoted;
+}
+
+/**
+ * Edit distance with adjacent transpositions ("lpatop" is one edit from
+ * "laptop"), giving up once it exceeds max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previousRow: number[] = [];
+    let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const twoBack = previousRow;
+        previousRow = row;
+        row = [i];
+        let best = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                value = Math.min(value, twoBack[j - 2] + 1);
+            }
+            row[j] = value;
+            best = Math.min(best, value);
+        }
+
+        if (best > max) return max + 1;
+    }
+
+    return row[b.length];
+}
+
+// Typos allowed for a term of this length; short words and model numbers get none
+export function allowedTypos(term: string): number {
+    if (/\d/.test(term) || term.length < 4) return 0;
+    return term.length < 8 ? 1 : 2;
+}
@@ -0,0 +1,243 @@
+/**
+ * Saved Searches
+ * Per-user searches over stored deals. The saved-search job re-runs each
+ * one against the deals ingested since its high-water mark
+ * (checkedThrough) and records what they match; matches recorded after
+ * lastViewedAt are the search's new results.
+ */
+
+import { PrismaClient, type SavedSearch } from '@prisma/client';
+import { dealSearch, SearchError, type DealSearchParams } from './dealSearch';
+import { alertEngine } from '../alerts';
+
+const prisma = new PrismaClient();
+
+// Deals from the last few seconds may still be committing; the next run picks them up
+const INGEST_SETTLE_MS = 5_000;
+
+// Matches recorded per search per run; a burst beyond it is skipped, not deferred
+const MAX_MATCHES_PER_RUN = 500;
+
+export interface SavedSearchFilters {
+    category?: string;
+    condition?: string;
+    minPrice?: number;
+    maxPrice?: number;
+}
+
+export interface SavedSearchInput {
+    query?: string;
+    filters?: SavedSearchFilters;
+    alertsEnabled?: boolean;
+}
+
+export interface SavedSearchDTO {
+    id: string;
+    query: string;
+    filters: SavedSearchFilters;
+    alertsEnabled: boolean;
+    newResults: number;
+    lastCheckedAt: Date | null;
+    lastViewedAt: Date;
+    createdAt: Date;
+}
+
+function parseFilters(json: string): SavedSearchFilters {
+    try {
+        return JSON.parse(json) as SavedSearchFilters;
+    } catch {
+        return {};
+    }
+}
+
+export function serializeSavedSearch(search: SavedSearch, newResults: number): SavedSearchDTO {
+    return {
+        id: search.id,
+        query: search.query,
+        filters: parseFilters(search.filters),
+        alertsEnabled: search.alertsEnabled,
+        newResults,
+        lastCheckedAt: search.lastCheckedAt,
+        lastViewedAt: search.lastViewedAt,
+        createdAt: search.createdAt,
+    };
+}
+
+// The deal search a saved search stands for, newest deals first
+function toSearchParams(search: SavedSearch): DealSearchParams {
+    const filters = parseFilters(search.filters);
+    return {
+        q: search.query,
+        categories: filters.category ? [filters.category] : undefined,
+        conditions: filters.condition ? [filters.condition] : undefined,
+        minPrice: filters.minPrice,
+        maxPrice: filters.maxPrice,
+        sort: 'recent',
+        limit: 100,
+    };
+}
+
+export class SavedSearchService {
+    async list(userId: string): Promise<SavedSearchDTO[]> {
+        const searches = await prisma.savedSearch.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+        });
+        const counts = await Promise.all(searches.map(search => this.countNew(search)));
+        return searches.map((search, i) => serializeSavedSearch(search, counts[i]));
+    }
+
+    /**
+     * Save a search. Only deals ingested from now on count as its matches.
+     */
+    async create(userId: string, input: SavedSearchInput & { query: string }): Promise<SavedSearchDTO> {
+        const search = await prisma.savedSearch.create({
+            data: {
+                userId,
+                query: input.query.trim(),
+                filters: JSON.stringify(input.filters || {}),
+                alertsEnabled: input.alertsEnabled ?? true,
+            },
+        });
+        return serializeSavedSearch(search, 0);
+    }
+
+    /**
+     * Changing the query or filters starts over: earlier matches are
+     * dropped and only deals ingested from now on count.
+     */
+    async update(userId: string, id: string, input: SavedSearchInput): Promise<SavedSearchDTO> {
+        const existing = await this.find(userId, id);
+        const restart = (input.query !== undefined && input.query.trim() !== existing.query)
+            || (input.filters !== undefined && JSON.stringify(input.filters) !== existing.filters);
+
+        const search = await prisma.$transaction(async tx => {
+            const now = new Date();
+            if (restart) {
+                await tx.savedSearchMatch.deleteMany({ where: { savedSearchId: id } });
+            }
+            return tx.savedSearch.update({
+                where: { id },
+                data: {
+                    ...(input.query !== undefined ? { query: input.query.trim() } : {}),
+                    ...(input.filters !== undefined ? { filters: JSON.stringify(input.filters) } : {}),
+                    ...(input.alertsEnabled !== undefined ? { alertsEnabled: input.alertsEnabled } : {}),
+                    ...(restart ? { checkedThrough: now, lastViewedAt: now, lastCheckedAt: null } : {}),
+                },
+            });
+        });
+
+        return serializeSavedSearch(search, await this.countNew(search));
+    }
+
+    async remove(userId: string, id: string): Promise<void> {
+        await this.find(userId, id);
+        await prisma.savedSearch.delete({ where: { id } });
+    }
+
+    /**
+     * Deals matched since the user last looked, newest match first
+     */
+    async newMatches(userId: string, id: string, limit: number = 50) {
+        const search = await this.find(userId, id);
+        const [matches, newResults] = await Promise.all([
+            prisma.savedSearchMatch.findMany({
+                where: { savedSearchId: id, matchedAt: { gt: search.lastViewedAt } },
+                include: { deal: { include: { marketplace: true } } },
+                orderBy: { matchedAt: 'desc' },
+                take: limit,
+            }),
+            this.countNew(search),
+        ]);
+
+        return {
+            search: serializeSavedSearch(search, newResults),
+            deals: matches.map(match => ({ ...match.deal, matchedAt: match.matchedAt })),
+        };
+    }
+
+    async markViewed(userId: string, id: string): Promise<SavedSearchDTO> {
+        await this.find(userId, id);
+        const search = await prisma.savedSearch.update({
+            where: { id },
+            data: { lastViewedAt: new Date() },
+        });
+        return serializeSavedSearch(search, 0);
+    }
+
+    /**
+     * Run every saved search against the deals ingested since it last
+     * ran, record the matches and alert users who asked for it. One
+     * failing search doesn't stop the rest.
+     */
+    async checkAll(signal?: AbortSignal): Promise<{ checked: number; failed: number; matched: number; notified: number }> {
+        const through = new Date(Date.now() - INGEST_SETTLE_MS);
+        const searches = await prisma.savedSearch.findMany({
+            where: { checkedThrough: { lt: through } },
+            orderBy: { checkedThrough: 'asc' },
+        });
+
+        const counts = { checked: 0, failed: 0, matched: 0, notified: 0 };
+        for (const search of searches) {
+            signal?.throwIfAborted();
+            try {
+                const deals = await this.check(search, through);
+                counts.checked++;
+                counts.matched += deals.length;
+                if (search.alertsEnabled && await alertEngine.notifySavedSearch(search, deals)) {
+                    counts.notified++;
+                }
+            } catch (error) {
+                counts.failed++;
+                console.error(`[SavedSearches] Failed to check ${search.id}:`, error);
+            }
+        }
+        return counts;
+    }
+
+    // Match deals created in (checkedThrough, through] and advance the mark
+    private async check(search: SavedSearch, through: Date) {
+        const params: DealSearchParams = {
+            ...toSearchParams(search),
+            createdAfter: search.checkedThrough,
+            createdBefore: through,
+        };
+
+        const deals: Awaited<ReturnType<typeof dealSearch.search>>['deals'] = [];
+        let cursor: string | undefined;
+        do {
+            const page = await dealSearch.search({ ...params, cursor }, { dealsOnly: true });
+            deals.push(...page.deals);
+            cursor = page.nextCursor ?? undefined;
+        } while (cursor && deals.length < MAX_MATCHES_PER_RUN);
+
+        const matched = deals.slice(0, MAX_MATCHES_PER_RUN);
+        await prisma.$transaction([
+            prisma.savedSearchMatch.createMany({
+                data: matched.map(deal => ({ savedSearchId: search.id, dealId: deal.id })),
+            }),
+            prisma.savedSearch.update({
+                where: { id: search.id },
+                data: { checkedThrough: through, lastCheckedAt: new Date() },
+            }),
+        ]);
+        return matched;
+    }
+
+    private countNew(search: SavedSearch): Promise<number> {
+        return prisma.savedSearchMatch.count({
+            where: { savedSearchId: search.id, matchedAt: { gt: search.lastViewedAt } },
+        });
+    }
+
+    private async find(userId: string, id: string): Promise<SavedSearch> {
+        const search = await prisma.savedSearch.findFirst({ where: { id, userId } });
+        if (!search) {
+            throw new SearchError('Saved search not found', 404);
+        }
+        return search;
+    }
+}
+
+// Singleton instance
+export const savedSearchService = new SavedSearchService();
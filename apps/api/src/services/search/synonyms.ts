@@ -0,0 +1,48 @@
+/**
+ * Search Synonyms
+ * Built from the DealNormalizer's vocabulary so search and normalization
+ * agree: a brand matches its aliases ("hp" ↔ "hewlett packard"), and a
+ * category name matches the words that imply it ("laptop" finds MacBooks
+ * and ThinkPads). The reverse doesn't hold — "macbook" doesn't widen to
+ * every laptop.
+ */
+
+import { searchVocabulary } from '../marketplace/normalizer';
+import { catalogCategoryLabel } from '../marketplace/ingestion';
+import { searchForm } from './query';
+
+let table: Map<string, string[]> | null = null;
+
+function add(key: string, terms: string[]): void {
+    const form = searchForm(key);
+    const existing = table!.get(form) || [];
+    table!.set(form, [...new Set([...existing, ...terms.map(t => t.toLowerCase())])]);
+}
+
+function build(): Map<string, string[]> {
+    table = new Map();
+    const { brands, categories } = searchVocabulary();
+
+    for (const brand of brands) {
+        const group = [brand.canonical, ...brand.aliases];
+        for (const name of group) add(name, group);
+    }
+
+    for (const [category, keywords] of categories) {
+        const label = catalogCategoryLabel(category);
+        // "tv" for tvs, "computer" for computers
+        const singular = keywords.filter(keyword => category.startsWith(keyword));
+        const heads = category === 'other' ? [] : [category, label, ...singular];
+        for (const head of heads) add(head, [label, ...keywords]);
+    }
+
+    return table;
+}
+
+/**
+ * Other terms that should match wherever the given term does
+ */
+export function synonymsFor(term: string): string[] {
+    const form = searchForm(term);
+    return (table || build()).get(form)?.filter(synonym => searchForm(synonym) !== form) || [];
+}
@@ -0,0 +1,202 @@
+/**
+ * Shipping Service
+ *
+ * Carrier scans for shipped orders and the tracking timeline built from
+ * them. Carriers post scans to a signed webhook (see signatures.ts).
+ * Each scan is matched to orders by carrier and tracking number (a
+ * bundle can share one box) and stored once. Scans from before the
+ * order was marked shipped belong to some earlier use of the number and
+ * are ignored. A delivered scan moves a shipped order to delivered, so
+ * the escrow hold starts without waiting for the buyer.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { Order, ShipmentEvent } from '@prisma/client';
+import { orderService, MarketplaceError, ESCROW_HOLD_DAYS } from '../p2p';
+import { alertEngine } from '../alerts';
+import {
+    isCarrier,
+    normalizeTrackingNumber,
+    trackingUrl,
+    type Carrier,
+    type ShipmentStatus,
+} from './carriers';
+
+const prisma = new PrismaClient();
+
+export interface CarrierScan {
+    trackingNumber: string;
+    status: ShipmentStatus;
+    occurredAt: string;
+    description?: string;
+    location?: string;
+    estimatedDelivery?: string;
+}
+
+export interface ShipmentEventDTO {
+    id: string;
+    status: ShipmentStatus;
+    description?: string;
+    location?: string;
+    occurredAt: Date;
+}
+
+export interface TrackingDTO {
+    orderId: string;
+    carrier?: string;
+    trackingNumber?: string;
+    trackingUrl?: string;
+    status?: ShipmentStatus;
+    estimatedDelivery?: Date;
+    deliveredAt?: Date;
+    events: ShipmentEventDTO[];
+}
+
+export interface IngestResult {
+    received: number;
+    recorded: number;
+    duplicates: number;
+    unmatched: number;
+    stale: number;          // Scans from before the order shipped
+    delivered: number;
+}
+
+export function serializeShipmentEvent(event: ShipmentEvent): ShipmentEventDTO {
+    return {
+        id: event.id,
+        status: event.status as ShipmentStatus,
+        description: event.description ?? undefined,
+        location: event.location ?? undefined,
+        occurredAt: event.occurredAt,
+    };
+}
+
+export class ShippingService {
+    /**
+     * Record a carrier's scans. Scans for tracking numbers no order uses
+     * are counted and dropped, so the carrier doesn't retry them.
+     */
+    async ingest(carrier: Carrier, scans: CarrierScan[]): Promise<IngestResult> {
+        const result: IngestResult = { received: scans.length, recorded: 0, duplicates: 0, unmatched: 0, stale: 0, delivered: 0 };
+
+        // Oldest first, so the latest scan ends up as the order's status
+        const ordered = [...scans].sort((a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime());
+
+        for (const scan of ordered) {
+            const trackingNumber = normalizeTrackingNumber(scan.trackingNumber);
+            const orders = await prisma.order.findMany({ where: { carrier, trackingNumber } });
+            if (orders.length === 0) {
+                result.unmatched++;
+                continue;
+            }
+
+            for (const order of orders) {
+                // Orders shipped before shippedAt was recorded fall back to when they were placed
+                if (new Date(scan.occurredAt) < (order.shippedAt ?? order.createdAt)) {
+                    result.stale++;
+                    continue;
+                }
+
+                if (await this.record(order, carrier, trackingNumber, scan)) {
+                    result.recorded++;
+                } else {
+                    result.duplicates++;
+                }
+
+                // Also on a repeated scan, in case the first delivery failed part-way
+                if (scan.status === 'delivered' && order.status === 'shipped' && await this.deliver(order, scan)) {
+                    result.delivered++;
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Shipping details and carrier scans for a participant (or staff),
+     * newest first
+     */
+    async tracking(orderId: string, userId: string, isStaff = false): Promise<TrackingDTO> {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            include: { shipmentEvents: { orderBy: { occurredAt: 'desc' } } },
+        });
+        if (!order || (!isStaff && order.buyerId !== userId && order.sellerId !== userId)) {
+            throw new MarketplaceError('Order not found', 404);
+        }
+
+        return {
+            orderId: order.id,
+            carrier: order.carrier ?? undefined,
+            trackingNumber: order.trackingNumber ?? undefined,
+            trackingUrl: order.carrier && order.trackingNumber && isCarrier(order.carrier)
+                ? trackingUrl(order.carrier, order.trackingNumber)
+                : undefined,
+            status: (order.shipmentStatus as ShipmentStatus | null) ?? undefined,
+            estimatedDelivery: order.estimatedDelivery ?? undefined,
+            deliveredAt: order.deliveredAt ?? undefined,
+            events: order.shipmentEvents.map(serializeShipmentEvent),
+        };
+    }
+
+    // Store the scan and move the order's shipment status; false if it was already stored
+    private async record(order: Order, carrier: Carrier, trackingNumber: string, scan: CarrierScan): Promise<boolean> {
+        // The unique key decides, so the same scan posted twice at once is stored once
+        try {
+            await prisma.shipmentEvent.create({
+                data: {
+                    orderId: order.id,
+                    carrier,
+                    trackingNumber,
+                    status: scan.status,
+                    description: scan.description,
+                    location: scan.location,
+                    occurredAt: new Date(scan.occurredAt),
+                },
+            });
+        } catch (error) {
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return false;
+            throw error;
+        }
+
+        // Scans can arrive out of order; only a newer one changes the status
+        const latest = await prisma.shipmentEvent.findFirst({
+            where: { orderId: order.id },
+            orderBy: { occurredAt: 'desc' },
+        });
+        await prisma.order.update({
+            where: { id: order.id },
+            data: {
+                shipmentStatus: latest?.status ?? scan.status,
+                ...(scan.estimatedDelivery ? { estimatedDelivery: new Date(scan.estimatedDelivery) } : {}),
+            },
+        });
+        return true;
+    }
+
+    // Delivered scan for a shipped order; the buyer may have confirmed first
+    private async deliver(order: Order, scan: CarrierScan): Promise<boolean> {
+        // A carrier clock running ahead must not push the hold out; ingest
+        // already dropped scans from before the order shipped
+        const deliveredAt = new Date(Math.min(new Date(scan.occurredAt).getTime(), Date.now()));
+
+        try {
+            const updated = await orderService.markDelivered(order, deliveredAt);
+            const listing = await prisma.listing.findUnique({ where: { id: order.listingId } });
+            await alertEngine.notifyDelivered(order.buyerId, {
+                id: order.id,
+                listingId: order.listingId,
+                escrowReleaseDate: updated.escrowReleaseDate ?? null,
+            }, listing?.title ?? 'Your order',
+                `The carrier reports it was delivered. Payment goes to the seller in ${ESCROW_HOLD_DAYS} days unless you open a dispute.`);
+            return true;
+        } catch (error) {
+            if (error instanceof MarketplaceError && error.status === 409) return false;
+            throw error;
+        }
+    }
+}
+
+// Singleton instance
+export const shippingService = new ShippingService();
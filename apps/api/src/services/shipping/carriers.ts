@@ -0,0 +1,82 @@
+/**
+ * Carriers
+ *
+ * The carriers orders can ship with, what their tracking numbers look
+ * like, and where buyers can follow a package. Formats are checked so a
+ * typo is caught when the seller ships, not when the webhook never
+ * matches.
+ */
+
+export const CARRIERS = ['ups', 'usps', 'fedex', 'dhl'] as const;
+export type Carrier = typeof CARRIERS[number];
+
+export const CARRIER_NAMES: Record<Carrier, string> = {
+    ups: 'UPS',
+    usps: 'USPS',
+    fedex: 'FedEx',
+    dhl: 'DHL',
+};
+
+// Scan statuses in the order a package normally goes through them
+export const SHIPMENT_STATUSES = [
+    'label_created',
+    'in_transit',
+    'out_for_delivery',
+    'delivered',
+    'exception',
+    'returned',
+] as const;
+export type ShipmentStatus = typeof SHIPMENT_STATUSES[number];
+
+const TRACKING_FORMATS: Record<Carrier, RegExp[]> = {
+    ups: [
+        /^1Z[0-9A-Z]{16}$/,                 // Small package
+        /^T\d{10}$/,                        // Freight
+    ],
+    usps: [
+        /^(420\d{5}(\d{4})?)?9[1-5]\d{20}$/, // IMpb, optionally with the ZIP routing prefix
+        /^\d{20}$/,
+        /^[A-Z]{2}\d{9}US$/,                // International (S10)
+    ],
+    fedex: [
+        /^\d{12}$/,                         // Express
+        /^\d{15}$/,                         // Ground
+        /^(96\d{20}|\d{20})$/,              // Ground and SmartPost barcodes
+    ],
+    dhl: [
+        /^\d{10,11}$/,                      // Express waybill
+        /^JJD\d{18,20}$/,                   // Parcel
+        /^GM\d{16,22}$/,                    // eCommerce
+    ],
+};
+
+const TRACKING_URLS: Record<Carrier, string> = {
+    ups: 'https://www.ups.com/track?tracknum=',
+    usps: 'https://tools.usps.com/go/TrackConfirmAction?tLabels=',
+    fedex: 'https://www.fedex.com/fedextrack/?trknbr=',
+    dhl: 'https://www.dhl.com/us-en/home/tracking.html?tracking-id=',
+};
+
+export function isCarrier(value: string): value is Carrier {
+    return (CARRIERS as readonly string[]).includes(value);
+}
+
+export function isShipmentStatus(value: string): value is ShipmentStatus {
+    return (SHIPMENT_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Tracking numbers as carriers print them often contain spaces or dashes
+ */
+export function normalizeTrackingNumber(trackingNumber: string): string {
+    return trackingNumber.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function isValidTrackingNumber(carrier: Carrier, trackingNumber: string): boolean {
+    const normalized = normalizeTrackingNumber(trackingNumber);
+    return TRACKING_FORMATS[carrier].some(format => format.test(normalized));
+}
+
+export function trackingUrl(carrier: Carrier, trackingNumber: string): string {
+    return TRACKING_URLS[carrier] + encodeURIComponent(normalizeTrackingNumber(trackingNumber));
+}
@@ -0,0 +1,37 @@
+/**
+ * Shipping Services
+ * Carriers and tracking-number formats, rate quotes, and carrier scan
+ * ingestion for shipped orders
+ */
+
+export {
+    CARRIERS,
+    CARRIER_NAMES,
+    SHIPMENT_STATUSES,
+    isCarrier,
+    isShipmentStatus,
+    normalizeTrackingNumber,
+    isValidTrackingNumber,
+    trackingUrl,
+    type Carrier,
+    type ShipmentStatus,
+} from './carriers';
+export {
+    TableRateProvider,
+    rateProvider,
+    zoneForDistance,
+    type RateProvider,
+    type RateRequest,
+    type RateQuote,
+    type RateResult,
+} from './rates';
+export {
+    ShippingService,
+    shippingService,
+    serializeShipmentEvent,
+    type CarrierScan,
+    type ShipmentEventDTO,
+    type TrackingDTO,
+    type IngestResult,
+} from './ShippingService';
+export { SIGNATURE_HEADER, signWebhookBody, verifyWebhookSignature, webhookSecretConfigured } from './signatures';
@@ -0,0 +1,95 @@
+/**
+ * Shipping Rates
+ *
+ * Quotes for shipping a package, used to price a listing's shipping.
+ * RateProvider is the seam for live carrier rate APIs; the built-in
+ * TableRateProvider works offline from approximate retail rates,
+ * priced by billable weight and a USPS-style distance zone between the
+ * two ZIP codes.
+ */
+
+import { gazetteer, haversineMiles, roundMiles } from '../geo';
+import type { Carrier } from './carriers';
+
+export interface RateRequest {
+    weightLbs: number;
+    fromZip?: string;
+    toZip?: string;
+}
+
+export interface RateQuote {
+    carrier: Carrier;
+    service: string;
+    cost: number;
+    estimatedDays: number;
+}
+
+export interface RateResult {
+    zone: number;
+    distanceMiles?: number;
+    quotes: RateQuote[];
+}
+
+export interface RateProvider {
+    quote(request: RateRequest): Promise<RateResult>;
+}
+
+interface ServiceRate {
+    carrier: Carrier;
+    service: string;
+    base: number;
+    perLb: number;
+    perZone: number;
+    maxLbs: number;
+    days: (zone: number) => number;
+}
+
+// DHL only carries international parcels from the US, so it has no domestic rates
+const SERVICE_RATES: ServiceRate[] = [
+    { carrier: 'usps', service: 'Ground Advantage', base: 5.4, perLb: 0.9, perZone: 0.55, maxLbs: 70, days: zone => 2 + Math.ceil(zone / 3) },
+    { carrier: 'usps', service: 'Priority Mail', base: 8.9, perLb: 1.25, perZone: 0.9, maxLbs: 70, days: zone => 1 + Math.ceil(zone / 4) },
+    { carrier: 'ups', service: 'Ground', base: 10.5, perLb: 1.0, perZone: 0.8, maxLbs: 150, days: zone => 1 + Math.ceil(zone / 2) },
+    { carrier: 'fedex', service: 'Home Delivery', base: 10.9, perLb: 1.0, perZone: 0.85, maxLbs: 150, days: zone => 1 + Math.ceil(zone / 2) },
+    { carrier: 'fedex', service: '2Day', base: 22.0, perLb: 2.1, perZone: 1.6, maxLbs: 150, days: () => 2 },
+];
+
+// Upper distance bound of zones 1-7; anything farther is zone 8
+const ZONE_MILES = [50, 150, 300, 600, 1000, 1400, 1800];
+// Used when either end can't be placed
+const DEFAULT_ZONE = 5;
+
+export function zoneForDistance(miles: number): number {
+    const index = ZONE_MILES.findIndex(limit => miles <= limit);
+    return index === -1 ? 8 : index + 1;
+}
+
+export class TableRateProvider implements RateProvider {
+    async quote(request: RateRequest): Promise<RateResult> {
+        const from = request.fromZip ? gazetteer.lookupZip(request.fromZip) : null;
+        const to = request.toZip ? gazetteer.lookupZip(request.toZip) : null;
+        const distanceMiles = from && to ? haversineMiles(from, to) : undefined;
+        const zone = distanceMiles !== undefined ? zoneForDistance(distanceMiles) : DEFAULT_ZONE;
+
+        // Carriers bill by the pound, rounded up
+        const billable = Math.max(1, Math.ceil(request.weightLbs));
+
+        const quotes = SERVICE_RATES
+            .filter(rate => billable <= rate.maxLbs)
+            .map(rate => ({
+                carrier: rate.carrier,
+                service: rate.service,
+                cost: Math.round((rate.base + rate.perLb * (billable - 1) + rate.perZone * (zone - 1)) * 100) / 100,
+                estimatedDays: rate.days(zone),
+            }))
+            .sort((a, b) => a.cost - b.cost);
+
+        return {
+            zone,
+            distanceMiles: distanceMiles !== undefined ? roundMiles(distanceMiles) : undefined,
+            quotes,
+        };
+    }
+}
+
+// Singleton instance
+export const rateProvider: RateProvider = new TableRateProvider();
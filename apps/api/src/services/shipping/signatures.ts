@@ -0,0 +1,34 @@
+/**
+ * Carrier Webhook Signatures
+ *
+ * Carriers sign each webhook body with CARRIER_WEBHOOK_SECRET; the
+ * X-Carrier-Signature header carries sha256=<hex HMAC of the raw body>.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-carrier-signature';
+
+function getSecret(): string {
+    const secret = process.env.CARRIER_WEBHOOK_SECRET;
+    if (!secret) {
+        throw new Error('CARRIER_WEBHOOK_SECRET must be set');
+    }
+    return secret;
+}
+
+// Without a secret the webhook accepts nothing
+export function webhookSecretConfigured(): boolean {
+    return Boolean(process.env.CARRIER_WEBHOOK_SECRET);
+}
+
+export function signWebhookBody(body: string | Buffer): string {
+    return `sha256=${createHmac('sha256', getSecret()).update(body).digest('hex')}`;
+}
+
+export function verifyWebhookSignature(body: Buffer, signature: string | undefined): boolean {
+    if (!signature) return false;
+    const expected = Buffer.from(signWebhookBody(body));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -1,13 +1,23 @@
-const API_BASE = '/api';
+import { contract, createClient, type RouteBody } from '@tadow/contract';
+import { apiConfig, getAuthToken } from '@/config';
+
+export { ApiError } from '@tadow/contract';
+
+/**
+ * Typed API client generated from the shared contract: api.<group>.<route>()
+ * takes the route's params, query and body and resolves to its response.
+ */
+export const api = createClient(contract, {
+    baseUrl: apiConfig.baseUrl,
+    getToken: getAuthToken,
+});
 
 /**
  * Fetch all products from the API
  */
 export async function fetchProducts() {
     try {
-        const response = await fetch(`${API_BASE}/products`);
-        if (!response.ok) throw new Error('Failed to fetch products');
-        return await response.json();
+        return await api.products.list();
     } catch (error) {
         console.error('API Error:', error);
         // Fallback to mock data if API is unavailable
@@ -21,9 +31,7 @@ export async function fetchProducts() {
  */
 export async function fetchProduct(id: string) {
     try {
-        const response = await fetch(`${API_BASE}/products/${id}`);
-        if (!response.ok) throw new Error('Failed to fetch product');
-        return await response.json();
+        return await api.products.get({ params: { id } });
     } catch (error) {
         console.error('API Error:', error);
         // Fallback to mock data
@@ -35,20 +43,9 @@ export async function fetchProduct(id: string) {
 /**
  * Get personalized recommendations based on questionnaire answers
  */
-export async function fetchRecommendations(answers: {
-    primaryUse: string;
-    budget: string;
-    priority: string;
-    importance: string;
-}) {
+export async function fetchRecommendations(answers: RouteBody<typeof contract.recommendations.create>) {
     try {
-        const response = await fetch(`${API_BASE}/recommendations`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(answers),
-        });
-        if (!response.ok) throw new Error('Failed to fetch recommendations');
-        return await response.json();
+        return await api.recommendations.create({ body: answers });
     } catch (error) {
         console.error('API Error:', error);
         // Fallback to local recommendation logic
@@ -56,7 +53,7 @@ export async function fetchRecommendations(answers: {
         const { determinePersona } = await import('@/utils/recommendations');
         const { personaDescriptions } = await import('@/components/TadowAssistant/questions');
 
-        const persona = determinePersona(answers as any);
+        const persona = determinePersona(answers);
         const recommendations = getRecommendations(persona);
         const personaInfo = personaDescriptions[persona];
 
@@ -75,9 +72,7 @@ export async function fetchRecommendations(answers: {
  */
 export async function fetchPrices(productId: string) {
     try {
-        const response = await fetch(`${API_BASE}/prices/${productId}`);
-        if (!response.ok) throw new Error('Failed to fetch prices');
-        return await response.json();
+        return await api.prices.list({ params: { productId } });
     } catch (error) {
         console.error('API Error:', error);
         // Fallback to product's embedded prices
@@ -1,6 +1,19 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Mail, Lock, User, Eye, EyeOff, Github, Chrome } from 'lucide-react';
+import type { AuthSession } from '@tadow/contract';
+import { api } from '../api';
+
+// Persist the session where the rest of the app looks for the signed-in user
+export function storeSession(result: AuthSession) {
+    localStorage.setItem('tadow_user', JSON.stringify({
+        ...result.user,
+        name: result.user.name || result.user.email?.split('@')[0],
+        token: result.token,
+        expiresAt: result.expiresAt,
+        signedIn: true,
+    }));
+}
 
 interface AuthModalProps {
     isOpen: boolean;
@@ -15,25 +28,41 @@ export function AuthModal({ isOpen, onClose, initialMode = 'signin' }: AuthModal
     const [password, setPassword] = useState('');
     const [name, setName] = useState('');
     const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
+        setError(null);
+
+        try {
+            const result = mode === 'signup'
+                ? await api.auth.register({ body: { email, password, name } })
+                : await api.auth.login({ body: { email, password } });
+            storeSession(result);
+            onClose();
+            window.location.reload();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        } finally {
+            setLoading(false);
+        }
+    };
 
-        // Simulate auth (replace with real auth later)
-        await new Promise(resolve => setTimeout(resolve, 1500));
-
-        // Store basic session (demo only)
-        localStorage.setItem('tadow_user', JSON.stringify({
-            email,
-            name: mode === 'signup' ? name : email.split('@')[0],
-            signedIn: true,
-            createdAt: new Date().toISOString(),
-        }));
-
-        setLoading(false);
-        onClose();
-        window.location.reload();
+    const handleMagicLink = async () => {
+        if (!email) {
+            setError('Enter your email to get a sign-in link');
+            return;
+        }
+        setError(null);
+
+        try {
+            const result = await api.auth.magicLink({ body: { email } });
+            setNotice(result.message);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong');
+        }
     };
 
     const handleSocialAuth = (provider: string) => {
@@ -163,12 +192,23 @@ export function AuthModal({ isOpen, onClose, initialMode = 'signin' }: AuthModal
 
                                 {mode === 'signin' && (
                                     <div className="text-right">
-                                        <button type="button" className="text-sm text-amber-400 hover:text-amber-300">
-                                            Forgot password?
+                                        <button
+                                            type="button"
+                                            onClick={handleMagicLink}
+                                            className="text-sm text-amber-400 hover:text-amber-300"
+                                        >
+                                            Forgot password? Email me a sign-in link
                                         </button>
                                     </div>
                                 )}
 
+                                {error && (
+                                    <p className="text-sm text-red-400">{error}</p>
+                                )}
+                                {notice && (
+                                    <p className="text-sm text-emerald-400">{notice}</p>
+                                )}
+
                                 <button
                                     type="submit"
                                     disabled={loading}
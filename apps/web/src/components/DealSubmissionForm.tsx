@@ -10,6 +10,9 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { contract, RouteResponse } from '@tadow/contract';
+import { getAuthToken } from '../config';
+import { api, ApiError } from '../api';
 import {
     Link2,
     DollarSign,
@@ -23,13 +26,7 @@ import {
     Loader2,
 } from 'lucide-react';
 
-interface SubmissionResult {
-    success: boolean;
-    submissionId?: string;
-    message: string;
-    previewScore?: number;
-    issues?: string[];
-}
+type SubmissionResult = RouteResponse<typeof contract.aggregation.submit>;
 
 const CATEGORIES = [
     { value: 'laptops', label: 'Laptops', icon: '💻' },
@@ -83,21 +80,15 @@ const DealSubmissionForm = ({ onSuccess, onClose }: DealSubmissionFormProps) =>
     const previewDealScore = async () => {
         setIsPreviewLoading(true);
         try {
-            const response = await fetch('/api/aggregation/score', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
+            const data = await api.aggregation.score({
+                body: {
                     title: formData.title,
                     currentPrice: parseFloat(formData.currentPrice),
                     originalPrice: formData.originalPrice ? parseFloat(formData.originalPrice) : undefined,
                     category: formData.category,
-                }),
+                },
             });
-
-            if (response.ok) {
-                const data = await response.json();
-                setPreviewScore(data.score);
-            }
+            setPreviewScore(data.score);
         } catch (error) {
             console.error('Preview failed:', error);
         } finally {
@@ -132,12 +123,15 @@ const DealSubmissionForm = ({ onSuccess, onClose }: DealSubmissionFormProps) =>
             return;
         }
 
+        if (!getAuthToken()) {
+            setErrors(['Sign in to submit deals']);
+            setIsLoading(false);
+            return;
+        }
+
         try {
-            const response = await fetch('/api/aggregation/submit', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    userId: 'user_' + Date.now(), // In production, use actual user ID
+            const data = await api.aggregation.submit({
+                body: {
                     title: formData.title,
                     url: formData.url,
                     price: parseFloat(formData.currentPrice),
@@ -145,10 +139,8 @@ const DealSubmissionForm = ({ onSuccess, onClose }: DealSubmissionFormProps) =>
                     category: formData.category,
                     description: formData.description || undefined,
                     imageUrl: formData.imageUrl || undefined,
-                }),
+                },
             });
-
-            const data: SubmissionResult = await response.json();
             setResult(data);
 
             if (data.success) {
@@ -168,7 +160,9 @@ const DealSubmissionForm = ({ onSuccess, onClose }: DealSubmissionFormProps) =>
                 setErrors(data.issues);
             }
         } catch (error) {
-            setErrors(['Failed to submit deal. Please try again.']);
+            setErrors(error instanceof ApiError && error.issues.length > 0
+                ? error.issues.map(issue => `${issue.path}: ${issue.message}`)
+                : ['Failed to submit deal. Please try again.']);
         } finally {
             setIsLoading(false);
         }
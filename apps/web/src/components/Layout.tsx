@@ -4,7 +4,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Search, Flame, Menu, X, Sparkles, ChevronDown, ShoppingCart, Command } from 'lucide-react';
 import { SearchModal, useSearchModal } from './SearchModal';
 import { MobileNav, MobileNavSpacer } from './MobileNav';
-import { AuthModal } from './AuthModal';
+import { AuthModal, storeSession } from './AuthModal';
+import { api } from '../api';
 import AIChatWidget from './AIChatWidget';
 import { CommandPalette } from './CommandPalette';
 
@@ -42,6 +43,40 @@ export function Layout() {
         }
     }, []);
 
+    // Complete a magic-link sign in
+    useEffect(() => {
+        const params = new URLSearchParams(location.search);
+        const magicToken = params.get('magicToken');
+        if (!magicToken) return;
+
+        api.auth.verifyMagicLink({ body: { token: magicToken } })
+            .then(result => {
+                storeSession(result);
+                setUser(JSON.parse(localStorage.getItem('tadow_user')!));
+            })
+            .catch(error => console.error('Magic link sign in failed:', error))
+            .finally(() => {
+                params.delete('magicToken');
+                const query = params.toString();
+                navigate(`${location.pathname}${query ? `?${query}` : ''}`, { replace: true });
+            });
+    }, [location.search]);
+
+    // Confirm an alert email channel from its confirmation link
+    useEffect(() => {
+        const params = new URLSearchParams(location.search);
+        const alertEmailToken = params.get('alertEmailToken');
+        if (!alertEmailToken) return;
+
+        api.alerts.confirmChannelEmail({ body: { token: alertEmailToken } })
+            .catch(error => console.error('Alert email confirmation failed:', error))
+            .finally(() => {
+                params.delete('alertEmailToken');
+                const query = params.toString();
+                navigate(`${location.pathname}${query ? `?${query}` : ''}`, { replace: true });
+            });
+    }, [location.search]);
+
     useEffect(() => {
         const handleScroll = () => setScrolled(window.scrollY > 20);
         window.addEventListener('scroll', handleScroll);
@@ -2,7 +2,8 @@ import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Star, ThumbsUp, Flag, MessageSquare, Camera, X, Check } from 'lucide-react';
 import { Review } from '../types/marketplace';
-import { saveReview, getUserReviews, getCurrentUser } from '../services/userVerification';
+import { saveReview, getCurrentUser } from '../services/userVerification';
+import { useUserReviews } from '../hooks/useMarketplace';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // STAR RATING INPUT
@@ -226,13 +227,15 @@ interface ReviewFormProps {
     onCancel?: () => void;
 }
 
-export function ReviewForm({ orderId, revieweeId, type, onSubmit, onCancel }: ReviewFormProps) {
+// The API derives the reviewee and review type from the order
+export function ReviewForm({ orderId, onSubmit, onCancel }: ReviewFormProps) {
     const [rating, setRating] = useState(0);
     const [title, setTitle] = useState('');
     const [comment, setComment] = useState('');
     const [images, setImages] = useState<string[]>([]);
     const [aspects, setAspects] = useState({ accuracy: 0, communication: 0, shipping: 0 });
     const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
 
     const user = getCurrentUser();
 
@@ -240,35 +243,22 @@ export function ReviewForm({ orderId, revieweeId, type, onSubmit, onCancel }: Re
         if (!user || rating === 0 || !comment.trim()) return;
 
         setIsSubmitting(true);
-
-        // Simulate AI sentiment analysis
-        const aiSentiment = {
-            score: Math.random() * 2 - 1, // -1 to 1
-            authenticity: 70 + Math.random() * 30, // 70-100
-            flags: [],
-        };
-
-        const review: Review = {
-            id: `review-${Date.now()}`,
-            orderId,
-            reviewerId: user.id,
-            revieweeId,
-            type,
-            rating: rating as 1 | 2 | 3 | 4 | 5,
-            title: title.trim() || undefined,
-            comment: comment.trim(),
-            images: images.length > 0 ? images : undefined,
-            aspects: aspects.accuracy > 0 ? aspects : undefined,
-            helpful: 0,
-            reported: false,
-            aiSentiment,
-            createdAt: new Date(),
-        };
-
-        saveReview(review);
-
-        setIsSubmitting(false);
-        onSubmit?.();
+        setError(null);
+
+        try {
+            await saveReview(orderId, {
+                rating: rating as 1 | 2 | 3 | 4 | 5,
+                title: title.trim() || undefined,
+                comment: comment.trim(),
+                images: images.length > 0 ? images : undefined,
+                aspects: aspects.accuracy > 0 ? aspects : undefined,
+            });
+            onSubmit?.();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to submit review');
+        } finally {
+            setIsSubmitting(false);
+        }
     };
 
     const addDemoImage = () => {
@@ -369,6 +359,10 @@ export function ReviewForm({ orderId, revieweeId, type, onSubmit, onCancel }: Re
                 </div>
             </div>
 
+            {error && (
+                <p className="text-sm text-red-400">{error}</p>
+            )}
+
             {/* Actions */}
             <div className="flex gap-3">
                 {onCancel && (
@@ -406,7 +400,7 @@ interface ReviewsListProps {
 }
 
 export function ReviewsList({ userId, showStats = true }: ReviewsListProps) {
-    const reviews = getUserReviews(userId);
+    const reviews = useUserReviews(userId);
 
     if (reviews.length === 0) {
         return (
@@ -2,10 +2,11 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Link } from 'react-router-dom';
 import {
-    Trophy, Medal, Crown, Star, TrendingUp, Flame,
+    Trophy, Medal, Crown, TrendingUp, Flame,
     Users, DollarSign, Target, ChevronRight, ArrowUp
 } from 'lucide-react';
 import { ALL_DEALS } from '../data/extendedDeals';
+import { useDealStream, DealStreamEvent } from '../hooks/useDealStream';
 
 // Leaderboard Types
 interface LeaderboardEntry {
@@ -200,57 +201,70 @@ export function TrendingDeals() {
 
 // Live Activity Feed
 interface Activity {
-    type: 'save' | 'buy' | 'alert';
-    user: string;
+    id: number;
+    type: 'new' | 'drop' | 'expired';
     deal: string;
-    time: string;
+    price: number;
+    previousPrice?: number;
+    at: Date;
 }
 
-export function LiveActivityFeed() {
-    const [activities, setActivities] = useState<Activity[]>([
-        { type: 'save', user: 'Anonymous', deal: 'MacBook Air M3', time: '2s ago' },
-        { type: 'buy', user: 'TechFan', deal: 'Sony WH-1000XM5', time: '15s ago' },
-        { type: 'alert', user: 'DealWatcher', deal: 'PS5 Bundle', time: '30s ago' },
-        { type: 'save', user: 'Anonymous', deal: 'iPhone 15 Pro', time: '45s ago' },
-        { type: 'buy', user: 'SmartShopper', deal: 'Samsung OLED TV', time: '1m ago' },
-    ]);
+const ACTIVITY_TYPES: Record<DealStreamEvent['type'], Activity['type']> = {
+    'deal.created': 'new',
+    'deal.price_changed': 'drop',
+    'deal.expired': 'expired',
+};
 
-    // Simulate live updates
-    useEffect(() => {
-        const interval = setInterval(() => {
-            const types: Activity['type'][] = ['save', 'buy', 'alert'];
-            const users = ['Anonymous', 'DealHunter', 'Saver123', 'TechFan', 'BargainKing'];
-            const deals = ['MacBook Air M3', 'iPhone 15 Pro', 'PS5 Bundle', 'AirPods Pro', 'Samsung TV'];
-
-            const newActivity: Activity = {
-                type: types[Math.floor(Math.random() * types.length)],
-                user: users[Math.floor(Math.random() * users.length)],
-                deal: deals[Math.floor(Math.random() * deals.length)],
-                time: 'Just now',
-            };
+export function LiveActivityFeed({ category, minScore }: { category?: string; minScore?: number }) {
+    const [activities, setActivities] = useState<Activity[]>([]);
+    const [, setNow] = useState(Date.now());
 
-            setActivities(prev => [newActivity, ...prev.slice(0, 4)]);
-        }, 5000);
+    // Catalog changes from the API's deal stream
+    useDealStream({ category, minScore }, event => {
+        const activity: Activity = {
+            id: event.id,
+            type: ACTIVITY_TYPES[event.type],
+            deal: event.deal.title,
+            price: event.deal.currentPrice,
+            previousPrice: event.deal.previousPrice,
+            at: new Date(event.createdAt),
+        };
+        setActivities(prev => prev.some(a => a.id === activity.id) ? prev : [activity, ...prev.slice(0, 4)]);
+    });
 
+    // Keep relative times fresh
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 5000);
         return () => clearInterval(interval);
     }, []);
 
-    const getActivityIcon = (type: Activity['type']) => {
-        switch (type) {
-            case 'save': return <Star className="w-4 h-4 text-pink-400" />;
-            case 'buy': return <DollarSign className="w-4 h-4 text-emerald-400" />;
-            case 'alert': return <Target className="w-4 h-4 text-amber-400" />;
+    const getActivityIcon = (activity: Activity) => {
+        switch (activity.type) {
+            case 'new': return <Flame className="w-4 h-4 text-amber-400" />;
+            case 'drop': return activity.previousPrice !== undefined && activity.price > activity.previousPrice
+                ? <ArrowUp className="w-4 h-4 text-red-400" />
+                : <DollarSign className="w-4 h-4 text-emerald-400" />;
+            case 'expired': return <Target className="w-4 h-4 text-zinc-500" />;
         }
     };
 
     const getActivityText = (activity: Activity) => {
         switch (activity.type) {
-            case 'save': return `saved ${activity.deal}`;
-            case 'buy': return `bought ${activity.deal}`;
-            case 'alert': return `set alert for ${activity.deal}`;
+            case 'new': return `New deal: ${activity.deal} at $${activity.price}`;
+            case 'drop': return `${activity.deal} now $${activity.price}` +
+                (activity.previousPrice !== undefined ? ` (was $${activity.previousPrice})` : '');
+            case 'expired': return `${activity.deal} expired`;
         }
     };
 
+    const formatAgo = (at: Date) => {
+        const seconds = Math.max(0, Math.floor((Date.now() - at.getTime()) / 1000));
+        if (seconds < 5) return 'Just now';
+        if (seconds < 60) return `${seconds}s ago`;
+        if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+        return `${Math.floor(seconds / 3600)}h ago`;
+    };
+
     return (
         <div className="bg-zinc-900/60 border border-zinc-800 rounded-xl p-4">
             <h4 className="text-white font-medium mb-3 flex items-center gap-2">
@@ -258,20 +272,21 @@ export function LiveActivityFeed() {
                 Live Activity
             </h4>
             <div className="space-y-2">
+                {activities.length === 0 && (
+                    <p className="text-sm text-zinc-500">Waiting for new deals...</p>
+                )}
                 <AnimatePresence>
-                    {activities.map((activity, i) => (
+                    {activities.map(activity => (
                         <motion.div
-                            key={`${activity.deal}-${activity.time}-${i}`}
+                            key={activity.id}
                             initial={{ opacity: 0, y: -10 }}
                             animate={{ opacity: 1, y: 0 }}
                             exit={{ opacity: 0 }}
                             className="flex items-center gap-3 text-sm"
                         >
-                            {getActivityIcon(activity.type)}
-                            <span className="text-zinc-400">
-                                <span className="text-white">{activity.user}</span> {getActivityText(activity)}
-                            </span>
-                            <span className="ml-auto text-xs text-zinc-600">{activity.time}</span>
+                            {getActivityIcon(activity)}
+                            <span className="text-zinc-400 truncate">{getActivityText(activity)}</span>
+                            <span className="ml-auto text-xs text-zinc-600 flex-shrink-0">{formatAgo(activity.at)}</span>
                         </motion.div>
                     ))}
                 </AnimatePresence>
@@ -1,7 +1,8 @@
 import { motion } from 'framer-motion';
 import { ShieldCheck, Star, Clock, Truck, Award, CheckCircle } from 'lucide-react';
 import { VerifiedUser, UserBadge, VerificationLevel } from '../types/marketplace';
-import { calculateTrustScore, getReviews } from '../services/userVerification';
+import { calculateTrustScore } from '../services/userVerification';
+import { useUserReviews } from '../hooks/useMarketplace';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // TRUST BADGE
@@ -14,7 +15,7 @@ interface TrustBadgeProps {
 }
 
 export function TrustBadge({ user, size = 'md', showDetails = false }: TrustBadgeProps) {
-    const trustScore = calculateTrustScore(user, getReviews());
+    const trustScore = calculateTrustScore(user, useUserReviews(user.id));
 
     const sizes = {
         sm: 'text-xs px-2 py-0.5',
@@ -139,7 +140,7 @@ interface SellerCardProps {
 }
 
 export function SellerCard({ seller, compact = false }: SellerCardProps) {
-    const trustScore = calculateTrustScore(seller, getReviews());
+    const trustScore = calculateTrustScore(seller, useUserReviews(seller.id));
     const memberSince = new Date(seller.memberSince);
     const memberDuration = Math.floor((Date.now() - memberSince.getTime()) / (1000 * 60 * 60 * 24 * 30));
 
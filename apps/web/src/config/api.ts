@@ -6,31 +6,34 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || '';
 
 export const apiConfig = {
     baseUrl: API_BASE_URL,
-    endpoints: {
-        deals: `${API_BASE_URL}/api/deals`,
-        hotDeals: `${API_BASE_URL}/api/deals/hot`,
-        featuredDeals: `${API_BASE_URL}/api/deals/featured`,
-        searchDeals: `${API_BASE_URL}/api/deals/search`,
-        deal: (id: string) => `${API_BASE_URL}/api/deals/${id}`,
-        marketplaces: `${API_BASE_URL}/api/marketplaces`,
-        categories: `${API_BASE_URL}/api/categories`,
-        health: `${API_BASE_URL}/api/health`,
-    }
 };
 
+// Session token saved alongside the signed-in user
+export function getAuthToken(): string | null {
+    try {
+        const stored = localStorage.getItem('tadow_user');
+        return stored ? JSON.parse(stored).token || null : null;
+    } catch {
+        return null;
+    }
+}
+
 // Helper for API calls with error handling
 export async function apiFetch<T>(url: string, options?: RequestInit): Promise<T> {
     try {
+        const token = getAuthToken();
         const response = await fetch(url, {
             ...options,
             headers: {
                 'Content-Type': 'application/json',
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
                 ...options?.headers,
             },
         });
 
         if (!response.ok) {
-            throw new Error(`API error: ${response.status}`);
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.error || `API error: ${response.status}`);
         }
 
         return response.json();
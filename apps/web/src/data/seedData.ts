@@ -308,20 +308,12 @@ export function initializeSeedData(): boolean {
     const mergedUsers = [...existingUsers, ...DEMO_USERS.filter(u => !existingUsers.find((e: VerifiedUser) => e.id === u.id))];
     localStorage.setItem('tadow_users', JSON.stringify(mergedUsers));
 
-    const existingListings = JSON.parse(localStorage.getItem('tadow_listings') || '[]');
-    const mergedListings = [...existingListings, ...DEMO_LISTINGS.filter(l => !existingListings.find((e: Listing) => e.id === l.id))];
-    localStorage.setItem('tadow_listings', JSON.stringify(mergedListings));
-
-    const existingReviews = JSON.parse(localStorage.getItem('tadow_reviews') || '[]');
-    const mergedReviews = [...existingReviews, ...DEMO_REVIEWS.filter(r => !existingReviews.find((e: Review) => e.id === r.id))];
-    localStorage.setItem('tadow_reviews', JSON.stringify(mergedReviews));
+    // Listings and reviews come from the API (seeded by apps/api/prisma/seed.ts)
 
     localStorage.setItem(SEED_INITIALIZED_KEY, 'true');
 
     console.log('🌱 Tadow seed data initialized:', {
         users: DEMO_USERS.length,
-        listings: DEMO_LISTINGS.length,
-        reviews: DEMO_REVIEWS.length,
     });
 
     return true;
@@ -330,7 +322,5 @@ export function initializeSeedData(): boolean {
 export function resetSeedData(): void {
     localStorage.removeItem(SEED_INITIALIZED_KEY);
     localStorage.removeItem('tadow_users');
-    localStorage.removeItem('tadow_listings');
-    localStorage.removeItem('tadow_reviews');
     initializeSeedData();
 }
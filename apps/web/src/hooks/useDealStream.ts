@@ -0,0 +1,60 @@
+import { useEffect, useRef } from 'react';
+import { api } from '../api';
+
+export type DealStreamEventType = 'deal.created' | 'deal.price_changed' | 'deal.expired';
+
+export interface DealStreamEvent {
+    id: number;
+    type: DealStreamEventType;
+    dealId: string;
+    marketplaceId: string;
+    source: string;
+    category: string;
+    dealScore: number | null;
+    // Deal snapshot as stored (with marketplace); price changes add previousPrice
+    deal: Record<string, any>;
+    createdAt: string;
+}
+
+export interface DealStreamFilters {
+    category?: string;
+    minScore?: number;
+    sources?: string[];
+}
+
+const EVENT_TYPES: DealStreamEventType[] = ['deal.created', 'deal.price_changed', 'deal.expired'];
+
+/**
+ * React hook that subscribes to the API's live deal feed. EventSource
+ * reconnects on its own and resumes from the last event it saw.
+ */
+export function useDealStream(filters: DealStreamFilters, onEvent: (event: DealStreamEvent) => void) {
+    // Keep the latest handler without reopening the stream on every render
+    const handlerRef = useRef(onEvent);
+    handlerRef.current = onEvent;
+
+    const { category, minScore } = filters;
+    const sources = filters.sources?.join(',') || '';
+
+    useEffect(() => {
+        if (typeof EventSource === 'undefined') return;
+
+        const source = new EventSource(api.deals.stream({
+            query: {
+                category: category ? [category] : undefined,
+                minScore,
+                sources: sources ? sources.split(',') : undefined,
+            },
+        }));
+        const listener = (e: MessageEvent) => {
+            try {
+                handlerRef.current(JSON.parse(e.data));
+            } catch (error) {
+                console.error('Bad deal stream event:', error);
+            }
+        };
+
+        EVENT_TYPES.forEach(type => source.addEventListener(type, listener));
+        return () => source.close();
+    }, [category, minScore, sources]);
+}
@@ -0,0 +1,56 @@
+import { useState, useEffect } from 'react';
+import { getListingById, getUserReviews } from '../services/userVerification';
+import { Listing, Review } from '../types/marketplace';
+
+// Listings fetched this session, shared across components
+const listingCache = new Map<string, Promise<Listing | null>>();
+
+/**
+ * React hook that loads a marketplace listing from the API
+ */
+export function useListing(listingId?: string): Listing | null {
+    const [listing, setListing] = useState<Listing | null>(null);
+
+    useEffect(() => {
+        if (!listingId) {
+            setListing(null);
+            return;
+        }
+
+        let cancelled = false;
+        if (!listingCache.has(listingId)) {
+            listingCache.set(listingId, getListingById(listingId));
+        }
+        listingCache.get(listingId)!.then(found => {
+            if (!cancelled) setListing(found);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [listingId]);
+
+    return listing;
+}
+
+/**
+ * React hook that loads the reviews a user has received
+ */
+export function useUserReviews(userId?: string): Review[] {
+    const [reviews, setReviews] = useState<Review[]>([]);
+
+    useEffect(() => {
+        if (!userId) return;
+
+        let cancelled = false;
+        getUserReviews(userId).then(found => {
+            if (!cancelled) setReviews(found);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [userId]);
+
+    return reviews;
+}
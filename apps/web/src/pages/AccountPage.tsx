@@ -7,6 +7,7 @@ import {
     Check, AlertCircle
 } from 'lucide-react';
 import { getWatchlist, getPriceAlerts, getPreferences, updatePreferences } from '../utils/storage';
+import { api } from '../api';
 
 interface UserData {
     email: string;
@@ -43,7 +44,9 @@ export function AccountPage() {
         setDarkMode(prefs.darkMode);
     }, []);
 
-    const handleSignOut = () => {
+    const handleSignOut = async () => {
+        // Revoke the server session; sign out locally regardless
+        await api.auth.logout().catch(() => undefined);
         localStorage.removeItem('tadow_user');
         window.location.href = '/';
     };
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate, useParams } from 'react-router-dom';
 import {
@@ -6,6 +6,7 @@ import {
     Truck
 } from 'lucide-react';
 import { getListingById, getCurrentUser } from '../services/userVerification';
+import { Listing } from '../types/marketplace';
 import { calculateFees, createOrder, BUYER_PROTECTIONS } from '../services/escrow';
 
 export default function Checkout() {
@@ -14,10 +15,30 @@ export default function Checkout() {
     const [step, setStep] = useState<'shipping' | 'payment' | 'confirm'>('shipping');
     const [paymentMethod, setPaymentMethod] = useState<string>('card');
     const [isProcessing, setIsProcessing] = useState(false);
+    const [orderError, setOrderError] = useState<string | null>(null);
+    const [listing, setListing] = useState<Listing | null>(null);
+    const [loading, setLoading] = useState(true);
 
-    const listing = listingId ? getListingById(listingId) : null;
     const user = getCurrentUser();
 
+    useEffect(() => {
+        if (!listingId) {
+            setLoading(false);
+            return;
+        }
+        getListingById(listingId)
+            .then(setListing)
+            .finally(() => setLoading(false));
+    }, [listingId]);
+
+    if (loading) {
+        return (
+            <div className="min-h-screen bg-zinc-950 flex items-center justify-center">
+                <div className="w-8 h-8 border-2 border-amber-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+        );
+    }
+
     if (!listing) {
         return (
             <div className="min-h-screen bg-zinc-950 flex items-center justify-center">
@@ -38,14 +59,17 @@ export default function Checkout() {
         }
 
         setIsProcessing(true);
+        setOrderError(null);
 
-        // Simulate payment processing
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
-        const order = createOrder(listing, user, paymentMethod);
-
-        setIsProcessing(false);
-        navigate(`/order/${order.id}/success`);
+        try {
+            // Payment is captured into escrow server-side
+            const order = await createOrder(listing.id, paymentMethod);
+            navigate(`/order/${order.id}/success`);
+        } catch (error) {
+            setOrderError(error instanceof Error ? error.message : 'Failed to place order');
+        } finally {
+            setIsProcessing(false);
+        }
     };
 
     return (
@@ -325,6 +349,10 @@ export default function Checkout() {
                                         {isProcessing ? 'Processing...' : `Pay $${fees.total.toFixed(2)}`}
                                     </button>
                                 </div>
+
+                                {orderError && (
+                                    <p className="text-sm text-red-400">{orderError}</p>
+                                )}
                             </motion.div>
                         )}
                     </div>
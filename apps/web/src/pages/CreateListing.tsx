@@ -7,6 +7,8 @@ import {
 } from 'lucide-react';
 import { Listing, ListingCondition, PricingType, ShippingType } from '../types/marketplace';
 import { getCurrentUser, saveListing, verifyListing } from '../services/userVerification';
+import { getShippingRates } from '../services/escrow';
+import type { RateQuote } from '@tadow/contract';
 
 type Step = 'category' | 'details' | 'photos' | 'pricing' | 'shipping' | 'review';
 
@@ -41,6 +43,11 @@ export default function CreateListing() {
         saves: 0,
     });
     const [verificationResult, setVerificationResult] = useState<ReturnType<typeof verifyListing> | null>(null);
+    const [publishError, setPublishError] = useState<string | null>(null);
+    const [packageWeight, setPackageWeight] = useState('');
+    const [shipFromZip, setShipFromZip] = useState('');
+    const [rateQuotes, setRateQuotes] = useState<RateQuote[] | null>(null);
+    const [rateError, setRateError] = useState<string | null>(null);
 
     const user = getCurrentUser();
 
@@ -61,7 +68,7 @@ export default function CreateListing() {
         }
     };
 
-    const handlePublish = () => {
+    const handlePublish = async () => {
         if (!user) return;
 
         const verification = verifyListing(listing);
@@ -69,32 +76,38 @@ export default function CreateListing() {
 
         if (!verification.approved) return;
 
-        const newListing: Listing = {
-            ...listing as Listing,
-            id: `listing-${Date.now()}`,
-            sellerId: user.id,
-            createdAt: new Date(),
-            updatedAt: new Date(),
+        // The API assigns the id and seller from the signed-in account, and
+        // runs the same verification itself for the listing's badge
+        const newListing: Partial<Listing> = {
+            ...listing,
             status: 'active',
-            aiVerification: {
-                approved: verification.overallScore >= 70,
-                score: verification.overallScore,
-                imageAuthenticity: verification.imageAuthenticity,
-                priceReasonableness: verification.priceReasonableness,
-                descriptionQuality: verification.descriptionQuality,
-                overallScore: verification.overallScore,
-                flags: verification.flags,
-            },
         };
 
-        saveListing(newListing);
-        navigate('/sell');
+        try {
+            setPublishError(null);
+            await saveListing(newListing);
+            navigate('/sell');
+        } catch (error) {
+            setPublishError(error instanceof Error ? error.message : 'Failed to publish listing');
+        }
     };
 
     const updateListing = (updates: Partial<Listing>) => {
         setListing(prev => ({ ...prev, ...updates }));
     };
 
+    // Quotes to a mid-distance buyer, since the buyer isn't known yet
+    const handleGetRates = async () => {
+        setRateError(null);
+        try {
+            const { quotes } = await getShippingRates(parseFloat(packageWeight), shipFromZip.trim() || undefined);
+            setRateQuotes(quotes);
+        } catch (err) {
+            setRateQuotes(null);
+            setRateError(err instanceof Error ? err.message : 'Failed to get shipping rates');
+        }
+    };
+
     const addImage = (url: string) => {
         updateListing({ images: [...(listing.images || []), url] });
     };
@@ -430,6 +443,56 @@ export default function CreateListing() {
                                             className="flex-1 p-3 bg-zinc-900 border border-zinc-800 rounded-lg text-white focus:border-amber-500 focus:outline-none"
                                         />
                                     </div>
+
+                                    <div className="mt-4 p-4 bg-zinc-900/50 border border-zinc-800 rounded-lg">
+                                        <p className="text-sm text-zinc-400 mb-3">Not sure? Get carrier rates for your package</p>
+                                        <div className="flex gap-2">
+                                            <input
+                                                type="number"
+                                                value={packageWeight}
+                                                onChange={(e) => setPackageWeight(e.target.value)}
+                                                placeholder="Weight (lbs)"
+                                                className="w-32 p-2 bg-zinc-900 border border-zinc-800 rounded-lg text-white text-sm focus:border-amber-500 focus:outline-none"
+                                            />
+                                            <input
+                                                type="text"
+                                                value={shipFromZip}
+                                                onChange={(e) => setShipFromZip(e.target.value)}
+                                                placeholder="Ships from ZIP"
+                                                className="w-36 p-2 bg-zinc-900 border border-zinc-800 rounded-lg text-white text-sm focus:border-amber-500 focus:outline-none"
+                                            />
+                                            <button
+                                                onClick={handleGetRates}
+                                                disabled={!(parseFloat(packageWeight) > 0)}
+                                                className="px-4 py-2 bg-zinc-800 text-white rounded-lg text-sm hover:bg-zinc-700 disabled:opacity-50"
+                                            >
+                                                Get rates
+                                            </button>
+                                        </div>
+                                        {rateError && <p className="text-red-400 text-xs mt-2">{rateError}</p>}
+                                        {rateQuotes && (
+                                            <div className="mt-3 space-y-2">
+                                                {rateQuotes.map(quote => (
+                                                    <button
+                                                        key={`${quote.carrier}-${quote.service}`}
+                                                        onClick={() => updateListing({
+                                                            shipping: { ...listing.shipping!, cost: quote.cost, estimatedDays: quote.estimatedDays }
+                                                        })}
+                                                        className={`w-full flex items-center justify-between p-2 rounded-lg border text-sm ${listing.shipping?.cost === quote.cost
+                                                            ? 'border-amber-500 bg-amber-500/10'
+                                                            : 'border-zinc-800 hover:border-zinc-700'
+                                                            }`}
+                                                    >
+                                                        <span className="text-white">
+                                                            {quote.carrier.toUpperCase()} {quote.service}
+                                                            <span className="text-zinc-500"> · {quote.estimatedDays} days</span>
+                                                        </span>
+                                                        <span className="text-amber-400">${quote.cost.toFixed(2)}</span>
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
                                 </div>
                             )}
                         </motion.div>
@@ -517,6 +580,10 @@ export default function CreateListing() {
                                     </div>
                                 </div>
                             )}
+
+                            {publishError && (
+                                <p className="text-sm text-red-400">{publishError}</p>
+                            )}
                         </motion.div>
                     )}
                 </AnimatePresence>
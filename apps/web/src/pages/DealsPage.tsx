@@ -7,6 +7,7 @@ import {
 } from 'lucide-react';
 import { DealCard, MarketplaceFilter, QuickViewModal } from '../components/Deals';
 import { DealGridSkeleton, FilterSkeleton } from '../components/Skeleton';
+import { useDealStream, DealStreamEvent } from '../hooks/useDealStream';
 
 interface Deal {
     id: string;
@@ -53,6 +54,18 @@ interface Category {
 
 const techCategories = ['Electronics', 'Laptops', 'Phones', 'TVs', 'Gaming'];
 
+const normalizeDeal = (deal: any) => ({
+    ...deal,
+    discountPercent: deal.discount || deal.discountPercent,
+    sellerName: deal.seller?.name || deal.sellerName || 'Unknown',
+    sellerRating: deal.seller?.rating || deal.sellerRating || 0,
+    sellerReviews: deal.seller?.reviews || deal.sellerReviews || 0,
+    isVerifiedSeller: deal.seller?.verified || deal.isVerifiedSeller || false,
+    city: deal.location?.city || deal.city,
+    state: deal.location?.state || deal.state,
+    marketplace: deal.marketplace || { name: deal.source || 'Unknown', color: '#888' },
+});
+
 const sortOptions = [
     { value: 'score', label: 'Best Score' },
     { value: 'price-low', label: 'Price: Low to High' },
@@ -78,22 +91,31 @@ export function DealsPage() {
         fetchData();
     }, [selectedMarketplaces, selectedCategory]);
 
+    // Live catalog changes for the current filters
+    useDealStream(
+        { category: selectedCategory || undefined, sources: selectedMarketplaces },
+        (event: DealStreamEvent) => {
+            if (event.type === 'deal.expired') {
+                setAllDeals(prev => prev.filter(d => d.id !== event.dealId));
+                setHotDeals(prev => prev.filter(d => d.id !== event.dealId));
+                return;
+            }
+
+            const deal = normalizeDeal(event.deal) as Deal;
+            const replace = (deals: Deal[]) => deals.map(d => d.id === deal.id ? deal : d);
+            if (event.type === 'deal.created') {
+                setAllDeals(prev => prev.some(d => d.id === deal.id) ? replace(prev) : [deal, ...prev]);
+            } else {
+                setAllDeals(replace);
+                setHotDeals(replace);
+            }
+        }
+    );
+
     const fetchData = async () => {
         try {
             const { ALL_DEALS, getTrending } = await import('../data/extendedDeals');
 
-            const normalizeDeal = (deal: any) => ({
-                ...deal,
-                discountPercent: deal.discount || deal.discountPercent,
-                sellerName: deal.seller?.name || deal.sellerName || 'Unknown',
-                sellerRating: deal.seller?.rating || deal.sellerRating || 0,
-                sellerReviews: deal.seller?.reviews || deal.sellerReviews || 0,
-                isVerifiedSeller: deal.seller?.verified || deal.isVerifiedSeller || false,
-                city: deal.location?.city || deal.city,
-                state: deal.location?.state || deal.state,
-                marketplace: deal.marketplace || { name: deal.source || 'Unknown', color: '#888' },
-            });
-
             try {
                 const hotRes = await fetch('/api/deals/hot');
                 if (hotRes.ok) {
@@ -4,10 +4,13 @@ import { useParams, useNavigate, Link } from 'react-router-dom';
 import {
     ArrowLeft, Heart, Share2, Flag,
     MapPin, Truck, MessageSquare, ChevronLeft, ChevronRight,
-    Check, X, AlertCircle
+    Check, X, AlertCircle, Gavel, Clock
 } from 'lucide-react';
-import { Listing } from '../types/marketplace';
-import { getListingById, getUserById, getListings, getCurrentUser } from '../services/userVerification';
+import { Bid, Listing, Offer } from '../types/marketplace';
+import {
+    getListingById, getUserById, getListings, getCurrentUser, getBids, placeBid
+} from '../services/userVerification';
+import { createOffer, getOrCreateConversation } from '../services/messaging';
 import { SellerCard } from '../components/TrustBadge';
 import { ReviewsList } from '../components/ReviewSystem';
 import { initializeSeedData } from '../data/seedData';
@@ -26,18 +29,20 @@ export default function ListingDetail() {
     const currentUser = getCurrentUser();
 
     useEffect(() => {
-        if (id) {
-            const found = getListingById(id);
+        if (!id) return;
+
+        (async () => {
+            const found = await getListingById(id);
             setListing(found);
 
             if (found) {
                 // Get similar listings
-                const similar = getListings()
-                    .filter(l => l.category === found.category && l.id !== found.id && l.status === 'active')
+                const similar = (await getListings({ category: found.category }))
+                    .filter(l => l.id !== found.id)
                     .slice(0, 4);
                 setSimilarListings(similar);
             }
-        }
+        })().catch(error => console.error('Failed to load listing:', error));
     }, [id]);
 
     if (!listing) {
@@ -57,6 +62,15 @@ export default function ListingDetail() {
         : 0;
     const isOwnListing = currentUser?.id === listing.sellerId;
 
+    const handleMessageSeller = async () => {
+        try {
+            const conversation = await getOrCreateConversation(listing.sellerId, listing.id);
+            navigate(`/messages?id=${conversation.id}`);
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Sign in to message the seller');
+        }
+    };
+
     const handleShare = async () => {
         if (navigator.share) {
             await navigator.share({
@@ -171,8 +185,15 @@ export default function ListingDetail() {
 
                         {/* Price */}
                         <div className="flex items-baseline gap-3 mb-6">
-                            <span className="text-4xl font-bold text-amber-400">${listing.price}</span>
-                            {listing.originalPrice && (
+                            <span className="text-4xl font-bold text-amber-400">
+                                ${listing.auction?.currentBid ?? listing.price}
+                            </span>
+                            {listing.auction && (
+                                <span className="text-zinc-400">
+                                    {listing.auction.bidCount > 0 ? 'current bid' : 'starting bid'}
+                                </span>
+                            )}
+                            {!listing.auction && listing.originalPrice && (
                                 <span className="text-xl text-zinc-500 line-through">${listing.originalPrice}</span>
                             )}
                         </div>
@@ -224,7 +245,11 @@ export default function ListingDetail() {
                         </div>
 
                         {/* Actions */}
-                        {!isOwnListing && (
+                        {listing.auction && (
+                            <AuctionPanel listing={listing} isOwnListing={isOwnListing} onUpdate={setListing} />
+                        )}
+
+                        {!listing.auction && !isOwnListing && (
                             <div className="flex gap-3 mb-6">
                                 <Link
                                     to={`/checkout/${listing.id}`}
@@ -232,12 +257,14 @@ export default function ListingDetail() {
                                 >
                                     Buy Now - ${listing.price}
                                 </Link>
-                                <button
-                                    onClick={() => setShowOfferModal(true)}
-                                    className="flex-1 py-3 border border-amber-500 text-amber-400 rounded-xl hover:bg-amber-500/10"
-                                >
-                                    Make Offer
-                                </button>
+                                {listing.pricingType !== 'fixed' && (
+                                    <button
+                                        onClick={() => setShowOfferModal(true)}
+                                        className="flex-1 py-3 border border-amber-500 text-amber-400 rounded-xl hover:bg-amber-500/10"
+                                    >
+                                        Make Offer
+                                    </button>
+                                )}
                             </div>
                         )}
 
@@ -257,7 +284,10 @@ export default function ListingDetail() {
 
                         {/* Message Seller */}
                         {!isOwnListing && (
-                            <button className="w-full py-3 border border-zinc-700 text-zinc-400 rounded-xl hover:border-zinc-600 flex items-center justify-center gap-2 mb-6">
+                            <button
+                                onClick={handleMessageSeller}
+                                className="w-full py-3 border border-zinc-700 text-zinc-400 rounded-xl hover:border-zinc-600 flex items-center justify-center gap-2 mb-6"
+                            >
                                 <MessageSquare className="w-5 h-5" />
                                 Message Seller
                             </button>
@@ -306,6 +336,7 @@ export default function ListingDetail() {
                 <OfferModal
                     listing={listing}
                     onClose={() => setShowOfferModal(false)}
+                    onSent={offer => navigate(`/messages?id=${offer.conversationId}`)}
                 />
             )}
         </div>
@@ -316,15 +347,49 @@ export default function ListingDetail() {
 // OFFER MODAL
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-function OfferModal({ listing, onClose }: { listing: Listing; onClose: () => void }) {
+function OfferModal({
+    listing,
+    onClose,
+    onSent
+}: {
+    listing: Listing;
+    onClose: () => void;
+    onSent: (offer: Offer) => void;
+}) {
     const [amount, setAmount] = useState(Math.round(listing.price * 0.9));
     const [message, setMessage] = useState('');
-    const minOffer = listing.minimumOffer || Math.round(listing.price * 0.5);
+    const [error, setError] = useState<string | null>(null);
+    const [sellerListings, setSellerListings] = useState<Listing[]>([]);
+    const [bundleIds, setBundleIds] = useState<string[]>([]);
 
-    const handleSubmit = () => {
-        // In production, this would create an offer
-        console.log('Submitting offer:', { amount, message });
-        onClose();
+    // Other listings from this seller that take offers can join a bundle
+    useEffect(() => {
+        getListings({ sellerId: listing.sellerId })
+            .then(all => setSellerListings(all.filter(l => l.id !== listing.id
+                && l.status === 'active'
+                && (l.pricingType === 'negotiable' || l.pricingType === 'free'))))
+            .catch(() => setSellerListings([]));
+    }, [listing.id, listing.sellerId]);
+
+    const items = [listing, ...sellerListings.filter(l => bundleIds.includes(l.id))];
+    const listTotal = items.reduce((sum, l) => sum + l.price, 0);
+    const minOffer = items.reduce((sum, l) => sum + (l.minimumOffer || Math.round(l.price * 0.5)), 0);
+
+    const toggleBundle = (id: string) => {
+        const next = bundleIds.includes(id) ? bundleIds.filter(b => b !== id) : [...bundleIds, id];
+        const total = [listing, ...sellerListings.filter(l => next.includes(l.id))].reduce((sum, l) => sum + l.price, 0);
+        setBundleIds(next);
+        setAmount(Math.round(total * 0.9));
+    };
+
+    const handleSubmit = async () => {
+        try {
+            const offer = await createOffer(listing.id, amount, message || undefined, bundleIds);
+            onClose();
+            onSent(offer);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to send offer');
+        }
     };
 
     return (
@@ -359,6 +424,31 @@ function OfferModal({ listing, onClose }: { listing: Listing; onClose: () => voi
                     </div>
                 </div>
 
+                {sellerListings.length > 0 && (
+                    <div className="mb-6">
+                        <label className="block text-sm text-zinc-400 mb-2">Bundle more from this seller</label>
+                        <div className="space-y-2 max-h-40 overflow-y-auto">
+                            {sellerListings.map(l => (
+                                <label key={l.id} className="flex items-center gap-3 p-2 bg-zinc-800/50 rounded-lg cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={bundleIds.includes(l.id)}
+                                        onChange={() => toggleBundle(l.id)}
+                                        className="accent-amber-500"
+                                    />
+                                    <span className="flex-1 text-sm text-white line-clamp-1">{l.title}</span>
+                                    <span className="text-sm text-zinc-400">${l.price}</span>
+                                </label>
+                            ))}
+                        </div>
+                        {bundleIds.length > 0 && (
+                            <p className="text-xs text-zinc-500 mt-2">
+                                {items.length} items listed at ${listTotal} together
+                            </p>
+                        )}
+                    </div>
+                )}
+
                 <div className="mb-4">
                     <label className="block text-sm text-zinc-400 mb-2">Your Offer</label>
                     <div className="relative">
@@ -368,7 +458,7 @@ function OfferModal({ listing, onClose }: { listing: Listing; onClose: () => voi
                             value={amount}
                             onChange={e => setAmount(Number(e.target.value))}
                             min={minOffer}
-                            max={listing.price}
+                            max={listTotal}
                             className="w-full pl-8 pr-4 py-3 bg-zinc-800 border border-zinc-700 rounded-xl text-2xl font-bold text-white focus:border-amber-500 focus:outline-none"
                         />
                     </div>
@@ -381,10 +471,10 @@ function OfferModal({ listing, onClose }: { listing: Listing; onClose: () => voi
                     {[0.75, 0.85, 0.9].map(pct => (
                         <button
                             key={pct}
-                            onClick={() => setAmount(Math.round(listing.price * pct))}
+                            onClick={() => setAmount(Math.round(listTotal * pct))}
                             className="flex-1 py-2 bg-zinc-800 text-zinc-400 rounded-lg text-sm hover:bg-zinc-700"
                         >
-                            ${Math.round(listing.price * pct)}
+                            ${Math.round(listTotal * pct)}
                         </button>
                     ))}
                 </div>
@@ -400,18 +490,196 @@ function OfferModal({ listing, onClose }: { listing: Listing; onClose: () => voi
                     />
                 </div>
 
+                {error && (
+                    <p className="text-red-400 text-sm mb-3">{error}</p>
+                )}
+
                 <button
                     onClick={handleSubmit}
                     disabled={amount < minOffer}
                     className="w-full btn-primary py-3 disabled:opacity-50"
                 >
-                    Send Offer - ${amount}
+                    Send {bundleIds.length > 0 ? 'Bundle ' : ''}Offer - ${amount}
                 </button>
 
                 <p className="text-xs text-zinc-500 text-center mt-4">
-                    Offers expire in 24 hours. Seller will be notified.
+                    Offers expire in 24 hours. Seller will be notified. If accepted, payment is held in escrow.
                 </p>
             </motion.div>
         </motion.div>
     );
 }
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// AUCTION PANEL
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+function formatTimeLeft(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    return `${minutes}m ${seconds % 60}s`;
+}
+
+function AuctionPanel({
+    listing,
+    isOwnListing,
+    onUpdate
+}: {
+    listing: Listing;
+    isOwnListing: boolean;
+    onUpdate: (listing: Listing) => void;
+}) {
+    const auction = listing.auction!;
+    const currentUser = getCurrentUser();
+    const [bids, setBids] = useState<Bid[]>([]);
+    const [yourMaxBid, setYourMaxBid] = useState<number | undefined>();
+    const [maxAmount, setMaxAmount] = useState(auction.minimumBid);
+    const [paymentMethod, setPaymentMethod] = useState('card');
+    const [error, setError] = useState<string | null>(null);
+    const [isBidding, setIsBidding] = useState(false);
+    const [now, setNow] = useState(Date.now());
+
+    const timeLeft = new Date(auction.endsAt).getTime() - now;
+    const ended = auction.ended || timeLeft <= 0;
+    const leading = Boolean(currentUser && auction.highBidderId === currentUser.id);
+
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    // Pick up other bidders' bids and anti-sniping extensions while the auction runs
+    useEffect(() => {
+        const refresh = () => {
+            getBids(listing.id)
+                .then(result => {
+                    setBids(result.bids);
+                    setYourMaxBid(result.yourMaxBid);
+                })
+                .catch(err => console.error('Failed to load bids:', err));
+        };
+        refresh();
+        if (auction.ended) return;
+
+        const timer = setInterval(() => {
+            refresh();
+            getListingById(listing.id).then(fresh => fresh && onUpdate(fresh));
+        }, 15_000);
+        return () => clearInterval(timer);
+    }, [listing.id, auction.ended, auction.bidCount]);
+
+    useEffect(() => {
+        setMaxAmount(amount => Math.max(amount, auction.minimumBid));
+    }, [auction.minimumBid]);
+
+    const handleBid = async () => {
+        setError(null);
+        setIsBidding(true);
+        try {
+            const result = await placeBid(listing.id, maxAmount, paymentMethod);
+            setYourMaxBid(result.yourMaxBid);
+            onUpdate(result.listing);
+            if (!result.leading) {
+                setError("Another bidder's maximum is higher. Raise yours to take the lead.");
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Sign in to bid');
+        } finally {
+            setIsBidding(false);
+        }
+    };
+
+    return (
+        <div className="p-4 bg-zinc-900/50 border border-zinc-800 rounded-xl mb-6">
+            <div className="flex items-center justify-between mb-4">
+                <span className="flex items-center gap-2 text-white font-medium">
+                    <Gavel className="w-5 h-5 text-amber-400" />
+                    {auction.bidCount} {auction.bidCount === 1 ? 'bid' : 'bids'}
+                </span>
+                <span className={`flex items-center gap-1 text-sm ${!ended && timeLeft < 5 * 60_000 ? 'text-red-400' : 'text-zinc-400'}`}>
+                    <Clock className="w-4 h-4" />
+                    {ended ? 'Auction ended' : `${formatTimeLeft(timeLeft)} left`}
+                </span>
+            </div>
+
+            {auction.hasReserve && (
+                <p className={`text-sm mb-3 ${auction.reserveMet ? 'text-emerald-400' : 'text-zinc-400'}`}>
+                    {auction.reserveMet ? 'Reserve met' : 'Reserve not met yet'}
+                </p>
+            )}
+
+            {leading && (
+                <p className="text-sm text-emerald-400 mb-3">
+                    {ended ? 'You won this auction' : `You're the high bidder`}
+                    {yourMaxBid !== undefined && !ended && ` (your maximum: $${yourMaxBid})`}
+                </p>
+            )}
+            {!leading && yourMaxBid !== undefined && (
+                <p className="text-sm text-red-400 mb-3">You've been outbid</p>
+            )}
+
+            {!isOwnListing && !ended && (
+                <>
+                    <label className="block text-sm text-zinc-400 mb-2">Your maximum bid</label>
+                    <div className="flex gap-3 mb-2">
+                        <div className="relative flex-1">
+                            <span className="absolute left-4 top-1/2 -translate-y-1/2 text-zinc-500">$</span>
+                            <input
+                                type="number"
+                                value={maxAmount}
+                                onChange={e => setMaxAmount(Number(e.target.value))}
+                                min={auction.minimumBid}
+                                className="w-full pl-8 pr-4 py-3 bg-zinc-800 border border-zinc-700 rounded-xl text-white font-bold focus:border-amber-500 focus:outline-none"
+                            />
+                        </div>
+                        <select
+                            value={paymentMethod}
+                            onChange={e => setPaymentMethod(e.target.value)}
+                            className="px-3 bg-zinc-800 border border-zinc-700 rounded-xl text-white focus:border-amber-500 focus:outline-none"
+                        >
+                            <option value="card">Card</option>
+                            <option value="paypal">PayPal</option>
+                            <option value="apple">Apple Pay</option>
+                        </select>
+                    </div>
+                    <p className="text-xs text-zinc-500 mb-3">
+                        Minimum bid ${auction.minimumBid}. We bid for you up to your maximum, only as much as needed to stay ahead.
+                    </p>
+                    {error && <p className="text-red-400 text-sm mb-3">{error}</p>}
+                    <button
+                        onClick={handleBid}
+                        disabled={isBidding || (!leading && maxAmount < auction.minimumBid)}
+                        className="w-full btn-primary py-3 disabled:opacity-50"
+                    >
+                        {leading ? 'Raise Maximum' : 'Place Bid'} - ${maxAmount}
+                    </button>
+                    <p className="text-xs text-zinc-500 text-center mt-2">
+                        The winner pays into escrow with this payment method when the auction ends.
+                    </p>
+                </>
+            )}
+
+            {bids.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-zinc-800">
+                    <h4 className="text-sm text-zinc-400 mb-2">Bid history</h4>
+                    <ul className="space-y-1 max-h-48 overflow-y-auto">
+                        {bids.map(bid => (
+                            <li key={bid.id} className="flex justify-between text-sm">
+                                <span className="text-zinc-400">
+                                    {bid.bidderId === currentUser?.id ? 'You' : `Bidder ${bid.bidderId.slice(-4)}`}
+                                    {bid.isAutomatic && <span className="text-zinc-600"> (auto)</span>}
+                                </span>
+                                <span className="text-white">${bid.amount}</span>
+                                <span className="text-zinc-600">{new Date(bid.createdAt).toLocaleString()}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
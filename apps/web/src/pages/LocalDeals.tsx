@@ -5,7 +5,8 @@ import {
     Search, ChevronDown
 } from 'lucide-react';
 import { Listing } from '../types/marketplace';
-import { getListings, getCurrentUser } from '../services/userVerification';
+import { api } from '../api';
+import { getListings, getNearbyListings, getCurrentUser, setCurrentUser } from '../services/userVerification';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // SAFE MEETUP LOCATIONS
@@ -72,18 +73,61 @@ export default function LocalDeals() {
     const [distance, setDistance] = useState<number>(25);
     const [selectedCategory, setSelectedCategory] = useState<string>('all');
     const [showSafeSpots, setShowSafeSpots] = useState(false);
-
-    const user = getCurrentUser();
+    const [user, setUser] = useState(getCurrentUser);
+    const [center, setCenter] = useState(user?.location?.coordinates ?? null);
+    const [place, setPlace] = useState(user?.location ? `${user.location.city}, ${user.location.state}` : '');
+    const [zipInput, setZipInput] = useState('');
+    const [showZipEntry, setShowZipEntry] = useState(false);
+    const [locationError, setLocationError] = useState('');
 
     useEffect(() => {
-        // Get local-only listings
-        const allListings = getListings();
-        const localListings = allListings.filter(l =>
-            l.status === 'active' &&
-            (l.shipping?.type === 'local_only' || l.shipping?.type === 'both')
+        // Get local-only listings, within the chosen distance once we know where the user is
+        (center ? getNearbyListings(center, distance) : getListings())
+            .then(allListings => setListings(allListings.filter(l =>
+                l.shipping?.type === 'local_only' || l.shipping?.type === 'both'
+            )))
+            .catch(error => console.error('Failed to load listings:', error));
+    }, [center, distance]);
+
+    // Remember the location on the profile so the next visit starts there
+    const applyLocation = (result: { lat: number; lng: number; city: string; state: string }) => {
+        const coordinates = { lat: result.lat, lng: result.lng };
+        setCenter(coordinates);
+        setPlace(`${result.city}, ${result.state}`);
+        setShowZipEntry(false);
+        setLocationError('');
+        if (user) {
+            const updated = {
+                ...user,
+                location: { city: result.city, state: result.state, country: user.location?.country || 'US', coordinates },
+            };
+            setCurrentUser(updated);
+            setUser(updated);
+        }
+    };
+
+    const useBrowserLocation = () => {
+        if (!navigator.geolocation) {
+            setShowZipEntry(true);
+            return;
+        }
+        navigator.geolocation.getCurrentPosition(
+            ({ coords }) => {
+                api.local.geocode({ query: { lat: coords.latitude, lng: coords.longitude } })
+                    .then(result => applyLocation({ ...result, lat: coords.latitude, lng: coords.longitude }))
+                    .catch(() => setLocationError('Could not place your location'));
+            },
+            () => setShowZipEntry(true)
         );
-        setListings(localListings);
-    }, []);
+    };
+
+    const useZipCode = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!zipInput.trim()) return;
+        api.local.geocode({ query: { zip: zipInput.trim() } })
+            .then(applyLocation)
+            .catch(() => setLocationError('ZIP code not found'));
+    };
 
     const filteredListings = listings.filter(l => {
         if (selectedCategory !== 'all' && l.category !== selectedCategory) return false;
@@ -105,17 +149,38 @@ export default function LocalDeals() {
                     <p className="text-zinc-400">Buy and sell locally with safe meetup options</p>
 
                     {/* Location Info */}
-                    {user?.location ? (
+                    {center && !showZipEntry ? (
                         <div className="flex items-center gap-2 mt-4 text-sm text-zinc-400">
                             <Navigation className="w-4 h-4" />
-                            <span>{user.location.city}, {user.location.state}</span>
+                            <span>{place}</span>
+                            <button onClick={() => setShowZipEntry(true)} className="text-amber-400 hover:underline">
+                                Change
+                            </button>
                         </div>
+                    ) : showZipEntry ? (
+                        <form onSubmit={useZipCode} className="flex items-center gap-2 mt-4 text-sm">
+                            <input
+                                type="text"
+                                value={zipInput}
+                                onChange={e => setZipInput(e.target.value)}
+                                placeholder="ZIP code"
+                                inputMode="numeric"
+                                className="w-28 px-3 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-white focus:border-amber-500 focus:outline-none"
+                            />
+                            <button type="submit" className="px-3 py-1.5 bg-amber-500 text-zinc-900 font-medium rounded-lg">
+                                Set
+                            </button>
+                            <button type="button" onClick={useBrowserLocation} className="text-amber-400 hover:underline">
+                                Use my location
+                            </button>
+                        </form>
                     ) : (
-                        <button className="flex items-center gap-2 mt-4 text-sm text-amber-400 hover:underline">
+                        <button onClick={useBrowserLocation} className="flex items-center gap-2 mt-4 text-sm text-amber-400 hover:underline">
                             <Navigation className="w-4 h-4" />
                             Set your location
                         </button>
                     )}
+                    {locationError && <p className="mt-2 text-sm text-red-400">{locationError}</p>}
                 </div>
             </div>
 
@@ -239,7 +304,9 @@ export default function LocalDeals() {
                                 {/* Map label */}
                                 <div className="absolute bottom-4 left-4 bg-zinc-900/80 backdrop-blur px-3 py-2 rounded-lg">
                                     <p className="text-xs text-zinc-400">
-                                        {filteredListings.length} listings within {distance} miles
+                                        {center
+                                            ? `${filteredListings.length} listings within ${distance} miles`
+                                            : `${filteredListings.length} listings · set your location to search by distance`}
                                     </p>
                                 </div>
                             </div>
@@ -379,7 +446,11 @@ function LocalListingCard({ listing }: { listing: Listing }) {
                 <p className="text-amber-400 font-bold">${listing.price}</p>
                 <div className="flex items-center gap-2 mt-1 text-xs text-zinc-500">
                     <MapPin className="w-3 h-3" />
-                    <span>2.4 miles</span>
+                    <span>
+                        {listing.distanceMiles !== undefined
+                            ? `${listing.distanceMiles} miles`
+                            : [listing.location?.city, listing.location?.state].filter(Boolean).join(', ') || 'Local pickup'}
+                    </span>
                     {listing.shipping?.type === 'local_only' && (
                         <span className="px-1.5 py-0.5 bg-emerald-500/20 text-emerald-400 rounded">
                             Local only
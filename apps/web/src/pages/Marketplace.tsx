@@ -43,8 +43,9 @@ export default function Marketplace() {
     const [showFilters, setShowFilters] = useState(false);
 
     useEffect(() => {
-        const allListings = getListings().filter(l => l.status === 'active');
-        setListings(allListings);
+        getListings()
+            .then(setListings)
+            .catch(error => console.error('Failed to load listings:', error));
     }, []);
 
     useEffect(() => {
@@ -5,11 +5,13 @@ import {
     Search, Send, Image, MoreVertical, ArrowLeft,
     Check, CheckCheck, DollarSign, X
 } from 'lucide-react';
-import { Conversation, Message } from '../types/marketplace';
+import { Conversation, Message, Offer, OfferRound } from '../types/marketplace';
 import {
-    getConversations, getConversationMessages, sendMessage
+    getConversations, getConversationMessages, sendMessage, markConversationRead,
+    getUserOffers, respondToOffer, subscribeToMessages, MessagingEvent
 } from '../services/messaging';
-import { getCurrentUser, getUserById, getListingById } from '../services/userVerification';
+import { getCurrentUser, getUserById } from '../services/userVerification';
+import { useListing } from '../hooks/useMarketplace';
 
 export default function MessagesPage() {
     const [searchParams, setSearchParams] = useSearchParams();
@@ -18,43 +20,122 @@ export default function MessagesPage() {
     const [conversations, setConversations] = useState<Conversation[]>([]);
     const [activeConversation, setActiveConversation] = useState<Conversation | null>(null);
     const [messages, setMessages] = useState<Message[]>([]);
+    const [offers, setOffers] = useState<Record<string, Offer>>({});
     const [newMessage, setNewMessage] = useState('');
     const [searchQuery, setSearchQuery] = useState('');
 
     const currentUser = getCurrentUser();
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const activeIdRef = useRef<string | null>(null);
+    activeIdRef.current = activeConversation?.id ?? null;
 
-    useEffect(() => {
-        const allConversations = getConversations();
-        setConversations(allConversations);
-
-        if (conversationId) {
-            const conv = allConversations.find((c: Conversation) => c.id === conversationId);
-            if (conv) {
-                setActiveConversation(conv);
-                setMessages(getConversationMessages(conversationId));
-            }
+    const openConversation = async (conv: Conversation) => {
+        setActiveConversation(conv);
+        setMessages(await getConversationMessages(conv.id));
+        if (currentUser && (conv.unreadCount[currentUser.id] || 0) > 0) {
+            await markConversationRead(conv.id);
+            setConversations(prev => prev.map(c => c.id === conv.id
+                ? { ...c, unreadCount: { ...c.unreadCount, [currentUser.id]: 0 } }
+                : c));
         }
+    };
+
+    useEffect(() => {
+        getConversations()
+            .then(allConversations => {
+                setConversations(allConversations);
+                const conv = conversationId && allConversations.find(c => c.id === conversationId);
+                if (conv) openConversation(conv);
+            })
+            .catch(() => setConversations([]));
+        getUserOffers()
+            .then(list => setOffers(Object.fromEntries(list.map(o => [o.id, o]))))
+            .catch(() => { });
     }, [conversationId]);
 
+    // Live messages, read receipts and offer updates
+    useEffect(() => {
+        if (!currentUser) return;
+
+        const handleEvent = (event: MessagingEvent) => {
+            if (event.type === 'message') {
+                const { message } = event;
+                const isActive = activeIdRef.current === event.conversationId;
+                const fromOther = message.senderId !== currentUser.id;
+
+                if (isActive) {
+                    setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+                    if (fromOther) markConversationRead(event.conversationId).catch(() => { });
+                }
+                setConversations(prev => {
+                    const existing = prev.find(c => c.id === event.conversationId);
+                    if (!existing) {
+                        // New conversation started by someone else
+                        getConversations().then(setConversations).catch(() => { });
+                        return prev;
+                    }
+                    const unread = existing.unreadCount[currentUser.id] || 0;
+                    const updated: Conversation = {
+                        ...existing,
+                        lastMessage: message,
+                        updatedAt: message.createdAt,
+                        unreadCount: {
+                            ...existing.unreadCount,
+                            [currentUser.id]: fromOther && !isActive ? unread + 1 : unread,
+                        },
+                    };
+                    return [updated, ...prev.filter(c => c.id !== existing.id)];
+                });
+            } else if (event.type === 'read') {
+                // The other side read our messages
+                if (event.userId !== currentUser.id && activeIdRef.current === event.conversationId) {
+                    setMessages(prev => prev.map(m => m.senderId === currentUser.id ? { ...m, read: true } : m));
+                }
+            } else if (event.type === 'offer') {
+                setOffers(prev => ({ ...prev, [event.offer.id]: event.offer }));
+            }
+        };
+
+        return subscribeToMessages(handleEvent);
+    }, [currentUser?.id]);
+
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages]);
 
-    const handleSend = () => {
+    const handleSend = async () => {
         if (!newMessage.trim() || !activeConversation || !currentUser) return;
 
-        const msg = sendMessage(activeConversation.id, currentUser.id, newMessage.trim());
-        setMessages(prev => [...prev, msg]);
+        const msg = await sendMessage(activeConversation.id, newMessage.trim());
+        setMessages(prev => prev.some(m => m.id === msg.id) ? prev : [...prev, msg]);
         setNewMessage('');
     };
 
     const handleSelectConversation = (conv: Conversation) => {
-        setActiveConversation(conv);
         setSearchParams({ id: conv.id });
-        setMessages(getConversationMessages(conv.id));
+        openConversation(conv);
+    };
+
+    const handleOfferResponse = async (offerId: string, response: 'accept' | 'decline' | 'counter') => {
+        let counterAmount: number | undefined;
+        if (response === 'counter') {
+            counterAmount = Number(window.prompt('Counter offer amount ($):'));
+            if (!counterAmount) return;
+        }
+        try {
+            const offer = await respondToOffer(offerId, response, counterAmount);
+            setOffers(prev => ({ ...prev, [offer.id]: offer }));
+        } catch (error) {
+            alert(error instanceof Error ? error.message : 'Failed to respond to offer');
+        }
     };
 
+    // Offer and counter messages per offer, oldest first; only the newest can be answered
+    const offerMoves: Record<string, string[]> = {};
+    messages.forEach(m => {
+        if (m.type === 'offer' && m.offerId) offerMoves[m.offerId] = [...(offerMoves[m.offerId] || []), m.id];
+    });
+
     const filteredConversations = conversations.filter(conv => {
         if (!searchQuery) return true;
         const otherUserId = conv.participants.find(p => p !== currentUser?.id);
@@ -121,6 +202,9 @@ export default function MessagesPage() {
                                     key={msg.id}
                                     message={msg}
                                     isOwn={msg.senderId === currentUser?.id}
+                                    offer={msg.offerId ? offers[msg.offerId] : undefined}
+                                    moves={msg.offerId ? offerMoves[msg.offerId] : undefined}
+                                    onRespond={handleOfferResponse}
                                 />
                             ))}
                             <div ref={messagesEndRef} />
@@ -182,7 +266,7 @@ function ConversationItem({
 }) {
     const otherUserId = conversation.participants.find(p => p !== currentUserId);
     const otherUser = otherUserId ? getUserById(otherUserId) : null;
-    const listing = conversation.listingId ? getListingById(conversation.listingId) : null;
+    const listing = useListing(conversation.listingId);
     const unreadCount = currentUserId ? (conversation.unreadCount[currentUserId] || 0) : 0;
 
     return (
@@ -232,7 +316,7 @@ function ChatHeader({
 }) {
     const otherUserId = conversation.participants.find(p => p !== currentUserId);
     const otherUser = otherUserId ? getUserById(otherUserId) : null;
-    const listing = conversation.listingId ? getListingById(conversation.listingId) : null;
+    const listing = useListing(conversation.listingId);
 
     return (
         <div className="p-4 border-b border-zinc-800 flex items-center gap-3">
@@ -257,9 +341,21 @@ function ChatHeader({
     );
 }
 
-function MessageBubble({ message, isOwn }: { message: Message; isOwn: boolean }) {
+function MessageBubble({
+    message,
+    isOwn,
+    offer,
+    moves,
+    onRespond
+}: {
+    message: Message;
+    isOwn: boolean;
+    offer?: Offer;
+    moves?: string[];
+    onRespond: (offerId: string, response: 'accept' | 'decline' | 'counter') => void;
+}) {
     if (message.type === 'offer') {
-        return <OfferBubble message={message} isOwn={isOwn} />;
+        return <OfferBubble message={message} isOwn={isOwn} offer={offer} moves={moves || []} onRespond={onRespond} />;
     }
 
     return (
@@ -287,8 +383,34 @@ function MessageBubble({ message, isOwn }: { message: Message; isOwn: boolean })
     );
 }
 
-function OfferBubble({ message, isOwn }: { message: Message; isOwn: boolean }) {
-    // In production, fetch offer details
+const ROUND_LABELS: Record<OfferRound['action'], string> = {
+    offer: 'offered',
+    counter: 'countered',
+    accept: 'accepted',
+    decline: 'declined',
+    withdraw: 'withdrew',
+    expire: 'expired',
+};
+
+function OfferBubble({
+    message,
+    isOwn,
+    offer,
+    moves,
+    onRespond
+}: {
+    message: Message;
+    isOwn: boolean;
+    offer?: Offer;
+    moves: string[];
+    onRespond: (offerId: string, response: 'accept' | 'decline' | 'counter') => void;
+}) {
+    const [showHistory, setShowHistory] = useState(false);
+    const isLatest = moves[moves.length - 1] === message.id;
+    // The other side made this move and the offer is waiting on us
+    const canRespond = !isOwn && isLatest && Boolean(offer?.awaiting);
+    const isBundle = (offer?.listingIds.length || 0) > 1;
+
     return (
         <motion.div
             initial={{ opacity: 0, y: 10 }}
@@ -298,22 +420,63 @@ function OfferBubble({ message, isOwn }: { message: Message; isOwn: boolean }) {
             <div className="max-w-[75%] p-4 bg-zinc-800 border border-zinc-700 rounded-xl">
                 <div className="flex items-center gap-2 text-amber-400 mb-2">
                     <DollarSign className="w-4 h-4" />
-                    <span className="font-medium">Offer Made</span>
+                    <span className="font-medium">
+                        {moves[0] !== message.id ? 'Counter Offer' : isBundle ? 'Bundle Offer' : 'Offer Made'}
+                    </span>
                 </div>
                 <p className="text-white">{message.content}</p>
-                {!isOwn && (
+                {offer && isLatest && !offer.awaiting && (
+                    <p className="text-xs text-zinc-400 mt-2 capitalize">
+                        {offer.status}{offer.agreedAmount ? ` · $${offer.agreedAmount}` : ''}
+                        {offer.orderIds.length > 0 && (
+                            <Link to="/orders" className="ml-2 text-amber-400 normal-case">View order</Link>
+                        )}
+                    </p>
+                )}
+                {canRespond && offer && (
                     <div className="flex gap-2 mt-3">
-                        <button className="flex-1 py-2 bg-emerald-500 text-white rounded-lg text-sm font-medium">
+                        <button
+                            onClick={() => onRespond(offer.id, 'accept')}
+                            className="flex-1 py-2 bg-emerald-500 text-white rounded-lg text-sm font-medium"
+                        >
                             Accept
                         </button>
-                        <button className="flex-1 py-2 bg-zinc-700 text-white rounded-lg text-sm">
+                        <button
+                            onClick={() => onRespond(offer.id, 'counter')}
+                            className="flex-1 py-2 bg-zinc-700 text-white rounded-lg text-sm"
+                        >
                             Counter
                         </button>
-                        <button className="py-2 px-3 border border-zinc-600 text-zinc-400 rounded-lg text-sm">
+                        <button
+                            onClick={() => onRespond(offer.id, 'decline')}
+                            className="py-2 px-3 border border-zinc-600 text-zinc-400 rounded-lg text-sm"
+                        >
                             <X className="w-4 h-4" />
                         </button>
                     </div>
                 )}
+                {offer && isLatest && offer.rounds.length > 1 && (
+                    <div className="mt-3">
+                        <button
+                            onClick={() => setShowHistory(!showHistory)}
+                            className="text-xs text-zinc-500 hover:text-zinc-300"
+                        >
+                            {showHistory ? 'Hide' : 'Show'} negotiation ({offer.rounds.length} rounds)
+                        </button>
+                        {showHistory && (
+                            <ul className="mt-2 space-y-1 text-xs text-zinc-400">
+                                {offer.rounds.map(round => (
+                                    <li key={round.id}>
+                                        <span className="capitalize">{round.role}</span> {ROUND_LABELS[round.action]}
+                                        {round.amount !== undefined && ` $${round.amount}`}
+                                        {round.automatic && ' (automatic)'}
+                                        <span className="text-zinc-600"> · {formatTime(round.createdAt)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                )}
             </div>
         </motion.div>
     );
@@ -3,11 +3,12 @@ import { motion } from 'framer-motion';
 import { Link } from 'react-router-dom';
 import {
     Package, Truck, Check, MapPin,
-    ChevronRight, MessageSquare, HelpCircle
+    ChevronRight, MessageSquare, HelpCircle, ExternalLink
 } from 'lucide-react';
-import { Order } from '../types/marketplace';
-import { getOrders } from '../services/escrow';
-import { getCurrentUser, getListingById, getUserById } from '../services/userVerification';
+import type { Carrier, Order, OrderTracking } from '@tadow/contract';
+import { ShipmentStatus } from '../types/marketplace';
+import { getOrders, getTracking, addTrackingInfo, CARRIERS } from '../services/escrow';
+import { getCurrentUser, getUserById } from '../services/userVerification';
 
 export default function OrdersPage() {
     const [orders, setOrders] = useState<Order[]>([]);
@@ -15,8 +16,10 @@ export default function OrdersPage() {
     const currentUser = getCurrentUser();
 
     useEffect(() => {
-        const allOrders = getOrders();
-        setOrders(allOrders);
+        if (!currentUser) return;
+        getOrders()
+            .then(setOrders)
+            .catch(error => console.error('Failed to load orders:', error));
     }, []);
 
     const filteredOrders = orders.filter(order => {
@@ -63,6 +66,7 @@ export default function OrdersPage() {
                                 key={order.id}
                                 order={order}
                                 currentUserId={currentUser?.id}
+                                onUpdate={updated => setOrders(prev => prev.map(o => o.id === updated.id ? { ...o, ...updated } : o))}
                             />
                         ))}
                     </div>
@@ -72,10 +76,25 @@ export default function OrdersPage() {
     );
 }
 
-function OrderCard({ order, currentUserId }: { order: Order; currentUserId?: string }) {
-    const listing = getListingById(order.listingId);
+const SHIPMENT_LABELS: Record<ShipmentStatus, string> = {
+    label_created: 'Label created',
+    in_transit: 'In transit',
+    out_for_delivery: 'Out for delivery',
+    delivered: 'Delivered',
+    exception: 'Delivery exception',
+    returned: 'Returned to sender',
+};
+
+function OrderCard({ order, currentUserId, onUpdate }: {
+    order: Order;
+    currentUserId?: string;
+    onUpdate: (order: Order) => void;
+}) {
+    const listing = order.listing;
     const isBuyer = order.buyerId === currentUserId;
     const otherUser = getUserById(isBuyer ? order.sellerId : order.buyerId);
+    const [showTracking, setShowTracking] = useState(false);
+    const canShip = !isBuyer && order.status === 'payment_held' && !order.meetup;
 
     const statusConfig = getStatusConfig(order.status);
 
@@ -115,9 +134,20 @@ function OrderCard({ order, currentUserId }: { order: Order; currentUserId?: str
                     <div className="flex items-center gap-4 mt-2">
                         <span className="text-lg font-bold text-amber-400">${order.totalAmount}</span>
                         {order.shipping?.trackingNumber && (
-                            <span className="text-xs text-zinc-500 flex items-center gap-1">
+                            <a
+                                href={order.shipping.trackingUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-zinc-500 hover:text-zinc-300 flex items-center gap-1"
+                            >
                                 <Truck className="w-3 h-3" />
-                                {order.shipping.trackingNumber}
+                                {order.shipping.carrier?.toUpperCase()} {order.shipping.trackingNumber}
+                                {order.shipping.trackingUrl && <ExternalLink className="w-3 h-3" />}
+                            </a>
+                        )}
+                        {order.shipping?.status && (
+                            <span className={`text-xs ${order.shipping.status === 'exception' || order.shipping.status === 'returned' ? 'text-red-400' : 'text-purple-400'}`}>
+                                {SHIPMENT_LABELS[order.shipping.status]}
                             </span>
                         )}
                     </div>
@@ -129,6 +159,9 @@ function OrderCard({ order, currentUserId }: { order: Order; currentUserId?: str
                 <OrderTimeline order={order} />
             </div>
 
+            {canShip && <ShipForm orderId={order.id} onShipped={onUpdate} />}
+            {showTracking && <TrackingEvents orderId={order.id} />}
+
             {/* Actions */}
             <div className="px-4 py-3 bg-zinc-800/30 flex items-center justify-between border-t border-zinc-800">
                 <div className="flex gap-2">
@@ -138,6 +171,14 @@ function OrderCard({ order, currentUserId }: { order: Order; currentUserId?: str
                     >
                         <MessageSquare className="w-3 h-3" /> Message
                     </Link>
+                    {order.shipping?.trackingNumber && (
+                        <button
+                            onClick={() => setShowTracking(!showTracking)}
+                            className="px-3 py-1.5 border border-zinc-700 text-zinc-400 rounded-lg text-sm flex items-center gap-1"
+                        >
+                            <Truck className="w-3 h-3" /> {showTracking ? 'Hide tracking' : 'Tracking'}
+                        </button>
+                    )}
                     <button className="px-3 py-1.5 border border-zinc-700 text-zinc-400 rounded-lg text-sm flex items-center gap-1">
                         <HelpCircle className="w-3 h-3" /> Help
                     </button>
@@ -153,6 +194,98 @@ function OrderCard({ order, currentUserId }: { order: Order; currentUserId?: str
     );
 }
 
+// Seller adds the carrier and tracking number; the API checks the number's format
+function ShipForm({ orderId, onShipped }: { orderId: string; onShipped: (order: Order) => void }) {
+    const [carrier, setCarrier] = useState<Carrier>('usps');
+    const [trackingNumber, setTrackingNumber] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const handleShip = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            onShipped(await addTrackingInfo(orderId, trackingNumber.trim(), carrier));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to mark as shipped');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="px-4 pb-4">
+            <div className="flex gap-2">
+                <select
+                    value={carrier}
+                    onChange={e => setCarrier(e.target.value as Carrier)}
+                    className="p-2 bg-zinc-900 border border-zinc-800 rounded-lg text-white text-sm focus:border-amber-500 focus:outline-none"
+                >
+                    {CARRIERS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                <input
+                    type="text"
+                    value={trackingNumber}
+                    onChange={e => setTrackingNumber(e.target.value)}
+                    placeholder="Tracking number"
+                    className="flex-1 p-2 bg-zinc-900 border border-zinc-800 rounded-lg text-white text-sm focus:border-amber-500 focus:outline-none"
+                />
+                <button
+                    onClick={handleShip}
+                    disabled={!trackingNumber.trim() || saving}
+                    className="px-3 py-2 bg-amber-500 text-zinc-900 rounded-lg text-sm font-medium disabled:opacity-50"
+                >
+                    Mark shipped
+                </button>
+            </div>
+            {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+        </div>
+    );
+}
+
+// Carrier scans, newest first
+function TrackingEvents({ orderId }: { orderId: string }) {
+    const [tracking, setTracking] = useState<OrderTracking | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        getTracking(orderId)
+            .then(setTracking)
+            .catch(err => setError(err instanceof Error ? err.message : 'Failed to load tracking'));
+    }, [orderId]);
+
+    if (error) return <p className="px-4 pb-4 text-red-400 text-xs">{error}</p>;
+    if (!tracking) return <p className="px-4 pb-4 text-zinc-500 text-xs">Loading tracking...</p>;
+
+    return (
+        <div className="px-4 pb-4">
+            {tracking.estimatedDelivery && !tracking.deliveredAt && (
+                <p className="text-zinc-400 text-xs mb-2">
+                    Expected {new Date(tracking.estimatedDelivery).toLocaleDateString()}
+                </p>
+            )}
+            {tracking.events.length === 0 ? (
+                <p className="text-zinc-500 text-xs">No scans from the carrier yet</p>
+            ) : (
+                <ol className="border-l border-zinc-700 ml-1 space-y-2">
+                    {tracking.events.map(event => (
+                        <li key={event.id} className="pl-3 text-xs">
+                            <span className="text-white">{SHIPMENT_LABELS[event.status]}</span>
+                            {event.description && <span className="text-zinc-400"> · {event.description}</span>}
+                            <div className="text-zinc-500">
+                                {new Date(event.occurredAt).toLocaleString()}
+                                {event.location && ` · ${event.location}`}
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+}
+
 function OrderTimeline({ order }: { order: Order }) {
     const steps = [
         { key: 'paid', label: 'Paid', icon: Check },
@@ -1,100 +1,58 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Link } from 'react-router-dom';
 import {
     Search, Bell, Trash2, Plus, X,
-    Filter, Clock
+    Filter, Clock, ExternalLink
 } from 'lucide-react';
+import type { SavedSearch, SavedSearchFilters, DealWithMarketplace } from '@tadow/contract';
+import { api } from '../api';
+import { getAuthToken } from '../config';
 
-interface SavedSearch {
-    id: string;
-    query: string;
-    filters: {
-        category?: string;
-        minPrice?: number;
-        maxPrice?: number;
-        condition?: string;
-    };
-    alertsEnabled: boolean;
-    lastChecked: Date;
-    newResults: number;
-    createdAt: Date;
-}
-
-// Simulated saved searches
-const getSavedSearches = (): SavedSearch[] => {
-    try {
-        const data = localStorage.getItem('tadow_saved_searches');
-        return data ? JSON.parse(data) : DEMO_SAVED_SEARCHES;
-    } catch { return DEMO_SAVED_SEARCHES; }
-};
-
-const saveSavedSearches = (searches: SavedSearch[]) => {
-    localStorage.setItem('tadow_saved_searches', JSON.stringify(searches));
-};
-
-const DEMO_SAVED_SEARCHES: SavedSearch[] = [
-    {
-        id: 'search_1',
-        query: 'MacBook Pro M3',
-        filters: { category: 'Computers & Laptops', maxPrice: 2000 },
-        alertsEnabled: true,
-        lastChecked: new Date(Date.now() - 1000 * 60 * 60),
-        newResults: 3,
-        createdAt: new Date('2026-01-15'),
-    },
-    {
-        id: 'search_2',
-        query: 'iPhone 15 Pro',
-        filters: { category: 'Electronics', condition: 'like_new' },
-        alertsEnabled: true,
-        lastChecked: new Date(Date.now() - 1000 * 60 * 60 * 4),
-        newResults: 0,
-        createdAt: new Date('2026-01-18'),
-    },
-    {
-        id: 'search_3',
-        query: 'Nintendo Switch',
-        filters: { category: 'Gaming', maxPrice: 300 },
-        alertsEnabled: false,
-        lastChecked: new Date(Date.now() - 1000 * 60 * 60 * 24),
-        newResults: 1,
-        createdAt: new Date('2026-01-10'),
-    },
-];
+type NewMatch = DealWithMarketplace & { matchedAt: string };
 
 export default function SavedSearchesPage() {
-    const [searches, setSearches] = useState<SavedSearch[]>(getSavedSearches());
+    const [searches, setSearches] = useState<SavedSearch[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
     const [showAddModal, setShowAddModal] = useState(false);
+    const signedIn = Boolean(getAuthToken());
+
+    // Saved searches live on the server; the saved-search job fills in newResults
+    useEffect(() => {
+        if (!signedIn) {
+            setIsLoading(false);
+            return;
+        }
+        api.savedSearches.list()
+            .then(({ searches }) => setSearches(searches))
+            .catch(() => setError('Could not load saved searches'))
+            .finally(() => setIsLoading(false));
+    }, [signedIn]);
 
-    const toggleAlerts = (id: string) => {
-        const updated = searches.map(s =>
-            s.id === id ? { ...s, alertsEnabled: !s.alertsEnabled } : s
-        );
-        setSearches(updated);
-        saveSavedSearches(updated);
+    const replaceSearch = (updated: SavedSearch) => {
+        setSearches(current => current.map(s => s.id === updated.id ? updated : s));
+    };
+
+    const toggleAlerts = (search: SavedSearch) => {
+        api.savedSearches.update({ params: { id: search.id }, body: { alertsEnabled: !search.alertsEnabled } })
+            .then(replaceSearch)
+            .catch(() => setError('Could not update alerts'));
     };
 
     const deleteSearch = (id: string) => {
-        const updated = searches.filter(s => s.id !== id);
-        setSearches(updated);
-        saveSavedSearches(updated);
+        api.savedSearches.remove({ params: { id } })
+            .then(() => setSearches(current => current.filter(s => s.id !== id)))
+            .catch(() => setError('Could not delete saved search'));
     };
 
-    const addSearch = (query: string, filters: SavedSearch['filters']) => {
-        const newSearch: SavedSearch = {
-            id: `search_${Date.now()}`,
-            query,
-            filters,
-            alertsEnabled: true,
-            lastChecked: new Date(),
-            newResults: 0,
-            createdAt: new Date(),
-        };
-        const updated = [newSearch, ...searches];
-        setSearches(updated);
-        saveSavedSearches(updated);
-        setShowAddModal(false);
+    const addSearch = (query: string, filters: SavedSearchFilters) => {
+        api.savedSearches.create({ body: { query, filters } })
+            .then(created => {
+                setSearches(current => [created, ...current]);
+                setShowAddModal(false);
+            })
+            .catch(() => setError('Could not save search'));
     };
 
     return (
@@ -107,13 +65,26 @@ export default function SavedSearchesPage() {
                     </div>
                     <button
                         onClick={() => setShowAddModal(true)}
-                        className="px-4 py-2 bg-amber-500 text-zinc-900 rounded-lg font-medium flex items-center gap-2 hover:bg-amber-400"
+                        disabled={!signedIn}
+                        className="px-4 py-2 bg-amber-500 text-zinc-900 rounded-lg font-medium flex items-center gap-2 hover:bg-amber-400 disabled:opacity-50"
                     >
                         <Plus className="w-4 h-4" /> New
                     </button>
                 </div>
 
-                {searches.length === 0 ? (
+                {error && (
+                    <p className="mb-4 text-sm text-red-400">{error}</p>
+                )}
+
+                {!signedIn ? (
+                    <div className="text-center py-12">
+                        <Search className="w-12 h-12 text-zinc-700 mx-auto mb-3" />
+                        <p className="text-zinc-400">Sign in to save searches</p>
+                        <p className="text-zinc-500 text-sm mt-1">Saved searches are checked against new deals as they arrive</p>
+                    </div>
+                ) : isLoading ? (
+                    <p className="text-center py-12 text-zinc-500">Loading saved searches...</p>
+                ) : searches.length === 0 ? (
                     <div className="text-center py-12">
                         <Search className="w-12 h-12 text-zinc-700 mx-auto mb-3" />
                         <p className="text-zinc-400">No saved searches yet</p>
@@ -125,8 +96,9 @@ export default function SavedSearchesPage() {
                             <SavedSearchCard
                                 key={search.id}
                                 search={search}
-                                onToggleAlerts={() => toggleAlerts(search.id)}
+                                onToggleAlerts={() => toggleAlerts(search)}
                                 onDelete={() => deleteSearch(search.id)}
+                                onViewed={replaceSearch}
                             />
                         ))}
                     </div>
@@ -149,13 +121,31 @@ export default function SavedSearchesPage() {
 function SavedSearchCard({
     search,
     onToggleAlerts,
-    onDelete
+    onDelete,
+    onViewed
 }: {
     search: SavedSearch;
     onToggleAlerts: () => void;
     onDelete: () => void;
+    onViewed: (search: SavedSearch) => void;
 }) {
-    const filterCount = Object.values(search.filters).filter(Boolean).length;
+    const [matches, setMatches] = useState<NewMatch[] | null>(null);
+    const filterCount = Object.values(search.filters).filter(v => v !== undefined && v !== '').length;
+
+    // Show what's new, then mark it seen so the count resets
+    const showNewMatches = async () => {
+        if (matches) {
+            setMatches(null);
+            return;
+        }
+        try {
+            const { deals } = await api.savedSearches.newMatches({ params: { id: search.id } });
+            setMatches(deals);
+            onViewed(await api.savedSearches.markViewed({ params: { id: search.id } }));
+        } catch (error) {
+            console.error('Failed to load new matches:', error);
+        }
+    };
 
     return (
         <motion.div
@@ -169,17 +159,22 @@ function SavedSearchCard({
                     <Search className="w-5 h-5 text-amber-400" />
                 </div>
                 <div className="flex-1 min-w-0">
-                    <Link
-                        to={`/marketplace?q=${encodeURIComponent(search.query)}`}
-                        className="font-medium text-white hover:text-amber-400 flex items-center gap-2"
-                    >
-                        "{search.query}"
+                    <div className="flex items-center gap-2">
+                        <Link
+                            to={`/marketplace?q=${encodeURIComponent(search.query)}`}
+                            className="font-medium text-white hover:text-amber-400"
+                        >
+                            "{search.query}"
+                        </Link>
                         {search.newResults > 0 && (
-                            <span className="px-1.5 py-0.5 bg-amber-500 text-zinc-900 text-xs font-bold rounded">
+                            <button
+                                onClick={showNewMatches}
+                                className="px-1.5 py-0.5 bg-amber-500 text-zinc-900 text-xs font-bold rounded"
+                            >
                                 {search.newResults} new
-                            </span>
+                            </button>
                         )}
-                    </Link>
+                    </div>
                     <div className="flex items-center gap-3 mt-1 text-sm text-zinc-500">
                         {filterCount > 0 && (
                             <span className="flex items-center gap-1">
@@ -187,7 +182,8 @@ function SavedSearchCard({
                             </span>
                         )}
                         <span className="flex items-center gap-1">
-                            <Clock className="w-3 h-3" /> {formatTimeAgo(search.lastChecked)}
+                            <Clock className="w-3 h-3" />
+                            {search.lastCheckedAt ? `Checked ${formatTimeAgo(search.lastCheckedAt)}` : 'Not checked yet'}
                         </span>
                     </div>
                 </div>
@@ -210,6 +206,27 @@ function SavedSearchCard({
                     </button>
                 </div>
             </div>
+
+            {matches && (
+                <div className="mt-3 pt-3 border-t border-zinc-800 space-y-2">
+                    {matches.length === 0 ? (
+                        <p className="text-sm text-zinc-500">No new matches</p>
+                    ) : matches.map(deal => (
+                        <a
+                            key={deal.id}
+                            href={deal.externalUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-3 text-sm hover:bg-zinc-800/50 rounded-lg p-1"
+                        >
+                            <span className="flex-1 min-w-0 text-zinc-300 truncate">{deal.title}</span>
+                            <span className="text-zinc-500">{deal.marketplace.name}</span>
+                            <span className="text-amber-400 font-medium">${deal.currentPrice.toFixed(2)}</span>
+                            <ExternalLink className="w-3 h-3 text-zinc-500" />
+                        </a>
+                    ))}
+                </div>
+            )}
         </motion.div>
     );
 }
@@ -219,7 +236,7 @@ function AddSearchModal({
     onSave
 }: {
     onClose: () => void;
-    onSave: (query: string, filters: SavedSearch['filters']) => void;
+    onSave: (query: string, filters: SavedSearchFilters) => void;
 }) {
     const [query, setQuery] = useState('');
     const [category, setCategory] = useState('');
@@ -275,9 +292,10 @@ function AddSearchModal({
                         >
                             <option value="">All Categories</option>
                             <option value="Electronics">Electronics</option>
-                            <option value="Computers & Laptops">Computers & Laptops</option>
+                            <option value="Laptops">Laptops</option>
+                            <option value="Phones">Phones</option>
+                            <option value="TVs">TVs</option>
                             <option value="Gaming">Gaming</option>
-                            <option value="Audio & Headphones">Audio & Headphones</option>
                         </select>
                     </div>
                     <div>
@@ -304,7 +322,7 @@ function AddSearchModal({
     );
 }
 
-function formatTimeAgo(date: Date): string {
+function formatTimeAgo(date: string): string {
     const seconds = Math.floor((Date.now() - new Date(date).getTime()) / 1000);
     if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
     if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
@@ -3,27 +3,47 @@ import { motion } from 'framer-motion';
 import { Link } from 'react-router-dom';
 import {
     Plus, Package, DollarSign, Eye, TrendingUp,
-    Star, Clock, ShieldCheck, AlertCircle, BarChart3
+    Star, Clock, ShieldCheck, AlertCircle, BarChart3, Zap
 } from 'lucide-react';
+import type { OfferRule } from '@tadow/contract';
 import {
     getCurrentUser, getUserListings, calculateTrustScore,
-    getVerificationProgress, checkBadgeEligibility, getReviews
+    getVerificationProgress, checkBadgeEligibility
 } from '../services/userVerification';
+import { getOfferRules, saveOfferRule, deleteOfferRule } from '../services/messaging';
 import { VerifiedUser, Listing } from '../types/marketplace';
+import { useUserReviews } from '../hooks/useMarketplace';
 
 export default function SellerDashboard() {
     const [user, setUser] = useState<VerifiedUser | null>(null);
     const [listings, setListings] = useState<Listing[]>([]);
     const [activeTab, setActiveTab] = useState<'overview' | 'listings' | 'orders' | 'analytics'>('overview');
+    const [offerRules, setOfferRules] = useState<Record<string, OfferRule>>({});
 
     useEffect(() => {
         const currentUser = getCurrentUser();
         setUser(currentUser);
         if (currentUser) {
-            setListings(getUserListings(currentUser.id));
+            getUserListings(currentUser.id)
+                .then(setListings)
+                .catch(error => console.error('Failed to load listings:', error));
+            getOfferRules()
+                .then(rules => setOfferRules(Object.fromEntries(rules.map(rule => [rule.listingId, rule]))))
+                .catch(error => console.error('Failed to load offer rules:', error));
         }
     }, []);
 
+    const updateOfferRule = (listingId: string, rule: OfferRule | null) => {
+        setOfferRules(current => {
+            const next = { ...current };
+            if (rule) next[listingId] = rule;
+            else delete next[listingId];
+            return next;
+        });
+    };
+
+    const reviews = useUserReviews(user?.id);
+
     if (!user) {
         return (
             <div className="min-h-screen bg-zinc-950 flex items-center justify-center p-4">
@@ -39,7 +59,7 @@ export default function SellerDashboard() {
         );
     }
 
-    const trustScore = calculateTrustScore(user, getReviews());
+    const trustScore = calculateTrustScore(user, reviews);
     const verification = getVerificationProgress(user);
     const eligibleBadges = checkBadgeEligibility(user);
 
@@ -265,7 +285,16 @@ export default function SellerDashboard() {
                             </div>
                         ) : (
                             listings.map(listing => (
-                                <ListingRow key={listing.id} listing={listing} showActions />
+                                <div key={listing.id}>
+                                    <ListingRow listing={listing} showActions />
+                                    {listing.status === 'active' && (listing.pricingType === 'negotiable' || listing.pricingType === 'free') && (
+                                        <OfferRuleEditor
+                                            listing={listing}
+                                            rule={offerRules[listing.id]}
+                                            onChange={rule => updateOfferRule(listing.id, rule)}
+                                        />
+                                    )}
+                                </div>
                             ))
                         )}
                     </div>
@@ -348,3 +377,99 @@ function ListingRow({ listing, showActions }: { listing: Listing; showActions?:
         </motion.div>
     );
 }
+
+// Offer Rule Editor Component
+function OfferRuleEditor({ listing, rule, onChange }: {
+    listing: Listing;
+    rule?: OfferRule;
+    onChange: (rule: OfferRule | null) => void;
+}) {
+    const [open, setOpen] = useState(false);
+    const [declineBelow, setDeclineBelow] = useState(rule?.declineBelow?.toString() ?? '');
+    const [counterAt, setCounterAt] = useState(rule?.counterAt?.toString() ?? '');
+    const [acceptAtOrAbove, setAcceptAtOrAbove] = useState(rule?.acceptAtOrAbove?.toString() ?? '');
+    const [error, setError] = useState<string | null>(null);
+
+    const toAmount = (value: string) => value.trim() ? Number(value) : null;
+
+    const handleSave = async () => {
+        setError(null);
+        try {
+            onChange(await saveOfferRule(listing.id, {
+                declineBelow: toAmount(declineBelow),
+                counterAt: toAmount(counterAt),
+                acceptAtOrAbove: toAmount(acceptAtOrAbove),
+                enabled: true,
+            }));
+            setOpen(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save offer rule');
+        }
+    };
+
+    const handleRemove = async () => {
+        setError(null);
+        try {
+            await deleteOfferRule(listing.id);
+            onChange(null);
+            setDeclineBelow('');
+            setCounterAt('');
+            setAcceptAtOrAbove('');
+            setOpen(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to remove offer rule');
+        }
+    };
+
+    const fields: { label: string; value: string; set: (value: string) => void }[] = [
+        { label: 'Decline below', value: declineBelow, set: setDeclineBelow },
+        { label: 'Counter at', value: counterAt, set: setCounterAt },
+        { label: 'Accept at or above', value: acceptAtOrAbove, set: setAcceptAtOrAbove },
+    ];
+
+    return (
+        <div className="ml-20 mt-2">
+            <button
+                onClick={() => setOpen(!open)}
+                className="flex items-center gap-1 text-xs text-zinc-500 hover:text-amber-400"
+            >
+                <Zap className="w-3 h-3" />
+                {rule
+                    ? `Auto-answering offers${rule.enabled ? '' : ' (paused)'}`
+                    : 'Answer offers automatically'}
+            </button>
+            {open && (
+                <div className="mt-2 p-3 bg-zinc-900/50 border border-zinc-800 rounded-lg">
+                    <div className="grid grid-cols-3 gap-2">
+                        {fields.map(field => (
+                            <label key={field.label} className="text-xs text-zinc-400">
+                                {field.label}
+                                <input
+                                    type="number"
+                                    value={field.value}
+                                    onChange={e => field.set(e.target.value)}
+                                    placeholder="—"
+                                    className="w-full mt-1 p-2 bg-zinc-800 border border-zinc-700 rounded text-white text-sm focus:border-amber-500 focus:outline-none"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <p className="text-xs text-zinc-500 mt-2">
+                        Listed at ${listing.price}. Buyers never see these amounts. Offers in between wait for you.
+                    </p>
+                    {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+                    <div className="flex gap-2 mt-3">
+                        <button onClick={handleSave} className="px-3 py-1 text-sm bg-amber-500 text-zinc-900 rounded">
+                            Save
+                        </button>
+                        {rule && (
+                            <button onClick={handleRemove} className="px-3 py-1 text-sm border border-zinc-700 text-zinc-400 rounded">
+                                Remove
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
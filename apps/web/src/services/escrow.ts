@@ -1,22 +1,19 @@
 // Tadow Escrow & Transaction Service
 // Secure payment handling with buyer protection
 
-import { Order, OrderStatus, Dispute, DisputeReason, Listing } from '../types/marketplace';
-import { VerifiedUser } from '../types/marketplace';
+import type { Carrier, Dispute, Order, OrderTracking, RateQuote, RouteResponse, contract } from '@tadow/contract';
+import { api } from '../api';
 
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// STORAGE
-// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-
-const ORDERS_KEY = 'tadow_orders';
-const DISPUTES_KEY = 'tadow_disputes';
+// Orders, escrow and disputes live on the server so both parties see them
+type OrderStatus = Order['status'];
+type OrderDetail = RouteResponse<typeof contract.orders.get>;
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // PLATFORM FEES
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 export const PLATFORM_FEE_PERCENT = 5; // 5% platform fee
-export const ESCROW_HOLD_DAYS = 3; // Days to hold funds after delivery
+export const ESCROW_HOLD_DAYS = 3; // Days to hold funds after delivery (enforced by the API)
 
 export function calculateFees(price: number, shippingCost: number = 0): {
     subtotal: number;
@@ -36,103 +33,89 @@ export function calculateFees(price: number, shippingCost: number = 0): {
 // ORDER MANAGEMENT
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-export function getOrders(): Order[] {
+export async function getOrders(role?: 'buyer' | 'seller'): Promise<Order[]> {
+    const { orders } = await api.orders.list({ query: { role } });
+    return orders;
+}
+
+export async function getOrderById(id: string): Promise<OrderDetail | null> {
     try {
-        return JSON.parse(localStorage.getItem(ORDERS_KEY) || '[]');
+        return await api.orders.get({ params: { id } });
     } catch {
-        return [];
+        return null;
     }
 }
 
-export function getOrderById(id: string): Order | null {
-    return getOrders().find(o => o.id === id) || null;
-}
-
-export function getUserOrders(userId: string, type: 'buyer' | 'seller'): Order[] {
-    const orders = getOrders();
-    return type === 'buyer'
-        ? orders.filter(o => o.buyerId === userId)
-        : orders.filter(o => o.sellerId === userId);
-}
-
 export function createOrder(
-    listing: Listing,
-    buyer: VerifiedUser,
-    paymentMethod: string
-): Order {
-    const fees = calculateFees(listing.price, listing.shipping?.cost || 0);
-
-    const order: Order = {
-        id: `order-${Date.now()}`,
-        listingId: listing.id,
-        sellerId: listing.sellerId,
-        buyerId: buyer.id,
-        status: 'payment_held',
-        price: listing.price,
-        shippingCost: listing.shipping?.cost || 0,
-        platformFee: fees.platformFee,
-        totalAmount: fees.total,
-        paymentMethod,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-    };
-
-    const orders = getOrders();
-    orders.push(order);
-    localStorage.setItem(ORDERS_KEY, JSON.stringify(orders));
-
-    return order;
+    listingId: string,
+    paymentMethod: string,
+    meetup?: { location: string; scheduledAt: string }
+): Promise<Order> {
+    return api.orders.create({ body: { listingId, paymentMethod, meetup } });
 }
 
-export function updateOrderStatus(orderId: string, status: OrderStatus, updates?: Partial<Order>): void {
-    const orders = getOrders();
-    const index = orders.findIndex(o => o.id === orderId);
-
-    if (index !== -1) {
-        orders[index] = {
-            ...orders[index],
-            ...updates,
+// The server checks the transition against the order state machine
+export function updateOrderStatus(
+    orderId: string,
+    status: OrderStatus,
+    details?: { trackingNumber?: string; carrier?: Carrier; estimatedDelivery?: Date }
+): Promise<Order> {
+    return api.orders.updateStatus({
+        params: { id: orderId },
+        body: {
             status,
-            updatedAt: new Date(),
-        };
-
-        // Set escrow release date when delivered
-        if (status === 'delivered' && !orders[index].escrowReleaseDate) {
-            const releaseDate = new Date();
-            releaseDate.setDate(releaseDate.getDate() + ESCROW_HOLD_DAYS);
-            orders[index].escrowReleaseDate = releaseDate;
-        }
-
-        localStorage.setItem(ORDERS_KEY, JSON.stringify(orders));
-    }
+            trackingNumber: details?.trackingNumber,
+            carrier: details?.carrier,
+            estimatedDelivery: details?.estimatedDelivery?.toISOString(),
+        },
+    });
 }
 
+// The server checks the tracking number's format for the carrier
 export function addTrackingInfo(
     orderId: string,
     trackingNumber: string,
-    carrier: string,
+    carrier: Carrier,
     estimatedDelivery?: Date
-): void {
-    updateOrderStatus(orderId, 'shipped', {
-        shipping: {
-            trackingNumber,
-            carrier,
-            estimatedDelivery,
-        },
-    });
+): Promise<Order> {
+    return updateOrderStatus(orderId, 'shipped', { trackingNumber, carrier, estimatedDelivery });
 }
 
-export function confirmDelivery(orderId: string): void {
-    updateOrderStatus(orderId, 'delivered', {
-        shipping: {
-            ...getOrderById(orderId)?.shipping,
-            deliveredAt: new Date(),
-        },
-    });
+// Carrier delivery scans do this automatically; this is for the buyer to confirm first
+export function confirmDelivery(orderId: string): Promise<Order> {
+    return updateOrderStatus(orderId, 'delivered');
+}
+
+export function completeOrder(orderId: string): Promise<Order> {
+    return updateOrderStatus(orderId, 'completed');
+}
+
+export function cancelOrder(orderId: string, status: 'cancelled' | 'refunded' = 'cancelled'): Promise<Order> {
+    return updateOrderStatus(orderId, status);
+}
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SHIPPING & TRACKING
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const CARRIERS: { value: Carrier; label: string }[] = [
+    { value: 'usps', label: 'USPS' },
+    { value: 'ups', label: 'UPS' },
+    { value: 'fedex', label: 'FedEx' },
+    { value: 'dhl', label: 'DHL' },
+];
+
+// Carrier scans arrive through the API's carrier webhook
+export function getTracking(orderId: string): Promise<OrderTracking> {
+    return api.orders.tracking({ params: { id: orderId } });
 }
 
-export function completeOrder(orderId: string): void {
-    updateOrderStatus(orderId, 'completed');
+export function getShippingRates(
+    weightLbs: number,
+    fromZip?: string,
+    toZip?: string
+): Promise<{ zone: number; distanceMiles?: number; quotes: RateQuote[] }> {
+    return api.shipping.rates({ query: { weightLbs, fromZip, toZip } });
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -199,67 +182,22 @@ export function getEscrowStatus(order: Order): EscrowStatus {
 // DISPUTE HANDLING
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-export function getDisputes(): Dispute[] {
-    try {
-        return JSON.parse(localStorage.getItem(DISPUTES_KEY) || '[]');
-    } catch {
-        return [];
-    }
-}
-
 export function createDispute(
     orderId: string,
-    initiatorId: string,
-    reason: DisputeReason,
+    reason: Dispute['reason'],
     description: string,
     evidence: string[] = []
-): Dispute {
-    const dispute: Dispute = {
-        id: `dispute-${Date.now()}`,
-        orderId,
-        initiatorId,
-        reason,
-        description,
-        evidence,
-        status: 'open',
-        createdAt: new Date(),
-    };
-
-    const disputes = getDisputes();
-    disputes.push(dispute);
-    localStorage.setItem(DISPUTES_KEY, JSON.stringify(disputes));
-
-    // Update order status
-    updateOrderStatus(orderId, 'disputed');
-
-    return dispute;
+): Promise<Dispute> {
+    return api.orders.openDispute({ params: { id: orderId }, body: { reason, description, evidence } });
 }
 
+// Support only; the API requires a moderator or admin session
 export function resolveDispute(
     disputeId: string,
-    outcome: 'refund_full' | 'refund_partial' | 'no_refund' | 'return_required',
+    outcome: NonNullable<Dispute['outcome']>,
     amount?: number
-): void {
-    const disputes = getDisputes();
-    const index = disputes.findIndex(d => d.id === disputeId);
-
-    if (index !== -1) {
-        disputes[index] = {
-            ...disputes[index],
-            status: 'resolved',
-            resolution: {
-                outcome,
-                amount,
-                resolvedBy: 'support',
-                resolvedAt: new Date(),
-            },
-        };
-        localStorage.setItem(DISPUTES_KEY, JSON.stringify(disputes));
-
-        // Update order based on outcome
-        const orderStatus: OrderStatus = outcome === 'refund_full' ? 'refunded' : 'completed';
-        updateOrderStatus(disputes[index].orderId, orderStatus);
-    }
+): Promise<Dispute> {
+    return api.orders.resolveDispute({ params: { disputeId }, body: { outcome, amount } });
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
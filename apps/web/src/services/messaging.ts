@@ -2,295 +2,164 @@
 // Real-time chat and offer management between buyers and sellers
 
 import { Conversation, Message, Offer } from '../types/marketplace';
+import { apiConfig, apiFetch, getAuthToken } from '../config';
+import type { OfferRule } from '@tadow/contract';
+import { api } from '../api';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// STORAGE
+// API
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-const CONVERSATIONS_KEY = 'tadow_conversations';
-const MESSAGES_KEY = 'tadow_messages';
-const OFFERS_KEY = 'tadow_offers';
+// Conversations and offers live on the server; updates arrive over SSE
+const MESSAGES_URL = `${apiConfig.baseUrl}/api/messages`;
+const OFFERS_URL = `${apiConfig.baseUrl}/api/offers`;
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // CONVERSATIONS
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-export function getConversations(): Conversation[] {
-    try {
-        return JSON.parse(localStorage.getItem(CONVERSATIONS_KEY) || '[]');
-    } catch {
-        return [];
-    }
+export async function getConversations(): Promise<Conversation[]> {
+    const { conversations } = await apiFetch<{ conversations: Conversation[] }>(`${MESSAGES_URL}/conversations`);
+    return conversations;
 }
 
-export function getUserConversations(userId: string): Conversation[] {
-    return getConversations().filter(c => c.participants.includes(userId));
-}
-
-export function getConversationById(id: string): Conversation | null {
-    return getConversations().find(c => c.id === id) || null;
-}
-
-export function getOrCreateConversation(
-    participant1: string,
-    participant2: string,
-    listingId?: string
-): Conversation {
-    const conversations = getConversations();
-
-    // Check for existing conversation about this listing
-    const existing = conversations.find(c =>
-        c.participants.includes(participant1) &&
-        c.participants.includes(participant2) &&
-        c.listingId === listingId
-    );
-
-    if (existing) return existing;
-
-    // Create new conversation
-    const conversation: Conversation = {
-        id: `conv-${Date.now()}`,
-        listingId,
-        participants: [participant1, participant2],
-        unreadCount: {
-            [participant1]: 0,
-            [participant2]: 0,
-        },
-        createdAt: new Date(),
-        updatedAt: new Date(),
-    };
-
-    conversations.push(conversation);
-    localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(conversations));
-
-    return conversation;
+export function getOrCreateConversation(participantId: string, listingId?: string): Promise<Conversation> {
+    return apiFetch<Conversation>(`${MESSAGES_URL}/conversations`, {
+        method: 'POST',
+        body: JSON.stringify({ participantId, listingId }),
+    });
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // MESSAGES
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-export function getMessages(): Message[] {
-    try {
-        return JSON.parse(localStorage.getItem(MESSAGES_KEY) || '[]');
-    } catch {
-        return [];
-    }
-}
-
-export function getConversationMessages(conversationId: string): Message[] {
-    return getMessages()
-        .filter(m => m.conversationId === conversationId)
-        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+export async function getConversationMessages(conversationId: string, before?: Date): Promise<Message[]> {
+    const query = before ? `?before=${encodeURIComponent(new Date(before).toISOString())}` : '';
+    const { messages } = await apiFetch<{ messages: Message[] }>(
+        `${MESSAGES_URL}/conversations/${conversationId}/messages${query}`
+    );
+    return messages;
 }
 
 export function sendMessage(
     conversationId: string,
-    senderId: string,
     content: string,
-    type: Message['type'] = 'text',
-    offerId?: string
-): Message {
-    const messages = getMessages();
-    const conversations = getConversations();
-
-    const message: Message = {
-        id: `msg-${Date.now()}`,
-        conversationId,
-        senderId,
-        content,
-        type,
-        offerId,
-        read: false,
-        createdAt: new Date(),
-    };
-
-    messages.push(message);
-    localStorage.setItem(MESSAGES_KEY, JSON.stringify(messages));
-
-    // Update conversation
-    const convIndex = conversations.findIndex(c => c.id === conversationId);
-    if (convIndex !== -1) {
-        const conv = conversations[convIndex];
-        conv.lastMessage = message;
-        conv.updatedAt = new Date();
-
-        // Increment unread for other participants
-        conv.participants.forEach(p => {
-            if (p !== senderId) {
-                conv.unreadCount[p] = (conv.unreadCount[p] || 0) + 1;
-            }
-        });
-
-        localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(conversations));
-    }
-
-    return message;
-}
-
-export function markConversationRead(conversationId: string, userId: string): void {
-    const conversations = getConversations();
-    const messages = getMessages();
-
-    // Mark conversation unread count
-    const convIndex = conversations.findIndex(c => c.id === conversationId);
-    if (convIndex !== -1) {
-        conversations[convIndex].unreadCount[userId] = 0;
-        localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(conversations));
-    }
-
-    // Mark all messages as read
-    let updated = false;
-    messages.forEach(m => {
-        if (m.conversationId === conversationId && m.senderId !== userId && !m.read) {
-            m.read = true;
-            updated = true;
-        }
+    type: 'text' | 'image' = 'text'
+): Promise<Message> {
+    return apiFetch<Message>(`${MESSAGES_URL}/conversations/${conversationId}/messages`, {
+        method: 'POST',
+        body: JSON.stringify({ content, type }),
     });
+}
 
-    if (updated) {
-        localStorage.setItem(MESSAGES_KEY, JSON.stringify(messages));
-    }
+export async function markConversationRead(conversationId: string): Promise<void> {
+    await apiFetch(`${MESSAGES_URL}/conversations/${conversationId}/read`, { method: 'POST' });
 }
 
-export function getTotalUnreadCount(userId: string): number {
-    return getUserConversations(userId).reduce((sum, c) => sum + (c.unreadCount[userId] || 0), 0);
+export async function getTotalUnreadCount(): Promise<number> {
+    const { unread } = await apiFetch<{ unread: number }>(`${MESSAGES_URL}/unread`);
+    return unread;
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // OFFERS
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-export function getOffers(): Offer[] {
-    try {
-        return JSON.parse(localStorage.getItem(OFFERS_KEY) || '[]');
-    } catch {
-        return [];
-    }
-}
+export async function getUserOffers(
+    type?: 'sent' | 'received',
+    filters: { listingId?: string; status?: Offer['status'] } = {}
+): Promise<Offer[]> {
+    const params = new URLSearchParams();
+    if (type) params.set('type', type);
+    if (filters.listingId) params.set('listingId', filters.listingId);
+    if (filters.status) params.set('status', filters.status);
 
-export function getOfferById(id: string): Offer | null {
-    return getOffers().find(o => o.id === id) || null;
+    const query = params.toString();
+    const { offers } = await apiFetch<{ offers: Offer[] }>(`${OFFERS_URL}${query ? `?${query}` : ''}`);
+    return offers;
 }
 
-export function getListingOffers(listingId: string): Offer[] {
-    return getOffers().filter(o => o.listingId === listingId);
-}
-
-export function getUserOffers(userId: string, type: 'sent' | 'received'): Offer[] {
-    return getOffers().filter(o =>
-        type === 'sent' ? o.buyerId === userId : o.sellerId === userId
-    );
+export function getListingOffers(listingId: string): Promise<Offer[]> {
+    return getUserOffers(undefined, { listingId });
 }
 
+// The offer is posted into the buyer/seller conversation for the listing;
+// bundleListingIds adds more of the same seller's listings to it
 export function createOffer(
     listingId: string,
-    buyerId: string,
-    sellerId: string,
     amount: number,
     message?: string,
-    conversationId?: string
-): Offer {
-    const offers = getOffers();
-
-    // Expire time: 24 hours
-    const expiresAt = new Date();
-    expiresAt.setHours(expiresAt.getHours() + 24);
-
-    const offer: Offer = {
-        id: `offer-${Date.now()}`,
-        listingId,
-        buyerId,
-        sellerId,
-        amount,
-        message,
-        status: 'pending',
-        expiresAt,
-        createdAt: new Date(),
-    };
-
-    offers.push(offer);
-    localStorage.setItem(OFFERS_KEY, JSON.stringify(offers));
-
-    // Send system message to conversation
-    if (conversationId) {
-        sendMessage(
-            conversationId,
-            buyerId,
-            `Made an offer: $${amount}`,
-            'offer',
-            offer.id
-        );
-    }
-
-    return offer;
+    bundleListingIds: string[] = []
+): Promise<Offer> {
+    return apiFetch<Offer>(OFFERS_URL, {
+        method: 'POST',
+        body: JSON.stringify({ listingId, amount, message, bundleListingIds }),
+    });
 }
 
+// Either side answers when it's their turn; accepting places the orders
 export function respondToOffer(
     offerId: string,
     response: 'accept' | 'decline' | 'counter',
-    counterAmount?: number,
-    conversationId?: string
-): void {
-    const offers = getOffers();
-    const index = offers.findIndex(o => o.id === offerId);
-
-    if (index !== -1) {
-        const offer = offers[index];
-
-        if (response === 'accept') {
-            offer.status = 'accepted';
-        } else if (response === 'decline') {
-            offer.status = 'declined';
-        } else if (response === 'counter' && counterAmount) {
-            offer.status = 'countered';
-            offer.counterAmount = counterAmount;
-        }
-
-        offer.respondedAt = new Date();
-        localStorage.setItem(OFFERS_KEY, JSON.stringify(offers));
+    counterAmount?: number
+): Promise<Offer> {
+    return apiFetch<Offer>(`${OFFERS_URL}/${offerId}/respond`, {
+        method: 'POST',
+        body: JSON.stringify({ response, counterAmount }),
+    });
+}
 
-        // Send system message
-        if (conversationId) {
-            const statusMsg = response === 'accept'
-                ? `Offer accepted! 🎉`
-                : response === 'decline'
-                    ? 'Offer declined'
-                    : `Counter offer: $${counterAmount}`;
+export function withdrawOffer(offerId: string): Promise<Offer> {
+    return apiFetch<Offer>(`${OFFERS_URL}/${offerId}/withdraw`, { method: 'POST' });
+}
 
-            sendMessage(conversationId, offer.sellerId, statusMsg, 'system', offerId);
-        }
-    }
+// Seller's automatic answers to offers, one rule per listing
+export async function getOfferRules(): Promise<OfferRule[]> {
+    const { rules } = await api.offers.rules();
+    return rules;
 }
 
-export function withdrawOffer(offerId: string): void {
-    const offers = getOffers();
-    const index = offers.findIndex(o => o.id === offerId);
+export function saveOfferRule(
+    listingId: string,
+    rule: { declineBelow?: number | null; acceptAtOrAbove?: number | null; counterAt?: number | null; enabled?: boolean }
+): Promise<OfferRule> {
+    return api.offers.setRule({ params: { listingId }, body: rule });
+}
 
-    if (index !== -1) {
-        offers[index].status = 'withdrawn';
-        localStorage.setItem(OFFERS_KEY, JSON.stringify(offers));
-    }
+export async function deleteOfferRule(listingId: string): Promise<void> {
+    await api.offers.removeRule({ params: { listingId } });
 }
 
-// Check and expire old offers
-export function expireOldOffers(): number {
-    const offers = getOffers();
-    const now = new Date();
-    let expiredCount = 0;
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// LIVE UPDATES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-    offers.forEach(offer => {
-        if (offer.status === 'pending' && new Date(offer.expiresAt) < now) {
-            offer.status = 'expired';
-            expiredCount++;
+export type MessagingEvent =
+    | { type: 'message'; conversationId: string; message: Message }
+    | { type: 'read'; conversationId: string; userId: string; readAt: string }
+    | { type: 'offer'; offer: Offer };
+
+/**
+ * Open the server's event stream for the signed-in user.
+ * Returns a cleanup function that closes the connection.
+ */
+export function subscribeToMessages(handler: (event: MessagingEvent) => void): () => void {
+    const token = getAuthToken();
+    if (!token || typeof EventSource === 'undefined') return () => { };
+
+    // EventSource can't send headers, so the client puts the token in the query string
+    const source = new EventSource(api.messages.stream());
+    const listener = (e: MessageEvent) => {
+        try {
+            handler(JSON.parse(e.data));
+        } catch (error) {
+            console.error('Bad messaging event:', error);
         }
-    });
-
-    if (expiredCount > 0) {
-        localStorage.setItem(OFFERS_KEY, JSON.stringify(offers));
-    }
+    };
 
-    return expiredCount;
+    ['message', 'read', 'offer'].forEach(type => source.addEventListener(type, listener));
+    return () => source.close();
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
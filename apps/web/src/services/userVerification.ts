@@ -1,7 +1,8 @@
 // Tadow AI User Verification Service
 // Identity verification, trust scoring, and fraud detection
 
-import { VerifiedUser, VerificationLevel, UserBadge, Listing, Review } from '../types/marketplace';
+import { VerifiedUser, VerificationLevel, UserBadge, Listing, Bid, Review } from '../types/marketplace';
+import { apiConfig, apiFetch } from '../config';
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // STORAGE KEYS
@@ -9,8 +10,11 @@ import { VerifiedUser, VerificationLevel, UserBadge, Listing, Review } from '../
 
 const USERS_KEY = 'tadow_users';
 const CURRENT_USER_KEY = 'tadow_current_user';
-const LISTINGS_KEY = 'tadow_listings';
-const REVIEWS_KEY = 'tadow_reviews';
+const SESSION_KEY = 'tadow_user';
+
+const LISTINGS_URL = `${apiConfig.baseUrl}/api/listings`;
+const REVIEWS_URL = `${apiConfig.baseUrl}/api/reviews`;
+const LOCAL_URL = `${apiConfig.baseUrl}/api/local`;
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // USER MANAGEMENT
@@ -18,8 +22,19 @@ const REVIEWS_KEY = 'tadow_reviews';
 
 export function getCurrentUser(): VerifiedUser | null {
     try {
+        const session = localStorage.getItem(SESSION_KEY);
         const data = localStorage.getItem(CURRENT_USER_KEY);
-        return data ? JSON.parse(data) : null;
+        const profile: VerifiedUser | null = data ? JSON.parse(data) : null;
+        if (!session) return profile;
+
+        // The signed-in account's id is what the API knows the user by
+        const account = JSON.parse(session);
+        if (!account.id) return profile;
+        if (profile?.id === account.id) return profile;
+        return getUserById(account.id) || {
+            ...createProfile(account.email || '', account.name || 'Tadow user'),
+            id: account.id,
+        };
     } catch {
         return null;
     }
@@ -52,7 +67,13 @@ export function getUserById(id: string): VerifiedUser | null {
 }
 
 export function createUser(email: string, displayName: string): VerifiedUser {
-    const user: VerifiedUser = {
+    const user = createProfile(email, displayName);
+    setCurrentUser(user);
+    return user;
+}
+
+function createProfile(email: string, displayName: string): VerifiedUser {
+    return {
         id: `user-${Date.now()}`,
         email,
         displayName,
@@ -71,9 +92,6 @@ export function createUser(email: string, displayName: string): VerifiedUser {
             completionRate: 100,
         },
     };
-
-    setCurrentUser(user);
-    return user;
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -332,61 +350,102 @@ export function checkBadgeEligibility(user: VerifiedUser): UserBadge[] {
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// LISTINGS STORAGE
+// LISTINGS
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-export function getListings(): Listing[] {
-    try {
-        return JSON.parse(localStorage.getItem(LISTINGS_KEY) || '[]');
-    } catch {
-        return [];
-    }
+export async function getListings(filters: {
+    category?: string;
+    sellerId?: string;
+    q?: string;
+    limit?: number;
+} = {}): Promise<Listing[]> {
+    const params = new URLSearchParams({ limit: '100' });
+    Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined) params.set(key, String(value));
+    });
+    const { listings } = await apiFetch<{ listings: Listing[] }>(`${LISTINGS_URL}?${params}`);
+    return listings;
+}
+
+// Active listings within radiusMiles of a point, nearest first
+export async function getNearbyListings(
+    center: { lat: number; lng: number },
+    radiusMiles: number,
+    filters: { category?: string; q?: string; sort?: 'distance' | 'price-low' | 'price-high' | 'recent' } = {}
+): Promise<Listing[]> {
+    const params = new URLSearchParams({
+        lat: String(center.lat),
+        lng: String(center.lng),
+        radiusMiles: String(radiusMiles),
+        type: 'listings',
+        limit: '100',
+    });
+    Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined) params.set(key, String(value));
+    });
+    const { listings } = await apiFetch<{ listings: Listing[] }>(`${LOCAL_URL}?${params}`);
+    return listings;
 }
 
-export function saveListing(listing: Listing): void {
-    const listings = getListings();
-    const index = listings.findIndex(l => l.id === listing.id);
+export async function saveListing(listing: Partial<Listing>): Promise<Listing> {
+    return listing.id
+        ? apiFetch<Listing>(`${LISTINGS_URL}/${listing.id}`, { method: 'PUT', body: JSON.stringify(listing) })
+        : apiFetch<Listing>(LISTINGS_URL, { method: 'POST', body: JSON.stringify(listing) });
+}
 
-    if (index >= 0) {
-        listings[index] = listing;
-    } else {
-        listings.push(listing);
+export async function getListingById(id: string): Promise<Listing | null> {
+    try {
+        return await apiFetch<Listing>(`${LISTINGS_URL}/${id}`);
+    } catch {
+        return null;
     }
+}
 
-    localStorage.setItem(LISTINGS_KEY, JSON.stringify(listings));
+// Bid history, newest first, with the signed-in user's own maximum
+export function getBids(listingId: string): Promise<{ bids: Bid[]; yourMaxBid?: number }> {
+    return apiFetch(`${LISTINGS_URL}/${listingId}/bids`);
 }
 
-export function getListingById(id: string): Listing | null {
-    return getListings().find(l => l.id === id) || null;
+// Bid up to maxAmount; the price only rises as far as competing bids need
+export function placeBid(
+    listingId: string,
+    maxAmount: number,
+    paymentMethod: string
+): Promise<{ listing: Listing; leading: boolean; yourMaxBid: number }> {
+    return apiFetch(`${LISTINGS_URL}/${listingId}/bids`, {
+        method: 'POST',
+        body: JSON.stringify({ maxAmount, paymentMethod }),
+    });
 }
 
-export function getUserListings(userId: string): Listing[] {
-    return getListings().filter(l => l.sellerId === userId);
+export function getUserListings(userId: string): Promise<Listing[]> {
+    return getListings({ sellerId: userId });
 }
 
-export function deleteListing(id: string): void {
-    const listings = getListings().filter(l => l.id !== id);
-    localStorage.setItem(LISTINGS_KEY, JSON.stringify(listings));
+export async function deleteListing(id: string): Promise<void> {
+    await apiFetch(`${LISTINGS_URL}/${id}`, { method: 'DELETE' });
 }
 
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
-// REVIEWS STORAGE
+// REVIEWS
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-export function getReviews(): Review[] {
+// Reviews are written against a completed order
+export function saveReview(
+    orderId: string,
+    review: Pick<Review, 'rating' | 'title' | 'comment' | 'images' | 'aspects'>
+): Promise<Review> {
+    return apiFetch<Review>(`${apiConfig.baseUrl}/api/orders/${orderId}/reviews`, {
+        method: 'POST',
+        body: JSON.stringify(review),
+    });
+}
+
+export async function getUserReviews(userId: string): Promise<Review[]> {
     try {
-        return JSON.parse(localStorage.getItem(REVIEWS_KEY) || '[]');
+        const { reviews } = await apiFetch<{ reviews: Review[] }>(`${REVIEWS_URL}/users/${userId}`);
+        return reviews;
     } catch {
         return [];
     }
 }
-
-export function saveReview(review: Review): void {
-    const reviews = getReviews();
-    reviews.push(review);
-    localStorage.setItem(REVIEWS_KEY, JSON.stringify(reviews));
-}
-
-export function getUserReviews(userId: string): Review[] {
-    return getReviews().filter(r => r.revieweeId === userId);
-}
@@ -82,6 +82,13 @@ export interface Listing {
         estimatedDays?: number;
         localPickupOnly?: boolean;
     };
+    location?: {
+        city?: string;
+        state?: string;
+        zipCode?: string;
+    };
+    distanceMiles?: number; // Set by radius search
+    auction?: ListingAuction; // Auction listings only; price is the starting bid
     quantity: number;
     brand?: string;
     model?: string;
@@ -105,6 +112,28 @@ export interface Listing {
     favorites?: number; // Alias for saves
 }
 
+// Public bidding state; the reserve amount and other bidders' maximums stay hidden
+export interface ListingAuction {
+    endsAt: Date; // Pushed back when bids arrive in the final minutes
+    ended: boolean;
+    startingBid: number;
+    currentBid?: number;
+    minimumBid: number;
+    bidCount: number;
+    highBidderId?: string;
+    hasReserve: boolean;
+    reserveMet: boolean;
+}
+
+export interface Bid {
+    id: string;
+    listingId: string;
+    bidderId: string;
+    amount: number;
+    isAutomatic: boolean; // Placed by a bidder's maximum rather than by hand
+    createdAt: Date;
+}
+
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 // TRANSACTIONS & ORDERS
 // ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
@@ -119,6 +148,14 @@ export type OrderStatus =
     | 'refunded'
     | 'cancelled';
 
+export type ShipmentStatus =
+    | 'label_created'
+    | 'in_transit'
+    | 'out_for_delivery'
+    | 'delivered'
+    | 'exception'
+    | 'returned';
+
 export interface Order {
     id: string;
     listingId: string;
@@ -134,6 +171,8 @@ export interface Order {
     shipping?: {
         trackingNumber?: string;
         carrier?: string;
+        trackingUrl?: string;
+        status?: ShipmentStatus; // Latest carrier scan
         estimatedDelivery?: Date;
         deliveredAt?: Date;
     };
@@ -142,6 +181,8 @@ export interface Order {
         scheduledAt: Date;
         confirmed: boolean;
     };
+    offerId?: string; // Set when the order came from an accepted offer
+    listing?: Listing; // Included by the orders API
     createdAt: Date;
     updatedAt: Date;
 }
@@ -152,15 +193,32 @@ export interface Order {
 
 export type OfferStatus = 'pending' | 'accepted' | 'declined' | 'countered' | 'expired' | 'withdrawn';
 
+export interface OfferRound {
+    id: string;
+    role: 'buyer' | 'seller' | 'system';
+    action: 'offer' | 'counter' | 'accept' | 'decline' | 'withdraw' | 'expire';
+    amount?: number;
+    message?: string;
+    automatic: boolean; // Answered by the seller's offer rule
+    createdAt: Date;
+}
+
 export interface Offer {
     id: string;
-    listingId: string;
+    listingId: string; // First listing of a bundle
+    listingIds: string[];
     buyerId: string;
     sellerId: string;
-    amount: number;
+    conversationId?: string;
+    amount: number; // Buyer's latest offer
     message?: string;
     status: OfferStatus;
-    counterAmount?: number;
+    counterAmount?: number; // Seller's latest counter
+    agreedAmount?: number;
+    paymentMethod: string;
+    awaiting?: 'buyer' | 'seller'; // Whose move it is while the offer is open
+    rounds: OfferRound[];
+    orderIds: string[]; // Orders placed when the offer was accepted
     expiresAt: Date;
     createdAt: Date;
     respondedAt?: Date;
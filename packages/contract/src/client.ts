@@ -0,0 +1,119 @@
+/**
+ * Typed API Client
+ * Generated from the contract at runtime: every route becomes a method
+ * taking its params, query and body and resolving to its response type.
+ * Stream routes give the URL to open an EventSource on instead.
+ */
+
+import {
+    buildPath,
+    type ErrorResponse,
+    type RouteDefinition,
+    type RouteRequest,
+    type RouteResponse,
+    type ValidationIssue,
+} from './route';
+
+export interface ClientOptions {
+    baseUrl?: string;                           // Prepended to route paths; '' for same origin
+    getToken?: () => string | null | undefined; // Session token sent as a Bearer header
+    fetch?: typeof fetch;
+    headers?: Record<string, string>;
+}
+
+/**
+ * A non-2xx response, with the server's message and any validation issues
+ */
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        public status: number,
+        public issues: ValidationIssue[] = []
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+type RouteGroups = Record<string, Record<string, RouteDefinition>>;
+
+type Request<R extends RouteDefinition> = RouteRequest<R> & { signal?: AbortSignal };
+
+type Caller<R extends RouteDefinition> = R['stream'] extends true
+    ? {} extends RouteRequest<R> ? (request?: RouteRequest<R>) => string : (request: RouteRequest<R>) => string
+    : {} extends RouteRequest<R>
+        ? (request?: Request<R>) => Promise<RouteResponse<R>>
+        : (request: Request<R>) => Promise<RouteResponse<R>>;
+
+export type ApiClient<C extends RouteGroups> = {
+    [G in keyof C]: { [N in keyof C[G]]: Caller<C[G][N]> };
+};
+
+interface RawRequest {
+    params?: Record<string, string | number>;
+    query?: Record<string, unknown>;
+    body?: unknown;
+    signal?: AbortSignal;
+}
+
+// Arrays go out comma-separated, matching query.list() on the server
+function queryString(query: Record<string, unknown> = {}): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value === undefined || value === null) continue;
+        if (Array.isArray(value)) {
+            if (value.length > 0) params.set(key, value.join(','));
+        } else {
+            params.set(key, value instanceof Date ? value.toISOString() : String(value));
+        }
+    }
+    const text = params.toString();
+    return text ? `?${text}` : '';
+}
+
+export function createClient<C extends RouteGroups>(contract: C, options: ClientOptions = {}): ApiClient<C> {
+    const baseUrl = options.baseUrl || '';
+
+    const url = (definition: RouteDefinition, request: RawRequest, token?: string | null) => {
+        const query = token ? { ...request.query, access_token: token } : request.query;
+        return `${baseUrl}${buildPath(definition.path, request.params)}${queryString(query)}`;
+    };
+
+    const call = async (definition: RouteDefinition, request: RawRequest = {}) => {
+        const token = options.getToken?.();
+        const response = await (options.fetch || fetch)(url(definition, request), {
+            method: definition.method,
+            headers: {
+                ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+                ...(token ? { Authorization: `Bearer ${token}` } : {}),
+                ...options.headers,
+            },
+            body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+            signal: request.signal,
+        });
+
+        const body = await response.json().catch(() => null);
+        if (!response.ok) {
+            const error = body as ErrorResponse | null;
+            throw new ApiError(error?.error || `API error: ${response.status}`, response.status, error?.issues || []);
+        }
+        return body;
+    };
+
+    // EventSource cannot set headers, so signed-in streams carry the token in the query
+    const streamUrl = (definition: RouteDefinition, request: RawRequest = {}) => {
+        const token = definition.auth && definition.auth !== 'public' ? options.getToken?.() : null;
+        return url(definition, request, token);
+    };
+
+    const client: Record<string, Record<string, unknown>> = {};
+    for (const [group, routes] of Object.entries(contract)) {
+        client[group] = {};
+        for (const [name, definition] of Object.entries(routes)) {
+            client[group][name] = definition.stream
+                ? (request?: RawRequest) => streamUrl(definition, request)
+                : (request?: RawRequest) => call(definition, request);
+        }
+    }
+    return client as ApiClient<C>;
+}
@@ -0,0 +1,48 @@
+/**
+ * API Contract
+ * Every route the API serves, grouped the way apps/api/src/routes is
+ */
+
+import { system } from './routes/system';
+import { auth } from './routes/auth';
+import { products } from './routes/products';
+import { recommendations } from './routes/recommendations';
+import { prices } from './routes/prices';
+import { deals } from './routes/deals';
+import { marketplaces } from './routes/marketplaces';
+import { categories } from './routes/categories';
+import { aggregation } from './routes/aggregation';
+import { agent } from './routes/agent';
+import { alerts } from './routes/alerts';
+import { listings } from './routes/listings';
+import { orders } from './routes/orders';
+import { reviews } from './routes/reviews';
+import { messages } from './routes/messages';
+import { offers } from './routes/offers';
+import { local } from './routes/local';
+import { savedSearches } from './routes/savedSearches';
+import { shipping } from './routes/shipping';
+
+export const contract = {
+    system,
+    auth,
+    products,
+    recommendations,
+    prices,
+    deals,
+    marketplaces,
+    categories,
+    aggregation,
+    agent,
+    alerts,
+    listings,
+    orders,
+    reviews,
+    messages,
+    offers,
+    local,
+    savedSearches,
+    shipping,
+};
+
+export type Contract = typeof contract;
@@ -0,0 +1,17 @@
+/**
+ * API Contract Package
+ *
+ * Request and response schemas for every API route, shared by the API
+ * (request validation and the OpenAPI document) and the web app (typed
+ * client).
+ */
+
+export * from './schema';
+export * from './route';
+export * from './models';
+export * from './client';
+export * from './openapi';
+export { contract, type Contract } from './contract';
+export { searchSort, dealStreamEvent } from './routes/deals';
+export { messagingEvent } from './routes/messages';
+export { listingInput } from './routes/listings';
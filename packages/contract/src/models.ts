@@ -0,0 +1,546 @@
+/**
+ * Shared Models
+ * Response shapes for the resources several routes return. Dates are ISO
+ * strings, as they arrive over JSON.
+ */
+
+import { z } from 'zod';
+import { datetime } from './schema';
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// DEALS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const marketplace = z.object({
+    id: z.string(),
+    name: z.string(),
+    type: z.string(),
+    logoUrl: z.string().nullable(),
+    baseUrl: z.string(),
+    color: z.string().nullable(),
+});
+
+// A deal stored in the catalog
+export const deal = z.object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().nullable(),
+    imageUrl: z.string().nullable(),
+    originalPrice: z.number().nullable(),
+    currentPrice: z.number(),
+    currency: z.string(),
+    discountPercent: z.number().nullable(),
+    marketplaceId: z.string(),
+    externalUrl: z.string(),
+    city: z.string().nullable(),
+    state: z.string().nullable(),
+    zipCode: z.string().nullable(),
+    latitude: z.number().nullable(),
+    longitude: z.number().nullable(),
+    condition: z.string(),
+    category: z.string(),
+    brand: z.string().nullable(),
+    model: z.string().nullable(),
+    productId: z.string().nullable(),
+    dealScore: z.number().nullable(),
+    aiVerdict: z.string().nullable(),
+    isFeatured: z.boolean(),
+    isHot: z.boolean(),
+    isAllTimeLow: z.boolean(),
+    allTimeLowPrice: z.number().nullable(),
+    pricePrediction: z.string().nullable(),
+    sellerName: z.string().nullable(),
+    sellerRating: z.number().nullable(),
+    views: z.number(),
+    saves: z.number(),
+    inStock: z.boolean(),
+    isExpired: z.boolean(),
+    postedAt: datetime().nullable(),
+    expiresAt: datetime().nullable(),
+    createdAt: datetime(),
+    updatedAt: datetime(),
+});
+
+export const dealWithMarketplace = deal.extend({
+    marketplace,
+});
+
+export const dealScore = z.object({
+    overall: z.number(),
+    verdict: z.string(),
+    recommendation: z.enum(['buy_now', 'wait', 'skip']),
+    breakdown: z.record(z.string(), z.number()),
+    reasons: z.array(z.string()),
+});
+
+// A deal fetched live from a source, before it is stored
+export const liveDeal = z.object({
+    id: z.string(),
+    sourceId: z.string(),
+    source: z.string(),
+    sourceUrl: z.string(),
+    title: z.string(),
+    description: z.string(),
+    category: z.string(),
+    brand: z.string(),
+    imageUrl: z.string(),
+    currentPrice: z.number(),
+    originalPrice: z.number(),
+    discount: z.number(),
+    currency: z.string(),
+    condition: z.string(),
+    conditionLabel: z.string(),
+    inStock: z.boolean(),
+    location: z.object({ city: z.string(), state: z.string() }).nullable(),
+    postedAt: datetime(),
+    couponCode: z.string().nullable(),
+    aiScore: dealScore.optional(),
+});
+
+export const sourceResult = z.object({
+    name: z.string(),
+    count: z.number(),
+    success: z.boolean(),
+    error: z.string().optional(),
+});
+
+export const sourceHealth = z.object({
+    source: z.string(),
+    displayName: z.string(),
+    adapter: z.string(),
+    status: z.enum(['healthy', 'degraded', 'down', 'unconfigured', 'disabled', 'unknown']),
+    enabled: z.boolean(),
+    configured: z.boolean(),
+    priority: z.number(),
+    requestsToday: z.number(),
+    remainingToday: z.number(),
+    lastSuccessAt: datetime().nullable(),
+    lastFailureAt: datetime().nullable(),
+    lastError: z.string().nullable(),
+    consecutiveFailures: z.number(),
+    lastDuration: z.number().nullable(),
+    lastCount: z.number().nullable(),
+});
+
+export const ingestionResult = z.object({
+    received: z.number(),
+    created: z.number(),
+    updated: z.number(),
+    priceChanges: z.number(),
+    failed: z.number(),
+    duration: z.number(),
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// PRODUCTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const price = z.object({
+    id: z.string(),
+    productId: z.string(),
+    retailer: z.string(),
+    price: z.number(),
+    url: z.string(),
+    inStock: z.boolean(),
+    lastChecked: datetime(),
+});
+
+export const productReview = z.object({
+    id: z.string(),
+    productId: z.string(),
+    source: z.string(),
+    rating: z.number().nullable(),
+    title: z.string().nullable(),
+    content: z.string(),
+    sentiment: z.string().nullable(),
+    createdAt: datetime(),
+});
+
+// JSON columns arrive parsed
+export const product = z.object({
+    id: z.string(),
+    name: z.string(),
+    brand: z.string(),
+    category: z.string(),
+    imageUrl: z.string().nullable(),
+    bottomLine: z.string(),
+    verityScore: z.number(),
+    scoreBreakdown: z.record(z.string(), z.unknown()),
+    specs: z.record(z.string(), z.unknown()),
+    idealPersonas: z.array(z.string()),
+    strengthsSummary: z.string(),
+    weaknessesSummary: z.string(),
+    userReviewSummary: z.string(),
+    origin: z.string(),
+    model: z.string().nullable(),
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ACCOUNTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const user = z.object({
+    id: z.string(),
+    email: z.string().nullable(),
+    name: z.string().nullable(),
+    role: z.string(),
+});
+
+export const authSession = z.object({
+    success: z.literal(true),
+    token: z.string(),
+    expiresAt: datetime(),
+    user,
+});
+
+export const success = z.object({
+    success: z.boolean(),
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// P2P MARKETPLACE
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const listingCondition = z.enum(['new', 'like_new', 'excellent', 'good', 'fair', 'parts']);
+export const listingStatus = z.enum(['draft', 'active', 'pending', 'sold', 'expired', 'removed']);
+export const pricingType = z.enum(['fixed', 'negotiable', 'auction', 'free']);
+export const orderStatus = z.enum([
+    'pending_payment',
+    'payment_held',
+    'shipped',
+    'delivered',
+    'completed',
+    'disputed',
+    'refunded',
+    'cancelled',
+]);
+export const carrier = z.enum(['ups', 'usps', 'fedex', 'dhl']);
+export const shipmentStatus = z.enum([
+    'label_created',
+    'in_transit',
+    'out_for_delivery',
+    'delivered',
+    'exception',
+    'returned',
+]);
+export const disputeReason = z.enum([
+    'not_as_described',
+    'not_received',
+    'damaged',
+    'counterfeit',
+    'wrong_item',
+    'buyer_remorse',
+    'other',
+]);
+export const disputeOutcome = z.enum(['refund_full', 'refund_partial', 'no_refund', 'return_required']);
+
+export const listingShipping = z.object({
+    type: z.enum(['ship', 'local_only', 'both']),
+    cost: z.number().min(0).optional(),
+    freeOver: z.number().min(0).optional(),
+    estimatedDays: z.number().int().min(0).optional(),
+    localPickupOnly: z.boolean().optional(),
+});
+
+// Where a listing can be picked up; coordinates stay server-side
+export const listingLocation = z.object({
+    city: z.string().optional(),
+    state: z.string().optional(),
+    zipCode: z.string().regex(/^\d{5}(-\d{4})?$/).optional(),
+});
+
+// Public auction state; the reserve and bidders' maximums stay hidden
+export const auctionState = z.object({
+    endsAt: datetime(),
+    ended: z.boolean(),
+    startingBid: z.number(),
+    currentBid: z.number().optional(),
+    minimumBid: z.number(),
+    bidCount: z.number(),
+    highBidderId: z.string().optional(),
+    hasReserve: z.boolean(),
+    reserveMet: z.boolean(),
+});
+
+export const bid = z.object({
+    id: z.string(),
+    listingId: z.string(),
+    bidderId: z.string(),
+    amount: z.number(),
+    isAutomatic: z.boolean(),
+    createdAt: datetime(),
+});
+
+export const listing = z.object({
+    id: z.string(),
+    sellerId: z.string(),
+    title: z.string(),
+    description: z.string(),
+    category: z.string(),
+    subcategory: z.string().optional(),
+    condition: listingCondition,
+    images: z.array(z.string()),
+    price: z.number(),
+    originalPrice: z.number().optional(),
+    originalRetailPrice: z.number().optional(),
+    pricingType,
+    minimumOffer: z.number().optional(),
+    shipping: listingShipping,
+    quantity: z.number(),
+    brand: z.string().optional(),
+    model: z.string().optional(),
+    specs: z.record(z.string(), z.string()).optional(),
+    status: listingStatus,
+    views: z.number(),
+    saves: z.number(),
+    createdAt: datetime(),
+    updatedAt: datetime(),
+    expiresAt: datetime().optional(),
+    aiVerification: z.record(z.string(), z.unknown()).optional().describe('Computed by the server on every save'),
+    location: listingLocation.optional(),
+    auction: auctionState.optional(),
+});
+
+export const order = z.object({
+    id: z.string(),
+    listingId: z.string(),
+    sellerId: z.string(),
+    buyerId: z.string(),
+    status: orderStatus,
+    price: z.number(),
+    shippingCost: z.number(),
+    platformFee: z.number(),
+    totalAmount: z.number(),
+    paymentMethod: z.string(),
+    escrowReleaseDate: datetime().optional(),
+    shipping: z.object({
+        trackingNumber: z.string().optional(),
+        carrier: z.string().optional(),
+        trackingUrl: z.string().optional(),
+        status: shipmentStatus.optional(),
+        estimatedDelivery: datetime().optional(),
+        deliveredAt: datetime().optional(),
+    }).optional(),
+    meetup: z.object({
+        location: z.string(),
+        scheduledAt: datetime(),
+        confirmed: z.boolean(),
+    }).optional(),
+    offerId: z.string().optional(),
+    listing: listing.optional(),
+    createdAt: datetime(),
+    updatedAt: datetime(),
+});
+
+// A carrier scan, as received by the carrier webhook
+export const shipmentEvent = z.object({
+    id: z.string(),
+    status: shipmentStatus,
+    description: z.string().optional(),
+    location: z.string().optional(),
+    occurredAt: datetime(),
+});
+
+export const orderTracking = z.object({
+    orderId: z.string(),
+    carrier: z.string().optional(),
+    trackingNumber: z.string().optional(),
+    trackingUrl: z.string().optional(),
+    status: shipmentStatus.optional(),
+    estimatedDelivery: datetime().optional(),
+    deliveredAt: datetime().optional(),
+    events: z.array(shipmentEvent),
+});
+
+export const rateQuote = z.object({
+    carrier,
+    service: z.string(),
+    cost: z.number(),
+    estimatedDays: z.number(),
+});
+
+export const dispute = z.object({
+    id: z.string(),
+    orderId: z.string(),
+    initiatorId: z.string(),
+    reason: disputeReason,
+    description: z.string(),
+    evidence: z.string(),
+    status: z.string(),
+    outcome: disputeOutcome.nullable(),
+    refundAmount: z.number().nullable(),
+    resolvedBy: z.string().nullable(),
+    resolvedAt: datetime().nullable(),
+    createdAt: datetime(),
+});
+
+export const reviewAspects = z.object({
+    accuracy: z.number().int().min(1).max(5),
+    communication: z.number().int().min(1).max(5),
+    shipping: z.number().int().min(1).max(5),
+    packaging: z.number().int().min(1).max(5).optional(),
+});
+
+export const transactionReview = z.object({
+    id: z.string(),
+    orderId: z.string(),
+    reviewerId: z.string(),
+    revieweeId: z.string(),
+    type: z.enum(['buyer_to_seller', 'seller_to_buyer']),
+    rating: z.number(),
+    title: z.string().nullable(),
+    comment: z.string(),
+    images: z.array(z.string()),
+    aspects: reviewAspects.optional(),
+    response: z.object({ comment: z.string(), respondedAt: datetime().nullable() }).optional(),
+    helpful: z.number(),
+    createdAt: datetime(),
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// MESSAGING & OFFERS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const message = z.object({
+    id: z.string(),
+    conversationId: z.string(),
+    senderId: z.string(),
+    content: z.string(),
+    type: z.enum(['text', 'image', 'offer', 'system']),
+    offerId: z.string().optional(),
+    read: z.boolean(),
+    createdAt: datetime(),
+});
+
+export const conversation = z.object({
+    id: z.string(),
+    listingId: z.string().optional(),
+    participants: z.array(z.string()),
+    lastMessage: message.optional(),
+    unreadCount: z.record(z.string(), z.number()),
+    createdAt: datetime(),
+    updatedAt: datetime(),
+});
+
+export const offerStatus = z.enum(['pending', 'accepted', 'declined', 'countered', 'expired', 'withdrawn']);
+
+// One move in an offer thread
+export const offerRound = z.object({
+    id: z.string(),
+    role: z.enum(['buyer', 'seller', 'system']),
+    action: z.enum(['offer', 'counter', 'accept', 'decline', 'withdraw', 'expire']),
+    amount: z.number().optional(),
+    message: z.string().optional(),
+    automatic: z.boolean(),
+    createdAt: datetime(),
+});
+
+// amount is the buyer's latest offer, counterAmount the seller's latest counter
+export const offer = z.object({
+    id: z.string(),
+    listingId: z.string(),
+    listingIds: z.array(z.string()),
+    buyerId: z.string(),
+    sellerId: z.string(),
+    conversationId: z.string().optional(),
+    amount: z.number(),
+    message: z.string().optional(),
+    status: offerStatus,
+    counterAmount: z.number().optional(),
+    agreedAmount: z.number().optional(),
+    paymentMethod: z.string(),
+    awaiting: z.enum(['buyer', 'seller']).optional(),
+    rounds: z.array(offerRound),
+    orderIds: z.array(z.string()),
+    expiresAt: datetime(),
+    createdAt: datetime(),
+    respondedAt: datetime().optional(),
+});
+
+// A seller's automatic answers to offers on a listing
+export const offerRule = z.object({
+    listingId: z.string(),
+    declineBelow: z.number().optional(),
+    acceptAtOrAbove: z.number().optional(),
+    counterAt: z.number().optional(),
+    enabled: z.boolean(),
+    updatedAt: datetime(),
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// ALERTS
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const notification = z.object({
+    id: z.string(),
+    userId: z.string(),
+    type: z.string(),
+    dealId: z.string().nullable(),
+    title: z.string(),
+    message: z.string(),
+    data: z.record(z.string(), z.unknown()).nullable(),
+    readAt: datetime().nullable(),
+    createdAt: datetime(),
+});
+
+export const alertChannel = z.object({
+    id: z.string(),
+    userId: z.string(),
+    type: z.string(),
+    target: z.string(),
+    enabled: z.boolean(),
+    verifiedAt: datetime().nullable().describe('Null until the webhook URL is checked or the email address is confirmed'),
+    createdAt: datetime(),
+    updatedAt: datetime(),
+});
+
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+// SAVED SEARCHES
+// ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export const savedSearchFilters = z.object({
+    category: z.string().optional(),
+    condition: z.string().optional(),
+    minPrice: z.number().min(0).optional(),
+    maxPrice: z.number().min(0).optional(),
+});
+
+export const savedSearch = z.object({
+    id: z.string(),
+    query: z.string(),
+    filters: savedSearchFilters,
+    alertsEnabled: z.boolean(),
+    newResults: z.number().describe('Matches found since lastViewedAt'),
+    lastCheckedAt: datetime().nullable(),
+    lastViewedAt: datetime(),
+    createdAt: datetime(),
+});
+
+export type Marketplace = z.infer<typeof marketplace>;
+export type Deal = z.infer<typeof deal>;
+export type DealWithMarketplace = z.infer<typeof dealWithMarketplace>;
+export type LiveDeal = z.infer<typeof liveDeal>;
+export type SourceHealth = z.infer<typeof sourceHealth>;
+export type Product = z.infer<typeof product>;
+export type Price = z.infer<typeof price>;
+export type User = z.infer<typeof user>;
+export type AuthSession = z.infer<typeof authSession>;
+export type Listing = z.infer<typeof listing>;
+export type AuctionState = z.infer<typeof auctionState>;
+export type Bid = z.infer<typeof bid>;
+export type Order = z.infer<typeof order>;
+export type Carrier = z.infer<typeof carrier>;
+export type ShipmentEvent = z.infer<typeof shipmentEvent>;
+export type OrderTracking = z.infer<typeof orderTracking>;
+export type RateQuote = z.infer<typeof rateQuote>;
+export type Dispute = z.infer<typeof dispute>;
+export type TransactionReview = z.infer<typeof transactionReview>;
+export type Message = z.infer<typeof message>;
+export type Conversation = z.infer<typeof conversation>;
+export type Offer = z.infer<typeof offer>;
+export type OfferRound = z.infer<typeof offerRound>;
+export type OfferRule = z.infer<typeof offerRule>;
+export type SavedSearchFilters = z.infer<typeof savedSearchFilters>;
+export type SavedSearch = z.infer<typeof savedSearch>;
+export type Notification = z.infer<typeof notification>;
+export type AlertChannel = z.infer<typeof alertChannel>;
@@ -0,0 +1,184 @@
+/**
+ * OpenAPI Document
+ * Builds an OpenAPI 3.1 description of the API from the contract, so the
+ * spec can't disagree with the schemas the API validates against.
+ */
+
+import { z } from 'zod';
+import { errorResponse, validationIssue, type RouteDefinition } from './route';
+import * as models from './models';
+
+// A JSON Schema (2020-12, as used by OpenAPI 3.1) or OpenAPI object
+export type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiInfo {
+    title: string;
+    version: string;
+    description?: string;
+    serverUrl?: string;
+}
+
+type RouteGroups = Record<string, Record<string, RouteDefinition>>;
+
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const COMPONENTS = '#/components/schemas/';
+
+// Shared models become components/schemas, named like their types
+function componentRegistry() {
+    const registry = z.registry<{ id: string }>();
+    registry.add(errorResponse, { id: 'Error' });
+    registry.add(validationIssue, { id: 'ValidationIssue' });
+    for (const [name, schema] of Object.entries(models)) {
+        if (schema instanceof z.ZodType && !registry.has(schema)) {
+            registry.add(schema, { id: capitalize(name) });
+        }
+    }
+    return registry;
+}
+
+// zod points at components as #/$defs/<id>; OpenAPI keeps them elsewhere
+function pointAtComponents(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map(pointAtComponents);
+    if (!value || typeof value !== 'object') return value;
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+        key,
+        key === '$ref' && typeof item === 'string' ? item.replace('#/$defs/', COMPONENTS) : pointAtComponents(item),
+    ]));
+}
+
+/**
+ * Writes schemas as JSON Schema, with shared models as $refs. Every model
+ * it meets is collected for components/schemas.
+ */
+class SchemaWriter {
+    readonly components: Record<string, JsonSchema> = {};
+    private registry = componentRegistry();
+
+    constructor() {
+        // Models are written as responses, the way most routes use them
+        for (const schema of Object.values(models)) {
+            if (schema instanceof z.ZodType) this.write(schema, 'output');
+        }
+    }
+
+    // Requests are described by what callers send, responses by what they get
+    write(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+        const { $schema, $defs, ...json } = z.toJSONSchema(schema, {
+            io,
+            metadata: this.registry,
+            unrepresentable: 'any',
+            // Descriptions and formats live in zod's global registry
+            override: ({ zodSchema, jsonSchema }) => {
+                Object.assign(jsonSchema, z.globalRegistry.get(zodSchema));
+                // zod leaves out the default of a query.boolean() or query.list()
+                if (zodSchema instanceof z.ZodDefault && !('default' in jsonSchema)) {
+                    jsonSchema.default = zodSchema.def.defaultValue;
+                }
+            },
+        });
+        for (const [name, definition] of Object.entries($defs ?? {})) {
+            this.components[name] ??= pointAtComponents(definition) as JsonSchema;
+        }
+        return pointAtComponents(json) as JsonSchema;
+    }
+}
+
+// /api/deals/:id -> /api/deals/{id}
+function openApiPath(path: string): string {
+    return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function parameters(route: RouteDefinition, writer: SchemaWriter): JsonSchema[] {
+    const result: JsonSchema[] = [];
+    const add = (location: 'path' | 'query', schema: z.ZodType | undefined) => {
+        if (!schema) return;
+        const json = writer.write(schema, 'input');
+        const properties = (json.properties ?? {}) as Record<string, JsonSchema>;
+        const required = (json.required ?? []) as string[];
+        for (const [name, field] of Object.entries(properties)) {
+            result.push({
+                name,
+                in: location,
+                required: location === 'path' || required.includes(name),
+                ...(field.description ? { description: field.description } : {}),
+                schema: field,
+                // Lists are sent comma-separated: ?sources=amazon,ebay
+                ...(field.type === 'array' ? { style: 'form', explode: false } : {}),
+            });
+        }
+    };
+    add('path', route.params);
+    add('query', route.query);
+    return result;
+}
+
+function jsonContent(schema: JsonSchema) {
+    return { 'application/json': { schema } };
+}
+
+function responses(route: RouteDefinition, writer: SchemaWriter): JsonSchema {
+    const error = (description: string) => ({ description, content: jsonContent(writer.write(errorResponse, 'output')) });
+    const success = route.stream
+        ? { description: 'Server-Sent Events stream', content: { 'text/event-stream': { schema: { type: 'string' } } } }
+        : { description: route.summary, content: jsonContent(writer.write(route.response, 'output')) };
+
+    const auth = route.auth ?? 'public';
+    return {
+        [String(route.status ?? 200)]: success,
+        ...(route.params || route.query || route.body ? { 400: error('Invalid request') } : {}),
+        ...(auth !== 'public' ? { 401: error('Not signed in') } : {}),
+        ...(Array.isArray(auth) ? { 403: error(`Requires role: ${auth.join(' or ')}`) } : {}),
+        default: error('Error'),
+    };
+}
+
+function operation(group: string, name: string, route: RouteDefinition, writer: SchemaWriter): JsonSchema {
+    const auth = route.auth ?? 'public';
+    const params = parameters(route, writer);
+    return {
+        operationId: `${group}${capitalize(name)}`,
+        tags: [group],
+        summary: route.summary,
+        ...(Array.isArray(auth) ? { description: `Requires role: ${auth.join(' or ')}` } : {}),
+        ...(params.length > 0 ? { parameters: params } : {}),
+        ...(route.body ? { requestBody: { required: true, content: jsonContent(writer.write(route.body, 'input')) } } : {}),
+        responses: responses(route, writer),
+        // EventSource can't send headers, so streams also take the token as ?access_token=
+        ...(auth !== 'public' ? { security: route.stream ? [{ bearerAuth: [] }, { accessToken: [] }] : [{ bearerAuth: [] }] } : {}),
+    };
+}
+
+/**
+ * Generate the OpenAPI 3.1 document for every route in a contract
+ */
+export function generateOpenApi(contract: RouteGroups, info: OpenApiInfo): JsonSchema {
+    const writer = new SchemaWriter();
+    const paths: Record<string, Record<string, JsonSchema>> = {};
+
+    for (const [group, routes] of Object.entries(contract)) {
+        for (const [name, route] of Object.entries(routes)) {
+            const path = openApiPath(route.path);
+            paths[path] = { ...paths[path], [route.method.toLowerCase()]: operation(group, name, route, writer) };
+        }
+    }
+
+    return {
+        openapi: '3.1.0',
+        info: {
+            title: info.title,
+            version: info.version,
+            ...(info.description ? { description: info.description } : {}),
+        },
+        ...(info.serverUrl ? { servers: [{ url: info.serverUrl }] } : {}),
+        tags: Object.keys(contract).map(name => ({ name })),
+        paths,
+        components: {
+            schemas: writer.components,
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer' },
+                accessToken: { type: 'apiKey', in: 'query', name: 'access_token' },
+            },
+        },
+    };
+}
@@ -0,0 +1,110 @@
+/**
+ * Route Definitions
+ * One entry per API endpoint: method, path and the schemas for its path
+ * parameters, query string, body and response. The API validates requests
+ * against them and the web client is typed from them.
+ */
+
+import { z } from 'zod';
+import { formatIssue } from './schema';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Who may call a route: anyone, any signed-in user, or the listed roles
+export type RouteAuth = 'public' | 'user' | readonly string[];
+
+export interface RouteDefinition {
+    method: HttpMethod;
+    path: string;               // Express-style, e.g. /api/deals/:id
+    summary: string;
+    auth?: RouteAuth;           // Defaults to public
+    params?: z.ZodType;
+    query?: z.ZodType;
+    body?: z.ZodType;
+    response: z.ZodType;
+    status?: number;            // Success status, 200 unless stated
+    stream?: boolean;           // Server-Sent Events instead of a JSON body
+}
+
+export function route<const R extends RouteDefinition>(definition: R): R {
+    return definition;
+}
+
+type SchemaOutput<S> = S extends z.ZodType ? z.output<S> : {};
+
+// What a handler sees once the request has been validated
+export type RouteParams<R extends RouteDefinition> = SchemaOutput<R['params']>;
+export type RouteQuery<R extends RouteDefinition> = SchemaOutput<R['query']>;
+export type RouteBody<R extends RouteDefinition> = SchemaOutput<R['body']>;
+export type RouteResponse<R extends RouteDefinition> = z.output<R['response']>;
+
+type RequiredKeys<T> = { [K in keyof T]-?: undefined extends T[K] ? never : K }[keyof T];
+
+// Parts with a required field must be passed; the rest may be left out
+type RequestParts<T> = { [K in RequiredKeys<T>]: T[K] } & { [K in Exclude<keyof T, RequiredKeys<T>>]?: T[K] };
+
+// A part may be left out when it has no schema or every field in it is optional
+type PartInput<S> = S extends z.ZodType
+    ? ({} extends z.input<S> ? z.input<S> | undefined : z.input<S>)
+    : undefined;
+
+// What a caller passes
+export type RouteRequest<R extends RouteDefinition> = RequestParts<{
+    params: PartInput<R['params']>;
+    query: PartInput<R['query']>;
+    body: PartInput<R['body']>;
+}>;
+
+/**
+ * One field that failed validation, and where it was
+ */
+export const validationIssue = z.object({
+    location: z.enum(['params', 'query', 'body']),
+    path: z.string(),
+    message: z.string(),
+});
+
+/**
+ * Every error response; validation failures also list their issues
+ */
+export const errorResponse = z.object({
+    error: z.string(),
+    issues: z.array(validationIssue).optional(),
+});
+
+export type ValidationIssue = z.infer<typeof validationIssue>;
+export type ErrorResponse = z.infer<typeof errorResponse>;
+
+// Fields the client would never see: present in the body, dropped by the schema
+function undocumentedFields(raw: unknown, parsed: unknown, path: string[] = []): string[] {
+    if (Array.isArray(raw) && Array.isArray(parsed)) {
+        return raw.flatMap((item, index) => undocumentedFields(item, parsed[index], [...path, String(index)]));
+    }
+    if (!raw || !parsed || typeof raw !== 'object' || typeof parsed !== 'object') return [];
+    return Object.entries(raw).flatMap(([key, value]) => {
+        if (value === undefined) return [];
+        if (!(key in parsed)) return [`${[...path, key].join('.')}: Not in the spec`];
+        return undocumentedFields(value, (parsed as Record<string, unknown>)[key], [...path, key]);
+    });
+}
+
+/**
+ * How an actual response body differs from the route's response schema;
+ * empty when it matches. Fields the schema doesn't declare count too,
+ * unless it passes them through. Used by the API's contract test.
+ */
+export function responseDrift(route: RouteDefinition, body: unknown): string[] {
+    const result = route.response.safeParse(body);
+    if (!result.success) return result.error.issues.map(formatIssue);
+    return undocumentedFields(body, result.data);
+}
+
+/**
+ * Fill in :params in a route path
+ */
+export function buildPath(path: string, params: Record<string, string | number> = {}): string {
+    return path.replace(/:(\w+)/g, (_, name: string) => {
+        if (params[name] === undefined) throw new Error(`Missing path parameter "${name}" for ${path}`);
+        return encodeURIComponent(String(params[name]));
+    });
+}
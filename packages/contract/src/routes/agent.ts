@@ -0,0 +1,306 @@
+/**
+ * Agent Routes
+ * The autonomous shopping agent, learned preferences and deal price
+ * predictions. Agent and preference routes act on the signed-in user.
+ */
+
+import { z } from 'zod';
+import { datetime, query } from '../schema';
+import { route } from '../route';
+
+const agentStatus = z.enum(['active', 'paused', 'sleeping']);
+
+const agentStats = z.object({
+    totalDealsFound: z.number(),
+    totalSavings: z.number(),
+    totalPurchases: z.number(),
+    averageMatchScore: z.number(),
+    lastRunAt: datetime(),
+    runsLast24h: z.number(),
+    dealsFoundLast24h: z.number(),
+});
+
+const foundDeal = z.object({
+    dealId: z.string(),
+    title: z.string(),
+    price: z.number(),
+    originalPrice: z.number(),
+    discountPercent: z.number(),
+    dealScore: z.number(),
+    matchScore: z.number(),
+    reasons: z.array(z.string()),
+    foundAt: datetime(),
+    notifiedAt: datetime().optional(),
+    userAction: z.enum(['viewed', 'saved', 'purchased', 'dismissed']).optional(),
+});
+
+const hunt = z.object({
+    id: z.string(),
+    query: z.string(),
+    category: z.string().optional(),
+    brand: z.string().optional(),
+    maxPrice: z.number(),
+    minDealScore: z.number(),
+    targetDiscount: z.number().optional(),
+    status: z.enum(['hunting', 'found', 'expired', 'purchased']),
+    createdAt: datetime(),
+    expiresAt: datetime().optional(),
+    foundDeals: z.array(foundDeal),
+});
+
+// A deal as the agent matches it against hunts
+const agentDeal = z.object({
+    id: z.string(),
+    title: z.string(),
+    category: z.string(),
+    brand: z.string(),
+    currentPrice: z.number(),
+    originalPrice: z.number(),
+    discountPercent: z.number(),
+    dealScore: z.number(),
+    marketplace: z.string(),
+    imageUrl: z.string().optional(),
+    externalUrl: z.string().optional(),
+});
+
+const pricePoint = z.object({
+    price: z.number().min(0),
+    date: datetime(),
+});
+
+const predictionInput = z.object({
+    id: z.string().nonempty(),
+    title: z.string().optional(),
+    category: z.string().optional(),
+    brand: z.string().optional(),
+    currentPrice: z.number().positive(),
+    originalPrice: z.number().positive().optional(),
+    dealScore: z.number().min(0).max(100).optional(),
+    isAllTimeLow: z.boolean().optional(),
+    views: z.number().int().min(0).optional(),
+    priceHistory: z.array(pricePoint).optional(),
+});
+
+const pricePrediction = z.object({
+    dealId: z.string(),
+    currentPrice: z.number(),
+    predictedPrice7d: z.number(),
+    predictedPrice30d: z.number(),
+    predictedPrice90d: z.number(),
+    confidence7d: z.number(),
+    confidence30d: z.number(),
+    confidence90d: z.number(),
+    trend: z.enum(['rising', 'falling', 'stable']),
+    trendStrength: z.number(),
+    recommendation: z.enum(['buy_now', 'wait', 'risky', 'uncertain']),
+    recommendationReasons: z.array(z.string()),
+    sellOutRisk: z.enum(['low', 'medium', 'high']),
+    sellOutProbability: z.number(),
+    modelAccuracy: z.number(),
+    bestBuyWindow: z.object({ start: datetime(), end: datetime() }).nullable(),
+    nextPriceDrop: z.object({ date: datetime(), expectedPrice: z.number() }).nullable(),
+});
+
+export const agent = {
+    preferences: route({
+        method: 'GET',
+        path: '/api/agent/preferences',
+        summary: "The user's learned preferences",
+        auth: 'user',
+        response: z.object({
+            success: z.literal(true),
+            preferences: z.record(z.string(), z.unknown()),
+            suggestedSearches: z.array(z.string()),
+            topCategories: z.array(z.string()),
+        }),
+    }),
+
+    updatePreferences: route({
+        method: 'POST',
+        path: '/api/agent/preferences',
+        summary: 'Import preferences, e.g. from an export',
+        auth: 'user',
+        body: z.object({
+            preferences: z.record(z.string(), z.unknown()),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            message: z.string(),
+        }),
+    }),
+
+    recordActivity: route({
+        method: 'POST',
+        path: '/api/agent/activity',
+        summary: 'Record user activity to learn from',
+        auth: 'user',
+        body: z.object({
+            activity: z.object({
+                type: z.enum(['view', 'save', 'click', 'purchase', 'dismiss', 'search']),
+                dealId: z.string().optional(),
+                category: z.string().optional(),
+                brand: z.string().optional(),
+                price: z.number().min(0).optional(),
+                query: z.string().optional(),
+            }),
+        }),
+        response: z.object({ success: z.literal(true) }),
+    }),
+
+    status: route({
+        method: 'GET',
+        path: '/api/agent/status',
+        summary: 'Agent status and stats, starting the agent for new users',
+        auth: 'user',
+        response: z.object({
+            success: z.literal(true),
+            agent: z.object({
+                status: agentStatus,
+                aggressiveness: z.number(),
+                activeHunts: z.number(),
+                stats: agentStats,
+            }),
+        }),
+    }),
+
+    updateSettings: route({
+        method: 'POST',
+        path: '/api/agent/settings',
+        summary: 'Update agent settings',
+        auth: 'user',
+        body: z.object({
+            settings: z.object({
+                aggressiveness: z.number().min(0).max(1).optional(),
+                canAutoPurchase: z.boolean().optional(),
+                maxAutoPurchaseAmount: z.number().min(0).optional(),
+                status: agentStatus.optional(),
+            }),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            agent: z.object({
+                status: agentStatus,
+                aggressiveness: z.number(),
+            }),
+        }),
+    }),
+
+    activityLog: route({
+        method: 'GET',
+        path: '/api/agent/activity-log',
+        summary: 'Agent activity history',
+        auth: 'user',
+        query: z.object({
+            limit: query.number().int().min(1).max(100).default(20),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            activities: z.array(z.object({
+                type: z.enum(['hunt_started', 'deals_found', 'alert_sent', 'user_action', 'run_completed']),
+                timestamp: datetime(),
+                huntId: z.string().optional(),
+                dealCount: z.number().optional(),
+                message: z.string(),
+                metadata: z.record(z.string(), z.unknown()).optional(),
+            })),
+        }),
+    }),
+
+    createHunt: route({
+        method: 'POST',
+        path: '/api/agent/hunt',
+        summary: 'Start a deal hunt',
+        auth: 'user',
+        body: z.object({
+            query: z.string().nonempty(),
+            category: z.string().optional(),
+            brand: z.string().optional(),
+            maxPrice: z.number().positive(),
+            minDealScore: z.number().min(0).max(100).default(70),
+            targetDiscount: z.number().min(0).max(100).optional(),
+            expiresInDays: z.number().int().min(1).max(365).default(30),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            hunt,
+        }),
+    }),
+
+    hunts: route({
+        method: 'GET',
+        path: '/api/agent/hunts',
+        summary: "The user's hunts",
+        auth: 'user',
+        response: z.object({
+            success: z.literal(true),
+            hunts: z.array(hunt),
+        }),
+    }),
+
+    cancelHunt: route({
+        method: 'DELETE',
+        path: '/api/agent/hunt/:huntId',
+        summary: 'Cancel a hunt',
+        auth: 'user',
+        params: z.object({ huntId: z.string() }),
+        response: z.object({ success: z.boolean() }),
+    }),
+
+    trigger: route({
+        method: 'POST',
+        path: '/api/agent/trigger',
+        summary: 'Run the agent now, against the given deals or a demo deal',
+        auth: 'user',
+        body: z.object({
+            deals: z.array(agentDeal).optional(),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            dealsFound: z.number(),
+            deals: z.array(foundDeal),
+        }),
+    }),
+
+    predict: route({
+        method: 'POST',
+        path: '/api/agent/predict',
+        summary: 'Price prediction for a deal',
+        body: predictionInput,
+        response: z.object({
+            success: z.literal(true),
+            prediction: pricePrediction,
+            summary: z.string(),
+        }),
+    }),
+
+    predictBatch: route({
+        method: 'POST',
+        path: '/api/agent/predict/batch',
+        summary: 'Price predictions for several deals',
+        body: z.object({
+            deals: z.array(predictionInput),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            predictions: z.array(pricePrediction.extend({ summary: z.string() })),
+        }),
+    }),
+
+    recommend: route({
+        method: 'GET',
+        path: '/api/agent/recommend/:dealId',
+        summary: 'Quick buy-or-wait recommendation',
+        params: z.object({ dealId: z.string() }),
+        query: z.object({
+            category: z.string().default('Electronics'),
+            price: query.number().positive().default(100),
+            score: query.number().int().min(0).max(100).default(80),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            recommendation: z.enum(['buy_now', 'wait', 'risky', 'uncertain']),
+            reasons: z.array(z.string()),
+            confidence: z.number(),
+        }),
+    }),
+};
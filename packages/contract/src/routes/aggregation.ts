@@ -0,0 +1,302 @@
+/**
+ * Aggregation Routes
+ * Deal scoring, price prediction, the AI assistant, user submissions and
+ * the job scheduler.
+ */
+
+import { z } from 'zod';
+import { datetime, query } from '../schema';
+import { route } from '../route';
+import { liveDeal } from '../models';
+
+const limit = (fallback: number) => query.number().int().min(1).max(100).default(fallback);
+
+const pricePoint = z.object({
+    price: z.number().min(0),
+    date: datetime(),
+});
+
+const priceStats = z.object({
+    current: z.number(),
+    average30d: z.number(),
+    average90d: z.number(),
+    lowest: z.number(),
+    lowestDate: datetime().nullable(),
+    highest: z.number(),
+    highestDate: datetime().nullable(),
+    priceChangePercent30d: z.number(),
+    priceChangePercent7d: z.number(),
+    isAtAllTimeLow: z.boolean(),
+    buyRecommendation: z.enum(['buy_now', 'good_price', 'wait', 'avoid']),
+    confidence: z.number(),
+});
+
+const pricePrediction = z.object({
+    predictedDirection: z.enum(['up', 'down', 'stable']),
+    predictedChangePercent: z.number(),
+    confidence: z.number(),
+    reasoning: z.string(),
+    suggestedWaitDays: z.number(),
+});
+
+const submission = z.object({
+    id: z.string(),
+    userId: z.string(),
+    title: z.string(),
+    url: z.string(),
+    price: z.number(),
+    originalPrice: z.number().optional(),
+    category: z.string(),
+    description: z.string().optional(),
+    imageUrl: z.string().optional(),
+    submittedAt: datetime(),
+    status: z.enum(['pending', 'approved', 'rejected', 'duplicate']),
+    aiScore: z.number().optional(),
+    aiVerdict: z.string().optional(),
+});
+
+const userStats = z.object({
+    userId: z.string(),
+    totalSubmissions: z.number(),
+    approvedSubmissions: z.number(),
+    rejectedSubmissions: z.number(),
+    totalPoints: z.number(),
+    rank: z.enum(['newbie', 'contributor', 'trusted', 'expert', 'legend']),
+});
+
+const retryPolicy = z.object({
+    attempts: z.number(),
+    backoffMs: z.number(),
+});
+
+const jobRun = z.object({
+    id: z.string(),
+    jobName: z.string(),
+    instanceId: z.string(),
+    trigger: z.string(),
+    attempt: z.number(),
+    status: z.string(),
+    error: z.string().nullable(),
+    counts: z.record(z.string(), z.number()).nullable(),
+    startedAt: datetime(),
+    finishedAt: datetime().nullable(),
+    durationMs: z.number().nullable(),
+});
+
+export const aggregation = {
+    score: route({
+        method: 'POST',
+        path: '/api/aggregation/score',
+        summary: 'Score a deal',
+        body: z.object({
+            title: z.string().nonempty(),
+            currentPrice: z.number().positive(),
+            originalPrice: z.number().positive().optional(),
+            category: z.string().optional(),
+            brand: z.string().optional(),
+            marketplace: z.string().optional(),
+        }),
+        response: z.object({
+            score: z.number(),
+            verdict: z.string(),
+            recommendation: z.enum(['buy_now', 'wait', 'skip']),
+            breakdown: z.record(z.string(), z.number()),
+            insights: z.array(z.string()),
+        }),
+    }),
+
+    predict: route({
+        method: 'POST',
+        path: '/api/aggregation/predict',
+        summary: 'Price prediction from a stored deal or a raw price history',
+        body: z.object({
+            dealId: z.string().optional(),
+            priceHistory: z.array(pricePoint).optional(),
+            category: z.string().optional(),
+        }),
+        response: pricePrediction,
+    }),
+
+    analyze: route({
+        method: 'POST',
+        path: '/api/aggregation/analyze',
+        summary: 'Price history stats from a stored deal or a raw price history',
+        body: z.object({
+            dealId: z.string().optional(),
+            currentPrice: z.number().positive().optional(),
+            priceHistory: z.array(pricePoint).optional(),
+        }),
+        response: z.object({
+            stats: priceStats,
+            chartData: z.object({
+                labels: z.array(z.string()),
+                prices: z.array(z.number()),
+                average: z.number(),
+            }),
+        }),
+    }),
+
+    chat: route({
+        method: 'POST',
+        path: '/api/aggregation/chat',
+        summary: 'Ask the AI shopping assistant',
+        body: z.object({
+            message: z.string().nonempty(),
+            sessionId: z.string().optional(),
+        }),
+        response: z.object({
+            message: z.string(),
+            deals: z.array(liveDeal),
+            suggestedQuestions: z.array(z.string()),
+            action: z.enum(['search', 'compare', 'alert', 'info']).optional(),
+        }),
+    }),
+
+    submit: route({
+        method: 'POST',
+        path: '/api/aggregation/submit',
+        summary: 'Submit a deal for moderation',
+        auth: 'user',
+        body: z.object({
+            title: z.string().nonempty(),
+            url: z.string().url(),
+            price: z.number().positive(),
+            originalPrice: z.number().positive().optional(),
+            category: z.string().nonempty(),
+            description: z.string().optional(),
+            imageUrl: z.string().url().optional(),
+        }),
+        response: z.object({
+            success: z.boolean(),
+            submissionId: z.string().optional(),
+            message: z.string(),
+            previewScore: z.number().optional(),
+            issues: z.array(z.string()).optional(),
+        }),
+    }),
+
+    submissions: route({
+        method: 'GET',
+        path: '/api/aggregation/submissions',
+        summary: 'Submissions waiting for moderation',
+        auth: ['moderator', 'admin'],
+        response: z.array(submission),
+    }),
+
+    moderate: route({
+        method: 'POST',
+        path: '/api/aggregation/moderate',
+        summary: 'Approve or reject a submission',
+        auth: ['moderator', 'admin'],
+        body: z.object({
+            submissionId: z.string().nonempty(),
+            status: z.enum(['approved', 'rejected']),
+            notes: z.string().optional(),
+        }),
+        response: z.object({ success: z.boolean() }),
+    }),
+
+    leaderboard: route({
+        method: 'GET',
+        path: '/api/aggregation/leaderboard',
+        summary: 'Top deal submitters',
+        query: z.object({
+            limit: limit(10),
+        }),
+        response: z.array(userStats),
+    }),
+
+    userStats: route({
+        method: 'GET',
+        path: '/api/aggregation/user/:userId/stats',
+        summary: "A submitter's stats",
+        params: z.object({ userId: z.string() }),
+        response: userStats,
+    }),
+
+    jobs: route({
+        method: 'GET',
+        path: '/api/aggregation/jobs',
+        summary: 'Job scheduler status with recent runs',
+        query: z.object({
+            job: z.string().optional(),
+            limit: limit(10),
+        }),
+        response: z.array(z.object({
+            job: z.object({
+                name: z.string(),
+                schedule: z.string(),
+                enabled: z.boolean(),
+                running: z.boolean(),
+                runningOn: z.string().nullable(),
+                lastRun: datetime().nullable(),
+                nextRun: datetime().nullable(),
+                timeoutMs: z.number(),
+                retry: retryPolicy,
+            }),
+            stats: z.object({
+                totalRuns: z.number(),
+                successfulRuns: z.number(),
+                failedRuns: z.number(),
+                lastError: z.string().optional(),
+                averageRunTimeMs: z.number(),
+                lastRunCounts: z.record(z.string(), z.number()).optional(),
+            }),
+            runs: z.array(jobRun),
+        })),
+    }),
+
+    triggerJob: route({
+        method: 'POST',
+        path: '/api/aggregation/jobs/:name/trigger',
+        summary: 'Start a job now without waiting for the run',
+        auth: ['admin'],
+        params: z.object({ name: z.string() }),
+        response: z.object({
+            runId: z.string().describe('First attempt in the job\'s run history'),
+            message: z.string(),
+        }),
+        status: 202,
+    }),
+
+    feeds: route({
+        method: 'GET',
+        path: '/api/aggregation/feeds',
+        summary: 'RSS feed stats',
+        response: z.object({
+            feeds: z.array(z.string()),
+            stats: z.object({
+                total: z.number(),
+                lastFetchTimes: z.record(z.string(), z.string()),
+            }),
+        }),
+    }),
+
+    top: route({
+        method: 'GET',
+        path: '/api/aggregation/top',
+        summary: 'Top AI-scored deals',
+        query: z.object({
+            limit: limit(20),
+        }),
+        response: z.object({
+            deals: z.array(liveDeal),
+            count: z.number(),
+        }),
+    }),
+
+    search: route({
+        method: 'GET',
+        path: '/api/aggregation/search',
+        summary: 'AI-scored search across live sources',
+        query: z.object({
+            q: z.string().nonempty(),
+            category: z.string().optional(),
+        }),
+        response: z.object({
+            query: z.string(),
+            deals: z.array(liveDeal),
+            count: z.number(),
+        }),
+    }),
+};
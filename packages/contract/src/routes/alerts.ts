@@ -0,0 +1,147 @@
+/**
+ * Alert Routes
+ * Wishlist price alerts, the in-app notification inbox, delivery channels
+ * and the delivery log. Every route acts on the signed-in user, except
+ * confirming an email channel, which the emailed link does.
+ */
+
+import { z } from 'zod';
+import { datetime, query } from '../schema';
+import { route } from '../route';
+import { alertChannel, notification, success } from '../models';
+
+export const alerts = {
+    saveWishlistItem: route({
+        method: 'PUT',
+        path: '/api/alerts/wishlist/:dealId',
+        summary: 'Save a deal to the wishlist with an optional price alert',
+        auth: 'user',
+        params: z.object({ dealId: z.string() }),
+        body: z.object({
+            priceAlert: z.number().positive().nullable().default(null),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            item: z.object({
+                id: z.string(),
+                userId: z.string(),
+                dealId: z.string(),
+                priceAlert: z.number().nullable(),
+                createdAt: datetime(),
+            }),
+        }),
+    }),
+
+    inbox: route({
+        method: 'GET',
+        path: '/api/alerts/inbox',
+        summary: 'In-app notifications, newest first',
+        auth: 'user',
+        query: z.object({
+            unread: query.boolean().default(false),
+            limit: query.number().int().min(1).max(100).default(20),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            unreadCount: z.number(),
+            notifications: z.array(notification),
+        }),
+    }),
+
+    markRead: route({
+        method: 'POST',
+        path: '/api/alerts/inbox/:id/read',
+        summary: 'Mark one notification as read',
+        auth: 'user',
+        params: z.object({ id: z.string() }),
+        response: success,
+    }),
+
+    markAllRead: route({
+        method: 'POST',
+        path: '/api/alerts/inbox/read-all',
+        summary: 'Mark every notification as read',
+        auth: 'user',
+        response: z.object({
+            success: z.literal(true),
+            updated: z.number(),
+        }),
+    }),
+
+    channels: route({
+        method: 'GET',
+        path: '/api/alerts/channels',
+        summary: "The user's delivery channels",
+        auth: 'user',
+        response: z.object({
+            success: z.literal(true),
+            channels: z.array(alertChannel),
+            available: z.array(z.string()),
+        }),
+    }),
+
+    saveChannel: route({
+        method: 'PUT',
+        path: '/api/alerts/channels/:type',
+        summary: 'Configure a webhook or email channel; an email address gets a confirmation link',
+        auth: 'user',
+        params: z.object({ type: z.enum(['webhook', 'email']) }),
+        body: z.object({
+            target: z.string().nonempty().max(2048).describe('Public http(s) webhook URL or email address'),
+            enabled: z.boolean().default(true),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            channel: alertChannel,
+        }),
+    }),
+
+    confirmChannelEmail: route({
+        method: 'POST',
+        path: '/api/alerts/channels/email/confirm',
+        summary: 'Confirm an email channel with the token from its confirmation link',
+        body: z.object({
+            token: z.string().nonempty(),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            channel: alertChannel,
+        }),
+    }),
+
+    deleteChannel: route({
+        method: 'DELETE',
+        path: '/api/alerts/channels/:type',
+        summary: 'Remove a delivery channel',
+        auth: 'user',
+        params: z.object({ type: z.string() }),
+        response: success,
+    }),
+
+    deliveries: route({
+        method: 'GET',
+        path: '/api/alerts/deliveries',
+        summary: "Delivery log for the user's notifications",
+        auth: 'user',
+        query: z.object({
+            limit: query.number().int().min(1).max(200).default(50),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            deliveries: z.array(z.object({
+                id: z.string(),
+                notificationId: z.string(),
+                channel: z.string(),
+                target: z.string().nullable(),
+                status: z.string(),
+                error: z.string().nullable(),
+                attemptedAt: datetime(),
+                notification: z.object({
+                    type: z.string(),
+                    title: z.string(),
+                    dealId: z.string().nullable(),
+                }),
+            })),
+        }),
+    }),
+};
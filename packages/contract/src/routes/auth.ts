@@ -0,0 +1,90 @@
+/**
+ * Auth Routes
+ * Email + password registration and login, magic-link sign in, and
+ * session management.
+ */
+
+import { z } from 'zod';
+import { route } from '../route';
+import { authSession, success, user } from '../models';
+
+export const auth = {
+    register: route({
+        method: 'POST',
+        path: '/api/auth/register',
+        summary: 'Create an account with email and password',
+        body: z.object({
+            email: z.string().email(),
+            password: z.string().nonempty(),
+            name: z.string().optional(),
+        }),
+        response: authSession,
+        status: 201,
+    }),
+
+    login: route({
+        method: 'POST',
+        path: '/api/auth/login',
+        summary: 'Sign in with email and password',
+        body: z.object({
+            email: z.string().email(),
+            password: z.string().nonempty(),
+        }),
+        response: authSession,
+    }),
+
+    magicLink: route({
+        method: 'POST',
+        path: '/api/auth/magic-link',
+        summary: 'Email a one-time sign-in link',
+        body: z.object({
+            email: z.string().email(),
+        }),
+        response: z.object({
+            success: z.literal(true),
+            message: z.string(),
+            devLink: z.string().optional(),
+        }),
+    }),
+
+    verifyMagicLink: route({
+        method: 'POST',
+        path: '/api/auth/magic-link/verify',
+        summary: 'Exchange a magic-link token for a session',
+        body: z.object({
+            token: z.string().nonempty(),
+        }),
+        response: authSession,
+    }),
+
+    me: route({
+        method: 'GET',
+        path: '/api/auth/me',
+        summary: 'Current user',
+        auth: 'user',
+        response: z.object({
+            success: z.literal(true),
+            user,
+        }),
+    }),
+
+    setPassword: route({
+        method: 'POST',
+        path: '/api/auth/password',
+        summary: "Set or change the current user's password",
+        auth: 'user',
+        body: z.object({
+            password: z.string().nonempty(),
+            currentPassword: z.string().optional(),
+        }),
+        response: success,
+    }),
+
+    logout: route({
+        method: 'POST',
+        path: '/api/auth/logout',
+        summary: 'Revoke the current session',
+        auth: 'user',
+        response: success,
+    }),
+};
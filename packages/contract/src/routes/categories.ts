@@ -0,0 +1,22 @@
+/**
+ * Category Routes
+ */
+
+import { z } from 'zod';
+import { route } from '../route';
+
+export const categories = {
+    list: route({
+        method: 'GET',
+        path: '/api/categories',
+        summary: 'Categories with deal counts',
+        response: z.array(z.object({
+            id: z.string(),
+            name: z.string(),
+            slug: z.string(),
+            icon: z.string().nullable(),
+            parentId: z.string().nullable(),
+            dealCount: z.number(),
+        })),
+    }),
+};
@@ -0,0 +1,230 @@
+/**
+ * Deal Aggregator Routes
+ * The stored deal catalog, full-text and live search, source health and
+ * the deal change stream.
+ */
+
+import { z } from 'zod';
+import { datetime, query } from '../schema';
+import { route } from '../route';
+import {
+    dealWithMarketplace,
+    ingestionResult,
+    liveDeal,
+    sourceHealth,
+    sourceResult,
+} from '../models';
+import { latitude, longitude } from './local';
+
+const price = query.number().min(0);
+const score = query.number().int().min(0).max(100);
+const limit = (fallback: number) => query.number().int().min(1).max(100).default(fallback);
+
+const facetValue = z.object({
+    value: z.string(),
+    count: z.number(),
+});
+
+export const searchSort = z.enum(['relevance', 'score', 'price-low', 'price-high', 'discount', 'recent']);
+
+export const dealStreamEvent = z.object({
+    id: z.number(),
+    type: z.enum(['deal.created', 'deal.price_changed', 'deal.expired']),
+    dealId: z.string(),
+    marketplaceId: z.string(),
+    source: z.string(),
+    category: z.string(),
+    dealScore: z.number().nullable(),
+    deal: z.record(z.string(), z.unknown()),
+    createdAt: datetime(),
+});
+
+export const deals = {
+    list: route({
+        method: 'GET',
+        path: '/api/deals',
+        summary: 'List stored deals with filters and pagination',
+        query: z.object({
+            category: z.string().optional(),
+            marketplaces: query.list().optional().describe('Marketplace IDs or names'),
+            sources: query.list().optional().describe('Source keys, e.g. amazon,ebay'),
+            condition: z.string().optional(),
+            city: z.string().optional(),
+            brand: z.string().optional(),
+            minPrice: price.optional(),
+            maxPrice: price.optional(),
+            minScore: score.optional(),
+            sort: z.enum(['score', 'price-low', 'price-high', 'discount', 'recent']).default('score'),
+            page: query.number().int().min(1).default(1),
+            limit: limit(30),
+        }),
+        response: z.object({
+            deals: z.array(dealWithMarketplace),
+            total: z.number(),
+            page: z.number(),
+            limit: z.number(),
+            totalPages: z.number(),
+        }),
+    }),
+
+    hot: route({
+        method: 'GET',
+        path: '/api/deals/hot',
+        summary: 'Hot deals from the deal aggregators',
+        query: z.object({
+            limit: limit(15),
+        }),
+        response: z.object({
+            deals: z.array(liveDeal),
+            sources: z.array(sourceResult),
+            cached: z.boolean(),
+        }),
+    }),
+
+    search: route({
+        method: 'GET',
+        path: '/api/deals/search',
+        summary: 'Full-text search over stored deals, with facets and cursor pagination',
+        query: z.object({
+            q: z.string().optional(),
+            category: query.list().optional(),
+            brand: query.list().optional(),
+            marketplaces: query.list().optional(),
+            condition: query.list().optional(),
+            minPrice: price.optional(),
+            maxPrice: price.optional(),
+            minScore: score.optional(),
+            sort: searchSort.optional(),
+            cursor: z.string().optional(),
+            limit: limit(30),
+        }),
+        response: z.object({
+            deals: z.array(dealWithMarketplace.extend({ relevance: z.number() })),
+            total: z.number(),
+            facets: z.object({
+                category: z.array(facetValue),
+                brand: z.array(facetValue),
+                marketplace: z.array(facetValue),
+                condition: z.array(facetValue),
+                price: z.array(facetValue.extend({
+                    label: z.string(),
+                    min: z.number(),
+                    max: z.number().nullable(),
+                })),
+            }),
+            nextCursor: z.string().nullable(),
+            query: z.object({
+                text: z.string(),
+                terms: z.array(z.string()),
+                corrections: z.array(z.object({ term: z.string(), matched: z.array(z.string()) })),
+                minPrice: z.number().nullable(),
+                maxPrice: z.number().nullable(),
+            }),
+            sort: searchSort,
+        }),
+    }),
+
+    searchLive: route({
+        method: 'GET',
+        path: '/api/deals/search/live',
+        summary: 'Search across marketplaces live',
+        query: z.object({
+            q: z.string().nonempty(),
+            sources: query.list().optional(),
+            city: z.string().optional().describe('Craigslist site code, e.g. sfbay'),
+            lat: latitude.optional().describe('With lng, searches the nearest Craigslist site when no city is given'),
+            lng: longitude.optional(),
+            limit: limit(30),
+        }),
+        response: z.object({
+            deals: z.array(liveDeal),
+            query: z.string(),
+            sources: z.array(sourceResult),
+            total: z.number(),
+            fetchTime: z.number(),
+            cached: z.boolean(),
+        }),
+    }),
+
+    sources: route({
+        method: 'GET',
+        path: '/api/deals/sources',
+        summary: 'Registered sources with their health',
+        response: z.object({
+            sources: z.array(sourceHealth),
+            cities: z.array(z.object({ code: z.string(), name: z.string(), state: z.string() })),
+        }),
+    }),
+
+    updateSource: route({
+        method: 'PATCH',
+        path: '/api/deals/sources/:name',
+        summary: 'Enable or disable a source at runtime',
+        auth: ['admin'],
+        params: z.object({ name: z.string() }),
+        body: z.object({ enabled: z.boolean() }),
+        response: sourceHealth,
+    }),
+
+    refresh: route({
+        method: 'POST',
+        path: '/api/deals/refresh',
+        summary: 'Clear the cache and ingest fresh deals',
+        response: z.object({
+            message: z.string(),
+            dealsCount: z.number(),
+            sources: z.array(sourceResult),
+            fetchTime: z.number(),
+            ingestion: ingestionResult,
+        }),
+    }),
+
+    categories: route({
+        method: 'GET',
+        path: '/api/deals/categories',
+        summary: 'Deal categories',
+        response: z.array(z.object({
+            name: z.string(),
+            label: z.string(),
+            icon: z.string(),
+        })),
+    }),
+
+    featured: route({
+        method: 'GET',
+        path: '/api/deals/featured',
+        summary: 'Featured deals',
+        response: z.array(dealWithMarketplace),
+    }),
+
+    stream: route({
+        method: 'GET',
+        path: '/api/deals/stream',
+        summary: 'Server-Sent Events feed of deal.created, deal.price_changed and deal.expired',
+        query: z.object({
+            category: query.list().optional(),
+            minScore: score.optional(),
+            sources: query.list().optional(),
+            lastEventId: query.number().int().min(0).optional()
+                .describe('Resume point when the Last-Event-ID header cannot be sent'),
+        }),
+        response: dealStreamEvent,
+        stream: true,
+    }),
+
+    get: route({
+        method: 'GET',
+        path: '/api/deals/:id',
+        summary: 'Deal detail with price history and similar deals',
+        params: z.object({ id: z.string() }),
+        response: dealWithMarketplace.extend({
+            priceHistory: z.array(z.object({
+                id: z.string(),
+                dealId: z.string(),
+                price: z.number(),
+                recordedAt: datetime(),
+            })),
+            similarDeals: z.array(dealWithMarketplace),
+        }),
+    }),
+};
@@ -0,0 +1,132 @@
+/**
+ * Listing Routes
+ * Browse and manage P2P marketplace listings. Creating and editing
+ * listings requires a signed-in seller; so does bidding on an auction.
+ */
+
+import { z } from 'zod';
+import { datetime, query } from '../schema';
+import { route } from '../route';
+import { bid, listing, listingCondition, listingLocation, listingShipping, listingStatus, pricingType } from '../models';
+
+const listingParams = z.object({ id: z.string() });
+
+export const listingInput = z.object({
+    title: z.string().nonempty(),
+    description: z.string(),
+    category: z.string().nonempty(),
+    subcategory: z.string().optional(),
+    condition: listingCondition,
+    images: z.array(z.string()).optional(),
+    price: z.number().min(0),
+    originalPrice: z.number().min(0).optional(),
+    originalRetailPrice: z.number().min(0).optional(),
+    pricingType: pricingType.optional(),
+    minimumOffer: z.number().min(0).optional(),
+    shipping: listingShipping.optional(),
+    quantity: z.number().int().min(1).optional(),
+    brand: z.string().optional(),
+    model: z.string().optional(),
+    specs: z.record(z.string(), z.string()).optional(),
+    status: listingStatus.optional(),
+    expiresAt: datetime().optional(),
+    location: listingLocation.optional(),
+    // Required when pricingType is auction; price is the starting bid
+    auction: z.object({
+        endsAt: datetime(),
+        reservePrice: z.number().min(0).optional(),
+        bidIncrement: z.number().positive().optional(),
+    }).optional(),
+});
+
+export const listings = {
+    list: route({
+        method: 'GET',
+        path: '/api/listings',
+        summary: 'Browse listings; sellers may include their own non-active listings',
+        query: z.object({
+            category: z.string().optional(),
+            sellerId: z.string().optional(),
+            status: listingStatus.optional(),
+            q: z.string().optional(),
+            minPrice: query.number().min(0).optional(),
+            maxPrice: query.number().min(0).optional(),
+            sort: z.enum(['recent', 'price-low', 'price-high', 'popular']).optional(),
+            page: query.number().int().min(1).optional(),
+            limit: query.number().int().min(1).max(100).optional(),
+        }),
+        response: z.object({
+            listings: z.array(listing),
+            total: z.number(),
+            page: z.number(),
+            limit: z.number(),
+            totalPages: z.number(),
+        }),
+    }),
+
+    get: route({
+        method: 'GET',
+        path: '/api/listings/:id',
+        summary: 'Listing detail',
+        params: listingParams,
+        response: listing,
+    }),
+
+    create: route({
+        method: 'POST',
+        path: '/api/listings',
+        summary: 'Create a listing as the signed-in seller',
+        auth: 'user',
+        body: listingInput,
+        response: listing,
+        status: 201,
+    }),
+
+    update: route({
+        method: 'PUT',
+        path: '/api/listings/:id',
+        summary: "Update one of the seller's listings",
+        auth: 'user',
+        params: listingParams,
+        body: listingInput.partial(),
+        response: listing,
+    }),
+
+    bids: route({
+        method: 'GET',
+        path: '/api/listings/:id/bids',
+        summary: "An auction's bid history, newest first, with the viewer's own maximum",
+        params: listingParams,
+        response: z.object({
+            bids: z.array(bid),
+            yourMaxBid: z.number().optional(),
+        }),
+    }),
+
+    placeBid: route({
+        method: 'POST',
+        path: '/api/listings/:id/bids',
+        summary: 'Bid on an auction up to a maximum; the price rises only as far as competing bids need',
+        auth: 'user',
+        params: listingParams,
+        body: z.object({
+            maxAmount: z.number().positive(),
+            paymentMethod: z.string().nonempty(),
+        }),
+        response: z.object({
+            listing,
+            leading: z.boolean(),
+            yourMaxBid: z.number(),
+        }),
+        status: 201,
+    }),
+
+    remove: route({
+        method: 'DELETE',
+        path: '/api/listings/:id',
+        summary: 'Take a listing down',
+        auth: 'user',
+        params: listingParams,
+        response: z.object({ success: z.literal(true) }),
+    }),
+};
@@ -0,0 +1,61 @@
+/**
+ * Local Routes
+ * Radius search over stored deals and P2P listings, and the offline
+ * gazetteer behind it.
+ */
+
+import { z } from 'zod';
+import { query } from '../schema';
+import { route } from '../route';
+import { dealWithMarketplace, listing } from '../models';
+
+export const latitude = query.number().min(-90).max(90);
+export const longitude = query.number().min(-180).max(180);
+
+export const geoPoint = z.object({
+    lat: z.number(),
+    lng: z.number(),
+});
+
+export const local = {
+    search: route({
+        method: 'GET',
+        path: '/api/local',
+        summary: 'Deals and listings within a radius of a point',
+        query: z.object({
+            lat: latitude,
+            lng: longitude,
+            radiusMiles: query.number().positive().max(250).default(25),
+            type: z.enum(['all', 'deals', 'listings']).default('all'),
+            category: z.string().optional(),
+            q: z.string().optional(),
+            sort: z.enum(['distance', 'price-low', 'price-high', 'recent']).default('distance'),
+            limit: query.number().int().min(1).max(100).default(30),
+        }),
+        response: z.object({
+            center: geoPoint,
+            radiusMiles: z.number(),
+            deals: z.array(dealWithMarketplace.extend({ distanceMiles: z.number() })),
+            listings: z.array(listing.extend({ distanceMiles: z.number() })),
+        }),
+    }),
+
+    geocode: route({
+        method: 'GET',
+        path: '/api/local/geocode',
+        summary: 'Coordinates for a ZIP code or city, or the nearest city to coordinates',
+        query: z.object({
+            zip: z.string().optional(),
+            city: z.string().optional(),
+            state: z.string().optional(),
+            lat: latitude.optional(),
+            lng: longitude.optional(),
+        }),
+        response: geoPoint.extend({
+            city: z.string(),
+            state: z.string(),
+            zipCode: z.string().optional(),
+            precision: z.enum(['zip', 'zip3', 'city', 'nearest']),
+        }),
+    }),
+};
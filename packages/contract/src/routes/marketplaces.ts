@@ -0,0 +1,27 @@
+/**
+ * Marketplace Directory Routes
+ */
+
+import { z } from 'zod';
+import { route } from '../route';
+import { deal, marketplace } from '../models';
+
+export const marketplaces = {
+    list: route({
+        method: 'GET',
+        path: '/api/marketplaces',
+        summary: 'Marketplaces with deal counts',
+        response: z.array(marketplace.extend({ dealCount: z.number() })),
+    }),
+
+    get: route({
+        method: 'GET',
+        path: '/api/marketplaces/:id',
+        summary: 'Marketplace detail with its top deals',
+        params: z.object({ id: z.string() }),
+        response: marketplace.extend({
+            deals: z.array(deal),
+            _count: z.object({ deals: z.number() }),
+        }),
+    }),
+};
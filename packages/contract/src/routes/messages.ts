@@ -0,0 +1,98 @@
+/**
+ * Messaging Routes
+ * Buyer/seller conversations and the live update stream for the
+ * signed-in user.
+ */
+
+import { z } from 'zod';
+import { datetime, query } from '../schema';
+import { route } from '../route';
+import { conversation, message, offer } from '../models';
+
+const conversationParams = z.object({ id: z.string() });
+
+export const messagingEvent = z.union([
+    z.object({ type: z.literal('message'), conversationId: z.string(), message }),
+    z.object({ type: z.literal('read'), conversationId: z.string(), userId: z.string(), readAt: datetime() }),
+    z.object({ type: z.literal('offer'), offer }),
+]);
+
+export const messages = {
+    conversations: route({
+        method: 'GET',
+        path: '/api/messages/conversations',
+        summary: "The user's conversations, most recent first",
+        auth: 'user',
+        response: z.object({
+            conversations: z.array(conversation),
+        }),
+    }),
+
+    startConversation: route({
+        method: 'POST',
+        path: '/api/messages/conversations',
+        summary: 'Open (or reuse) a conversation with another user, optionally about a listing',
+        auth: 'user',
+        body: z.object({
+            participantId: z.string().nonempty(),
+            listingId: z.string().optional(),
+        }),
+        response: conversation,
+        status: 201,
+    }),
+
+    list: route({
+        method: 'GET',
+        path: '/api/messages/conversations/:id/messages',
+        summary: 'Messages oldest-first; pass before to page back',
+        auth: 'user',
+        params: conversationParams,
+        query: z.object({
+            before: datetime().optional(),
+            limit: query.number().int().min(1).max(100).optional(),
+        }),
+        response: z.object({
+            messages: z.array(message),
+        }),
+    }),
+
+    send: route({
+        method: 'POST',
+        path: '/api/messages/conversations/:id/messages',
+        summary: 'Send a text or image message',
+        auth: 'user',
+        params: conversationParams,
+        body: z.object({
+            content: z.string(),
+            type: z.enum(['text', 'image']).default('text'),
+        }),
+        response: message,
+        status: 201,
+    }),
+
+    markRead: route({
+        method: 'POST',
+        path: '/api/messages/conversations/:id/read',
+        summary: 'Mark the conversation read and notify the other side',
+        auth: 'user',
+        params: conversationParams,
+        response: z.object({ marked: z.number() }),
+    }),
+
+    unread: route({
+        method: 'GET',
+        path: '/api/messages/unread',
+        summary: 'Total unread messages across conversations',
+        auth: 'user',
+        response: z.object({ unread: z.number() }),
+    }),
+
+    stream: route({
+        method: 'GET',
+        path: '/api/messages/stream',
+        summary: 'Server-Sent Events stream of message, read and offer events',
+        auth: 'user',
+        response: messagingEvent,
+        stream: true,
+    }),
+};
@@ -0,0 +1,106 @@
+/**
+ * Offer Routes
+ * Offer threads on negotiable listings and bundles, and sellers' offer
+ * rules. Moves land in the listing's conversation and a thread expires
+ * server-side after 24 hours without an answer.
+ */
+
+import { z } from 'zod';
+import { route } from '../route';
+import { offer, offerRule, offerStatus } from '../models';
+
+const offerParams = z.object({ id: z.string() });
+const ruleParams = z.object({ listingId: z.string() });
+
+// null clears a threshold
+const ruleAmount = z.number().positive().nullable().optional();
+
+export const offers = {
+    list: route({
+        method: 'GET',
+        path: '/api/offers',
+        summary: 'Offers the user made or received',
+        auth: 'user',
+        query: z.object({
+            type: z.enum(['sent', 'received']).optional(),
+            listingId: z.string().optional(),
+            status: offerStatus.optional(),
+        }),
+        response: z.object({
+            offers: z.array(offer),
+        }),
+    }),
+
+    create: route({
+        method: 'POST',
+        path: '/api/offers',
+        summary: 'Make an offer on a listing, or on a bundle of listings from the same seller',
+        auth: 'user',
+        body: z.object({
+            listingId: z.string().nonempty(),
+            bundleListingIds: z.array(z.string().nonempty()).max(9).optional(),
+            amount: z.number().positive(),
+            message: z.string().optional(),
+            paymentMethod: z.string().nonempty().optional(),
+        }),
+        response: offer,
+        status: 201,
+    }),
+
+    respond: route({
+        method: 'POST',
+        path: '/api/offers/:id/respond',
+        summary: 'Accept, decline or counter; the seller answers offers and the buyer answers counters. Accepting places the orders',
+        auth: 'user',
+        params: offerParams,
+        body: z.object({
+            response: z.enum(['accept', 'decline', 'counter']),
+            counterAmount: z.number().positive().optional(),
+            message: z.string().optional(),
+        }),
+        response: offer,
+    }),
+
+    withdraw: route({
+        method: 'POST',
+        path: '/api/offers/:id/withdraw',
+        summary: 'Buyer withdraws an open offer',
+        auth: 'user',
+        params: offerParams,
+        response: offer,
+    }),
+
+    rules: route({
+        method: 'GET',
+        path: '/api/offers/rules',
+        summary: "The seller's offer rules",
+        auth: 'user',
+        response: z.object({
+            rules: z.array(offerRule),
+        }),
+    }),
+
+    setRule: route({
+        method: 'PUT',
+        path: '/api/offers/rules/:listingId',
+        summary: 'Set automatic answers to offers on one of your listings',
+        auth: 'user',
+        params: ruleParams,
+        body: z.object({
+            declineBelow: ruleAmount,
+            acceptAtOrAbove: ruleAmount,
+            counterAt: ruleAmount,
+            enabled: z.boolean().optional(),
+        }),
+        response: offerRule,
+    }),
+
+    removeRule: route({
+        method: 'DELETE',
+        path: '/api/offers/rules/:listingId',
+        summary: 'Remove the offer rule from one of your listings',
+        auth: 'user',
+        params: ruleParams,
+        response: z.object({ success: z.literal(true) }),
+    }),
+};
@@ -0,0 +1,144 @@
+/**
+ * Order Routes
+ * P2P checkout, the order state machine, disputes and post-order reviews.
+ * Every route acts on the signed-in buyer or seller; dispute resolution is
+ * limited to moderators.
+ */
+
+import { z } from 'zod';
+import { datetime } from '../schema';
+import { route } from '../route';
+import {
+    carrier,
+    dispute,
+    disputeOutcome,
+    disputeReason,
+    order,
+    orderStatus,
+    orderTracking,
+    reviewAspects,
+    transactionReview,
+} from '../models';
+
+const orderParams = z.object({ id: z.string() });
+
+export const orders = {
+    list: route({
+        method: 'GET',
+        path: '/api/orders',
+        summary: "The user's orders",
+        auth: 'user',
+        query: z.object({
+            role: z.enum(['buyer', 'seller']).optional(),
+        }),
+        response: z.object({
+            orders: z.array(order),
+        }),
+    }),
+
+    create: route({
+        method: 'POST',
+        path: '/api/orders',
+        summary: 'Check out a listing; payment is held in escrow',
+        auth: 'user',
+        body: z.object({
+            listingId: z.string().nonempty(),
+            paymentMethod: z.string().nonempty(),
+            meetup: z.object({
+                location: z.string().nonempty(),
+                scheduledAt: datetime(),
+            }).optional(),
+        }),
+        response: order,
+        status: 201,
+    }),
+
+    get: route({
+        method: 'GET',
+        path: '/api/orders/:id',
+        summary: 'Order detail with disputes and reviews',
+        auth: 'user',
+        params: orderParams,
+        response: order.extend({
+            disputes: z.array(dispute),
+            reviews: z.array(z.object({
+                id: z.string(),
+                reviewerId: z.string(),
+                revieweeId: z.string(),
+                type: z.string(),
+                rating: z.number(),
+                comment: z.string(),
+                createdAt: datetime(),
+            })),
+        }),
+    }),
+
+    updateStatus: route({
+        method: 'POST',
+        path: '/api/orders/:id/status',
+        summary: 'Move the order through the state machine',
+        auth: 'user',
+        params: orderParams,
+        body: z.object({
+            status: orderStatus,
+            trackingNumber: z.string().optional(),
+            carrier: carrier.optional(),
+            estimatedDelivery: datetime().optional(),
+        }),
+        response: order,
+    }),
+
+    tracking: route({
+        method: 'GET',
+        path: '/api/orders/:id/tracking',
+        summary: 'Shipping details and carrier scans, newest first',
+        auth: 'user',
+        params: orderParams,
+        response: orderTracking,
+    }),
+
+    openDispute: route({
+        method: 'POST',
+        path: '/api/orders/:id/disputes',
+        summary: 'Open a dispute, freezing escrow until support resolves it',
+        auth: 'user',
+        params: orderParams,
+        body: z.object({
+            reason: disputeReason,
+            description: z.string().nonempty(),
+            evidence: z.array(z.string()).optional(),
+        }),
+        response: dispute,
+        status: 201,
+    }),
+
+    resolveDispute: route({
+        method: 'POST',
+        path: '/api/orders/disputes/:disputeId/resolve',
+        summary: 'Support decision on a dispute',
+        auth: ['moderator', 'admin'],
+        params: z.object({ disputeId: z.string() }),
+        body: z.object({
+            outcome: disputeOutcome,
+            amount: z.number().min(0).optional(),
+        }),
+        response: dispute,
+    }),
+
+    review: route({
+        method: 'POST',
+        path: '/api/orders/:id/reviews',
+        summary: 'Review the other party once the order is completed',
+        auth: 'user',
+        params: orderParams,
+        body: z.object({
+            rating: z.number().int().min(1).max(5),
+            title: z.string().optional(),
+            comment: z.string().nonempty(),
+            images: z.array(z.string()).optional(),
+            aspects: reviewAspects.optional(),
+        }),
+        response: transactionReview,
+        status: 201,
+    }),
+};
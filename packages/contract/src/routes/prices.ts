@@ -0,0 +1,17 @@
+/**
+ * Price Routes
+ */
+
+import { z } from 'zod';
+import { route } from '../route';
+import { price } from '../models';
+
+export const prices = {
+    list: route({
+        method: 'GET',
+        path: '/api/prices/:productId',
+        summary: 'Retailer prices for a product, lowest first',
+        params: z.object({ productId: z.string() }),
+        response: z.array(price.extend({ isLowest: z.boolean() })),
+    }),
+};
@@ -0,0 +1,52 @@
+/**
+ * Product Research Routes
+ * Researched products and the live deals matched to each one.
+ */
+
+import { z } from 'zod';
+import { query } from '../schema';
+import { route } from '../route';
+import { dealWithMarketplace, price, product, productReview } from '../models';
+
+const productParams = z.object({ id: z.string() });
+
+export const products = {
+    list: route({
+        method: 'GET',
+        path: '/api/products',
+        summary: 'List researched products',
+        response: z.array(product.extend({ prices: z.array(price) })),
+    }),
+
+    get: route({
+        method: 'GET',
+        path: '/api/products/:id',
+        summary: 'Get a single product with prices and reviews',
+        params: productParams,
+        response: product.extend({
+            prices: z.array(price),
+            reviews: z.array(productReview),
+        }),
+    }),
+
+    offers: route({
+        method: 'GET',
+        path: '/api/products/:id/offers',
+        summary: 'Every live deal matched to a product, cheapest first',
+        params: productParams,
+        query: z.object({
+            condition: z.string().optional(),
+            minConfidence: query.number().min(0).max(1).optional(),
+        }),
+        response: z.object({
+            product,
+            offers: z.array(dealWithMarketplace),
+            summary: z.object({
+                offerCount: z.number(),
+                lowestPrice: z.number().nullable(),
+                highestPrice: z.number().nullable(),
+                marketplaces: z.number(),
+            }),
+        }),
+    }),
+};
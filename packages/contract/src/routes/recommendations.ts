@@ -0,0 +1,32 @@
+/**
+ * Recommendation Routes
+ * Persona matching from the laptop questionnaire.
+ */
+
+import { z } from 'zod';
+import { route } from '../route';
+import { price, product } from '../models';
+
+export const recommendations = {
+    create: route({
+        method: 'POST',
+        path: '/api/recommendations',
+        summary: 'Personalized recommendations from questionnaire answers',
+        body: z.object({
+            primaryUse: z.enum(['work', 'gaming', 'school', 'travel', 'creative']),
+            budget: z.enum(['under-800', '800-1200', '1200-2000', 'over-2000']),
+            priority: z.enum(['portability', 'performance', 'battery', 'display']),
+            importance: z.enum(['weight', 'build-quality', 'upgradeability', 'screen-size']),
+        }),
+        response: z.object({
+            persona: z.string(),
+            personaName: z.string(),
+            personaDescription: z.string(),
+            personaEmoji: z.string(),
+            recommendations: z.array(product.extend({
+                prices: z.array(price),
+                matchScore: z.number(),
+            })),
+        }),
+    }),
+};
@@ -0,0 +1,33 @@
+/**
+ * Review Routes
+ * Public buyer/seller feedback from P2P orders. Reviews are written
+ * through orders.review.
+ */
+
+import { z } from 'zod';
+import { route } from '../route';
+import { transactionReview } from '../models';
+
+export const reviews = {
+    forUser: route({
+        method: 'GET',
+        path: '/api/reviews/users/:userId',
+        summary: 'Reviews a user has received',
+        params: z.object({ userId: z.string() }),
+        response: z.object({
+            reviews: z.array(transactionReview),
+        }),
+    }),
+
+    respond: route({
+        method: 'POST',
+        path: '/api/reviews/:id/response',
+        summary: 'Reply to a review you received',
+        auth: 'user',
+        params: z.object({ id: z.string() }),
+        body: z.object({
+            comment: z.string().nonempty(),
+        }),
+        response: transactionReview,
+    }),
+};
@@ -0,0 +1,85 @@
+/**
+ * Saved Search Routes
+ * Searches stored per user. A scheduled job re-runs them against newly
+ * ingested deals and records what they match.
+ */
+
+import { z } from 'zod';
+import { datetime, query } from '../schema';
+import { route } from '../route';
+import { dealWithMarketplace, savedSearch, savedSearchFilters, success } from '../models';
+
+const savedSearchParams = z.object({ id: z.string() });
+
+export const savedSearches = {
+    list: route({
+        method: 'GET',
+        path: '/api/saved-searches',
+        summary: "The user's saved searches with their new-match counts",
+        auth: 'user',
+        response: z.object({
+            searches: z.array(savedSearch),
+        }),
+    }),
+
+    create: route({
+        method: 'POST',
+        path: '/api/saved-searches',
+        summary: 'Save a search; only deals ingested from now on count as new',
+        auth: 'user',
+        body: z.object({
+            query: z.string().nonempty().max(200),
+            filters: savedSearchFilters.default({}),
+            alertsEnabled: z.boolean().default(true),
+        }),
+        response: savedSearch,
+        status: 201,
+    }),
+
+    update: route({
+        method: 'PATCH',
+        path: '/api/saved-searches/:id',
+        summary: 'Change the query, filters or alert setting',
+        auth: 'user',
+        params: savedSearchParams,
+        body: z.object({
+            query: z.string().nonempty().max(200).optional(),
+            filters: savedSearchFilters.optional(),
+            alertsEnabled: z.boolean().optional(),
+        }),
+        response: savedSearch,
+    }),
+
+    remove: route({
+        method: 'DELETE',
+        path: '/api/saved-searches/:id',
+        summary: 'Delete a saved search',
+        auth: 'user',
+        params: savedSearchParams,
+        response: success,
+    }),
+
+    newMatches: route({
+        method: 'GET',
+        path: '/api/saved-searches/:id/new',
+        summary: 'Deals matched since the user last looked, newest first',
+        auth: 'user',
+        params: savedSearchParams,
+        query: z.object({
+            limit: query.number().int().min(1).max(100).default(50),
+        }),
+        response: z.object({
+            search: savedSearch,
+            deals: z.array(dealWithMarketplace.extend({ matchedAt: datetime() })),
+        }),
+    }),
+
+    markViewed: route({
+        method: 'POST',
+        path: '/api/saved-searches/:id/viewed',
+        summary: 'Mark the current matches as seen, resetting newResults',
+        auth: 'user',
+        params: savedSearchParams,
+        response: savedSearch,
+    }),
+};
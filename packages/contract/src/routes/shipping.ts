@@ -0,0 +1,56 @@
+/**
+ * Shipping Routes
+ * Rate quotes for pricing a listing's shipping, and the webhook carriers
+ * post scan events to. The webhook is signed rather than authenticated:
+ * X-Carrier-Signature carries sha256=<hex HMAC of the raw body>.
+ */
+
+import { z } from 'zod';
+import { datetime, query } from '../schema';
+import { route } from '../route';
+import { carrier, rateQuote, shipmentStatus } from '../models';
+
+const zipCode = z.string().regex(/^\d{5}(-\d{4})?$/);
+
+export const shipping = {
+    rates: route({
+        method: 'GET',
+        path: '/api/shipping/rates',
+        summary: 'Shipping quotes by weight and, when given, the ZIP codes at both ends',
+        query: z.object({
+            weightLbs: query.number().positive().max(150),
+            fromZip: zipCode.optional(),
+            toZip: zipCode.optional(),
+        }),
+        response: z.object({
+            zone: z.number(),
+            distanceMiles: z.number().optional(),
+            quotes: z.array(rateQuote),
+        }),
+    }),
+
+    carrierWebhook: route({
+        method: 'POST',
+        path: '/api/shipping/webhooks/:carrier',
+        summary: "Scan events from a carrier; delivered scans mark shipped orders delivered",
+        params: z.object({ carrier }),
+        body: z.object({
+            events: z.array(z.object({
+                trackingNumber: z.string().nonempty(),
+                status: shipmentStatus,
+                occurredAt: datetime(),
+                description: z.string().optional(),
+                location: z.string().optional(),
+                estimatedDelivery: datetime().optional(),
+            })).nonempty().max(500),
+        }),
+        response: z.object({
+            received: z.number(),
+            recorded: z.number(),
+            duplicates: z.number(),
+            unmatched: z.number(),
+            stale: z.number().describe('Scans from before the order was marked shipped, ignored'),
+            delivered: z.number(),
+        }),
+    }),
+};
@@ -0,0 +1,26 @@
+/**
+ * System Routes
+ */
+
+import { z } from 'zod';
+import { datetime } from '../schema';
+import { route } from '../route';
+
+export const system = {
+    health: route({
+        method: 'GET',
+        path: '/api/health',
+        summary: 'Liveness check',
+        response: z.object({
+            status: z.literal('ok'),
+            timestamp: datetime(),
+        }),
+    }),
+
+    openapi: route({
+        method: 'GET',
+        path: '/api/openapi.json',
+        summary: 'OpenAPI 3.1 document for every route in this contract',
+        response: z.record(z.string(), z.unknown()),
+    }),
+};
@@ -0,0 +1,52 @@
+/**
+ * Schema Helpers
+ * Contract schemas are zod schemas. These helpers cover what the API
+ * needs on top of zod: Dates as they arrive over JSON, and query-string
+ * values, which always arrive as strings.
+ */
+
+import { z } from 'zod';
+
+export type Issue = z.core.$ZodIssue;
+
+export function formatIssue(issue: Issue): string {
+    return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+const DATETIME = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * A Date once it has been through JSON. Also takes a bare date or a
+ * local time, which z.iso.datetime() would reject; price histories are
+ * often sent by day.
+ */
+export function datetime() {
+    return z.string()
+        .refine(value => DATETIME.test(value) && !Number.isNaN(Date.parse(value)), 'Must be a valid datetime')
+        .meta({ format: 'date-time' });
+}
+
+// Lists come comma-separated ("a,b,c"), or as the same parameter repeated
+function splitList(value: unknown): unknown {
+    const values = typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(values) || values.some(item => typeof item !== 'string')) return value;
+    return values.flatMap(item => item.split(',')).map(item => item.trim()).filter(Boolean);
+}
+
+function parseBoolean(value: unknown): unknown {
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+    return value;
+}
+
+/**
+ * Query-string parameters. Callers pass numbers, booleans and arrays;
+ * the client sends them as strings, and these parse them back.
+ */
+export const query = {
+    number: () => z.coerce.number<number>(),
+    // "true"/"false" and "1"/"0"; z.coerce.boolean() would read "false" as true
+    boolean: () => z.preprocess<unknown, z.ZodBoolean, boolean>(parseBoolean, z.boolean()),
+    list: <S extends z.ZodType = z.ZodString>(item?: S) =>
+        z.preprocess<unknown, z.ZodArray<S>, z.input<S>[]>(splitList, z.array((item || z.string()) as S)),
+};